@@ -0,0 +1,138 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+import { findWorkspaceSqlFiles } from "./workspaceLint";
+
+type BaselineWriteResult = {
+	cancelled: boolean;
+	path: string;
+	issues: number;
+	files: number;
+};
+
+/**
+ * Lint the SQL files of a workspace folder and write its baseline.
+ * "create" records every current issue; "update" removes issues of the
+ * existing baseline that were fixed, without adding new ones.
+ */
+export async function writeBaseline(
+	client: LanguageClient,
+	mode: "create" | "update",
+): Promise<void> {
+	const folder = await pickWorkspaceFolder();
+	if (!folder) {
+		return;
+	}
+	const baselineUri = vscode.Uri.joinPath(
+		folder.uri,
+		getBaselineFileName(client),
+	);
+	const exists = await vscode.workspace.fs.stat(baselineUri).then(
+		() => true,
+		() => false,
+	);
+	if (mode === "update" && !exists) {
+		void vscode.window.showInformationMessage(
+			`TSQLRefine: ${folder.name} has no baseline yet. Run "TSQLRefine: Create Baseline" first.`,
+		);
+		return;
+	}
+	if (mode === "create" && exists) {
+		const choice = await vscode.window.showWarningMessage(
+			`TSQLRefine: Replace the baseline of ${folder.name} with every issue found now?`,
+			{ modal: true },
+			"Replace",
+		);
+		if (choice !== "Replace") {
+			return;
+		}
+	}
+
+	await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title:
+				mode === "create"
+					? "TSQLRefine: Creating baseline"
+					: "TSQLRefine: Updating baseline",
+			cancellable: true,
+		},
+		async (progress, token) => {
+			const files = (await findWorkspaceSqlFiles(token)).filter(
+				(file) =>
+					vscode.workspace.getWorkspaceFolder(file)?.uri.toString() ===
+					folder.uri.toString(),
+			);
+			if (token.isCancellationRequested) {
+				return;
+			}
+
+			let reported = 0;
+			const subscription = client.onNotification(
+				"tsqlrefine/workspaceLintProgress",
+				(params: { completed: number; total: number }) => {
+					const percent = (params.completed / params.total) * 100;
+					progress.report({
+						message: `${params.completed}/${params.total} files`,
+						increment: percent - reported,
+					});
+					reported = percent;
+				},
+			);
+			try {
+				const result = await client.sendRequest<BaselineWriteResult>(
+					"tsqlrefine/writeBaseline",
+					{
+						folder: folder.uri.toString(),
+						uris: files.map((file) => file.toString()),
+						mode,
+					},
+					token,
+				);
+				if (result.cancelled) {
+					return;
+				}
+				void vscode.window.showInformationMessage(
+					`TSQLRefine: Baseline of ${folder.name} has ${result.issues} issues in ${result.files} files.`,
+				);
+			} catch (error) {
+				// The client rejects cancelled requests; cancelling is not a failure.
+				if (!token.isCancellationRequested) {
+					throw error;
+				}
+			} finally {
+				subscription.dispose();
+			}
+		},
+	);
+}
+
+/**
+ * Name of the baseline file, from the server's initialization result.
+ */
+function getBaselineFileName(client: LanguageClient): string {
+	const result = client.initializeResult as
+		| { baselineFileName?: unknown }
+		| undefined;
+	if (typeof result?.baselineFileName !== "string") {
+		throw new Error("The language server did not report the baseline file");
+	}
+	return result.baselineFileName;
+}
+
+async function pickWorkspaceFolder(): Promise<
+	vscode.WorkspaceFolder | undefined
+> {
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	if (folders.length === 0) {
+		void vscode.window.showInformationMessage(
+			"TSQLRefine: Open a folder to use a baseline.",
+		);
+		return undefined;
+	}
+	if (folders.length === 1) {
+		return folders[0];
+	}
+	return await vscode.window.showWorkspaceFolderPick({
+		placeHolder: "Workspace folder of the baseline",
+	});
+}
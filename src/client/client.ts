@@ -28,14 +28,41 @@ export function createLanguageClient(
 	});
 
 	const clientOptions: LanguageClientOptions = {
-		documentSelector: ["sql", "tsql", "mssql"].flatMap((language) => [
-			{ scheme: "file", language },
-			{ scheme: "untitled", language },
-		]),
+		// C#, PowerShell and Python are synced only while embedded SQL
+		// (`tsqlrefine.embeddedSql`) is on; the server registers them then.
+		documentSelector: [
+			...["sql", "tsql", "mssql"].flatMap((language) => [
+				{ scheme: "file", language },
+				{ scheme: "untitled", language },
+			]),
+			// SQL cells of Jupyter and other notebooks.
+			...["sql", "tsql", "mssql"].map((language) => ({
+				scheme: "vscode-notebook-cell",
+				language,
+			})),
+		],
 		synchronize: {
 			configurationSection: "tsqlrefine",
+			fileEvents: [
+				// Keeps diagnostics of workspace-linted closed files up to date.
+				vscode.workspace.createFileSystemWatcher("**/*.sql"),
+				// Re-lints open documents when their config file changes.
+				vscode.workspace.createFileSystemWatcher(
+					"**/{tsqlrefine.json,.tsqlrefine.json,tsqlrefine.jsonc,.tsqlrefinerc,package.json}",
+				),
+				// Picks up tsqlrefine pinned in a local dotnet tool manifest.
+				vscode.workspace.createFileSystemWatcher("**/dotnet-tools.json"),
+				// Re-lints when a baseline of pre-existing issues changes.
+				vscode.workspace.createFileSystemWatcher(
+					"**/.tsqlrefine-baseline.json",
+				),
+			],
 		},
 		outputChannel,
+		// Lets the server persist the lint cache (`tsqlrefine.lintCache`).
+		initializationOptions: {
+			globalStoragePath: context.globalStorageUri.fsPath,
+		},
 	};
 
 	return new LanguageClient(
@@ -0,0 +1,72 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+import {
+	buildConfigSchema,
+	type ConfigSchema,
+	type SchemaRule,
+} from "./configSchemaBuilder";
+
+export const CONFIG_SCHEMA_SCHEME = "tsqlrefine-schema";
+
+/** Referenced by the `jsonValidation` contribution in package.json. */
+export const CONFIG_SCHEMA_URI = vscode.Uri.parse(
+	`${CONFIG_SCHEMA_SCHEME}://schemas/tsqlrefine.json`,
+);
+
+/**
+ * Serves the schema for tsqlrefine.json: the bundled schema with the rule
+ * IDs of the installed CLI filled in. Falls back to the bundled schema when
+ * the rules cannot be listed.
+ */
+export class ConfigSchemaProvider
+	implements vscode.TextDocumentContentProvider
+{
+	private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+	readonly onDidChange = this.changeEmitter.event;
+
+	constructor(
+		private readonly extensionUri: vscode.Uri,
+		private readonly getClient: () => Promise<LanguageClient>,
+	) {}
+
+	/**
+	 * Rebuild the schema, e.g. after the CLI or its plugins changed.
+	 */
+	refresh(): void {
+		this.changeEmitter.fire(CONFIG_SCHEMA_URI);
+	}
+
+	async provideTextDocumentContent(): Promise<string> {
+		const bytes = await vscode.workspace.fs.readFile(
+			vscode.Uri.joinPath(
+				this.extensionUri,
+				"schemas",
+				"tsqlrefine.schema.json",
+			),
+		);
+		const baseSchema = JSON.parse(
+			new TextDecoder().decode(bytes),
+		) as ConfigSchema;
+		const schema = buildConfigSchema(baseSchema, await this.loadRules());
+		return JSON.stringify(schema, null, 2);
+	}
+
+	dispose(): void {
+		this.changeEmitter.dispose();
+	}
+
+	private async loadRules(): Promise<SchemaRule[]> {
+		try {
+			const client = await this.getClient();
+			const result = await client.sendRequest<{
+				ok: boolean;
+				rules?: SchemaRule[];
+			}>("tsqlrefine/listRules", {});
+			return result.ok ? (result.rules ?? []) : [];
+		} catch (error) {
+			console.error("tsqlrefine: failed to list rules for the schema", error);
+			return [];
+		}
+	}
+}
@@ -0,0 +1,72 @@
+/** A rule as listed by the server's `tsqlrefine/listRules` request. */
+export type SchemaRule = {
+	id: string;
+	category: string;
+	description?: string;
+	docsUrl?: string;
+	fixable: boolean;
+	defaultSeverity: string;
+};
+
+type RulesSchema = {
+	properties?: Record<string, unknown>;
+	propertyNames?: unknown;
+	[key: string]: unknown;
+};
+
+/** The parts of the bundled config schema that are filled in at runtime. */
+export type ConfigSchema = {
+	properties?: {
+		rules?: RulesSchema;
+		[key: string]: unknown;
+	};
+	[key: string]: unknown;
+};
+
+/**
+ * Add the installed CLI's rules to the bundled config schema: each rule gets
+ * a description for completion and hover, and unknown rule IDs fail
+ * validation. The schema is returned unchanged when no rules are known.
+ */
+export function buildConfigSchema(
+	baseSchema: ConfigSchema,
+	rules: readonly SchemaRule[],
+): ConfigSchema {
+	const baseRules = baseSchema.properties?.rules;
+	if (!baseRules || rules.length === 0) {
+		return baseSchema;
+	}
+	const properties: Record<string, unknown> = { ...baseRules.properties };
+	for (const rule of rules) {
+		properties[rule.id] = {
+			allOf: [{ $ref: "#/definitions/ruleSetting" }],
+			markdownDescription: describeRule(rule),
+		};
+	}
+	return {
+		...baseSchema,
+		properties: {
+			...baseSchema.properties,
+			rules: {
+				...baseRules,
+				properties,
+				propertyNames: {
+					enum: rules.map((rule) => rule.id),
+					errorMessage: "Unknown tsqlrefine rule.",
+				},
+			},
+		},
+	};
+}
+
+function describeRule(rule: SchemaRule): string {
+	const lines = [
+		rule.description ?? rule.id,
+		"",
+		`Category: ${rule.category} · Default: ${rule.defaultSeverity} · Fixable: ${rule.fixable ? "yes" : "no"}`,
+	];
+	if (rule.docsUrl) {
+		lines.push("", `[Documentation](${rule.docsUrl})`);
+	}
+	return lines.join("\n");
+}
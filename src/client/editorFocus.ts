@@ -0,0 +1,44 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+
+/**
+ * Tell the server which documents are in the active and visible editors, so
+ * their lints run before those of background documents, and lints on open
+ * deferred by `runOnOpen: "visibleOnly"` run once they are shown.
+ */
+export function registerEditorFocusSync(
+	context: vscode.ExtensionContext,
+	getClient: () => Promise<LanguageClient>,
+): void {
+	const sync = async () => {
+		try {
+			const client = await getClient();
+			await client.sendNotification("tsqlrefine/editorFocus", {
+				active: vscode.window.activeTextEditor?.document.uri.toString() ?? null,
+				visible: [
+					...vscode.window.visibleTextEditors.map((editor) =>
+						editor.document.uri.toString(),
+					),
+					// Cells scrolled into view of visible notebooks.
+					...vscode.window.visibleNotebookEditors.flatMap((editor) =>
+						editor.visibleRanges.flatMap((range) =>
+							editor.notebook
+								.getCells(range)
+								.map((cell) => cell.document.uri.toString()),
+						),
+					),
+				],
+			});
+		} catch {
+			// The server is not running; it will get the editors on the next change.
+		}
+	};
+
+	context.subscriptions.push(
+		vscode.window.onDidChangeActiveTextEditor(() => void sync()),
+		vscode.window.onDidChangeVisibleTextEditors(() => void sync()),
+		vscode.window.onDidChangeVisibleNotebookEditors(() => void sync()),
+		vscode.window.onDidChangeNotebookEditorVisibleRanges(() => void sync()),
+	);
+	void sync();
+}
@@ -0,0 +1,31 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+
+/**
+ * Print which config file applies to the active SQL file, why it was
+ * chosen, and which files it extends to the TSQLRefine output channel.
+ */
+export async function showEffectiveConfig(
+	client: LanguageClient,
+): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor) {
+		void vscode.window.showInformationMessage(
+			"TSQLRefine: Open a SQL file to show its effective config.",
+		);
+		return;
+	}
+	const result = await client.sendRequest<{
+		ok: boolean;
+		error?: string;
+		text?: string;
+	}>("tsqlrefine/showEffectiveConfig", {
+		uri: editor.document.uri.toString(),
+	});
+	if (!result.ok || result.text === undefined) {
+		throw new Error(result.error ?? "failed to resolve the config");
+	}
+	client.outputChannel.appendLine("[Effective Config]");
+	client.outputChannel.appendLine(result.text);
+	client.outputChannel.show(true);
+}
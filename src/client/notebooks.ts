@@ -0,0 +1,74 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+
+const SQL_CELL_LANGUAGES = new Set(["sql", "tsql", "mssql"]);
+
+/**
+ * Keep the server informed of the SQL code cells of each open notebook, in
+ * notebook order, so `tsqlrefine.notebookLintMode: "notebook"` can lint them
+ * together as one script.
+ */
+export function registerNotebookSync(
+	context: vscode.ExtensionContext,
+	getClient: () => Promise<LanguageClient>,
+): void {
+	const send = async (
+		notebook: vscode.NotebookDocument,
+		cells: string[] | null,
+	) => {
+		try {
+			const client = await getClient();
+			await client.sendNotification("tsqlrefine/notebookCells", {
+				notebook: notebook.uri.toString(),
+				cells,
+			});
+		} catch {
+			// The server is not running; it will get the cells on the next change.
+		}
+	};
+	const sync = (notebook: vscode.NotebookDocument) =>
+		void send(notebook, getSqlCellUris(notebook));
+
+	context.subscriptions.push(
+		vscode.workspace.onDidOpenNotebookDocument(sync),
+		vscode.workspace.onDidChangeNotebookDocument((e) => {
+			// Cell edits do not change the cell list; added or removed cells do.
+			if (e.contentChanges.length > 0) {
+				sync(e.notebook);
+			}
+		}),
+		// Changing a cell's language reopens its document.
+		vscode.workspace.onDidOpenTextDocument((document) => {
+			if (document.uri.scheme !== "vscode-notebook-cell") {
+				return;
+			}
+			const notebook = vscode.workspace.notebookDocuments.find((candidate) =>
+				candidate
+					.getCells()
+					.some(
+						(cell) => cell.document.uri.toString() === document.uri.toString(),
+					),
+			);
+			if (notebook) {
+				sync(notebook);
+			}
+		}),
+		vscode.workspace.onDidCloseNotebookDocument((notebook) => {
+			void send(notebook, null);
+		}),
+	);
+	for (const notebook of vscode.workspace.notebookDocuments) {
+		sync(notebook);
+	}
+}
+
+function getSqlCellUris(notebook: vscode.NotebookDocument): string[] {
+	return notebook
+		.getCells()
+		.filter(
+			(cell) =>
+				cell.kind === vscode.NotebookCellKind.Code &&
+				SQL_CELL_LANGUAGES.has(cell.document.languageId),
+		)
+		.map((cell) => cell.document.uri.toString());
+}
@@ -0,0 +1,162 @@
+import * as path from "node:path";
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+
+/** URI scheme of the virtual documents holding proposed format/fix results. */
+export const PREVIEW_SCHEME = "tsqlrefine-preview";
+
+export type PreviewOperation = "format" | "fix";
+
+type PreviewQuery = {
+	uri: string;
+	operation: PreviewOperation;
+};
+
+/**
+ * Serves the proposed text for open previews.
+ */
+export class PreviewContentProvider
+	implements vscode.TextDocumentContentProvider
+{
+	private readonly contents = new Map<string, string>();
+	private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+	readonly onDidChange = this.changeEmitter.event;
+
+	provideTextDocumentContent(uri: vscode.Uri): string {
+		return this.contents.get(uri.toString()) ?? "";
+	}
+
+	set(uri: vscode.Uri, text: string): void {
+		this.contents.set(uri.toString(), text);
+		this.changeEmitter.fire(uri);
+	}
+
+	delete(uri: vscode.Uri): void {
+		this.contents.delete(uri.toString());
+	}
+
+	dispose(): void {
+		this.contents.clear();
+		this.changeEmitter.dispose();
+	}
+}
+
+/**
+ * Run format or fix for the active document and open a diff editor with the
+ * proposed result. Nothing is applied until the preview is accepted.
+ */
+export async function previewEdit(
+	client: LanguageClient,
+	provider: PreviewContentProvider,
+	operation: PreviewOperation,
+): Promise<void> {
+	const document = vscode.window.activeTextEditor?.document;
+	if (!document) {
+		return;
+	}
+	const result = await client.sendRequest<{
+		ok?: boolean;
+		error?: string;
+		text?: string;
+	}>("tsqlrefine/previewEdit", { uri: document.uri.toString(), operation });
+	if (result?.ok === false || result?.text === undefined) {
+		throw new Error(result?.error ?? `${operation} failed`);
+	}
+	if (result.text === document.getText()) {
+		await client.sendRequest("tsqlrefine/discardPreview", {
+			uri: document.uri.toString(),
+		});
+		void vscode.window.showInformationMessage(
+			`TSQLRefine: ${operation} would not change this document.`,
+		);
+		return;
+	}
+
+	const previewUri = createPreviewUri(document.uri, operation);
+	provider.set(previewUri, result.text);
+	const title = operation === "fix" ? "Fix" : "Format";
+	await vscode.commands.executeCommand(
+		"vscode.diff",
+		document.uri,
+		previewUri,
+		`${path.basename(document.uri.path)} ↔ TSQLRefine ${title} Preview`,
+	);
+}
+
+/**
+ * Apply (or discard) the edits behind a preview and close its diff editor.
+ */
+export async function resolvePreview(
+	client: LanguageClient,
+	provider: PreviewContentProvider,
+	previewUri: vscode.Uri | undefined,
+	accept: boolean,
+): Promise<void> {
+	const uri = previewUri ?? findActivePreviewUri();
+	const query = uri ? parsePreviewUri(uri) : null;
+	if (!uri || !query) {
+		return;
+	}
+	try {
+		const result = await client.sendRequest<{ ok?: boolean; error?: string }>(
+			accept ? "tsqlrefine/applyPreview" : "tsqlrefine/discardPreview",
+			{ uri: query.uri },
+		);
+		if (result?.ok === false) {
+			throw new Error(result.error ?? `${query.operation} failed`);
+		}
+	} finally {
+		await closePreviewTabs(uri);
+		provider.delete(uri);
+	}
+}
+
+function createPreviewUri(
+	documentUri: vscode.Uri,
+	operation: PreviewOperation,
+): vscode.Uri {
+	const query: PreviewQuery = { uri: documentUri.toString(), operation };
+	// Keep the path so the preview gets the same language mode.
+	return vscode.Uri.from({
+		scheme: PREVIEW_SCHEME,
+		path: documentUri.path,
+		query: JSON.stringify(query),
+	});
+}
+
+function parsePreviewUri(uri: vscode.Uri): PreviewQuery | null {
+	if (uri.scheme !== PREVIEW_SCHEME) {
+		return null;
+	}
+	try {
+		const query = JSON.parse(uri.query) as Partial<PreviewQuery>;
+		if (typeof query.uri !== "string") {
+			return null;
+		}
+		return { uri: query.uri, operation: query.operation ?? "format" };
+	} catch {
+		return null;
+	}
+}
+
+function findActivePreviewUri(): vscode.Uri | undefined {
+	const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+	return input instanceof vscode.TabInputTextDiff &&
+		input.modified.scheme === PREVIEW_SCHEME
+		? input.modified
+		: undefined;
+}
+
+async function closePreviewTabs(previewUri: vscode.Uri): Promise<void> {
+	const tabs = vscode.window.tabGroups.all.flatMap((group) =>
+		group.tabs.filter(
+			(tab) =>
+				tab.input instanceof vscode.TabInputTextDiff &&
+				tab.input.modified.toString() === previewUri.toString(),
+		),
+	);
+	if (tabs.length > 0) {
+		await vscode.window.tabGroups.close(tabs);
+	}
+}
@@ -0,0 +1,223 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+
+type RuleSeverity = "error" | "warning" | "info" | "hint" | "off";
+
+type RuleEntry = {
+	id: string;
+	category: string;
+	description?: string;
+	docsUrl?: string;
+	fixable: boolean;
+	defaultSeverity: RuleSeverity;
+	severity: RuleSeverity;
+	configured: boolean;
+};
+
+type ListRulesResult = {
+	ok: boolean;
+	error?: string;
+	configPath?: string;
+	rules?: RuleEntry[];
+};
+
+const SEVERITY_ICONS: Record<RuleSeverity, string> = {
+	error: "error",
+	warning: "warning",
+	info: "info",
+	hint: "lightbulb",
+	off: "circle-slash",
+};
+
+export class CategoryItem extends vscode.TreeItem {
+	constructor(
+		readonly category: string,
+		readonly rules: RuleEntry[],
+	) {
+		super(category, vscode.TreeItemCollapsibleState.Expanded);
+		this.description = `${rules.length}`;
+		this.contextValue = "category";
+	}
+}
+
+export class RuleItem extends vscode.TreeItem {
+	constructor(readonly rule: RuleEntry) {
+		super(rule.id, vscode.TreeItemCollapsibleState.None);
+		const fixable = rule.fixable ? " · fixable" : "";
+		this.description = `${rule.severity}${fixable}`;
+		this.iconPath = new vscode.ThemeIcon(SEVERITY_ICONS[rule.severity]);
+		this.contextValue = rule.severity === "off" ? "rule.off" : "rule.on";
+		const tooltip = new vscode.MarkdownString();
+		tooltip.appendMarkdown(`**${rule.id}** (${rule.category})\n\n`);
+		if (rule.description) {
+			tooltip.appendMarkdown(`${rule.description}\n\n`);
+		}
+		tooltip.appendText(
+			`Severity: ${rule.severity}${rule.configured ? " (from config)" : " (default)"}\n`,
+		);
+		tooltip.appendText(`Autofix: ${rule.fixable ? "yes" : "no"}`);
+		this.tooltip = tooltip;
+	}
+}
+
+type RuleTreeItem = CategoryItem | RuleItem;
+
+/**
+ * Lists the rules known to the installed CLI, grouped by category, with
+ * their effective severity for the active document's config file.
+ */
+export class RuleCatalogProvider
+	implements vscode.TreeDataProvider<RuleTreeItem>
+{
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	private categories: Promise<CategoryItem[]> | null = null;
+
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	constructor(private readonly getClient: () => Promise<LanguageClient>) {}
+
+	refresh(): void {
+		this.categories = null;
+		this.changeEmitter.fire();
+	}
+
+	getTreeItem(element: RuleTreeItem): vscode.TreeItem {
+		return element;
+	}
+
+	async getChildren(element?: RuleTreeItem): Promise<RuleTreeItem[]> {
+		if (element instanceof CategoryItem) {
+			return element.rules.map((rule) => new RuleItem(rule));
+		}
+		if (element) {
+			return [];
+		}
+		this.categories ??= this.loadCategories();
+		return await this.categories;
+	}
+
+	dispose(): void {
+		this.changeEmitter.dispose();
+	}
+
+	private async loadCategories(): Promise<CategoryItem[]> {
+		try {
+			const client = await this.getClient();
+			const result = await client.sendRequest<ListRulesResult>(
+				"tsqlrefine/listRules",
+				{ uri: activeDocumentUri() },
+			);
+			if (!result.ok || !result.rules) {
+				throw new Error(result.error ?? "failed to list rules");
+			}
+			const byCategory = new Map<string, RuleEntry[]>();
+			for (const rule of result.rules) {
+				const rules = byCategory.get(rule.category) ?? [];
+				rules.push(rule);
+				byCategory.set(rule.category, rules);
+			}
+			return [...byCategory].map(
+				([category, rules]) => new CategoryItem(category, rules),
+			);
+		} catch (error) {
+			void vscode.window.showErrorMessage(
+				`TSQLRefine: failed to load rules: ${String(error)}`,
+			);
+			return [];
+		}
+	}
+}
+
+/**
+ * Write a rule's severity to the config file and refresh the catalog.
+ * The server re-lints open documents after the change.
+ */
+export async function setRuleSeverity(
+	client: LanguageClient,
+	provider: RuleCatalogProvider,
+	item: RuleItem | undefined,
+	severity: RuleSeverity | "on" | undefined,
+): Promise<void> {
+	if (!item) {
+		return;
+	}
+	const target = severity ?? (await pickSeverity(item.rule));
+	if (!target) {
+		return;
+	}
+	const result = await client.sendRequest<{
+		ok: boolean;
+		error?: string;
+		configPath?: string;
+	}>("tsqlrefine/setRuleSeverity", {
+		uri: activeDocumentUri(),
+		ruleId: item.rule.id,
+		// Re-enabling a rule restores the CLI default unless it is off by default.
+		severity:
+			target === "on"
+				? item.rule.defaultSeverity === "off"
+					? "warning"
+					: null
+				: target,
+		// The server computes its edit from the file on disk, so it refuses a
+		// config with unsaved changes.
+		unsavedFiles: vscode.workspace.textDocuments
+			.filter((document) => document.isDirty && document.uri.scheme === "file")
+			.map((document) => document.uri.fsPath),
+	});
+	if (!result.ok) {
+		throw new Error(result.error ?? "failed to update the rule");
+	}
+	// The edit leaves the config dirty in its editor; save it so the CLI
+	// (and the config watcher) see the new severity.
+	await vscode.workspace.textDocuments
+		.find(
+			(document) =>
+				document.isDirty &&
+				document.uri.scheme === "file" &&
+				document.uri.fsPath === result.configPath,
+		)
+		?.save();
+	provider.refresh();
+}
+
+/**
+ * Open a rule's documentation in the browser.
+ */
+export async function openRuleDocs(item: RuleItem | undefined): Promise<void> {
+	if (!item) {
+		return;
+	}
+	if (!item.rule.docsUrl) {
+		void vscode.window.showInformationMessage(
+			`TSQLRefine: No documentation link for ${item.rule.id}.`,
+		);
+		return;
+	}
+	await vscode.env.openExternal(vscode.Uri.parse(item.rule.docsUrl));
+}
+
+async function pickSeverity(
+	rule: RuleEntry,
+): Promise<RuleSeverity | undefined> {
+	const severities: RuleSeverity[] = [
+		"error",
+		"warning",
+		"info",
+		"hint",
+		"off",
+	];
+	const picked = await vscode.window.showQuickPick(
+		severities.map((severity) =>
+			severity === rule.severity
+				? { label: severity, description: "current" }
+				: { label: severity },
+		),
+		{ placeHolder: `Severity for ${rule.id}` },
+	);
+	return picked?.label as RuleSeverity | undefined;
+}
+
+function activeDocumentUri(): string | undefined {
+	return vscode.window.activeTextEditor?.document.uri.toString();
+}
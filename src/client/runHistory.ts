@@ -0,0 +1,174 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+import {
+	formatRunDescription,
+	formatRunHistoryExport,
+	getRunStatus,
+	RUN_SORT_LABELS,
+	type RunRecord,
+	type RunSortKey,
+	type RunStatus,
+	sortRunRecords,
+} from "./runHistoryFormat";
+
+const STATUS_ICONS: Record<RunStatus, string> = {
+	ok: "pass",
+	failed: "error",
+	timedOut: "watch",
+	cancelled: "circle-slash",
+};
+
+export class RunItem extends vscode.TreeItem {
+	constructor(readonly run: RunRecord) {
+		super(
+			`${run.operation} ${fileName(run.uri)}`,
+			vscode.TreeItemCollapsibleState.None,
+		);
+		this.description = formatRunDescription(run);
+		this.iconPath = new vscode.ThemeIcon(STATUS_ICONS[getRunStatus(run)]);
+		this.contextValue = "run";
+		const tooltip = new vscode.MarkdownString();
+		tooltip.appendMarkdown(`**${run.operation}** ${run.uri}\n\n`);
+		tooltip.appendText(
+			[
+				`Started: ${new Date(run.startedAt).toLocaleString()}`,
+				`Duration: ${run.durationMs} ms`,
+				`Size: ${run.bytes} bytes${run.files > 1 ? ` in ${run.files} files` : ""}`,
+				`Reason: ${run.reason ?? "-"}`,
+				`Exit code: ${run.exitCode ?? "none"}`,
+				`Diagnostics: ${run.diagnostics ?? "-"}`,
+				`Timed out: ${run.timedOut ? "yes" : "no"}`,
+				`Cancelled: ${run.cancelled ? "yes" : "no"}`,
+			].join("\n"),
+		);
+		if (run.args.length > 0) {
+			tooltip.appendMarkdown("\n\n");
+			tooltip.appendCodeblock(run.args.join(" "), "shell");
+		}
+		if (run.stderr.trim()) {
+			tooltip.appendMarkdown("\n\nstderr:\n");
+			tooltip.appendCodeblock(run.stderr.trim(), "text");
+		}
+		this.tooltip = tooltip;
+	}
+}
+
+/**
+ * Lists the lint, format and fix runs recorded by the server, newest first
+ * or sorted by duration, size or diagnostic count.
+ */
+export class RunHistoryProvider implements vscode.TreeDataProvider<RunItem> {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	private sortKey: RunSortKey = "startedAt";
+
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	constructor(private readonly getClient: () => Promise<LanguageClient>) {}
+
+	get sortLabel(): string {
+		return RUN_SORT_LABELS[this.sortKey];
+	}
+
+	refresh(): void {
+		this.changeEmitter.fire();
+	}
+
+	setSortKey(sortKey: RunSortKey): void {
+		this.sortKey = sortKey;
+		this.refresh();
+	}
+
+	getTreeItem(element: RunItem): vscode.TreeItem {
+		return element;
+	}
+
+	async getChildren(element?: RunItem): Promise<RunItem[]> {
+		if (element) {
+			return [];
+		}
+		try {
+			const records = await requestRunHistory(await this.getClient());
+			return sortRunRecords(records, this.sortKey).map(
+				(record) => new RunItem(record),
+			);
+		} catch (error) {
+			void vscode.window.showErrorMessage(
+				`TSQLRefine: failed to load run history: ${String(error)}`,
+			);
+			return [];
+		}
+	}
+
+	dispose(): void {
+		this.changeEmitter.dispose();
+	}
+}
+
+/**
+ * Ask how to sort the run history.
+ */
+export async function pickRunSortKey(
+	provider: RunHistoryProvider,
+): Promise<void> {
+	const picked = await vscode.window.showQuickPick(
+		(Object.keys(RUN_SORT_LABELS) as RunSortKey[]).map((key) => ({
+			label: RUN_SORT_LABELS[key],
+			key,
+		})),
+		{ placeHolder: "Sort runs by" },
+	);
+	if (picked) {
+		provider.setSortKey(picked.key);
+	}
+}
+
+/**
+ * Save the run history as JSON, e.g. to attach to a bug report.
+ */
+export async function exportRunHistory(client: LanguageClient): Promise<void> {
+	const records = await requestRunHistory(client);
+	const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+	const target = await vscode.window.showSaveDialog({
+		filters: { JSON: ["json"] },
+		saveLabel: "Export",
+		...(folder
+			? {
+					defaultUri: vscode.Uri.joinPath(
+						folder,
+						"tsqlrefine-run-history.json",
+					),
+				}
+			: {}),
+	});
+	if (!target) {
+		return;
+	}
+	// Oldest first, as recorded.
+	await vscode.workspace.fs.writeFile(
+		target,
+		new TextEncoder().encode(formatRunHistoryExport(records, new Date())),
+	);
+	void vscode.window.showInformationMessage(
+		`TSQLRefine: Exported ${records.length} runs to ${target.fsPath}.`,
+	);
+}
+
+/**
+ * Forget the recorded runs.
+ */
+export async function clearRunHistory(
+	client: LanguageClient,
+	provider: RunHistoryProvider,
+): Promise<void> {
+	await client.sendNotification("tsqlrefine/clearRunHistory");
+	provider.refresh();
+}
+
+async function requestRunHistory(client: LanguageClient): Promise<RunRecord[]> {
+	return await client.sendRequest<RunRecord[]>("tsqlrefine/runHistory");
+}
+
+function fileName(uri: string): string {
+	const parsed = vscode.Uri.parse(uri);
+	return parsed.path.split("/").pop() || uri;
+}
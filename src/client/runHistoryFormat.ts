@@ -0,0 +1,104 @@
+/** A CLI run recorded by the server (`tsqlrefine/runHistory`). */
+export type RunRecord = {
+	operation: "lint" | "format" | "fix";
+	uri: string;
+	files: number;
+	reason: string | null;
+	args: string[];
+	exitCode: number | null;
+	startedAt: number;
+	durationMs: number;
+	bytes: number;
+	diagnostics: number | null;
+	timedOut: boolean;
+	cancelled: boolean;
+	stderr: string;
+};
+
+export type RunSortKey = "startedAt" | "durationMs" | "bytes" | "diagnostics";
+
+export const RUN_SORT_LABELS: Record<RunSortKey, string> = {
+	startedAt: "Newest first",
+	durationMs: "Slowest first",
+	bytes: "Largest first",
+	diagnostics: "Most diagnostics first",
+};
+
+export type RunStatus = "ok" | "failed" | "timedOut" | "cancelled";
+
+/**
+ * Order runs by a column, largest (or newest) first. Ties keep the newest
+ * run first.
+ */
+export function sortRunRecords(
+	records: readonly RunRecord[],
+	key: RunSortKey,
+): RunRecord[] {
+	return [...records].sort(
+		(a, b) => (b[key] ?? -1) - (a[key] ?? -1) || b.startedAt - a.startedAt,
+	);
+}
+
+/**
+ * Outcome of a run. Lint exit code 1 means issues were found, not failure.
+ */
+export function getRunStatus(record: RunRecord): RunStatus {
+	if (record.timedOut) {
+		return "timedOut";
+	}
+	if (record.cancelled) {
+		return "cancelled";
+	}
+	const successCodes = record.operation === "lint" ? [0, 1] : [0];
+	return record.exitCode !== null && successCodes.includes(record.exitCode)
+		? "ok"
+		: "failed";
+}
+
+/**
+ * One-line summary shown next to a run: duration, size, reason, result.
+ */
+export function formatRunDescription(record: RunRecord): string {
+	const parts = [`${record.durationMs} ms`, formatBytes(record.bytes)];
+	if (record.files > 1) {
+		parts.push(`${record.files} files`);
+	}
+	if (record.reason) {
+		parts.push(record.reason);
+	}
+	const status = getRunStatus(record);
+	if (status === "timedOut") {
+		parts.push("timed out");
+	} else if (status === "cancelled") {
+		parts.push("cancelled");
+	} else if (status === "failed") {
+		parts.push(`exit ${record.exitCode ?? "none"}`);
+	} else if (record.diagnostics !== null) {
+		parts.push(`${record.diagnostics} diagnostics`);
+	}
+	return parts.join(" · ");
+}
+
+/**
+ * JSON export of the run history, to attach to bug reports.
+ */
+export function formatRunHistoryExport(
+	records: readonly RunRecord[],
+	exportedAt: Date,
+): string {
+	return `${JSON.stringify(
+		{
+			exportedAt: exportedAt.toISOString(),
+			runs: records.map((record) => ({
+				...record,
+				startedAt: new Date(record.startedAt).toISOString(),
+			})),
+		},
+		null,
+		2,
+	)}\n`;
+}
+
+function formatBytes(bytes: number): string {
+	return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
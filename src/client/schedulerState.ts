@@ -0,0 +1,14 @@
+import type { LanguageClient } from "vscode-languageclient/node";
+
+/**
+ * Print the lint scheduler state (concurrency limit, observed CLI latency,
+ * running, queued and debounced lints) to the TSQLRefine output channel.
+ */
+export async function showSchedulerState(
+	client: LanguageClient,
+): Promise<void> {
+	const state = await client.sendRequest<unknown>("tsqlrefine/schedulerState");
+	client.outputChannel.appendLine("[Scheduler State]");
+	client.outputChannel.appendLine(JSON.stringify(state, null, 2));
+	client.outputChannel.show(true);
+}
@@ -3,6 +3,7 @@ import {
 	type DiagnosticCounts,
 	formatStatusBarText,
 	formatStatusBarTooltip,
+	type ToolVersionInfo,
 } from "./statusBarFormat";
 
 function countDiagnostics(): DiagnosticCounts {
@@ -40,6 +41,9 @@ export class StatusBarManager {
 	private statusBarItem: vscode.StatusBarItem | undefined;
 	private runningCount = 0;
 	private disabled = false;
+	private toolVersion: ToolVersionInfo | undefined;
+	private baselined = 0;
+	private ruleOverrides = 0;
 
 	initialize(context: vscode.ExtensionContext): void {
 		this.statusBarItem = vscode.window.createStatusBarItem(
@@ -70,6 +74,21 @@ export class StatusBarManager {
 		this.updateDisplay();
 	}
 
+	setToolVersion(toolVersion: ToolVersionInfo): void {
+		this.toolVersion = toolVersion;
+		this.updateDisplay();
+	}
+
+	setBaselined(count: number): void {
+		this.baselined = count;
+		this.updateDisplay();
+	}
+
+	setRuleOverrides(count: number): void {
+		this.ruleOverrides = count;
+		this.updateDisplay();
+	}
+
 	private updateDisplay(): void {
 		if (!this.statusBarItem) {
 			return;
@@ -80,7 +99,13 @@ export class StatusBarManager {
 			counts,
 			isRunning,
 			this.disabled,
+			this.baselined,
+		);
+		this.statusBarItem.tooltip = formatStatusBarTooltip(
+			counts,
+			this.toolVersion,
+			this.baselined,
+			this.ruleOverrides,
 		);
-		this.statusBarItem.tooltip = formatStatusBarTooltip(counts);
 	}
 }
@@ -5,10 +5,14 @@ export type DiagnosticCounts = {
 	hints: number;
 };
 
+/**
+ * `baselined` is the number of issues hidden by the baseline file.
+ */
 export function formatStatusBarText(
 	counts: DiagnosticCounts,
 	isRunning: boolean,
 	isDisabled: boolean,
+	baselined = 0,
 ): string {
 	if (isDisabled) {
 		return "$(circle-slash) TSQLRefine: Off";
@@ -16,8 +20,9 @@ export function formatStatusBarText(
 	if (isRunning) {
 		return "$(sync~spin) TSQLRefine";
 	}
+	const suffix = baselined > 0 ? ` (${baselined} baselined)` : "";
 	if (counts.errors === 0 && counts.warnings === 0) {
-		return "$(check) TSQLRefine";
+		return `$(check) TSQLRefine${suffix}`;
 	}
 
 	const parts: string[] = [];
@@ -27,15 +32,44 @@ export function formatStatusBarText(
 	if (counts.warnings > 0) {
 		parts.push(`${counts.warnings}W`);
 	}
-	return `$(warning) TSQLRefine: ${parts.join(" ")}`;
+	return `$(warning) TSQLRefine: ${parts.join(" ")}${suffix}`;
 }
 
-export function formatStatusBarTooltip(counts: DiagnosticCounts): string {
+/** CLI version last reported by the server. */
+export type ToolVersionInfo = {
+	version: string;
+	requiredVersion: string | null;
+	matches: boolean;
+};
+
+/**
+ * `ruleOverrides` is the number of entries in `tsqlrefine.ruleOverrides`;
+ * the counts already reflect the overridden severities.
+ */
+export function formatStatusBarTooltip(
+	counts: DiagnosticCounts,
+	toolVersion?: ToolVersionInfo,
+	baselined = 0,
+	ruleOverrides = 0,
+): string {
 	const lines = [
 		`Errors: ${counts.errors}`,
 		`Warnings: ${counts.warnings}`,
 		`Info: ${counts.infos}`,
 		`Hints: ${counts.hints}`,
 	];
+	if (baselined > 0) {
+		lines.push(`Baselined: ${baselined}`);
+	}
+	if (ruleOverrides > 0) {
+		lines.push(`Rule overrides: ${ruleOverrides}`);
+	}
+	if (toolVersion) {
+		lines.push(
+			toolVersion.matches
+				? `tsqlrefine ${toolVersion.version}`
+				: `tsqlrefine ${toolVersion.version} (required: ${toolVersion.requiredVersion})`,
+		);
+	}
 	return `TSQLRefine\n${lines.join("\n")}`;
 }
@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+import { buildExcludeGlob, normalizeIncludeGlob } from "./workspaceLintGlobs";
+
+type WorkspaceLintResult = {
+	linted: number;
+	failed: number;
+	issues: number;
+	cancelled: boolean;
+};
+
+/**
+ * Find the SQL files to lint in all workspace folders, honoring
+ * `files.exclude` and the `tsqlrefine.workspaceLint*` settings.
+ */
+export async function findWorkspaceSqlFiles(
+	token?: vscode.CancellationToken,
+): Promise<vscode.Uri[]> {
+	const config = vscode.workspace.getConfiguration("tsqlrefine");
+	const include = normalizeIncludeGlob(
+		config.get<string>("workspaceLintInclude"),
+	);
+	const exclude = buildExcludeGlob(
+		vscode.workspace
+			.getConfiguration("files")
+			.get<Record<string, unknown>>("exclude"),
+		config.get<string[]>("workspaceLintExclude"),
+	);
+	return await vscode.workspace.findFiles(include, exclude, undefined, token);
+}
+
+/**
+ * Lint every SQL file in the workspace, showing cancellable progress.
+ * Diagnostics for closed files are published by the server and kept up to
+ * date when the files change on disk.
+ */
+export async function lintWorkspace(client: LanguageClient): Promise<void> {
+	await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: "TSQLRefine: Linting workspace",
+			cancellable: true,
+		},
+		async (progress, token) => {
+			const files = await findWorkspaceSqlFiles(token);
+			if (token.isCancellationRequested) {
+				return;
+			}
+			if (files.length === 0) {
+				void vscode.window.showInformationMessage(
+					"TSQLRefine: No SQL files found in the workspace.",
+				);
+				return;
+			}
+
+			let reported = 0;
+			const subscription = client.onNotification(
+				"tsqlrefine/workspaceLintProgress",
+				(params: { completed: number; total: number }) => {
+					const percent = (params.completed / params.total) * 100;
+					progress.report({
+						message: `${params.completed}/${params.total} files`,
+						increment: percent - reported,
+					});
+					reported = percent;
+				},
+			);
+			try {
+				const result = await client.sendRequest<WorkspaceLintResult>(
+					"tsqlrefine/lintWorkspace",
+					{ uris: files.map((file) => file.toString()) },
+					token,
+				);
+				if (result.cancelled) {
+					return;
+				}
+				const failed =
+					result.failed > 0 ? `, ${result.failed} could not be linted` : "";
+				void vscode.window.showInformationMessage(
+					`TSQLRefine: Linted ${result.linted} files, ${result.issues} issues found${failed}.`,
+				);
+			} catch (error) {
+				// The client rejects cancelled requests; cancelling is not a failure.
+				if (!token.isCancellationRequested) {
+					throw error;
+				}
+			} finally {
+				subscription.dispose();
+			}
+		},
+	);
+}
@@ -0,0 +1,39 @@
+/** Default glob for files linted by "TSQLRefine: Lint Workspace". */
+export const DEFAULT_WORKSPACE_LINT_INCLUDE = "**/*.sql";
+
+/**
+ * Build the exclude glob passed to `workspace.findFiles`.
+ *
+ * Passing an explicit exclude pattern disables VS Code's default
+ * `files.exclude` handling, so the enabled `files.exclude` entries are merged
+ * with the extension's own exclude patterns. Returns null when nothing is excluded.
+ */
+export function buildExcludeGlob(
+	filesExclude: Record<string, unknown> | undefined,
+	extraExcludes: readonly string[] | undefined,
+): string | null {
+	const patterns = [
+		...Object.entries(filesExclude ?? {})
+			.filter(([, enabled]) => enabled === true)
+			.map(([pattern]) => pattern),
+		...(extraExcludes ?? []),
+	]
+		.map((pattern) => pattern.trim())
+		.filter((pattern) => pattern.length > 0);
+	const unique = [...new Set(patterns)];
+	if (unique.length === 0) {
+		return null;
+	}
+	if (unique.length === 1) {
+		return unique[0] ?? null;
+	}
+	return `{${unique.join(",")}}`;
+}
+
+/**
+ * Normalize the configured include glob, falling back to the default.
+ */
+export function normalizeIncludeGlob(value: string | undefined): string {
+	const trimmed = value?.trim();
+	return trimmed ? trimmed : DEFAULT_WORKSPACE_LINT_INCLUDE;
+}
@@ -2,9 +2,38 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
 import type { LanguageClient } from "vscode-languageclient/node";
+import { writeBaseline } from "./client/baseline";
 import { createLanguageClient } from "./client/client";
+import {
+	CONFIG_SCHEMA_SCHEME,
+	ConfigSchemaProvider,
+} from "./client/configSchema";
+import { registerEditorFocusSync } from "./client/editorFocus";
+import { showEffectiveConfig } from "./client/effectiveConfig";
 import { handleDidDeleteFiles, handleDidRenameFiles } from "./client/handlers";
+import {
+	PREVIEW_SCHEME,
+	PreviewContentProvider,
+	previewEdit,
+	resolvePreview,
+} from "./client/preview";
+import {
+	openRuleDocs,
+	RuleCatalogProvider,
+	type RuleItem,
+	setRuleSeverity,
+} from "./client/ruleCatalog";
+import { registerNotebookSync } from "./client/notebooks";
+import {
+	clearRunHistory,
+	exportRunHistory,
+	pickRunSortKey,
+	RunHistoryProvider,
+} from "./client/runHistory";
+import { showSchedulerState } from "./client/schedulerState";
 import { StatusBarManager } from "./client/statusBar";
+import type { ToolVersionInfo } from "./client/statusBarFormat";
+import { lintWorkspace } from "./client/workspaceLint";
 
 let client: LanguageClient | undefined;
 export let clientReady: Promise<void> = Promise.resolve();
@@ -37,6 +66,7 @@ export function activate(context: vscode.ExtensionContext): TsqlRefineLiteApi {
 
 	const config = vscode.workspace.getConfiguration("tsqlrefine");
 	statusBarManager.setDisabled(!config.get<boolean>("enableLint", true));
+	statusBarManager.setRuleOverrides(countRuleOverrides(config));
 
 	client.onNotification(
 		"tsqlrefine/operationState",
@@ -44,6 +74,15 @@ export function activate(context: vscode.ExtensionContext): TsqlRefineLiteApi {
 			statusBarManager.setOperationState(params.state);
 		},
 	);
+	client.onNotification("tsqlrefine/toolVersion", (params: ToolVersionInfo) => {
+		statusBarManager.setToolVersion(params);
+	});
+	client.onNotification(
+		"tsqlrefine/baselineStatus",
+		(params: { suppressed: number }) => {
+			statusBarManager.setBaselined(params.suppressed);
+		},
+	);
 
 	context.subscriptions.push(
 		vscode.languages.onDidChangeDiagnostics(() => {
@@ -54,6 +93,11 @@ export function activate(context: vscode.ExtensionContext): TsqlRefineLiteApi {
 				const updated = vscode.workspace.getConfiguration("tsqlrefine");
 				statusBarManager.setDisabled(!updated.get<boolean>("enableLint", true));
 			}
+			if (e.affectsConfiguration("tsqlrefine.ruleOverrides")) {
+				statusBarManager.setRuleOverrides(
+					countRuleOverrides(vscode.workspace.getConfiguration("tsqlrefine")),
+				);
+			}
 		}),
 	);
 
@@ -69,6 +113,216 @@ export function activate(context: vscode.ExtensionContext): TsqlRefineLiteApi {
 	);
 	registerDocumentCommand(context, "tsqlrefine.fix", "fixDocument", "fix");
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand("tsqlrefine.lintWorkspace", async () => {
+			try {
+				await clientReady;
+				if (!client) {
+					throw new Error("Language client is not initialized");
+				}
+				await lintWorkspace(client);
+			} catch (error) {
+				console.error("tsqlrefine: lintWorkspace command failed", error);
+				void vscode.window.showErrorMessage(
+					`TSQLRefine workspace lint failed: ${String(error)}`,
+				);
+			}
+		}),
+	);
+
+	const previewProvider = new PreviewContentProvider();
+	context.subscriptions.push(
+		previewProvider,
+		vscode.workspace.registerTextDocumentContentProvider(
+			PREVIEW_SCHEME,
+			previewProvider,
+		),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.previewFormat",
+		"preview format",
+		async (languageClient) =>
+			previewEdit(languageClient, previewProvider, "format"),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.previewFix",
+		"preview fix",
+		async (languageClient) =>
+			previewEdit(languageClient, previewProvider, "fix"),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.acceptPreview",
+		"apply preview",
+		async (languageClient, uri?: vscode.Uri) =>
+			resolvePreview(languageClient, previewProvider, uri, true),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.discardPreview",
+		"discard preview",
+		async (languageClient, uri?: vscode.Uri) =>
+			resolvePreview(languageClient, previewProvider, uri, false),
+	);
+
+	const configSchema = new ConfigSchemaProvider(
+		context.extensionUri,
+		getReadyClient,
+	);
+	context.subscriptions.push(
+		configSchema,
+		vscode.workspace.registerTextDocumentContentProvider(
+			CONFIG_SCHEMA_SCHEME,
+			configSchema,
+		),
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (
+				e.affectsConfiguration("tsqlrefine.path") ||
+				e.affectsConfiguration("tsqlrefine.allowPlugins")
+			) {
+				configSchema.refresh();
+			}
+		}),
+	);
+
+	registerClientCommand(
+		context,
+		"tsqlrefine.createBaseline",
+		"create baseline",
+		async (languageClient) => writeBaseline(languageClient, "create"),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.updateBaseline",
+		"update baseline",
+		async (languageClient) => writeBaseline(languageClient, "update"),
+	);
+
+	registerClientCommand(
+		context,
+		"tsqlrefine.showEffectiveConfig",
+		"show effective config",
+		async (languageClient) => showEffectiveConfig(languageClient),
+	);
+
+	registerClientCommand(
+		context,
+		"tsqlrefine.showSchedulerState",
+		"show scheduler state",
+		async (languageClient) => showSchedulerState(languageClient),
+	);
+
+	registerNotebookSync(context, getReadyClient);
+	registerEditorFocusSync(context, getReadyClient);
+
+	const runHistory = new RunHistoryProvider(getReadyClient);
+	const runHistoryView = vscode.window.createTreeView("tsqlrefine.runHistory", {
+		treeDataProvider: runHistory,
+	});
+	runHistoryView.description = runHistory.sortLabel;
+	context.subscriptions.push(
+		runHistory,
+		runHistoryView,
+		// Runs are only fetched while the view is shown; catch up when it is.
+		runHistoryView.onDidChangeVisibility((event) => {
+			if (event.visible) {
+				runHistory.refresh();
+			}
+		}),
+		client.onNotification("tsqlrefine/runHistoryChanged", () => {
+			if (runHistoryView.visible) {
+				runHistory.refresh();
+			}
+		}),
+		vscode.commands.registerCommand("tsqlrefine.showRunHistory", async () => {
+			await vscode.commands.executeCommand("tsqlrefine.runHistory.focus");
+			runHistory.refresh();
+		}),
+		vscode.commands.registerCommand("tsqlrefine.refreshRunHistory", () => {
+			runHistory.refresh();
+		}),
+		vscode.commands.registerCommand("tsqlrefine.sortRunHistory", async () => {
+			await pickRunSortKey(runHistory);
+			runHistoryView.description = runHistory.sortLabel;
+		}),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.exportRunHistory",
+		"export run history",
+		async (languageClient) => exportRunHistory(languageClient),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.clearRunHistory",
+		"clear run history",
+		async (languageClient) => clearRunHistory(languageClient, runHistory),
+	);
+
+	const ruleCatalog = new RuleCatalogProvider(getReadyClient);
+	context.subscriptions.push(
+		ruleCatalog,
+		vscode.window.registerTreeDataProvider("tsqlrefine.rules", ruleCatalog),
+		vscode.commands.registerCommand("tsqlrefine.refreshRules", () => {
+			ruleCatalog.refresh();
+			configSchema.refresh();
+		}),
+		vscode.commands.registerCommand(
+			"tsqlrefine.openRuleDocs",
+			async (item?: RuleItem) => openRuleDocs(item),
+		),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.enableRule",
+		"enable rule",
+		async (languageClient, item?: RuleItem) =>
+			setRuleSeverity(languageClient, ruleCatalog, item, "on"),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.disableRule",
+		"disable rule",
+		async (languageClient, item?: RuleItem) =>
+			setRuleSeverity(languageClient, ruleCatalog, item, "off"),
+	);
+	registerClientCommand(
+		context,
+		"tsqlrefine.setRuleSeverity",
+		"set rule severity",
+		async (languageClient, item?: RuleItem) =>
+			setRuleSeverity(languageClient, ruleCatalog, item, undefined),
+	);
+
+	// Invoked from rule-scoped quick fixes; not shown in the Command Palette.
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			"tsqlrefine.fixRule",
+			async (uri: string, ruleId: string, range?: unknown) => {
+				try {
+					await clientReady;
+					if (!client) {
+						throw new Error("Language client is not initialized");
+					}
+					const result = await client.sendRequest<{
+						ok?: boolean;
+						error?: string;
+					}>("tsqlrefine/fixRule", { uri, ruleId, range });
+					if (result?.ok === false) {
+						throw new Error(result.error ?? "fix failed");
+					}
+				} catch (error) {
+					console.error("tsqlrefine: fixRule command failed", error);
+					void vscode.window.showErrorMessage(
+						`TSQLRefine fix failed: ${String(error)}`,
+					);
+				}
+			},
+		),
+	);
+
 	const LANGUAGE_IDS = ["sql", "tsql", "mssql"] as const;
 	const EXTENSION_ID = "masmgr.tsqlrefine";
 
@@ -159,6 +413,39 @@ function registerDocumentCommand(
 	);
 }
 
+function registerClientCommand<TArgs extends unknown[]>(
+	context: vscode.ExtensionContext,
+	commandId: string,
+	operationName: string,
+	run: (client: LanguageClient, ...args: TArgs) => Promise<void>,
+): void {
+	context.subscriptions.push(
+		vscode.commands.registerCommand(commandId, async (...args: TArgs) => {
+			try {
+				await run(await getReadyClient(), ...args);
+			} catch (error) {
+				console.error(`tsqlrefine: ${operationName} command failed`, error);
+				void vscode.window.showErrorMessage(
+					`TSQLRefine ${operationName} failed: ${String(error)}`,
+				);
+			}
+		}),
+	);
+}
+
+async function getReadyClient(): Promise<LanguageClient> {
+	await clientReady;
+	if (!client) {
+		throw new Error("Language client is not initialized");
+	}
+	return client;
+}
+
+function countRuleOverrides(config: vscode.WorkspaceConfiguration): number {
+	return Object.keys(config.get<Record<string, string>>("ruleOverrides") ?? {})
+		.length;
+}
+
 const CONFLICTING_FORMATTER_EXTENSIONS = ["ms-mssql.mssql"] as const;
 const SUPPRESS_FORMATTER_SUGGESTION_KEY =
 	"tsqlrefine.suppressDefaultFormatterSuggestion";
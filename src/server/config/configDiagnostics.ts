@@ -0,0 +1,91 @@
+import type { Connection, Diagnostic } from "vscode-languageserver/node";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import { firstLine } from "../shared/textUtils";
+import { getConfigSourcePath } from "./resolveConfigPath";
+
+/** CLI exit code for an invalid config file. */
+export const CONFIG_ERROR_EXIT_CODE = 3;
+
+/** System.Text.Json error location, e.g. "LineNumber: 3 | BytePositionInLine: 12" (0-based). */
+const JSON_EXCEPTION_LOCATION =
+	/LineNumber:\s*(\d+)\s*\|\s*BytePositionInLine:\s*(\d+)/i;
+
+/** Generic error location, e.g. "line 4, column 13" (1-based). */
+const LINE_COLUMN_LOCATION =
+	/\bline\s+(\d+)(?:\s*,?\s*(?:column|col|position)\s+(\d+))?/i;
+
+/**
+ * Build a diagnostic for a config error reported on stderr. The position is
+ * taken from the message when the CLI includes one, otherwise the diagnostic
+ * is placed at the start of the file.
+ */
+export function createConfigErrorDiagnostic(stderr: string): Diagnostic {
+	const message = stderr.trim() || "Invalid tsqlrefine configuration";
+	let line = 0;
+	let character = 0;
+	const jsonLocation = JSON_EXCEPTION_LOCATION.exec(message);
+	const lineColumn = jsonLocation ? null : LINE_COLUMN_LOCATION.exec(message);
+	if (jsonLocation) {
+		line = Number(jsonLocation[1]);
+		character = Number(jsonLocation[2]);
+	} else if (lineColumn) {
+		line = Math.max(0, Number(lineColumn[1]) - 1);
+		character = Math.max(0, Number(lineColumn[2] ?? 1) - 1);
+	}
+	return {
+		range: {
+			start: { line, character },
+			end: { line, character: character + 1 },
+		},
+		severity: DiagnosticSeverity.Error,
+		source: "tsqlrefine",
+		message: firstLine(message),
+	};
+}
+
+/**
+ * Publishes CLI configuration errors as diagnostics on the config file that
+ * caused them, and clears them once a run with that config file succeeds.
+ */
+export class ConfigDiagnostics {
+	/** Config file URIs that currently have an error published. */
+	private readonly reportedUris = new Set<string>();
+
+	constructor(private readonly connection: Connection) {}
+
+	/**
+	 * Record the outcome of a CLI run that used `configPath`. Errors in a
+	 * config extracted from package.json are reported on the package.json.
+	 */
+	update(configPath: string, exitCode: number | null, stderr: string): void {
+		const sourcePath = getConfigSourcePath(configPath);
+		const uri = URI.file(sourcePath).toString();
+		if (exitCode === CONFIG_ERROR_EXIT_CODE) {
+			const diagnostic = createConfigErrorDiagnostic(stderr);
+			if (sourcePath !== configPath) {
+				// Positions refer to the extracted file, not the package.json.
+				diagnostic.range = {
+					start: { line: 0, character: 0 },
+					end: { line: 0, character: 1 },
+				};
+			}
+			this.reportedUris.add(uri);
+			this.connection.sendDiagnostics({ uri, diagnostics: [diagnostic] });
+			return;
+		}
+		if (exitCode !== null && exitCode < 2 && this.reportedUris.delete(uri)) {
+			this.connection.sendDiagnostics({ uri, diagnostics: [] });
+		}
+	}
+
+	/**
+	 * Remove the error published for a config file, e.g. after it was deleted.
+	 */
+	clear(configPath: string): void {
+		const uri = URI.file(getConfigSourcePath(configPath)).toString();
+		if (this.reportedUris.delete(uri)) {
+			this.connection.sendDiagnostics({ uri, diagnostics: [] });
+		}
+	}
+}
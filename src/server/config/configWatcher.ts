@@ -0,0 +1,52 @@
+import * as path from "node:path";
+import { normalizeForCompare } from "../shared/normalize";
+import { DEFAULT_CONFIG_SEARCH_ORDER } from "./constants";
+import { getConfigSourcePath } from "./resolveConfigPath";
+
+export type FindConfigDependentsOptions = {
+	/** URIs of the open documents. */
+	uris: readonly string[];
+	/** Config files that were created, changed or deleted. */
+	configPaths: readonly string[];
+	/** Resolve a document's effective config file. */
+	resolveConfigPath: (uri: string) => Promise<string | undefined>;
+	/** Forget cached config lookups so the next resolution sees the change. */
+	invalidate: () => void;
+};
+
+/**
+ * Whether a watched file is a config file found by `resolveConfigPath`.
+ */
+export function isConfigFilePath(filePath: string): boolean {
+	return DEFAULT_CONFIG_SEARCH_ORDER.includes(path.basename(filePath));
+}
+
+/**
+ * Find the documents affected by config file changes.
+ *
+ * Each document's effective config is resolved before and after the lookup
+ * cache is invalidated, so documents that switch to a new config file and
+ * documents whose config file was deleted are both included. Documents that
+ * use a different config file are skipped.
+ */
+export async function findConfigDependents(
+	options: FindConfigDependentsOptions,
+): Promise<string[]> {
+	// Configs extracted from package.json are compared as their package.json.
+	const normalize = (configPath: string) =>
+		normalizeForCompare(getConfigSourcePath(configPath));
+	const changed = new Set(options.configPaths.map(normalize));
+	const uses = (configPath: string | undefined) =>
+		configPath !== undefined && changed.has(normalize(configPath));
+
+	const before = await Promise.all(
+		options.uris.map((uri) => options.resolveConfigPath(uri)),
+	);
+	options.invalidate();
+	const after = await Promise.all(
+		options.uris.map((uri) => options.resolveConfigPath(uri)),
+	);
+	return options.uris.filter(
+		(_, index) => uses(before[index]) || uses(after[index]),
+	);
+}
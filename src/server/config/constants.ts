@@ -9,12 +9,56 @@ export const COMMAND_CACHE_TTL_MS = 30000;
 /** Timeout for command availability checks (3 seconds) */
 export const COMMAND_CHECK_TIMEOUT_MS = 3000;
 
+/** Timeout for each git command used by `tsqlrefine.diagnosticsScope` (5 seconds) */
+export const GIT_TIMEOUT_MS = 5000;
+
+/** Cache TTL for the Git base commit of a directory (5 seconds) */
+export const GIT_BASE_CACHE_TTL_MS = 5000;
+
+/** Maximum file versions kept from the Git base */
+export const GIT_BASE_TEXT_CACHE_MAX_SIZE = 100;
+
 /** Cache TTL for config file resolution (5 seconds) */
 export const CONFIG_CACHE_TTL_MS = 5000;
 
 /** Maximum entries in config path cache */
 export const CONFIG_CACHE_MAX_SIZE = 100;
 
+/** Age after which an unused config extracted from package.json is deleted (7 days) */
+export const EXTRACTED_CONFIG_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Interval after which an extracted package.json config is checked without a watcher event (1 hour) */
+export const EXTRACTED_CONFIG_RECHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Config file names tried in each directory, in default priority order.
+ * `package.json` stands for its `tsqlrefine` key and is only used at the
+ * workspace root.
+ */
+export const DEFAULT_CONFIG_SEARCH_ORDER: readonly string[] = [
+	"tsqlrefine.json",
+	".tsqlrefine.json",
+	"tsqlrefine.jsonc",
+	".tsqlrefinerc",
+	"package.json",
+];
+
+/** Baseline of pre-existing issues, at the root of each workspace folder */
+export const BASELINE_FILE_NAME = ".tsqlrefine-baseline.json";
+
+/** Language IDs of SQL documents; the client syncs the same list. */
+export const SQL_LANGUAGE_IDS: readonly string[] = ["sql", "tsql", "mssql"];
+
+/**
+ * Patterns that mark a string literal in C#, PowerShell or Python as SQL:
+ * a `/* tsql *\/`, `// tsql`, `# tsql` or `<# tsql #>` comment just before
+ * the literal or on the line above it.
+ */
+export const DEFAULT_EMBEDDED_SQL_MARKERS: readonly string[] = [
+	"/\\*\\s*tsql\\s*\\*/",
+	"(?://|#)\\s*tsql\\b",
+];
+
 /**
  * Cache TTL for per-document settings resolution (2 seconds).
  * Short-lived to avoid repeated LSP round-trips during rapid typing while
@@ -26,9 +70,49 @@ export const DOCUMENT_SETTINGS_CACHE_TTL_MS = 2000;
 /** Maximum entries in per-document settings cache */
 export const DOCUMENT_SETTINGS_CACHE_MAX_SIZE = 100;
 
-/** Maximum concurrent lint operations */
+/** Maximum concurrent lint operations when `maxConcurrentRuns` is 0 (automatic) */
 export const MAX_CONCURRENT_RUNS = 4;
 
+/**
+ * Average CLI latency below which the scheduler never lowers concurrency
+ * (200 ms). Short runs vary too much to tell contention from noise.
+ */
+export const ADAPTIVE_CONCURRENCY_MIN_LATENCY_MS = 200;
+
+/**
+ * The scheduler runs fewer lints at once when the average CLI latency grows
+ * beyond this multiple of the latency it observed with less load.
+ */
+export const ADAPTIVE_CONCURRENCY_SLOWDOWN_FACTOR = 2;
+
+/** Maximum lint results kept by the result cache (`tsqlrefine.lintCache`) */
+export const LINT_CACHE_MAX_ENTRIES = 500;
+
+/** Delay before a changed lint cache is written to global storage (5 seconds) */
+export const LINT_CACHE_SAVE_DELAY_MS = 5000;
+
+/** File of the persisted lint cache in the extension's global storage */
+export const LINT_CACHE_FILE_NAME = "lint-cache.json";
+
+/**
+ * How long the lint cache trusts an executable identity or config hash
+ * without a watcher or settings event (1 minute); covers executables on PATH
+ * that no watcher sees
+ */
+export const LINT_CACHE_IDENTITY_TTL_MS = 60 * 1000;
+
+/**
+ * How long the scheduler waits idle before linting a document whose lint on
+ * open was deferred by `runOnOpen: "visibleOnly"` (3 seconds)
+ */
+export const DEFERRED_OPEN_LINT_IDLE_MS = 3000;
+
+/** CLI runs kept for "Show Run History" */
+export const RUN_HISTORY_MAX_ENTRIES = 500;
+
+/** Characters of stderr kept per run in the run history */
+export const RUN_HISTORY_MAX_STDERR_LENGTH = 4000;
+
 /** Cooldown for missing tsqlrefine notification (5 minutes) */
 export const MISSING_TSQLREFINE_NOTICE_COOLDOWN_MS = 5 * 60 * 1000;
 
@@ -41,6 +125,24 @@ export const DEFAULT_COMMAND_NAME = "tsqlrefine";
 /** Maximum combined stdout+stderr buffer size (10 MB) */
 export const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
 
+/** Arguments that start tsqlrefine in worker (daemon) mode */
+export const WORKER_ARGS = ["daemon", "--stdio"];
+
+/** Timeout for a worker to report it is ready (15 seconds, covers .NET cold start) */
+export const WORKER_STARTUP_TIMEOUT_MS = 15000;
+
+/** Worker restarts tolerated within the restart window before falling back to spawning */
+export const MAX_WORKER_RESTARTS = 3;
+
+/** Window for counting worker restarts (1 minute) */
+export const WORKER_RESTART_WINDOW_MS = 60 * 1000;
+
+/** First pause before starting a worker again after it failed (30 seconds) */
+export const WORKER_RETRY_DELAY_MS = 30 * 1000;
+
+/** Longest pause between worker start attempts (10 minutes) */
+export const WORKER_MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
 /** Human-readable descriptions for CLI exit codes >= 2 */
 export const CLI_EXIT_CODE_DESCRIPTIONS: Record<number, string> = {
 	2: "SQL parse error",
@@ -0,0 +1,167 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { normalizeForCompare } from "../shared/normalize";
+import { parseJsonc } from "./jsonc";
+import {
+	type ConfigSource,
+	isRelativeReference,
+	PACKAGE_JSON_FILE_NAME,
+	readPackageJsonConfig,
+} from "./resolveConfigPath";
+
+/** Deepest `extends` chain followed before giving up. */
+const MAX_EXTENDS_DEPTH = 10;
+
+/** One `extends` reference found while following a config file. */
+export type ExtendsEntry = {
+	/** The reference as written in the config file. */
+	reference: string;
+	/** 1 for references in the effective config, 2 for theirs, and so on. */
+	depth: number;
+	/** Resolved file, for references to files. */
+	path?: string;
+	status: "ok" | "missing" | "invalid" | "cycle" | "preset";
+};
+
+/**
+ * Follow the `extends` references of a config file, depth first.
+ * References that are not relative or absolute paths are reported as
+ * presets of the CLI and not followed.
+ */
+export async function collectExtends(
+	configPath: string,
+): Promise<ExtendsEntry[]> {
+	const entries: ExtendsEntry[] = [];
+	const visit = async (
+		filePath: string,
+		depth: number,
+		ancestors: readonly string[],
+	): Promise<void> => {
+		const config = await readConfigObject(filePath);
+		if (!config || depth > MAX_EXTENDS_DEPTH) {
+			return;
+		}
+		for (const reference of readExtends(config)) {
+			if (!isRelativeReference(reference) && !path.isAbsolute(reference)) {
+				entries.push({ reference, depth, status: "preset" });
+				continue;
+			}
+			const resolved = path.resolve(path.dirname(filePath), reference);
+			const key = normalizeForCompare(resolved);
+			if (ancestors.includes(key)) {
+				entries.push({ reference, depth, path: resolved, status: "cycle" });
+				continue;
+			}
+			const status = await getFileStatus(resolved);
+			entries.push({ reference, depth, path: resolved, status });
+			if (status === "ok") {
+				await visit(resolved, depth + 1, [...ancestors, key]);
+			}
+		}
+	};
+	await visit(configPath, 1, [normalizeForCompare(configPath)]);
+	return entries;
+}
+
+/**
+ * Describe the effective config of a file for the "Show Effective Config"
+ * command: which config was chosen, why, and what it extends.
+ */
+export function formatEffectiveConfig(
+	filePath: string,
+	source: ConfigSource,
+	extendsEntries: readonly ExtendsEntry[],
+): string {
+	const lines = [`File: ${filePath || "(untitled)"}`];
+	switch (source.kind) {
+		case "setting":
+			lines.push(
+				`Config: ${source.path}`,
+				`Reason: set by the tsqlrefine.configPath setting ("${source.configuredValue}")`,
+			);
+			break;
+		case "file":
+			lines.push(
+				`Config: ${source.path}`,
+				`Reason: nearest config file, searching from ${source.startDir} up to ${source.stopDir}`,
+				`Search order: ${source.searchOrder.join(", ")}`,
+			);
+			break;
+		case "packageJson":
+			lines.push(
+				`Config: "tsqlrefine" key in ${source.path}`,
+				`Reason: no config file found from ${source.startDir} up to ${source.stopDir}; using the repo-level ${PACKAGE_JSON_FILE_NAME}`,
+				`Search order: ${source.searchOrder.join(", ")}`,
+			);
+			break;
+		case "none":
+			lines.push(
+				"Config: none (tsqlrefine built-in defaults)",
+				source.startDir && source.stopDir
+					? `Reason: no config file found from ${source.startDir} up to ${source.stopDir}`
+					: "Reason: the file is not saved in a folder, so no config file is searched",
+				`Search order: ${source.searchOrder.join(", ")}`,
+			);
+			break;
+	}
+	if (source.kind !== "none") {
+		lines.push(
+			extendsEntries.length === 0 ? "Extends: (nothing)" : "Extends:",
+			...extendsEntries.map(formatExtendsEntry),
+		);
+	}
+	return lines.join("\n");
+}
+
+function formatExtendsEntry(entry: ExtendsEntry): string {
+	const indent = "  ".repeat(entry.depth);
+	const target = entry.path ? ` -> ${entry.path}` : "";
+	const notes: Record<ExtendsEntry["status"], string> = {
+		ok: "",
+		missing: " (not found)",
+		invalid: " (not valid JSON)",
+		cycle: " (circular reference, not followed)",
+		preset: " (preset)",
+	};
+	return `${indent}${entry.reference}${target}${notes[entry.status]}`;
+}
+
+function readExtends(config: { extends?: unknown }): string[] {
+	const value = config.extends;
+	const references = Array.isArray(value) ? value : [value];
+	return references.filter(
+		(reference): reference is string =>
+			typeof reference === "string" && reference.length > 0,
+	);
+}
+
+async function readConfigObject(
+	filePath: string,
+): Promise<{ extends?: unknown } | null> {
+	if (path.basename(filePath) === PACKAGE_JSON_FILE_NAME) {
+		return await readPackageJsonConfig(filePath);
+	}
+	try {
+		const parsed = parseJsonc(await fs.readFile(filePath, "utf8"));
+		return typeof parsed === "object" && parsed !== null ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+async function getFileStatus(
+	filePath: string,
+): Promise<"ok" | "missing" | "invalid"> {
+	let text: string;
+	try {
+		text = await fs.readFile(filePath, "utf8");
+	} catch {
+		return "missing";
+	}
+	try {
+		parseJsonc(text);
+		return "ok";
+	} catch {
+		return "invalid";
+	}
+}
@@ -0,0 +1,79 @@
+/**
+ * Parse JSON with comments (`//` and `/* *\/`) and trailing commas, as
+ * accepted in tsqlrefine config files. Throws a SyntaxError like JSON.parse.
+ */
+export function parseJsonc(text: string): unknown {
+	return JSON.parse(stripJsoncSyntax(text.replace(/^\uFEFF/, "")));
+}
+
+/**
+ * Replace comments with whitespace and drop trailing commas, leaving string
+ * contents untouched.
+ */
+function stripJsoncSyntax(text: string): string {
+	let result = "";
+	let index = 0;
+	while (index < text.length) {
+		const ch = text[index];
+		const next = text[index + 1];
+		if (ch === '"') {
+			const end = findStringEnd(text, index);
+			result += text.slice(index, end);
+			index = end;
+		} else if (ch === "/" && next === "/") {
+			const end = text.indexOf("\n", index);
+			index = end === -1 ? text.length : end;
+		} else if (ch === "/" && next === "*") {
+			const end = text.indexOf("*/", index + 2);
+			index = end === -1 ? text.length : end + 2;
+			result += " ";
+		} else if (ch === "," && isTrailingComma(text, index + 1)) {
+			index++;
+		} else {
+			result += ch;
+			index++;
+		}
+	}
+	return result;
+}
+
+function findStringEnd(text: string, start: number): number {
+	let index = start + 1;
+	while (index < text.length) {
+		const ch = text[index];
+		if (ch === "\\") {
+			index += 2;
+			continue;
+		}
+		index++;
+		if (ch === '"') {
+			break;
+		}
+	}
+	return index;
+}
+
+/** Whether only whitespace and comments separate a comma from `}` or `]`. */
+function isTrailingComma(text: string, start: number): boolean {
+	const next = nextSignificantChar(text, start);
+	return next === "}" || next === "]";
+}
+
+function nextSignificantChar(text: string, start: number): string {
+	let index = start;
+	while (index < text.length) {
+		const ch = text[index];
+		if (ch === " " || ch === "\t" || ch === "\r" || ch === "\n") {
+			index++;
+		} else if (ch === "/" && text[index + 1] === "/") {
+			const end = text.indexOf("\n", index);
+			index = end === -1 ? text.length : end;
+		} else if (ch === "/" && text[index + 1] === "*") {
+			const end = text.indexOf("*/", index + 2);
+			index = end === -1 ? text.length : end + 2;
+		} else {
+			return ch ?? "";
+		}
+	}
+	return "";
+}
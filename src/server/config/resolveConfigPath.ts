@@ -1,9 +1,49 @@
+import { createHash } from "node:crypto";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import { CONFIG_CACHE_MAX_SIZE, CONFIG_CACHE_TTL_MS } from "./constants";
+import {
+	CONFIG_CACHE_MAX_SIZE,
+	CONFIG_CACHE_TTL_MS,
+	DEFAULT_CONFIG_SEARCH_ORDER,
+	EXTRACTED_CONFIG_MAX_AGE_MS,
+	EXTRACTED_CONFIG_RECHECK_MS,
+} from "./constants";
 import { normalizeForCompare } from "../shared/normalize";
+import { parseJsonc } from "./jsonc";
 
-const defaultConfigFileNames = ["tsqlrefine.json"];
+/** Config file created when a setting is written and no config file exists. */
+export const DEFAULT_CONFIG_FILE_NAME = "tsqlrefine.json";
+
+/** Repo-level settings file whose `tsqlrefine` key can hold the config. */
+export const PACKAGE_JSON_FILE_NAME = "package.json";
+
+/** Key in package.json that holds the tsqlrefine config. */
+const PACKAGE_JSON_CONFIG_KEY = "tsqlrefine";
+
+/** Directory in the extension's storage for configs extracted from package.json. */
+export const EXTRACTED_CONFIG_DIR_NAME = "extracted-configs";
+
+/**
+ * Directory the configs extracted from package.json are written to; null
+ * until the server knows the extension's storage path.
+ */
+let extractedConfigDir: string | null = null;
+
+/** package.json path of each extracted config, keyed by normalized extracted path. */
+const extractedSources = new Map<string, string>();
+
+type ExtractedConfig = {
+	/** Extracted file, or undefined when package.json has no config. */
+	path: string | undefined;
+	/** package.json modification time and size when it was last read. */
+	mtimeMs: number;
+	size: number;
+	/** When package.json was last checked; 0 forces a check. */
+	checkedAtMs: number;
+};
+
+/** Extraction results keyed by normalized package.json path. */
+const extractedConfigs = new Map<string, ExtractedConfig>();
 
 type CacheEntry = {
 	value: string | null;
@@ -36,33 +76,344 @@ function evictStaleEntries(): void {
 	}
 }
 
+/**
+ * Forget cached config file lookups, e.g. after a config file was created or
+ * deleted.
+ */
+export function clearConfigPathCache(): void {
+	cache.clear();
+}
+
 export type ResolveConfigPathOptions = {
 	configuredConfigPath: string | undefined;
 	filePath: string | null;
 	workspaceRoot: string | null;
+	/** Config file names tried in each directory (`configSearchOrder` setting). */
+	searchOrder?: readonly string[] | undefined;
 };
 
+/** Where the effective config comes from, and why it was chosen. */
+export type ConfigSource =
+	| {
+			/** Set by the `configPath` setting. */
+			kind: "setting";
+			path: string;
+			configuredValue: string;
+	  }
+	| {
+			/** Nearest config file found by searching upward. */
+			kind: "file" | "packageJson";
+			path: string;
+			startDir: string;
+			stopDir: string;
+			searchOrder: readonly string[];
+	  }
+	| {
+			/** No config file; the CLI uses its defaults. */
+			kind: "none";
+			startDir: string | null;
+			stopDir: string | null;
+			searchOrder: readonly string[];
+	  };
+
+/**
+ * Resolve the config file passed to the CLI. A config held in package.json
+ * is extracted to a temporary file, since the CLI reads standalone files.
+ */
 export async function resolveConfigPath(
 	options: ResolveConfigPathOptions,
 ): Promise<string | undefined> {
+	const source = await resolveConfigSource(options);
+	if (source.kind !== "packageJson" && source.kind !== "setting") {
+		await discardExtractedConfig(
+			path.join(source.stopDir ?? "", PACKAGE_JSON_FILE_NAME),
+		);
+	}
+	switch (source.kind) {
+		case "none":
+			return undefined;
+		case "packageJson":
+			return await extractPackageJsonConfig(source.path);
+		default:
+			return source.path;
+	}
+}
+
+/**
+ * Determine which config file applies to a document: the `configPath`
+ * setting when set, otherwise the nearest file named in the search order,
+ * from the document's directory up to the workspace root.
+ */
+export async function resolveConfigSource(
+	options: ResolveConfigPathOptions,
+): Promise<ConfigSource> {
 	const configured = normalizeConfiguredConfigPath(
 		options.configuredConfigPath,
 	);
 	const baseDir = resolveBaseDir(options.filePath, options.workspaceRoot);
+	const searchOrder = options.searchOrder ?? DEFAULT_CONFIG_SEARCH_ORDER;
 
 	if (configured) {
-		return expandPlaceholders(configured, options.filePath, baseDir);
+		return {
+			kind: "setting",
+			path: expandPlaceholders(configured, options.filePath, baseDir),
+			configuredValue: configured,
+		};
 	}
 
 	if (!options.filePath || !baseDir) {
+		return { kind: "none", startDir: null, stopDir: null, searchOrder };
+	}
+
+	const startDir = path.dirname(options.filePath);
+	const found = await findNearestConfigFile({
+		startDir,
+		stopDir: baseDir,
+		fileNames: [...searchOrder],
+	});
+	if (!found) {
+		return { kind: "none", startDir, stopDir: baseDir, searchOrder };
+	}
+	return {
+		kind:
+			path.basename(found) === PACKAGE_JSON_FILE_NAME ? "packageJson" : "file",
+		path: found,
+		startDir,
+		stopDir: baseDir,
+		searchOrder,
+	};
+}
+
+/**
+ * Read the `tsqlrefine` key of a package.json file.
+ * Returns null when the file or key is missing or not an object.
+ */
+export async function readPackageJsonConfig(
+	packageJsonPath: string,
+): Promise<Record<string, unknown> | null> {
+	try {
+		const parsed = parseJsonc(await fs.readFile(packageJsonPath, "utf8")) as {
+			[PACKAGE_JSON_CONFIG_KEY]?: unknown;
+		} | null;
+		const config = parsed?.[PACKAGE_JSON_CONFIG_KEY];
+		return typeof config === "object" &&
+			config !== null &&
+			!Array.isArray(config)
+			? (config as Record<string, unknown>)
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Set the directory configs extracted from package.json are written to, in
+ * the extension's own storage. Without one, package.json configs are not
+ * passed to the CLI.
+ */
+export function setExtractedConfigDirectory(directory: string | null): void {
+	extractedConfigDir = directory;
+	extractedConfigs.clear();
+	extractedSources.clear();
+}
+
+/**
+ * Check a package.json again on the next resolve, e.g. after the file
+ * watcher reported a change.
+ */
+export function invalidateExtractedConfig(packageJsonPath: string): void {
+	const cached = extractedConfigs.get(normalizeForCompare(packageJsonPath));
+	if (cached) {
+		cached.checkedAtMs = 0;
+	}
+}
+
+/**
+ * Return the config file extracted from the `tsqlrefine` key of a
+ * package.json. The result is reused until the file watcher reports a change
+ * or `EXTRACTED_CONFIG_RECHECK_MS` passes; the file is only rewritten when
+ * package.json was modified.
+ */
+async function extractPackageJsonConfig(
+	packageJsonPath: string,
+): Promise<string | undefined> {
+	const directory = extractedConfigDir;
+	if (!directory) {
+		return undefined;
+	}
+	const key = normalizeForCompare(packageJsonPath);
+	const cached = extractedConfigs.get(key);
+	const now = Date.now();
+	if (cached && now - cached.checkedAtMs < EXTRACTED_CONFIG_RECHECK_MS) {
+		return cached.path;
+	}
+	const stat = await fs.stat(packageJsonPath).catch(() => null);
+	if (!stat) {
+		extractedConfigs.delete(key);
 		return undefined;
 	}
+	if (
+		cached?.path &&
+		cached.mtimeMs === stat.mtimeMs &&
+		cached.size === stat.size
+	) {
+		// Unchanged: keep the file in use from being removed as stale.
+		const touched = await fs
+			.utimes(cached.path, new Date(now), new Date(now))
+			.then(() => true)
+			.catch(() => false);
+		if (touched) {
+			cached.checkedAtMs = now;
+			return cached.path;
+		}
+	}
+
+	const extractedPath = await writeExtractedConfig(
+		directory,
+		packageJsonPath,
+		await readPackageJsonConfig(packageJsonPath),
+	);
+	extractedConfigs.set(key, {
+		path: extractedPath,
+		mtimeMs: stat.mtimeMs,
+		size: stat.size,
+		checkedAtMs: now,
+	});
+	return extractedPath;
+}
+
+/**
+ * Write a package.json config to the extraction directory, or delete the
+ * earlier extraction when the `tsqlrefine` key was removed. Relative
+ * `extends` entries are made absolute so they still resolve against the
+ * package.json directory.
+ */
+async function writeExtractedConfig(
+	directory: string,
+	packageJsonPath: string,
+	config: Record<string, unknown> | null,
+): Promise<string | undefined> {
+	const extractedPath = getExtractedConfigPath(directory, packageJsonPath);
+	if (!config) {
+		extractedSources.delete(normalizeForCompare(extractedPath));
+		await fs.rm(extractedPath, { force: true }).catch(() => undefined);
+		return undefined;
+	}
+	const baseDir = path.dirname(packageJsonPath);
+	const { extends: extendsValue } = config as { extends?: unknown };
+	const absolutize = (entry: unknown) =>
+		typeof entry === "string" && isRelativeReference(entry)
+			? path.resolve(baseDir, entry)
+			: entry;
+	const extracted =
+		extendsValue === undefined
+			? config
+			: {
+					...config,
+					extends: Array.isArray(extendsValue)
+						? extendsValue.map(absolutize)
+						: absolutize(extendsValue),
+				};
+
+	await ensurePrivateDirectory(directory);
+	await fs.writeFile(extractedPath, `${JSON.stringify(extracted, null, 2)}\n`, {
+		encoding: "utf8",
+		mode: 0o600,
+	});
+	extractedSources.set(normalizeForCompare(extractedPath), packageJsonPath);
+	return extractedPath;
+}
+
+/**
+ * Create a directory only the current user can access, and refuse one that
+ * is a symbolic link or belongs to another user.
+ */
+export async function ensurePrivateDirectory(directory: string): Promise<void> {
+	await fs.mkdir(directory, { recursive: true, mode: 0o700 });
+	const stat = await fs.lstat(directory);
+	const uid = process.getuid?.();
+	if (!stat.isDirectory() || (uid !== undefined && stat.uid !== uid)) {
+		throw new Error(
+			`Refusing to write tsqlrefine configs to ${directory}: it is not a directory owned by the current user`,
+		);
+	}
+	if (uid !== undefined && (stat.mode & 0o077) !== 0) {
+		await fs.chmod(directory, 0o700);
+	}
+}
 
+function getExtractedConfigPath(
+	directory: string,
+	packageJsonPath: string,
+): string {
+	const hash = createHash("sha256")
+		.update(normalizeForCompare(packageJsonPath))
+		.digest("hex")
+		.slice(0, 16);
+	return path.join(directory, `${hash}.json`);
+}
+
+/**
+ * Delete the config extracted from a package.json once its `tsqlrefine` key
+ * was removed.
+ */
+async function discardExtractedConfig(packageJsonPath: string): Promise<void> {
+	const key = normalizeForCompare(packageJsonPath);
+	const cached = extractedConfigs.get(key);
+	if (!cached?.path || !extractedConfigDir) {
+		return;
+	}
+	if (
+		Date.now() - cached.checkedAtMs < EXTRACTED_CONFIG_RECHECK_MS ||
+		(await readPackageJsonConfig(packageJsonPath))
+	) {
+		return;
+	}
+	extractedConfigs.delete(key);
+	await writeExtractedConfig(extractedConfigDir, packageJsonPath, null);
+}
+
+/**
+ * Map a config path passed to the CLI back to the file the user edits:
+ * the package.json a config was extracted from, or the path itself.
+ */
+export function getConfigSourcePath(configPath: string): string {
+	return extractedSources.get(normalizeForCompare(configPath)) ?? configPath;
+}
+
+/**
+ * Delete configs extracted from package.json that no session has used for
+ * `EXTRACTED_CONFIG_MAX_AGE_MS`. The storage directory is shared between
+ * editor windows, so files still in use elsewhere are kept.
+ */
+export async function removeStaleExtractedConfigs(
+	directory = extractedConfigDir,
+): Promise<void> {
+	if (!directory) {
+		return;
+	}
+	const names = await fs.readdir(directory).catch(() => [] as string[]);
+	const cutoff = Date.now() - EXTRACTED_CONFIG_MAX_AGE_MS;
+	await Promise.all(
+		names
+			.filter((name) => name.endsWith(".json"))
+			.map(async (name) => {
+				const filePath = path.join(directory, name);
+				const stat = await fs.stat(filePath).catch(() => null);
+				if (stat && stat.mtimeMs < cutoff) {
+					await fs.rm(filePath, { force: true }).catch(() => undefined);
+				}
+			}),
+	);
+}
+
+/** Whether an `extends` entry is a path relative to the config file. */
+export function isRelativeReference(entry: string): boolean {
 	return (
-		(await findNearestConfigFile({
-			startDir: path.dirname(options.filePath),
-			stopDir: baseDir,
-		})) ?? undefined
+		entry.startsWith("./") ||
+		entry.startsWith("../") ||
+		entry.startsWith(".\\") ||
+		entry.startsWith("..\\")
 	);
 }
 
@@ -111,7 +462,7 @@ function expandPlaceholders(
 type FindNearestConfigFileOptions = {
 	startDir: string;
 	stopDir: string;
-	fileNames?: string[];
+	fileNames: string[];
 };
 
 async function findNearestConfigFile(
@@ -119,7 +470,7 @@ async function findNearestConfigFile(
 ): Promise<string | null> {
 	const startDir = path.resolve(options.startDir);
 	const stopDir = path.resolve(options.stopDir);
-	const fileNames = options.fileNames ?? defaultConfigFileNames;
+	const fileNames = options.fileNames;
 	const key = `${startDir}|${stopDir}|${fileNames.join(",")}`;
 
 	const existing = cache.get(key);
@@ -140,21 +491,29 @@ async function findNearestConfigFile(
 }
 
 async function findNearestConfigFileUncached(
-	options: Required<FindNearestConfigFileOptions>,
+	options: FindNearestConfigFileOptions,
 ): Promise<string | null> {
 	let current = options.startDir;
 	const stopDir = options.stopDir;
 	const normalizedStopDir = normalizeForCompare(stopDir);
 
 	while (true) {
+		const isStopDir = normalizeForCompare(current) === normalizedStopDir;
 		for (const fileName of options.fileNames) {
 			const candidate = path.join(current, fileName);
+			if (fileName === PACKAGE_JSON_FILE_NAME) {
+				// package.json is a repo-level settings file, not a per-folder config.
+				if (isStopDir && (await readPackageJsonConfig(candidate))) {
+					return candidate;
+				}
+				continue;
+			}
 			if (await isFile(candidate)) {
 				return candidate;
 			}
 		}
 
-		if (normalizeForCompare(current) === normalizedStopDir) {
+		if (isStopDir) {
 			return null;
 		}
 
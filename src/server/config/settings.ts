@@ -1,9 +1,17 @@
+import {
+	DEFAULT_CONFIG_SEARCH_ORDER,
+	DEFAULT_EMBEDDED_SQL_MARKERS,
+} from "./constants";
+
 export type TsqlRefineSettings = {
 	path?: string;
 	configPath?: string;
+	/** Config file names tried in each directory when `configPath` is empty. */
+	configSearchOrder?: string[];
 	runOnSave: boolean;
 	runOnType: boolean;
-	runOnOpen: boolean;
+	/** "visibleOnly" defers documents opened in the background until shown. */
+	runOnOpen: boolean | "visibleOnly";
 	debounceMs: number;
 	timeoutMs: number;
 	maxFileSizeKb: number;
@@ -14,9 +22,56 @@ export type TsqlRefineSettings = {
 	enableFormat: boolean;
 	enableFix: boolean;
 	allowPlugins: boolean;
+	/** Run operations through a long-lived tsqlrefine worker process. */
+	useDaemon?: boolean;
+	/** Lint SQL string literals in C#, PowerShell and Python files. */
+	embeddedSql?: boolean;
+	/** Patterns matched before a string literal to mark it as SQL. */
+	embeddedSqlMarkers?: string[];
+	/**
+	 * Lint notebook SQL cells one by one (`cell`) or together as one script
+	 * (`notebook`).
+	 */
+	notebookLintMode?: "cell" | "notebook";
+	/** Version the tsqlrefine CLI is expected to report (e.g. "1.4" or "1.4.2"). */
+	requiredVersion?: string;
+	/**
+	 * Show every diagnostic (`all`), or only those on lines (`changedLines`) or
+	 * in files (`changedFiles`) changed since the Git base.
+	 */
+	diagnosticsScope?: "all" | "changedLines" | "changedFiles";
+	/** Branch or commit whose merge-base with HEAD is the Git base. */
+	diagnosticsScopeBase?: string;
+	/**
+	 * Local severity overrides keyed by rule ID or category glob, applied to
+	 * parsed diagnostics.
+	 */
+	ruleOverrides?: Record<string, TsqlRefineSettings["minSeverity"] | "off">;
+	/**
+	 * Diagnostic tag by category (or rule ID) glob, for diagnostics the CLI
+	 * reports without tags.
+	 */
+	diagnosticTags?: Record<string, "unnecessary" | "deprecated">;
+	/**
+	 * While typing, lint only the `GO` batches changed since the last run and
+	 * keep the diagnostics of the others.
+	 */
+	incrementalLint?: boolean;
+	/**
+	 * Upper bound of lints run at once; 0 picks it from the CPU count. The
+	 * scheduler lowers the actual limit while CLI runs slow each other down.
+	 */
+	maxConcurrentRuns?: number;
+	/**
+	 * Reuse lint results for text already linted with the same config,
+	 * executable and settings: "off", kept in "memory", or "persistent"
+	 * across sessions in the extension's global storage.
+	 */
+	lintCache?: "off" | "memory" | "persistent";
 };
 
 export const defaultSettings: TsqlRefineSettings = {
+	configSearchOrder: [...DEFAULT_CONFIG_SEARCH_ORDER],
 	runOnSave: true,
 	runOnType: false,
 	runOnOpen: true,
@@ -30,4 +85,14 @@ export const defaultSettings: TsqlRefineSettings = {
 	enableFormat: true,
 	enableFix: true,
 	allowPlugins: false,
+	useDaemon: false,
+	embeddedSql: false,
+	embeddedSqlMarkers: [...DEFAULT_EMBEDDED_SQL_MARKERS],
+	notebookLintMode: "cell",
+	diagnosticsScope: "all",
+	ruleOverrides: {},
+	diagnosticTags: {},
+	incrementalLint: false,
+	maxConcurrentRuns: 0,
+	lintCache: "memory",
 };
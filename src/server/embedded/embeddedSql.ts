@@ -0,0 +1,583 @@
+import type { Diagnostic, Range } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+	findJoinedBatch,
+	type JoinedBatches,
+	joinBatches,
+} from "../shared/sqlBatches";
+
+/** Languages whose string literals are searched for embedded SQL. */
+export const EMBEDDED_SQL_LANGUAGES: readonly string[] = [
+	"csharp",
+	"powershell",
+	"python",
+];
+
+/** A string literal in a host file that holds SQL. */
+export type EmbeddedSqlRegion = {
+	/** Host offset where the literal's content starts. */
+	start: number;
+	/** Host offset where the literal's content ends. */
+	end: number;
+	/** The SQL, with the host language's escapes resolved. */
+	text: string;
+	/** Host offset of each SQL character, plus one entry for the end. */
+	offsets: number[];
+	/**
+	 * Text that would close the literal early. Null when the content cannot
+	 * be rewritten in place: it uses escapes, or the literal cannot span lines.
+	 */
+	terminator: string | null;
+};
+
+/**
+ * The embedded SQL of a host file, linted as one script with one batch per
+ * region.
+ */
+export type EmbeddedSqlDocument = JoinedBatches & {
+	regions: EmbeddedSqlRegion[];
+};
+
+/** A string literal found by a host language scanner. */
+type StringLiteral = {
+	/** Offset of the literal's first character, including any prefix. */
+	start: number;
+	contentStart: number;
+	contentEnd: number;
+	/** Offset just past the closing delimiter. */
+	end: number;
+	/** Interpolated and byte strings are never treated as SQL. */
+	candidate: boolean;
+	escapes: "none" | "backslash" | "doubledQuote";
+	/** Closing delimiter, for literals that may span lines. */
+	terminator: string | null;
+};
+
+export function isEmbeddedSqlLanguage(languageId: string): boolean {
+	return EMBEDDED_SQL_LANGUAGES.includes(languageId);
+}
+
+/**
+ * Compile `tsqlrefine.embeddedSqlMarkers` patterns (case-insensitive).
+ * Invalid patterns are skipped.
+ */
+export function compileMarkers(patterns: readonly string[]): RegExp[] {
+	const markers: RegExp[] = [];
+	for (const pattern of patterns) {
+		try {
+			markers.push(new RegExp(pattern, "i"));
+		} catch {
+			// Ignore invalid patterns; the remaining markers still apply.
+		}
+	}
+	return markers;
+}
+
+/**
+ * Find the string literals of a host file that hold SQL.
+ *
+ * A literal holds SQL when a marker matches the text leading up to it: the
+ * text from the start of the previous line (or the end of the previous
+ * literal, whichever is later) to the literal's opening delimiter.
+ */
+export function findEmbeddedSqlRegions(
+	text: string,
+	languageId: string,
+	markers: readonly RegExp[],
+): EmbeddedSqlRegion[] {
+	const regions: EmbeddedSqlRegion[] = [];
+	let previousEnd = 0;
+	for (const literal of scanStringLiterals(text, languageId)) {
+		const leadInStart = Math.max(
+			previousEnd,
+			previousLineStart(text, literal.start),
+		);
+		const leadIn = text.slice(leadInStart, literal.start);
+		previousEnd = literal.end;
+		if (literal.candidate && markers.some((marker) => marker.test(leadIn))) {
+			regions.push(decodeLiteral(text, literal));
+		}
+	}
+	return regions;
+}
+
+/**
+ * Join the regions into one script so the CLI runs once per host file.
+ * Each region becomes its own batch, so declarations do not leak between
+ * literals.
+ */
+export function createEmbeddedSqlDocument(
+	regions: EmbeddedSqlRegion[],
+): EmbeddedSqlDocument {
+	return { ...joinBatches(regions.map((region) => region.text)), regions };
+}
+
+/**
+ * Move diagnostics reported for the embedded script to the host file.
+ * Diagnostics on the `GO` lines between regions are dropped.
+ */
+export function mapEmbeddedDiagnostics(
+	embedded: EmbeddedSqlDocument,
+	hostDocument: TextDocument,
+	diagnostics: readonly Diagnostic[],
+): Diagnostic[] {
+	const script = TextDocument.create("", "sql", 0, embedded.text);
+	const mapped: Diagnostic[] = [];
+	for (const diagnostic of diagnostics) {
+		const range = mapRange(embedded, script, hostDocument, diagnostic.range);
+		if (range) {
+			mapped.push({ ...diagnostic, range });
+		}
+	}
+	return mapped;
+}
+
+function mapRange(
+	embedded: EmbeddedSqlDocument,
+	script: TextDocument,
+	hostDocument: TextDocument,
+	range: Range,
+): Range | null {
+	const start = script.offsetAt(range.start);
+	const index = findJoinedBatch(embedded, start);
+	const region = embedded.regions[index];
+	const regionStart = embedded.spans[index]?.start;
+	if (!region || regionStart === undefined) {
+		return null;
+	}
+	const clamp = (offset: number) =>
+		Math.min(Math.max(offset - regionStart, 0), region.text.length);
+	const hostOffset = (offset: number) =>
+		region.offsets[clamp(offset)] ?? region.end;
+	const end = Math.max(start, script.offsetAt(range.end));
+	return {
+		start: hostDocument.positionAt(hostOffset(start)),
+		end: hostDocument.positionAt(hostOffset(end)),
+	};
+}
+
+function previousLineStart(text: string, offset: number): number {
+	const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+	return lineStart === 0 ? 0 : text.lastIndexOf("\n", lineStart - 2) + 1;
+}
+
+function decodeLiteral(
+	text: string,
+	literal: StringLiteral,
+): EmbeddedSqlRegion {
+	const { contentStart, contentEnd } = literal;
+	const quote = text[literal.contentStart - 1] ?? "";
+	let sql = "";
+	const offsets: number[] = [];
+	let index = contentStart;
+	while (index < contentEnd) {
+		const ch = text[index] ?? "";
+		const next = text[index + 1] ?? "";
+		offsets.push(index);
+		if (
+			literal.escapes === "doubledQuote" &&
+			ch === quote &&
+			next === quote &&
+			index + 1 < contentEnd
+		) {
+			sql += quote;
+			index += 2;
+		} else if (
+			literal.escapes === "backslash" &&
+			ch === "\\" &&
+			index + 1 < contentEnd
+		) {
+			const escaped = BACKSLASH_ESCAPES[next];
+			if (escaped !== undefined) {
+				sql += escaped;
+				index += 2;
+			} else {
+				sql += ch;
+				index++;
+			}
+		} else {
+			sql += ch;
+			index++;
+		}
+	}
+	offsets.push(contentEnd);
+	const identical = sql === text.slice(contentStart, contentEnd);
+	return {
+		start: contentStart,
+		end: contentEnd,
+		text: sql,
+		offsets,
+		terminator: identical ? literal.terminator : null,
+	};
+}
+
+const BACKSLASH_ESCAPES: Readonly<Record<string, string>> = {
+	n: "\n",
+	r: "\r",
+	t: "\t",
+	"\\": "\\",
+	'"': '"',
+	"'": "'",
+};
+
+function scanStringLiterals(text: string, languageId: string): StringLiteral[] {
+	switch (languageId) {
+		case "csharp":
+			return scanCSharp(text);
+		case "powershell":
+			return scanPowerShell(text);
+		case "python":
+			return scanPython(text);
+		default:
+			return [];
+	}
+}
+
+function skipLine(text: string, index: number): number {
+	const end = text.indexOf("\n", index);
+	return end === -1 ? text.length : end;
+}
+
+function skipPast(text: string, index: number, delimiter: string): number {
+	const end = text.indexOf(delimiter, index);
+	return end === -1 ? text.length : end + delimiter.length;
+}
+
+/** Skip a single-line literal with backslash escapes; returns the closing quote's offset. */
+function findClosingQuote(text: string, index: number, quote: string): number {
+	let current = index;
+	while (current < text.length) {
+		const ch = text[current];
+		if (ch === "\\") {
+			current += 2;
+		} else if (ch === quote || ch === "\n") {
+			return current;
+		} else {
+			current++;
+		}
+	}
+	return text.length;
+}
+
+function countRun(text: string, index: number, ch: string): number {
+	let count = 0;
+	while (text[index + count] === ch) {
+		count++;
+	}
+	return count;
+}
+
+function scanCSharp(text: string): StringLiteral[] {
+	const literals: StringLiteral[] = [];
+	let index = 0;
+	while (index < text.length) {
+		const ch = text[index];
+		const next = text[index + 1];
+		if (ch === "/" && next === "/") {
+			index = skipLine(text, index);
+			continue;
+		}
+		if (ch === "/" && next === "*") {
+			index = skipPast(text, index + 2, "*/");
+			continue;
+		}
+		if (ch === "'") {
+			index = findClosingQuote(text, index + 1, "'") + 1;
+			continue;
+		}
+		const prefix = /^[@$]*/.exec(text.slice(index, index + 4))?.[0] ?? "";
+		if (text[index + prefix.length] !== '"') {
+			index++;
+			continue;
+		}
+		const literal = readCSharpLiteral(text, index, prefix);
+		literals.push(literal);
+		index = literal.end;
+	}
+	return literals;
+}
+
+function readCSharpLiteral(
+	text: string,
+	start: number,
+	prefix: string,
+): StringLiteral {
+	const quoteStart = start + prefix.length;
+	const candidate = !prefix.includes("$");
+	const quotes = countRun(text, quoteStart, '"');
+	if (quotes >= 3) {
+		return readRawLiteral(
+			text,
+			start,
+			quoteStart,
+			'"'.repeat(quotes),
+			candidate,
+		);
+	}
+	if (prefix.includes("@")) {
+		let index = quoteStart + 1;
+		while (index < text.length) {
+			if (text[index] === '"') {
+				if (text[index + 1] !== '"') {
+					break;
+				}
+				index += 2;
+			} else {
+				index++;
+			}
+		}
+		return {
+			start,
+			contentStart: quoteStart + 1,
+			contentEnd: index,
+			end: Math.min(index + 1, text.length),
+			candidate,
+			escapes: "doubledQuote",
+			terminator: '"',
+		};
+	}
+	const close = findClosingQuote(text, quoteStart + 1, '"');
+	return {
+		start,
+		contentStart: quoteStart + 1,
+		contentEnd: close,
+		end: Math.min(close + 1, text.length),
+		candidate,
+		escapes: "backslash",
+		terminator: null,
+	};
+}
+
+/**
+ * A C# raw string literal. For multi-line literals the content is the lines
+ * between the delimiter lines.
+ */
+function readRawLiteral(
+	text: string,
+	start: number,
+	quoteStart: number,
+	delimiter: string,
+	candidate: boolean,
+): StringLiteral {
+	const openEnd = quoteStart + delimiter.length;
+	const closeStart = text.indexOf(delimiter, openEnd);
+	const close = closeStart === -1 ? text.length : closeStart;
+	let contentStart = openEnd;
+	let contentEnd = close;
+	const firstLine = /^[ \t]*\r?\n/.exec(text.slice(openEnd, close));
+	if (firstLine) {
+		contentStart = openEnd + firstLine[0].length;
+		const lastNewline = text.lastIndexOf("\n", close - 1);
+		if (
+			lastNewline >= contentStart - 1 &&
+			/^[ \t]*$/.test(text.slice(lastNewline + 1, close))
+		) {
+			contentEnd = Math.max(
+				contentStart,
+				text[lastNewline - 1] === "\r" ? lastNewline - 1 : lastNewline,
+			);
+		}
+	}
+	return {
+		start,
+		contentStart,
+		contentEnd,
+		end: closeStart === -1 ? text.length : close + delimiter.length,
+		candidate,
+		escapes: "none",
+		terminator: delimiter,
+	};
+}
+
+function scanPowerShell(text: string): StringLiteral[] {
+	const literals: StringLiteral[] = [];
+	let index = 0;
+	while (index < text.length) {
+		const ch = text[index] ?? "";
+		const next = text[index + 1] ?? "";
+		if (ch === "<" && next === "#") {
+			index = skipPast(text, index + 2, "#>");
+			continue;
+		}
+		if (ch === "#") {
+			index = skipLine(text, index);
+			continue;
+		}
+		if (ch === "@" && (next === '"' || next === "'")) {
+			const hereString = readHereString(text, index, next);
+			if (hereString) {
+				literals.push(hereString);
+				index = hereString.end;
+				continue;
+			}
+		}
+		if (ch === "'" || ch === '"') {
+			const literal = readPowerShellString(text, index, ch);
+			literals.push(literal);
+			index = literal.end;
+			continue;
+		}
+		index++;
+	}
+	return literals;
+}
+
+/**
+ * A PowerShell here-string: `@"` or `@'` at the end of a line, closed by
+ * `"@` or `'@` at the start of a line.
+ */
+function readHereString(
+	text: string,
+	start: number,
+	quote: string,
+): StringLiteral | null {
+	const opening = /^[ \t]*\r?\n/.exec(text.slice(start + 2));
+	if (!opening) {
+		return null;
+	}
+	const contentStart = start + 2 + opening[0].length;
+	const closing = `${quote}@`;
+	let contentEnd = text.length;
+	let end = text.length;
+	if (text.startsWith(closing, contentStart)) {
+		contentEnd = contentStart;
+		end = contentStart + closing.length;
+	} else {
+		const match = new RegExp(`\\r?\\n${quote}@`).exec(text.slice(contentStart));
+		if (match) {
+			contentEnd = contentStart + match.index;
+			end = contentEnd + match[0].length;
+		}
+	}
+	return {
+		start,
+		contentStart,
+		contentEnd,
+		end,
+		candidate:
+			quote === "'" || !expandsVariables(text.slice(contentStart, contentEnd)),
+		escapes: "none",
+		terminator: `\n${closing}`,
+	};
+}
+
+function readPowerShellString(
+	text: string,
+	start: number,
+	quote: string,
+): StringLiteral {
+	let index = start + 1;
+	while (index < text.length) {
+		const ch = text[index];
+		if (quote === '"' && ch === "`") {
+			index += 2;
+		} else if (ch === quote) {
+			if (text[index + 1] !== quote) {
+				break;
+			}
+			index += 2;
+		} else {
+			index++;
+		}
+	}
+	return {
+		start,
+		contentStart: start + 1,
+		contentEnd: index,
+		end: Math.min(index + 1, text.length),
+		// Like C# interpolated strings, expanding strings are not SQL as written.
+		candidate: quote === "'" || !expandsVariables(text.slice(start + 1, index)),
+		escapes: "doubledQuote",
+		terminator: quote,
+	};
+}
+
+/**
+ * Whether PowerShell expands `$var` or `$(...)` in a double-quoted string:
+ * it contains a `$` not escaped with a backtick.
+ */
+function expandsVariables(content: string): boolean {
+	for (let index = 0; index < content.length; index++) {
+		const ch = content[index];
+		if (ch === "`") {
+			index++;
+		} else if (ch === "$") {
+			return true;
+		}
+	}
+	return false;
+}
+
+function scanPython(text: string): StringLiteral[] {
+	const literals: StringLiteral[] = [];
+	let index = 0;
+	while (index < text.length) {
+		const ch = text[index] ?? "";
+		if (ch === "#") {
+			index = skipLine(text, index);
+			continue;
+		}
+		if (/[A-Za-z_]/.test(ch)) {
+			const word = /^[A-Za-z_0-9]+/.exec(text.slice(index))?.[0] ?? ch;
+			const quote = text[index + word.length];
+			if (
+				(quote === '"' || quote === "'") &&
+				/^(?:[rRuUbBfF]|[rR][bBfF]|[bBfF][rR])$/.test(word)
+			) {
+				const literal = readPythonString(text, index, word.toLowerCase());
+				literals.push(literal);
+				index = literal.end;
+			} else {
+				index += word.length;
+			}
+			continue;
+		}
+		if (ch === '"' || ch === "'") {
+			const literal = readPythonString(text, index, "");
+			literals.push(literal);
+			index = literal.end;
+			continue;
+		}
+		index++;
+	}
+	return literals;
+}
+
+function readPythonString(
+	text: string,
+	start: number,
+	prefix: string,
+): StringLiteral {
+	const quoteStart = start + prefix.length;
+	const quote = text[quoteStart] ?? '"';
+	const candidate = !prefix.includes("b") && !prefix.includes("f");
+	const escapes = prefix.includes("r") ? "none" : "backslash";
+	const triple = quote.repeat(3);
+	if (text.startsWith(triple, quoteStart)) {
+		const contentStart = quoteStart + 3;
+		let index = contentStart;
+		while (index < text.length && !text.startsWith(triple, index)) {
+			index += text[index] === "\\" ? 2 : 1;
+		}
+		const contentEnd = Math.min(index, text.length);
+		return {
+			start,
+			contentStart,
+			contentEnd,
+			end: Math.min(contentEnd + 3, text.length),
+			candidate,
+			escapes,
+			terminator: triple,
+		};
+	}
+	const close = findClosingQuote(text, quoteStart + 1, quote);
+	return {
+		start,
+		contentStart: quoteStart + 1,
+		contentEnd: close,
+		end: Math.min(close + 1, text.length),
+		candidate,
+		escapes,
+		terminator: null,
+	};
+}
@@ -0,0 +1,78 @@
+import {
+	type CodeAction,
+	CodeActionKind,
+	type Diagnostic,
+} from "vscode-languageserver/node";
+import type { TsqlRefineDiagnosticData } from "../lint/parseOutput";
+
+/**
+ * Build quick fix code actions for the tsqlrefine diagnostics in a code action
+ * request: one fix per diagnostic, one "fix all occurrences" per rule, and a
+ * whole-document fix. Commands are executed by the client, which forwards them
+ * to the server's `tsqlrefine/fixRule` and `tsqlrefine/fixDocument` requests.
+ */
+export function createFixCodeActions(
+	uri: string,
+	diagnostics: readonly Diagnostic[],
+): CodeAction[] {
+	const fixableDiagnostics = diagnostics.filter(
+		(diag) =>
+			diag.source === "tsqlrefine" &&
+			(diag.data as TsqlRefineDiagnosticData | undefined)?.fixable === true,
+	);
+	if (fixableDiagnostics.length === 0) {
+		return [];
+	}
+
+	const actions: CodeAction[] = [];
+	const diagnosticsByRule = new Map<string, Diagnostic[]>();
+
+	for (const diag of fixableDiagnostics) {
+		const ruleId = (diag.data as TsqlRefineDiagnosticData).ruleId;
+		if (!ruleId) {
+			continue;
+		}
+		const title = `Fix ${ruleId}`;
+		actions.push({
+			title,
+			kind: CodeActionKind.QuickFix,
+			diagnostics: [diag],
+			isPreferred: true,
+			command: {
+				title,
+				command: "tsqlrefine.fixRule",
+				arguments: [uri, ruleId, diag.range],
+			},
+		});
+		const ruleDiagnostics = diagnosticsByRule.get(ruleId) ?? [];
+		ruleDiagnostics.push(diag);
+		diagnosticsByRule.set(ruleId, ruleDiagnostics);
+	}
+
+	for (const [ruleId, ruleDiagnostics] of diagnosticsByRule) {
+		const title = `Fix all occurrences of ${ruleId} in this file`;
+		actions.push({
+			title,
+			kind: CodeActionKind.QuickFix,
+			diagnostics: ruleDiagnostics,
+			command: {
+				title,
+				command: "tsqlrefine.fixRule",
+				arguments: [uri, ruleId],
+			},
+		});
+	}
+
+	actions.push({
+		title: "Fix all tsqlrefine issues",
+		kind: CodeActionKind.QuickFix,
+		diagnostics: fixableDiagnostics,
+		command: {
+			title: "Fix all tsqlrefine issues",
+			command: "tsqlrefine.fix",
+			arguments: [uri],
+		},
+	});
+
+	return actions;
+}
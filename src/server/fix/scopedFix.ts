@@ -0,0 +1,133 @@
+import type { Diagnostic, Range, TextEdit } from "vscode-languageserver/node";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import type { TsqlRefineDiagnosticData } from "../lint/parseOutput";
+import {
+	computeLineHunks,
+	type LineHunk,
+	splitLinesWithTerminators,
+} from "../shared/textDiff";
+
+/**
+ * Select the tsqlrefine diagnostics produced by a rule.
+ * When `range` is given, only diagnostics overlapping it are returned.
+ */
+export function selectRuleDiagnostics(
+	diagnostics: readonly Diagnostic[],
+	ruleId: string,
+	range?: Range,
+): Diagnostic[] {
+	return diagnostics.filter(
+		(diag) =>
+			diag.source === "tsqlrefine" &&
+			(diag.data as TsqlRefineDiagnosticData | undefined)?.ruleId === ruleId &&
+			(range === undefined || rangesOverlap(diag.range, range)),
+	);
+}
+
+export type ScopedFixEdits = {
+	edits: TextEdit[];
+	/** Changes on target lines left out because other rules fix them too. */
+	skipped: number;
+};
+
+/**
+ * Build edits that apply only the parts of a whole-document fix that touch
+ * the given ranges. `fixedText` is the CLI fix output for the full document;
+ * changed line blocks that do not overlap any target range are dropped, and
+ * so are blocks that also overlap an `excludedRanges` entry (the fixable
+ * diagnostics of other rules), since the CLI cannot fix a single rule and
+ * such a block may carry the other rule's fix as well.
+ */
+export function createScopedFixEdits(
+	document: TextDocument,
+	fixedText: string,
+	targetRanges: readonly Range[],
+	excludedRanges: readonly Range[] = [],
+): ScopedFixEdits {
+	if (targetRanges.length === 0) {
+		return { edits: [], skipped: 0 };
+	}
+	const originalText = document.getText();
+	const targeted = computeLineHunks(originalText, fixedText)
+		.flatMap((hunk) => splitLinePairs(originalText, hunk))
+		.filter((hunk) => targetRanges.some((range) => hunkOverlaps(hunk, range)));
+	const isolated = targeted.filter(
+		(hunk) => !excludedRanges.some((range) => hunkOverlaps(hunk, range)),
+	);
+	return {
+		edits: isolated.map((hunk) => ({
+			range: {
+				start: document.positionAt(hunk.oldStartOffset),
+				end: document.positionAt(hunk.oldEndOffset),
+			},
+			newText: hunk.newText,
+		})),
+		skipped: targeted.length - isolated.length,
+	};
+}
+
+/**
+ * Select the fixable tsqlrefine diagnostics of every rule except `ruleId`,
+ * whose fixes a rule-scoped fix must not apply.
+ */
+export function selectOtherFixableDiagnostics(
+	diagnostics: readonly Diagnostic[],
+	ruleId: string,
+): Diagnostic[] {
+	return diagnostics.filter((diag) => {
+		const data = diag.data as TsqlRefineDiagnosticData | undefined;
+		return (
+			diag.source === "tsqlrefine" &&
+			data?.fixable === true &&
+			data.ruleId !== ruleId
+		);
+	});
+}
+
+function hunkOverlaps(hunk: LineHunk, range: Range): boolean {
+	return (
+		hunk.oldStartLine <= range.end.line &&
+		range.start.line < Math.max(hunk.oldEndLine, hunk.oldStartLine + 1)
+	);
+}
+
+/**
+ * Split a hunk that rewrites N lines into N lines into one hunk per line, so
+ * fixes on adjacent lines from different rules can be applied separately.
+ */
+function splitLinePairs(originalText: string, hunk: LineHunk): LineHunk[] {
+	const lineCount = hunk.oldEndLine - hunk.oldStartLine;
+	const newLines = splitLinesWithTerminators(hunk.newText);
+	if (lineCount <= 1 || newLines.length !== lineCount) {
+		return [hunk];
+	}
+	const oldLines = splitLinesWithTerminators(
+		originalText.slice(hunk.oldStartOffset, hunk.oldEndOffset),
+	);
+	const pairs: LineHunk[] = [];
+	let offset = hunk.oldStartOffset;
+	oldLines.forEach((oldLine, index) => {
+		const newLine = newLines[index] ?? "";
+		if (oldLine !== newLine) {
+			pairs.push({
+				oldStartLine: hunk.oldStartLine + index,
+				oldEndLine: hunk.oldStartLine + index + 1,
+				oldStartOffset: offset,
+				oldEndOffset: offset + oldLine.length,
+				newText: newLine,
+			});
+		}
+		offset += oldLine.length;
+	});
+	return pairs;
+}
+
+function rangesOverlap(a: Range, b: Range): boolean {
+	return !(
+		comparePositions(a.end, b.start) < 0 || comparePositions(b.end, a.start) < 0
+	);
+}
+
+function comparePositions(a: Range["start"], b: Range["start"]): number {
+	return a.line === b.line ? a.character - b.character : a.line - b.line;
+}
@@ -1,10 +1,16 @@
-import type { TextEdit } from "vscode-languageserver/node";
+import type { Position, Range, TextEdit } from "vscode-languageserver/node";
 import type { TextDocument } from "vscode-languageserver-textdocument";
 import {
 	type CliEditOperationDeps,
 	executeCliEditOperation,
 } from "../shared/cliEditOperation";
 import type { DocumentContext } from "../shared/documentContext";
+import { isBatchSeparator } from "../shared/sqlBatches";
+import {
+	expandToStatements,
+	findStatementSpans,
+	type TextSpan,
+} from "../shared/sqlStatements";
 import { runFormatter } from "./runFormatter";
 
 export type FormatOperationDeps = CliEditOperationDeps;
@@ -22,8 +28,170 @@ export async function executeFormat(
 	document: TextDocument,
 	deps: FormatOperationDeps,
 ): Promise<TextEdit[] | null> {
+	if (context.embedded) {
+		return await formatEmbeddedSql(context, document, deps);
+	}
+	return await executeCliEditOperation(context, document, deps, {
+		operationName: "format",
+		runner: runFormatter,
+	});
+}
+
+/**
+ * Format each embedded SQL literal of a host file in place. Literals that
+ * use escapes, cannot span lines, or whose formatted SQL would close the
+ * literal early are left unchanged.
+ */
+async function formatEmbeddedSql(
+	context: DocumentContext,
+	document: TextDocument,
+	deps: FormatOperationDeps,
+): Promise<TextEdit[] | null> {
+	const hostContext = { ...context, documentText: document.getText() };
+	const edits: TextEdit[] = [];
+	for (const region of context.embedded?.regions ?? []) {
+		const { terminator } = region;
+		if (terminator === null || !region.text.trim()) {
+			continue;
+		}
+		const regionEdits = await executeCliEditOperation(
+			hostContext,
+			document,
+			deps,
+			{
+				operationName: "format",
+				runner: runFormatter,
+				range: { start: region.start, end: region.end },
+			},
+		);
+		if (regionEdits === null) {
+			return null;
+		}
+		if (regionEdits.some((edit) => edit.newText.includes(terminator.trim()))) {
+			deps.notificationManager.debug(
+				`[executeFormat] Skipping embedded SQL at offset ${region.start}: the formatted SQL would close the literal`,
+			);
+			continue;
+		}
+		edits.push(...regionEdits);
+	}
+	return edits;
+}
+
+/**
+ * Execute format operation on a selection.
+ * The selection grows to whole statements; edits never leave that span.
+ *
+ * @param context - Document context containing URI, settings, and text
+ * @param document - The TextDocument to format
+ * @param range - The selected range
+ * @param deps - Dependencies including connection and managers
+ * @returns Array of TextEdits to apply, empty if no changes, null on error
+ */
+export async function executeRangeFormat(
+	context: DocumentContext,
+	document: TextDocument,
+	range: Range,
+	deps: FormatOperationDeps,
+): Promise<TextEdit[] | null> {
+	if (context.embedded) {
+		return [];
+	}
+	const span = expandToStatements(context.documentText, {
+		start: document.offsetAt(range.start),
+		end: document.offsetAt(range.end),
+	});
+	return await formatSpan(context, document, span, deps);
+}
+
+/**
+ * Execute format operation after a trigger character was typed.
+ *
+ * @param context - Document context containing URI, settings, and text
+ * @param document - The TextDocument to format
+ * @param position - The position after the typed character
+ * @param ch - The typed character (`;` or a line break)
+ * @param deps - Dependencies including connection and managers
+ * @returns Array of TextEdits to apply, empty if no changes, null on error
+ */
+export async function executeOnTypeFormat(
+	context: DocumentContext,
+	document: TextDocument,
+	position: Position,
+	ch: string,
+	deps: FormatOperationDeps,
+): Promise<TextEdit[] | null> {
+	if (context.embedded) {
+		return [];
+	}
+	const span = findOnTypeFormatSpan(
+		context.documentText,
+		document.offsetAt(position),
+		ch,
+	);
+	return await formatSpan(context, document, span, deps);
+}
+
+/**
+ * Find the span to format after typing `ch` just before `offset`:
+ * the statement terminated by a `;`, or the batch closed by a `GO` line
+ * followed by a line break. Returns null when nothing was completed.
+ */
+export function findOnTypeFormatSpan(
+	text: string,
+	offset: number,
+	ch: string,
+): TextSpan | null {
+	if (ch === ";") {
+		// A `;` inside a block does not complete a statement.
+		const statement = findStatementSpans(text).find(
+			(candidate) => candidate.terminated && candidate.end === offset,
+		);
+		return statement ? expandToStatements(text, statement) : null;
+	}
+	if (ch === "\n") {
+		const separatorEnd = text.lastIndexOf("\n", offset - 1);
+		const separatorStart = text.lastIndexOf("\n", separatorEnd - 1) + 1;
+		if (
+			separatorEnd < 0 ||
+			!isBatchSeparator(text.slice(separatorStart, separatorEnd))
+		) {
+			return null;
+		}
+		const batchStart = findBatchStart(text, separatorStart);
+		return expandToStatements(text, {
+			start: batchStart,
+			end: separatorStart,
+		});
+	}
+	return null;
+}
+
+async function formatSpan(
+	context: DocumentContext,
+	document: TextDocument,
+	span: TextSpan | null,
+	deps: FormatOperationDeps,
+): Promise<TextEdit[] | null> {
+	if (!span) {
+		return [];
+	}
 	return await executeCliEditOperation(context, document, deps, {
 		operationName: "format",
 		runner: runFormatter,
+		range: span,
 	});
 }
+
+/** Offset of the first line after the `GO` separator preceding `offset`. */
+function findBatchStart(text: string, offset: number): number {
+	let lineStart = offset;
+	while (lineStart > 0) {
+		const previousStart = text.lastIndexOf("\n", lineStart - 2) + 1;
+		if (isBatchSeparator(text.slice(previousStart, lineStart - 1))) {
+			return lineStart;
+		}
+		lineStart = previousStart;
+	}
+	return 0;
+}
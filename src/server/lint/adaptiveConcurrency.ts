@@ -0,0 +1,133 @@
+import {
+	ADAPTIVE_CONCURRENCY_MIN_LATENCY_MS,
+	ADAPTIVE_CONCURRENCY_SLOWDOWN_FACTOR,
+	MAX_CONCURRENT_RUNS,
+} from "../config/constants";
+
+/** Weight of the latest run in the average latency. */
+const LATENCY_SMOOTHING = 0.3;
+
+/** How fast the reference latency follows a higher average. */
+const REFERENCE_DRIFT = 0.05;
+
+/**
+ * The limit grows again once the average latency is back under this multiple
+ * of the reference latency.
+ */
+const RECOVERY_FACTOR = 1.5;
+
+/** Runs observed before the limit changes, and between two changes. */
+const MIN_SAMPLES = 3;
+
+/**
+ * Upper bound of concurrent lints: the `maxConcurrentRuns` setting, or when
+ * it is 0 one less than the CPU count, capped at `MAX_CONCURRENT_RUNS`.
+ */
+export function resolveMaxConcurrentRuns(
+	setting: number | undefined,
+	cpuCount: number,
+): number {
+	if (setting !== undefined && Number.isFinite(setting) && setting >= 1) {
+		return Math.floor(setting);
+	}
+	return Math.max(1, Math.min(MAX_CONCURRENT_RUNS, cpuCount - 1));
+}
+
+/**
+ * Picks how many lints run at once from observed CLI latency. The limit
+ * starts at the maximum and drops by one while the average latency is well
+ * above the reference latency (the lowest average seen, slowly following
+ * larger averages), which means runs are slowing each other down. It grows
+ * by one again when latency recovers and lints are waiting.
+ */
+export class AdaptiveConcurrency {
+	private maxRuns: number;
+	private currentLimit: number;
+	private averageMs: number | null = null;
+	private referenceMs: number | null = null;
+	private samples = 0;
+	private samplesSinceChange = 0;
+
+	constructor(maxRuns: number) {
+		this.maxRuns = Math.max(1, maxRuns);
+		this.currentLimit = this.maxRuns;
+	}
+
+	get limit(): number {
+		return this.currentLimit;
+	}
+
+	get max(): number {
+		return this.maxRuns;
+	}
+
+	/**
+	 * Change the upper bound; the limit starts over from it.
+	 */
+	setMax(maxRuns: number): void {
+		this.maxRuns = Math.max(1, maxRuns);
+		this.currentLimit = this.maxRuns;
+		this.samplesSinceChange = 0;
+	}
+
+	/**
+	 * Record the latency of a finished run and return the new limit.
+	 */
+	record(durationMs: number, hasBacklog: boolean): number {
+		this.samples++;
+		this.samplesSinceChange++;
+		const average =
+			this.averageMs === null
+				? durationMs
+				: this.averageMs + LATENCY_SMOOTHING * (durationMs - this.averageMs);
+		this.averageMs = average;
+		this.referenceMs =
+			this.referenceMs === null || average < this.referenceMs
+				? average
+				: this.referenceMs + REFERENCE_DRIFT * (average - this.referenceMs);
+		if (this.samplesSinceChange < MIN_SAMPLES) {
+			return this.currentLimit;
+		}
+
+		const reference = Math.max(
+			this.referenceMs,
+			ADAPTIVE_CONCURRENCY_MIN_LATENCY_MS,
+		);
+		if (
+			average > reference * ADAPTIVE_CONCURRENCY_SLOWDOWN_FACTOR &&
+			this.currentLimit > 1
+		) {
+			this.currentLimit--;
+			this.samplesSinceChange = 0;
+		} else if (
+			average <= reference * RECOVERY_FACTOR &&
+			hasBacklog &&
+			this.currentLimit < this.maxRuns
+		) {
+			this.currentLimit++;
+			this.samplesSinceChange = 0;
+		}
+		return this.currentLimit;
+	}
+
+	/**
+	 * Snapshot for the scheduler debug dump.
+	 */
+	getState(): {
+		limit: number;
+		max: number;
+		averageLatencyMs: number | null;
+		referenceLatencyMs: number | null;
+		samples: number;
+	} {
+		return {
+			limit: this.currentLimit,
+			max: this.maxRuns,
+			averageLatencyMs:
+				this.averageMs === null ? null : Math.round(this.averageMs),
+			referenceLatencyMs:
+				this.referenceMs === null ? null : Math.round(this.referenceMs),
+			samples: this.samples,
+		};
+	}
+}
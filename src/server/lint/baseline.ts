@@ -0,0 +1,233 @@
+import { createHash } from "node:crypto";
+import * as path from "node:path";
+import type { Diagnostic } from "vscode-languageserver/node";
+import { BASELINE_FILE_NAME } from "../config/constants";
+
+/** Version written to and accepted from baseline files. */
+const BASELINE_VERSION = 1;
+
+/** Lines of source text, from the diagnostic's first line, hashed into its fingerprint. */
+const FINGERPRINT_MAX_LINES = 3;
+
+/**
+ * Issues of one rule in one file with the same fingerprint. `count` is how
+ * many of them are baselined.
+ */
+export type BaselineIssue = {
+	/** Path relative to the workspace folder, with `/` separators. */
+	file: string;
+	rule: string;
+	fingerprint: string;
+	count: number;
+};
+
+/**
+ * Path of the baseline file of a workspace folder.
+ */
+export function getBaselinePath(workspaceRoot: string): string {
+	return path.join(workspaceRoot, BASELINE_FILE_NAME);
+}
+
+/**
+ * Whether a watched file is a baseline file.
+ */
+export function isBaselinePath(filePath: string): boolean {
+	return path.basename(filePath) === BASELINE_FILE_NAME;
+}
+
+/**
+ * Path of a file as recorded in the baseline of `workspaceRoot`.
+ */
+export function toBaselineFile(
+	workspaceRoot: string,
+	filePath: string,
+): string {
+	return path.relative(workspaceRoot, filePath).split(path.sep).join("/");
+}
+
+/**
+ * Fingerprint of a diagnostic: a hash of its rule and of the source lines it
+ * starts on, with whitespace collapsed. It does not include line numbers, so
+ * the issue keeps matching when code above it moves.
+ */
+export function computeFingerprint(
+	lines: readonly string[],
+	diagnostic: Diagnostic,
+): string {
+	const { start, end } = diagnostic.range;
+	const lastLine = Math.min(end.line, start.line + FINGERPRINT_MAX_LINES - 1);
+	const source = lines
+		.slice(start.line, lastLine + 1)
+		.map((line) => line.trim().replace(/\s+/g, " "))
+		.join("\n");
+	return createHash("sha256")
+		.update(`${getRuleId(diagnostic)}\n${source}`)
+		.digest("hex")
+		.slice(0, 16);
+}
+
+/**
+ * Rule of a diagnostic, falling back to its message for diagnostics without
+ * a code.
+ */
+export function getRuleId(diagnostic: Diagnostic): string {
+	if (diagnostic.code !== undefined) {
+		return String(diagnostic.code);
+	}
+	return typeof diagnostic.message === "string"
+		? diagnostic.message
+		: diagnostic.message.value;
+}
+
+/**
+ * Record the diagnostics of one file as baseline issues.
+ */
+export function collectBaselineIssues(
+	file: string,
+	text: string,
+	diagnostics: readonly Diagnostic[],
+): BaselineIssue[] {
+	const lines = text.split(/\r?\n/);
+	const issues = new Map<string, BaselineIssue>();
+	for (const diagnostic of diagnostics) {
+		const rule = getRuleId(diagnostic);
+		const fingerprint = computeFingerprint(lines, diagnostic);
+		const key = `${rule}\0${fingerprint}`;
+		const issue = issues.get(key);
+		if (issue) {
+			issue.count++;
+		} else {
+			issues.set(key, { file, rule, fingerprint, count: 1 });
+		}
+	}
+	return [...issues.values()];
+}
+
+/**
+ * Split diagnostics into those to publish and those matched by baseline
+ * issues of the same file. Each issue matches at most `count` diagnostics.
+ */
+export function applyBaseline(
+	diagnostics: readonly Diagnostic[],
+	text: string,
+	issues: readonly BaselineIssue[],
+): { diagnostics: Diagnostic[]; baselined: Diagnostic[] } {
+	if (issues.length === 0) {
+		return { diagnostics: [...diagnostics], baselined: [] };
+	}
+	const remaining = new Map<string, number>();
+	for (const issue of issues) {
+		const key = `${issue.rule}\0${issue.fingerprint}`;
+		remaining.set(key, (remaining.get(key) ?? 0) + issue.count);
+	}
+	const lines = text.split(/\r?\n/);
+	const kept: Diagnostic[] = [];
+	const baselined: Diagnostic[] = [];
+	for (const diagnostic of diagnostics) {
+		const key = `${getRuleId(diagnostic)}\0${computeFingerprint(lines, diagnostic)}`;
+		const count = remaining.get(key) ?? 0;
+		if (count > 0) {
+			remaining.set(key, count - 1);
+			baselined.push(diagnostic);
+		} else {
+			kept.push(diagnostic);
+		}
+	}
+	return { diagnostics: kept, baselined };
+}
+
+/**
+ * Shrink a baseline to the issues that still occur: issues that were fixed
+ * are removed and counts never grow. New issues are not added.
+ */
+export function pruneBaseline(
+	existing: readonly BaselineIssue[],
+	current: readonly BaselineIssue[],
+): BaselineIssue[] {
+	const currentCounts = new Map(
+		current.map((issue) => [baselineKey(issue), issue.count]),
+	);
+	return existing.flatMap((issue) => {
+		const count = Math.min(
+			issue.count,
+			currentCounts.get(baselineKey(issue)) ?? 0,
+		);
+		return count > 0 ? [{ ...issue, count }] : [];
+	});
+}
+
+/**
+ * Build the new baseline of a folder from the issues found now. "create"
+ * records every current issue; "update" prunes the existing baseline.
+ * Issues of `unlintedFiles`, whose lint failed, are kept as they were.
+ */
+export function rebuildBaseline(
+	mode: "create" | "update",
+	existing: readonly BaselineIssue[],
+	current: readonly BaselineIssue[],
+	unlintedFiles: ReadonlySet<string>,
+): BaselineIssue[] {
+	const kept = existing.filter((issue) => unlintedFiles.has(issue.file));
+	const rebuilt =
+		mode === "create"
+			? current
+			: pruneBaseline(
+					existing.filter((issue) => !unlintedFiles.has(issue.file)),
+					current,
+				);
+	return [...rebuilt, ...kept];
+}
+
+/**
+ * Parse a baseline file. Returns null when it is not a valid baseline.
+ */
+export function parseBaseline(text: string): BaselineIssue[] | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text.replace(/^\uFEFF/, ""));
+	} catch {
+		return null;
+	}
+	if (
+		typeof parsed !== "object" ||
+		parsed === null ||
+		(parsed as { version?: unknown }).version !== BASELINE_VERSION ||
+		!Array.isArray((parsed as { issues?: unknown }).issues)
+	) {
+		return null;
+	}
+	return (parsed as { issues: unknown[] }).issues.filter(
+		(issue): issue is BaselineIssue => {
+			const candidate = issue as Partial<BaselineIssue> | null;
+			return (
+				typeof candidate?.file === "string" &&
+				typeof candidate.rule === "string" &&
+				typeof candidate.fingerprint === "string" &&
+				typeof candidate.count === "number" &&
+				candidate.count > 0
+			);
+		},
+	);
+}
+
+/**
+ * Serialize baseline issues, sorted so the file diffs cleanly.
+ */
+export function serializeBaseline(issues: readonly BaselineIssue[]): string {
+	const sorted = [...issues].sort(
+		(a, b) =>
+			compareStrings(a.file, b.file) ||
+			compareStrings(a.rule, b.rule) ||
+			compareStrings(a.fingerprint, b.fingerprint),
+	);
+	return `${JSON.stringify({ version: BASELINE_VERSION, issues: sorted }, null, 2)}\n`;
+}
+
+/** Locale-independent order, so every machine writes the same file. */
+function compareStrings(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function baselineKey(issue: BaselineIssue): string {
+	return `${issue.file}\0${issue.rule}\0${issue.fingerprint}`;
+}
@@ -0,0 +1,81 @@
+type DeferredOpenLintOptions = {
+	/** Delay between two checks for an idle scheduler. */
+	idleDelayMs: number;
+	/** Whether no lint is running or waiting. */
+	isIdle: () => boolean;
+	lint: (uri: string) => void;
+};
+
+/**
+ * Documents opened without being shown, such as tabs restored at startup,
+ * whose lint on open waits (`runOnOpen: "visibleOnly"`). A deferred document
+ * is linted as soon as an editor shows it; otherwise one is linted at a time
+ * whenever the scheduler is found idle, oldest first.
+ */
+export class DeferredOpenLints {
+	private readonly uris = new Set<string>();
+	private timer: NodeJS.Timeout | null = null;
+
+	constructor(private readonly options: DeferredOpenLintOptions) {}
+
+	get size(): number {
+		return this.uris.size;
+	}
+
+	has(uri: string): boolean {
+		return this.uris.has(uri);
+	}
+
+	defer(uri: string): void {
+		this.uris.add(uri);
+		this.scheduleIdleCheck();
+	}
+
+	delete(uri: string): void {
+		this.uris.delete(uri);
+		if (this.uris.size === 0) {
+			this.cancelIdleCheck();
+		}
+	}
+
+	/**
+	 * Lint the deferred documents among those now shown in editors.
+	 */
+	lintVisible(visibleUris: Iterable<string>): void {
+		for (const uri of visibleUris) {
+			if (this.uris.has(uri)) {
+				this.delete(uri);
+				this.options.lint(uri);
+			}
+		}
+	}
+
+	dispose(): void {
+		this.uris.clear();
+		this.cancelIdleCheck();
+	}
+
+	private scheduleIdleCheck(): void {
+		if (this.timer !== null || this.uris.size === 0) {
+			return;
+		}
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			if (this.options.isIdle()) {
+				const next = this.uris.values().next().value;
+				if (next !== undefined) {
+					this.delete(next);
+					this.options.lint(next);
+				}
+			}
+			this.scheduleIdleCheck();
+		}, this.options.idleDelayMs);
+	}
+
+	private cancelIdleCheck(): void {
+		if (this.timer !== null) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+}
@@ -0,0 +1,51 @@
+import type { Diagnostic } from "vscode-languageserver/node";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import type { TsqlRefineSettings } from "../config/settings";
+import type { ChangedLines } from "../shared/gitChanges";
+
+export type DiagnosticsScope = NonNullable<
+	TsqlRefineSettings["diagnosticsScope"]
+>;
+
+/**
+ * Apply `tsqlrefine.diagnosticsScope` to a document's diagnostics.
+ *
+ * Diagnostics outside the changed lines (`changedLines`) or in an unchanged
+ * file (`changedFiles`) are kept at Hint severity so they stay discoverable.
+ * Diagnostics are returned unchanged when `changed` is null (the file is not
+ * in a Git work tree) or "all" (the file is new since the base).
+ */
+export function applyDiagnosticsScope(
+	diagnostics: Diagnostic[],
+	scope: DiagnosticsScope,
+	changed: ChangedLines | null,
+): Diagnostic[] {
+	if (scope === "all" || changed === null || changed === "all") {
+		return diagnostics;
+	}
+	const inScope = (diagnostic: Diagnostic) =>
+		scope === "changedFiles"
+			? changed.size > 0
+			: touchesChangedLine(diagnostic, changed);
+	return diagnostics.map((diagnostic) =>
+		inScope(diagnostic)
+			? diagnostic
+			: { ...diagnostic, severity: DiagnosticSeverity.Hint },
+	);
+}
+
+function touchesChangedLine(
+	diagnostic: Diagnostic,
+	changed: ReadonlySet<number>,
+): boolean {
+	const { start, end } = diagnostic.range;
+	// A range that ends at the start of a line does not cover that line.
+	const lastLine =
+		end.line > start.line && end.character === 0 ? end.line - 1 : end.line;
+	for (let line = start.line; line <= lastLine; line++) {
+		if (changed.has(line)) {
+			return true;
+		}
+	}
+	return false;
+}
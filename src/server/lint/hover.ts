@@ -0,0 +1,84 @@
+import {
+	type Diagnostic,
+	DiagnosticSeverity,
+	type Hover,
+	MarkupKind,
+	type Position,
+} from "vscode-languageserver/node";
+import type { TsqlRefineDiagnosticData } from "./parseOutput";
+
+const SEVERITY_LABELS: Record<DiagnosticSeverity, string> = {
+	[DiagnosticSeverity.Error]: "Error",
+	[DiagnosticSeverity.Warning]: "Warning",
+	[DiagnosticSeverity.Information]: "Information",
+	[DiagnosticSeverity.Hint]: "Hint",
+};
+
+/**
+ * Build a markdown hover for the tsqlrefine diagnostics at a position.
+ * Returns null when no tsqlrefine diagnostic covers the position.
+ */
+export function createDiagnosticHover(
+	diagnostics: readonly Diagnostic[],
+	position: Position,
+): Hover | null {
+	const matches = diagnostics.filter(
+		(diag) =>
+			diag.source === "tsqlrefine" && rangeContains(diag.range, position),
+	);
+	const first = matches[0];
+	if (!first) {
+		return null;
+	}
+	return {
+		contents: {
+			kind: MarkupKind.Markdown,
+			value: matches.map(formatDiagnostic).join("\n\n---\n\n"),
+		},
+		range: first.range,
+	};
+}
+
+function formatDiagnostic(diag: Diagnostic): string {
+	const data = diag.data as TsqlRefineDiagnosticData | undefined;
+	const ruleId = data?.ruleId ?? (diag.code != null ? String(diag.code) : "");
+	const heading = ruleId ? `**tsqlrefine** \`${ruleId}\`` : "**tsqlrefine**";
+	const details = [
+		data?.category ? `Category: ${escapeMarkdown(data.category)}` : null,
+		`Severity: ${SEVERITY_LABELS[diag.severity ?? DiagnosticSeverity.Information]}`,
+		`Fixable: ${data?.fixable ? "Yes" : "No"}`,
+	].filter((detail): detail is string => detail !== null);
+
+	const message =
+		typeof diag.message === "string"
+			? escapeMarkdown(diag.message)
+			: diag.message.value;
+	const sections = [heading, message, details.join(" · ")];
+	if (data?.description) {
+		sections.push(data.description);
+	}
+	const href = data?.codeDescriptionHref ?? diag.codeDescription?.href;
+	if (href) {
+		sections.push(`[Documentation](${href})`);
+	}
+	return sections.join("\n\n");
+}
+
+function rangeContains(
+	range: Diagnostic["range"],
+	position: Position,
+): boolean {
+	const afterStart =
+		position.line > range.start.line ||
+		(position.line === range.start.line &&
+			position.character >= range.start.character);
+	const beforeEnd =
+		position.line < range.end.line ||
+		(position.line === range.end.line &&
+			position.character <= range.end.character);
+	return afterStart && beforeEnd;
+}
+
+function escapeMarkdown(text: string): string {
+	return text.replace(/[\\`*_{}[\]<>()#+!|]/g, "\\$&");
+}
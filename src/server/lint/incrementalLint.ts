@@ -0,0 +1,172 @@
+import type { Diagnostic } from "vscode-languageserver/node";
+import { isBatchSeparator } from "../shared/sqlBatches";
+import { splitLinesWithTerminators } from "../shared/textDiff";
+
+/**
+ * A batch of a script together with the `GO` line that closes it, so the
+ * segments of a script add up to its whole text.
+ */
+export type BatchSegment = {
+	text: string;
+	/** Zero-based line of the segment in the script. */
+	startLine: number;
+};
+
+/**
+ * Diagnostics of the last lint run of a document, per segment, with lines
+ * relative to the start of their segment.
+ */
+export type BatchSnapshot = {
+	/** Settings and config the diagnostics were produced with. */
+	key: string;
+	segments: Array<{ text: string; diagnostics: Diagnostic[] }>;
+};
+
+/**
+ * The part of a script to lint again: the segments between the unchanged
+ * leading and trailing ones.
+ */
+export type IncrementalLintPlan = {
+	/** Index of the first changed segment. */
+	start: number;
+	/** Index after the last changed segment. */
+	end: number;
+	/** Line of the changed text in the script. */
+	startLine: number;
+	/** Text of the changed segments; empty when segments were only removed. */
+	text: string;
+	/** Cached diagnostics of the unchanged segments, in script lines. */
+	reused: Diagnostic[];
+};
+
+/**
+ * Split a script into segments on `GO` separator lines.
+ */
+export function splitSegments(text: string): BatchSegment[] {
+	const segments: BatchSegment[] = [];
+	let current: BatchSegment = { text: "", startLine: 0 };
+	splitLinesWithTerminators(text).forEach((line, index) => {
+		current.text += line;
+		if (isBatchSeparator(line.replace(/\r?\n$/, ""))) {
+			segments.push(current);
+			current = { text: "", startLine: index + 1 };
+		}
+	});
+	if (current.text || segments.length === 0) {
+		segments.push(current);
+	}
+	return segments;
+}
+
+/**
+ * Find the segments changed since the snapshot. Returns null when no leading
+ * or trailing segment is unchanged, so the whole script has to be linted.
+ */
+export function planIncrementalLint(
+	snapshot: BatchSnapshot,
+	segments: readonly BatchSegment[],
+): IncrementalLintPlan | null {
+	const previous = snapshot.segments;
+	let prefix = 0;
+	while (
+		prefix < previous.length &&
+		prefix < segments.length &&
+		previous[prefix]?.text === segments[prefix]?.text
+	) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < previous.length - prefix &&
+		suffix < segments.length - prefix &&
+		previous[previous.length - 1 - suffix]?.text ===
+			segments[segments.length - 1 - suffix]?.text
+	) {
+		suffix++;
+	}
+	if (prefix === 0 && suffix === 0) {
+		return null;
+	}
+
+	const end = segments.length - suffix;
+	const reused: Diagnostic[] = [];
+	segments.forEach((segment, index) => {
+		if (index >= prefix && index < end) {
+			return;
+		}
+		const cached =
+			index < prefix
+				? previous[index]
+				: previous[previous.length - (segments.length - index)];
+		for (const diagnostic of cached?.diagnostics ?? []) {
+			reused.push(shiftDiagnostic(diagnostic, segment.startLine));
+		}
+	});
+	const lastSegment = segments[segments.length - 1];
+	return {
+		start: prefix,
+		end,
+		startLine:
+			segments[prefix]?.startLine ??
+			(lastSegment
+				? lastSegment.startLine +
+					splitLinesWithTerminators(lastSegment.text).length
+				: 0),
+		text: segments
+			.slice(prefix, end)
+			.map((segment) => segment.text)
+			.join(""),
+		reused,
+	};
+}
+
+/**
+ * Record the diagnostics of a script, given in script lines, per segment.
+ */
+export function createBatchSnapshot(
+	key: string,
+	segments: readonly BatchSegment[],
+	diagnostics: readonly Diagnostic[],
+): BatchSnapshot {
+	const snapshot: BatchSnapshot = {
+		key,
+		segments: segments.map((segment) => ({
+			text: segment.text,
+			diagnostics: [],
+		})),
+	};
+	for (const diagnostic of diagnostics) {
+		// Diagnostics past the last line belong to the last segment.
+		let index = segments.length - 1;
+		while (
+			index > 0 &&
+			(segments[index]?.startLine ?? 0) > diagnostic.range.start.line
+		) {
+			index--;
+		}
+		snapshot.segments[index]?.diagnostics.push(
+			shiftDiagnostic(diagnostic, -(segments[index]?.startLine ?? 0)),
+		);
+	}
+	return snapshot;
+}
+
+/**
+ * Move a diagnostic by a number of lines.
+ */
+export function shiftDiagnostic(
+	diagnostic: Diagnostic,
+	lineDelta: number,
+): Diagnostic {
+	if (lineDelta === 0) {
+		return diagnostic;
+	}
+	const { start, end } = diagnostic.range;
+	return {
+		...diagnostic,
+		range: {
+			start: { line: start.line + lineDelta, character: start.character },
+			end: { line: end.line + lineDelta, character: end.character },
+		},
+	};
+}
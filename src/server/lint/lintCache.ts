@@ -0,0 +1,169 @@
+import { createHash } from "node:crypto";
+import type { Diagnostic } from "vscode-languageserver/node";
+import type { TsqlRefineSettings } from "../config/settings";
+
+/** Version written to and accepted from persisted lint caches. */
+const LINT_CACHE_VERSION = 1;
+
+/** Diagnostics of one CLI run, as parsed before baseline and scope filters. */
+export type LintCacheEntry = {
+	diagnostics: Diagnostic[];
+};
+
+/**
+ * Result of a cache lookup for a document about to be linted.
+ */
+export type LintCacheLookup = {
+	/** Cached diagnostics, or null when the text has to be linted. */
+	diagnostics: Diagnostic[] | null;
+	/** Remember the diagnostics of a CLI run over the looked-up text. */
+	store(diagnostics: Diagnostic[], toolVersion: string): void;
+};
+
+/** Everything the diagnostics of a lint run depend on. */
+export type LintCacheKeyParts = {
+	text: string;
+	cwd: string;
+	configPath: string | undefined;
+	/** Hash of the effective config file and the files it extends. */
+	configHash: string;
+	/** Identity of the executable file, such as its path, size and mtime. */
+	executable: string;
+	toolVersion: string;
+	settings: TsqlRefineSettings;
+};
+
+/**
+ * Hash the inputs of a lint run into a cache key. Only the settings that
+ * change the CLI arguments or the parsed diagnostics are part of the key.
+ */
+export function computeLintCacheKey(parts: LintCacheKeyParts): string {
+	const { settings } = parts;
+	return createHash("sha256")
+		.update(
+			JSON.stringify([
+				hashText(parts.text),
+				parts.cwd,
+				parts.configPath ?? null,
+				parts.configHash,
+				parts.executable,
+				parts.toolVersion,
+				settings.minSeverity,
+				settings.allowPlugins,
+				settings.ruleOverrides ?? {},
+				settings.diagnosticTags ?? {},
+			]),
+		)
+		.digest("hex");
+}
+
+/**
+ * SHA-256 of a text, as hex.
+ */
+export function hashText(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Lint results by cache key, dropping the least recently used entry once
+ * `maxEntries` is exceeded.
+ */
+export class LintResultCache {
+	private readonly entries = new Map<string, LintCacheEntry>();
+
+	constructor(private readonly maxEntries: number) {}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	get(key: string): LintCacheEntry | undefined {
+		const entry = this.entries.get(key);
+		if (entry) {
+			// Re-insert so the entry becomes the most recently used.
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	set(key: string, entry: LintCacheEntry): void {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) {
+				break;
+			}
+			this.entries.delete(oldest);
+		}
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+
+	/**
+	 * Entries from least to most recently used.
+	 */
+	toEntries(): Array<[string, LintCacheEntry]> {
+		return [...this.entries];
+	}
+}
+
+/** Persisted form of the cache and of the CLI versions it was built with. */
+export type PersistedLintCache = {
+	/** CLI version by executable identity. */
+	toolVersions: Record<string, string>;
+	entries: Array<[string, LintCacheEntry]>;
+};
+
+/**
+ * Serialize a lint cache for the extension's global storage.
+ */
+export function serializeLintCache(cache: PersistedLintCache): string {
+	return JSON.stringify({ version: LINT_CACHE_VERSION, ...cache });
+}
+
+/**
+ * Parse a persisted lint cache. Returns null when the file is not a lint
+ * cache of this version; malformed entries are skipped.
+ */
+export function parseLintCache(text: string): PersistedLintCache | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return null;
+	}
+	const candidate = parsed as Partial<
+		PersistedLintCache & { version: unknown }
+	> | null;
+	if (
+		typeof candidate !== "object" ||
+		candidate === null ||
+		candidate.version !== LINT_CACHE_VERSION ||
+		typeof candidate.toolVersions !== "object" ||
+		candidate.toolVersions === null ||
+		!Array.isArray(candidate.entries)
+	) {
+		return null;
+	}
+	const toolVersions: Record<string, string> = {};
+	for (const [executable, version] of Object.entries(candidate.toolVersions)) {
+		if (typeof version === "string") {
+			toolVersions[executable] = version;
+		}
+	}
+	return {
+		toolVersions,
+		entries: candidate.entries.filter(
+			(entry): entry is [string, LintCacheEntry] =>
+				Array.isArray(entry) &&
+				typeof entry[0] === "string" &&
+				Array.isArray(
+					(entry[1] as Partial<LintCacheEntry> | undefined)?.diagnostics,
+				),
+		),
+	};
+}
@@ -1,33 +1,86 @@
 import * as path from "node:path";
 import type { Connection, Diagnostic } from "vscode-languageserver/node";
 import { DiagnosticSeverity } from "vscode-languageserver/node";
-import type { TextDocument } from "vscode-languageserver-textdocument";
+import { TextDocument } from "vscode-languageserver-textdocument";
 import type { DocumentContext } from "../shared/documentContext";
 import { MissingTsqlRefineError } from "../shared/errors";
+import type { ChangedLines } from "../shared/gitChanges";
 import { logOperationContext } from "../shared/logging";
 import {
 	type InFlightExecution,
 	reportCliFailure,
 	runWithInFlight,
+	runWithInFlightForUris,
 } from "../shared/operationExecution";
+import { normalizeForCompare } from "../shared/normalize";
+import { findJoinedBatch, joinBatches } from "../shared/sqlBatches";
 import { firstLine, resolveTargetFilePath } from "../shared/textUtils";
 import type { ProcessRunResult } from "../shared/types";
+import type { ConfigDiagnostics } from "../config/configDiagnostics";
+import type { TsqlRefineSettings } from "../config/settings";
+import { mapEmbeddedDiagnostics } from "../embedded/embeddedSql";
 import type { DocumentStateManager } from "../state/documentStateManager";
 import type { NotificationManager } from "../state/notificationManager";
-import { parseOutput } from "./parseOutput";
-import { runLinter } from "./runLinter";
+import {
+	createFailedRunRecord,
+	createRunRecord,
+	type RunRecord,
+} from "../state/runHistory";
+import { applyBaseline, type BaselineIssue } from "./baseline";
+import { applyDiagnosticsScope } from "./diagnosticsScope";
+import {
+	type BatchSnapshot,
+	createBatchSnapshot,
+	planIncrementalLint,
+	shiftDiagnostic,
+	splitSegments,
+} from "./incrementalLint";
+import type { LintCacheLookup } from "./lintCache";
+import {
+	type ParsedLintOutput,
+	parseBatchLintOutput,
+	parseBatchOutput,
+	parseLintOutput,
+} from "./parseOutput";
+import { runBatchLinter, runLinter } from "./runLinter";
 import type { LintReason } from "./scheduler";
 
 export type LintOperationDeps = {
 	connection: Connection;
 	notificationManager: NotificationManager;
 	lintStateManager: DocumentStateManager;
+	configDiagnostics?: ConfigDiagnostics;
 	runner?: typeof runLinter;
+	batchRunner?: typeof runBatchLinter;
+	/** Lines changed since the Git base, for `tsqlrefine.diagnosticsScope`. */
+	changedLines?: (
+		context: DocumentContext,
+		document: TextDocument,
+	) => Promise<ChangedLines | null>;
+	/** Baseline issues recorded for the document's file. */
+	baseline?: (context: DocumentContext) => Promise<readonly BaselineIssue[]>;
+	/** Last lint results by URI, for `tsqlrefine.incrementalLint`. */
+	batchSnapshots?: Map<string, BatchSnapshot>;
+	/** Results of earlier runs over the same text, for `tsqlrefine.lintCache`. */
+	resultCache?: (context: DocumentContext) => Promise<LintCacheLookup | null>;
+	/** Receives every CLI run, for "Show Run History". */
+	recordRun?: (run: RunRecord) => void;
+};
+
+export type BatchLintEntry = {
+	context: DocumentContext;
+	document: TextDocument;
 };
 
 export type LintResult = {
 	diagnosticsCount: number;
 	success: boolean;
+	/** Diagnostics parsed from the CLI output (empty when the CLI did not run). */
+	diagnostics: Diagnostic[];
+	/** CLI version reported in the JSON output, when the CLI ran. */
+	toolVersion?: string;
+	/** Diagnostics dropped because they match the baseline. */
+	baselined?: Diagnostic[];
 };
 
 /**
@@ -35,7 +88,7 @@ export type LintResult = {
  *
  * @param context - Document context containing URI, settings, and text
  * @param document - The TextDocument to lint
- * @param reason - The reason for linting (save, type, manual, open)
+ * @param reason - The reason for linting (save, type, manual, open, workspace, config)
  * @param deps - Dependencies including connection and managers
  * @returns Lint result with diagnostics count and success status
  */
@@ -57,25 +110,44 @@ export async function executeLint(
 		isSavedFile,
 	} = context;
 
-	// Check file size limit
-	const maxBytes = maxFileSizeBytes(effectiveSettings.maxFileSizeKb);
-	if (maxBytes !== null && reason !== "manual") {
-		const sizeBytes = getDocumentSizeBytes(document);
-		if (sizeBytes > maxBytes) {
-			const sizeKb = Math.ceil(sizeBytes / 1024);
-			notificationManager.debug(
-				`[executeLint] Skipping lint: file is ${sizeKb}KB > maxFileSizeKb=${effectiveSettings.maxFileSizeKb}`,
-			);
-			connection.sendDiagnostics({
-				uri,
-				diagnostics: [
-					createFileTooLargeDiagnostic(sizeKb, effectiveSettings.maxFileSizeKb),
-				],
-			});
-			return { diagnosticsCount: 0, success: true };
+	const snapshotKey =
+		deps.batchSnapshots &&
+		effectiveSettings.incrementalLint &&
+		!context.embedded
+			? JSON.stringify([cwd, effectiveConfigPath, effectiveSettings])
+			: null;
+	const cached = await lookupLintCache(context, document, reason, deps);
+	if (cached?.diagnostics) {
+		notificationManager.debug(`[executeLint] Using cached results for ${uri}`);
+		return await publishLintResult(
+			context,
+			document,
+			cached.diagnostics,
+			snapshotKey,
+			null,
+			deps,
+		);
+	}
+	if (reason === "type" && snapshotKey) {
+		const incremental = await executeIncrementalLint(
+			context,
+			document,
+			snapshotKey,
+			deps,
+		);
+		if (incremental) {
+			return incremental;
 		}
 	}
 
+	if (reason !== "manual" && skipIfTooLarge(context, document, deps)) {
+		return { diagnosticsCount: 0, success: true, diagnostics: [] };
+	}
+	if (context.embedded?.regions.length === 0) {
+		connection.sendDiagnostics({ uri, diagnostics: [] });
+		return { diagnosticsCount: 0, success: true, diagnostics: [] };
+	}
+
 	const targetFilePath = resolveTargetFilePath(filePath);
 
 	logOperationContext(notificationManager, {
@@ -89,6 +161,7 @@ export async function executeLint(
 	});
 
 	let execution: InFlightExecution<ProcessRunResult>;
+	const startedAt = Date.now();
 	try {
 		execution = await runWithInFlight(lintStateManager, uri, (controller) =>
 			runner({
@@ -99,10 +172,29 @@ export async function executeLint(
 			}),
 		);
 	} catch (error) {
+		deps.recordRun?.(
+			createFailedRunRecord({
+				operation: "lint",
+				uri,
+				reason,
+				startedAt,
+				bytes: Buffer.byteLength(documentText, "utf8"),
+				error,
+			}),
+		);
 		return await handleLintError(error, uri, deps);
 	}
 
 	const { controller, result } = execution;
+	const run = createRunRecord({
+		operation: "lint",
+		uri,
+		reason,
+		startedAt,
+		bytes: Buffer.byteLength(documentText, "utf8"),
+		result,
+		cancelled: controller.signal.aborted,
+	});
 	if (
 		reportCliFailure({
 			result,
@@ -110,30 +202,745 @@ export async function executeLint(
 			deps,
 			successExitCodes: [0, 1],
 			cancelled: controller.signal.aborted,
+			configPath: effectiveConfigPath,
 		})
 	) {
-		return { diagnosticsCount: -1, success: false };
+		deps.recordRun?.(run);
+		return { diagnosticsCount: -1, success: false, diagnostics: [] };
 	}
 
-	const targetPaths = [
-		targetFilePath,
-		"untitled.sql",
-		path.resolve(cwd, "untitled.sql"),
-	];
+	const { diagnostics: parsed, toolVersion } = parseDocumentOutput(
+		result.stdout,
+		context,
+		deps,
+	);
+	deps.recordRun?.({ ...run, diagnostics: parsed.length });
+	if (cached && toolVersion) {
+		cached.store(parsed, toolVersion);
+	}
+	return await publishLintResult(
+		context,
+		document,
+		parsed,
+		snapshotKey,
+		toolVersion,
+		deps,
+	);
+}
 
-	const diagnostics = parseOutput({
-		stdout: result.stdout,
+/**
+ * Look up the results of an earlier run over the same text. Documents that
+ * are skipped without running the CLI are not looked up.
+ */
+async function lookupLintCache(
+	context: DocumentContext,
+	document: TextDocument,
+	reason: LintReason,
+	deps: LintOperationDeps,
+): Promise<LintCacheLookup | null> {
+	if (!deps.resultCache || context.embedded?.regions.length === 0) {
+		return null;
+	}
+	const maxBytes = maxFileSizeBytes(context.effectiveSettings.maxFileSizeKb);
+	if (
+		reason !== "manual" &&
+		maxBytes !== null &&
+		getDocumentSizeBytes(document) > maxBytes
+	) {
+		return null;
+	}
+	return await deps.resultCache(context);
+}
+
+/**
+ * Filter and publish the diagnostics of a full run, whether the CLI ran or
+ * they came from the result cache.
+ */
+async function publishLintResult(
+	context: DocumentContext,
+	document: TextDocument,
+	parsed: Diagnostic[],
+	snapshotKey: string | null,
+	toolVersion: string | null,
+	deps: LintOperationDeps,
+): Promise<LintResult> {
+	const { uri, documentText } = context;
+	if (snapshotKey) {
+		deps.batchSnapshots?.set(
+			uri,
+			createBatchSnapshot(snapshotKey, splitSegments(documentText), parsed),
+		);
+	}
+	const { diagnostics, baselined } = await filterDiagnostics(
+		context,
+		document,
+		context.embedded
+			? mapEmbeddedDiagnostics(context.embedded, document, parsed)
+			: parsed,
+		deps,
+	);
+
+	deps.connection.sendDiagnostics({ uri, diagnostics });
+	return {
+		diagnosticsCount: diagnostics.length,
+		success: true,
+		diagnostics,
+		...(toolVersion ? { toolVersion } : {}),
+		...(baselined.length > 0 ? { baselined } : {}),
+	};
+}
+
+/**
+ * Lint only the `GO` batches changed since the last run, reusing the cached
+ * diagnostics of the others. Returns null when the whole document has to be
+ * linted: without a snapshot for the current settings, when every batch
+ * changed, or when the changed batches exceed `maxFileSizeKb`.
+ */
+async function executeIncrementalLint(
+	context: DocumentContext,
+	document: TextDocument,
+	snapshotKey: string,
+	deps: LintOperationDeps,
+): Promise<LintResult | null> {
+	const { connection, notificationManager, lintStateManager } = deps;
+	const runner = deps.runner ?? runLinter;
+	const { uri, cwd, effectiveSettings, effectiveConfigPath, documentText } =
+		context;
+	const snapshot = deps.batchSnapshots?.get(uri);
+	if (!snapshot || snapshot.key !== snapshotKey) {
+		return null;
+	}
+	const segments = splitSegments(documentText);
+	const plan = planIncrementalLint(snapshot, segments);
+	if (!plan) {
+		return null;
+	}
+	const maxBytes = maxFileSizeBytes(effectiveSettings.maxFileSizeKb);
+	if (maxBytes !== null && Buffer.byteLength(plan.text, "utf8") > maxBytes) {
+		return null;
+	}
+	notificationManager.debug(
+		`[executeLint] Incremental lint of batches ${plan.start + 1}-${plan.end} of ${segments.length} (from line ${plan.startLine + 1})`,
+	);
+
+	let linted: Diagnostic[] = [];
+	let toolVersion: string | null = null;
+	if (plan.text) {
+		let execution: InFlightExecution<ProcessRunResult>;
+		const startedAt = Date.now();
+		try {
+			execution = await runWithInFlight(lintStateManager, uri, (controller) =>
+				runner({
+					cwd,
+					settings: effectiveSettings,
+					signal: controller.signal,
+					stdin: plan.text,
+				}),
+			);
+		} catch (error) {
+			deps.recordRun?.(
+				createFailedRunRecord({
+					operation: "lint",
+					uri,
+					reason: "type",
+					startedAt,
+					bytes: Buffer.byteLength(plan.text, "utf8"),
+					error,
+				}),
+			);
+			return await handleLintError(error, uri, deps);
+		}
+		const { controller, result } = execution;
+		const run = createRunRecord({
+			operation: "lint",
+			uri,
+			reason: "type",
+			startedAt,
+			bytes: Buffer.byteLength(plan.text, "utf8"),
+			result,
+			cancelled: controller.signal.aborted,
+		});
+		if (
+			reportCliFailure({
+				result,
+				operation: "lint",
+				deps,
+				successExitCodes: [0, 1],
+				cancelled: controller.signal.aborted,
+				configPath: effectiveConfigPath,
+			})
+		) {
+			deps.recordRun?.(run);
+			return { diagnosticsCount: -1, success: false, diagnostics: [] };
+		}
+		const output = parseDocumentOutput(result.stdout, context, deps);
+		linted = output.diagnostics.map((diagnostic) =>
+			shiftDiagnostic(diagnostic, plan.startLine),
+		);
+		deps.recordRun?.({ ...run, diagnostics: linted.length });
+		toolVersion = output.toolVersion;
+	}
+
+	const merged = [...plan.reused, ...linted].sort(
+		(a, b) =>
+			a.range.start.line - b.range.start.line ||
+			a.range.start.character - b.range.start.character,
+	);
+	deps.batchSnapshots?.set(
 		uri,
+		createBatchSnapshot(snapshotKey, segments, merged),
+	);
+	const { diagnostics, baselined } = await filterDiagnostics(
+		context,
+		document,
+		merged,
+		deps,
+	);
+	connection.sendDiagnostics({ uri, diagnostics });
+	return {
+		diagnosticsCount: diagnostics.length,
+		success: true,
+		diagnostics,
+		...(toolVersion ? { toolVersion } : {}),
+		...(baselined.length > 0 ? { baselined } : {}),
+	};
+}
+
+/**
+ * Parse the CLI output of a single-document run and the version it reports.
+ */
+function parseDocumentOutput(
+	stdout: string,
+	context: DocumentContext,
+	deps: LintOperationDeps,
+): ParsedLintOutput {
+	const { uri, filePath, cwd, effectiveSettings } = context;
+	return parseLintOutput({
+		stdout,
+		uri,
+		cwd,
+		targetPaths: [
+			resolveTargetFilePath(filePath),
+			"untitled.sql",
+			path.resolve(cwd, "untitled.sql"),
+		],
+		logger: {
+			debug: (message: string | (() => string)) =>
+				deps.notificationManager.debug(message),
+		},
+		ruleOverrides: effectiveSettings.ruleOverrides,
+		diagnosticTags: effectiveSettings.diagnosticTags,
+	});
+}
+
+/**
+ * Lint several saved documents with a single CLI invocation.
+ *
+ * All entries must share the same `cwd` and effective settings. The CLI reads
+ * the files from disk, so callers must only pass documents whose buffer matches
+ * the file on disk. When the batch run fails, each document is linted again on
+ * its own through stdin so failures are reported per file.
+ *
+ * @returns One lint result per entry, in the same order
+ */
+export async function executeBatchLint(
+	entries: readonly BatchLintEntry[],
+	reason: LintReason,
+	deps: LintOperationDeps,
+): Promise<LintResult[]> {
+	const { connection, notificationManager, lintStateManager } = deps;
+	const batchRunner = deps.batchRunner ?? runBatchLinter;
+	const results = new Map<BatchLintEntry, LintResult>();
+
+	const runnable = entries.filter((entry) => {
+		if (
+			reason !== "manual" &&
+			skipIfTooLarge(entry.context, entry.document, deps)
+		) {
+			results.set(entry, {
+				diagnosticsCount: 0,
+				success: true,
+				diagnostics: [],
+			});
+			return false;
+		}
+		return true;
+	});
+	const first = runnable[0];
+	if (first) {
+		const { cwd, effectiveSettings } = first.context;
+		const filePaths = runnable.map((entry) => entry.context.filePath);
+		notificationManager.debug(
+			() =>
+				`[executeBatchLint] Linting ${filePaths.length} files in ${cwd}: ${JSON.stringify(filePaths)}`,
+		);
+
+		let execution: InFlightExecution<ProcessRunResult> | null;
+		const batchBytes = runnable.reduce(
+			(total, entry) =>
+				total + Buffer.byteLength(entry.context.documentText, "utf8"),
+			0,
+		);
+		const startedAt = Date.now();
+		try {
+			execution = await runWithInFlightForUris(
+				lintStateManager,
+				runnable.map((entry) => entry.context.uri),
+				(controller) =>
+					batchRunner({
+						cwd,
+						settings: effectiveSettings,
+						signal: controller.signal,
+						filePaths,
+					}),
+			);
+		} catch (error) {
+			notificationManager.debug(
+				`[executeBatchLint] Batch run failed, linting files individually (${String(error)})`,
+			);
+			execution = null;
+			deps.recordRun?.(
+				createFailedRunRecord({
+					operation: "lint",
+					uri: first.context.uri,
+					files: runnable.length,
+					reason,
+					startedAt,
+					bytes: batchBytes,
+					error,
+				}),
+			);
+		}
+
+		const result = execution?.result;
+		const run =
+			execution &&
+			createRunRecord({
+				operation: "lint",
+				uri: first.context.uri,
+				files: runnable.length,
+				reason,
+				startedAt,
+				bytes: batchBytes,
+				result: execution.result,
+				cancelled: execution.controller.signal.aborted,
+			});
+		if (
+			execution &&
+			(execution.controller.signal.aborted || result?.cancelled)
+		) {
+			if (run) {
+				deps.recordRun?.(run);
+			}
+			for (const entry of runnable) {
+				results.set(entry, {
+					diagnosticsCount: -1,
+					success: false,
+					diagnostics: [],
+				});
+			}
+		} else if (
+			result &&
+			!result.timedOut &&
+			result.exitCode !== null &&
+			[0, 1].includes(result.exitCode)
+		) {
+			if (result.stderr.trim()) {
+				notificationManager.notifyStderr(result.stderr);
+			}
+			const { diagnosticsByPath, toolVersion } = parseBatchLintOutput({
+				stdout: result.stdout,
+				cwd,
+				filePaths,
+				logger: {
+					debug: (message: string | (() => string)) =>
+						notificationManager.debug(message),
+				},
+				ruleOverrides: effectiveSettings.ruleOverrides,
+				diagnosticTags: effectiveSettings.diagnosticTags,
+			});
+			if (run) {
+				let diagnostics = 0;
+				for (const fileDiagnostics of diagnosticsByPath.values()) {
+					diagnostics += fileDiagnostics.length;
+				}
+				deps.recordRun?.({ ...run, diagnostics });
+			}
+			for (const entry of runnable) {
+				const { diagnostics, baselined } = await filterDiagnostics(
+					entry.context,
+					entry.document,
+					diagnosticsByPath.get(normalizeForCompare(entry.context.filePath)) ??
+						[],
+					deps,
+				);
+				connection.sendDiagnostics({ uri: entry.context.uri, diagnostics });
+				results.set(entry, {
+					diagnosticsCount: diagnostics.length,
+					success: true,
+					diagnostics,
+					...(toolVersion ? { toolVersion } : {}),
+					...(baselined.length > 0 ? { baselined } : {}),
+				});
+			}
+		} else {
+			if (run) {
+				deps.recordRun?.(run);
+			}
+			notificationManager.debug(
+				"[executeBatchLint] Batch run unsuccessful, linting files individually",
+			);
+			for (const entry of runnable) {
+				results.set(
+					entry,
+					await executeLint(entry.context, entry.document, reason, deps),
+				);
+			}
+		}
+	}
+
+	return entries.map(
+		(entry) =>
+			results.get(entry) ?? {
+				diagnosticsCount: -1,
+				success: false,
+				diagnostics: [],
+			},
+	);
+}
+
+/**
+ * Lint documents for a baseline: with every severity and without
+ * `ruleOverrides`, `diagnosticsScope` or the current baseline, so the shared
+ * baseline file does not depend on one developer's settings. Nothing is
+ * published. Saved SQL files are linted with one CLI run; the others, and
+ * every file when that run fails, are linted on their own through stdin.
+ *
+ * All entries must share the same `cwd` and effective settings.
+ *
+ * @returns The diagnostics of each entry, in the same order, or null where
+ * its lint failed
+ */
+export async function collectBaselineDiagnostics(
+	entries: readonly BatchLintEntry[],
+	signal: AbortSignal,
+	deps: LintOperationDeps,
+): Promise<Array<Diagnostic[] | null>> {
+	const first = entries[0];
+	if (!first) {
+		return [];
+	}
+	const { cwd } = first.context;
+	const settings: TsqlRefineSettings = {
+		...first.context.effectiveSettings,
+		minSeverity: "hint",
+		ruleOverrides: {},
+	};
+	const logger = {
+		debug: (message: string | (() => string)) =>
+			deps.notificationManager.debug(message),
+	};
+	const results = new Map<BatchLintEntry, Diagnostic[] | null>();
+
+	const batchable = entries.filter(
+		(entry) => entry.context.isSavedFile && !entry.context.embedded,
+	);
+	if (batchable.length > 0) {
+		const filePaths = batchable.map((entry) => entry.context.filePath);
+		const run = {
+			operation: "lint",
+			uri: first.context.uri,
+			files: batchable.length,
+			reason: "workspace",
+			startedAt: Date.now(),
+			bytes: batchable.reduce(
+				(total, entry) =>
+					total + Buffer.byteLength(entry.context.documentText, "utf8"),
+				0,
+			),
+		} as const;
+		const result = await (deps.batchRunner ?? runBatchLinter)({
+			cwd,
+			settings,
+			signal,
+			filePaths,
+		}).catch((error: unknown) => {
+			deps.notificationManager.debug(
+				`[collectBaselineDiagnostics] Batch run failed (${String(error)})`,
+			);
+			deps.recordRun?.(createFailedRunRecord({ ...run, error }));
+			return null;
+		});
+		if (result) {
+			deps.recordRun?.(createRunRecord({ ...run, result }));
+		}
+		if (result && isLintSuccess(result)) {
+			const diagnosticsByPath = parseBatchOutput({
+				stdout: result.stdout,
+				cwd,
+				filePaths,
+				logger,
+			});
+			for (const entry of batchable) {
+				results.set(
+					entry,
+					diagnosticsByPath.get(normalizeForCompare(entry.context.filePath)) ??
+						[],
+				);
+			}
+		}
+	}
+
+	for (const entry of entries) {
+		if (results.has(entry) || signal.aborted) {
+			continue;
+		}
+		const { context, document } = entry;
+		const run = {
+			operation: "lint",
+			uri: context.uri,
+			reason: "workspace",
+			startedAt: Date.now(),
+			bytes: Buffer.byteLength(context.documentText, "utf8"),
+		} as const;
+		const result = await (deps.runner ?? runLinter)({
+			cwd,
+			settings,
+			signal,
+			stdin: context.documentText,
+		}).catch((error: unknown) => {
+			deps.recordRun?.(createFailedRunRecord({ ...run, error }));
+			return null;
+		});
+		if (result) {
+			deps.recordRun?.(createRunRecord({ ...run, result }));
+		}
+		if (!result || !isLintSuccess(result)) {
+			results.set(entry, null);
+			continue;
+		}
+		const { diagnostics: parsed } = parseDocumentOutput(
+			result.stdout,
+			{ ...context, effectiveSettings: settings },
+			deps,
+		);
+		results.set(
+			entry,
+			context.embedded
+				? mapEmbeddedDiagnostics(context.embedded, document, parsed)
+				: parsed,
+		);
+	}
+
+	return entries.map((entry) => results.get(entry) ?? null);
+}
+
+function isLintSuccess(result: ProcessRunResult): boolean {
+	return (
+		!result.timedOut &&
+		!result.cancelled &&
+		result.exitCode !== null &&
+		[0, 1].includes(result.exitCode)
+	);
+}
+
+/**
+ * Lint the SQL cells of a notebook as one script, one batch per cell, so
+ * rules that look across batches see the whole notebook. Diagnostics are
+ * published to the cell they belong to.
+ *
+ * All entries must share the same `cwd` and effective settings, and be in
+ * notebook order.
+ *
+ * @returns One lint result per entry, in the same order
+ */
+export async function executeNotebookLint(
+	entries: readonly BatchLintEntry[],
+	deps: LintOperationDeps,
+): Promise<LintResult[]> {
+	const { connection, notificationManager, lintStateManager } = deps;
+	const runner = deps.runner ?? runLinter;
+	const failed = (): LintResult[] =>
+		entries.map(() => ({
+			diagnosticsCount: -1,
+			success: false,
+			diagnostics: [],
+		}));
+	const first = entries[0];
+	if (!first) {
+		return [];
+	}
+	const { cwd, effectiveSettings, effectiveConfigPath } = first.context;
+	const script = joinBatches(
+		entries.map((entry) => entry.context.documentText),
+	);
+	notificationManager.debug(
+		() =>
+			`[executeNotebookLint] Linting ${entries.length} cells as one script in ${cwd}`,
+	);
+
+	let execution: InFlightExecution<ProcessRunResult>;
+	const startedAt = Date.now();
+	try {
+		execution = await runWithInFlightForUris(
+			lintStateManager,
+			entries.map((entry) => entry.context.uri),
+			(controller) =>
+				runner({
+					cwd,
+					settings: effectiveSettings,
+					signal: controller.signal,
+					stdin: script.text,
+				}),
+		);
+	} catch (error) {
+		deps.recordRun?.(
+			createFailedRunRecord({
+				operation: "lint",
+				uri: first.context.uri,
+				files: entries.length,
+				startedAt,
+				bytes: Buffer.byteLength(script.text, "utf8"),
+				error,
+			}),
+		);
+		await handleLintError(error, first.context.uri, deps);
+		return failed();
+	}
+
+	const { controller, result } = execution;
+	const run = createRunRecord({
+		operation: "lint",
+		uri: first.context.uri,
+		files: entries.length,
+		startedAt,
+		bytes: Buffer.byteLength(script.text, "utf8"),
+		result,
+		cancelled: controller.signal.aborted,
+	});
+	if (
+		reportCliFailure({
+			result,
+			operation: "lint",
+			deps,
+			successExitCodes: [0, 1],
+			cancelled: controller.signal.aborted,
+			configPath: effectiveConfigPath,
+		})
+	) {
+		deps.recordRun?.(run);
+		return failed();
+	}
+
+	const scriptDocument = TextDocument.create("", "sql", 0, script.text);
+	const diagnosticsByCell = entries.map((): Diagnostic[] => []);
+	const { diagnostics: parsed, toolVersion } = parseLintOutput({
+		stdout: result.stdout,
+		uri: first.context.uri,
 		cwd,
-		targetPaths,
+		targetPaths: [
+			resolveTargetFilePath(first.context.filePath),
+			"untitled.sql",
+			path.resolve(cwd, "untitled.sql"),
+		],
 		logger: {
 			debug: (message: string | (() => string)) =>
 				notificationManager.debug(message),
 		},
+		ruleOverrides: effectiveSettings.ruleOverrides,
+		diagnosticTags: effectiveSettings.diagnosticTags,
 	});
+	deps.recordRun?.({ ...run, diagnostics: parsed.length });
+	for (const diagnostic of parsed) {
+		const start = scriptDocument.offsetAt(diagnostic.range.start);
+		const index = findJoinedBatch(script, start);
+		const span = script.spans[index];
+		const entry = entries[index];
+		if (!span || !entry) {
+			continue;
+		}
+		const end = Math.min(
+			scriptDocument.offsetAt(diagnostic.range.end),
+			span.end,
+		);
+		diagnosticsByCell[index]?.push({
+			...diagnostic,
+			range: {
+				start: entry.document.positionAt(start - span.start),
+				end: entry.document.positionAt(Math.max(start, end) - span.start),
+			},
+		});
+	}
 
-	connection.sendDiagnostics({ uri, diagnostics });
-	return { diagnosticsCount: diagnostics.length, success: true };
+	return entries.map((entry, index) => {
+		const diagnostics = diagnosticsByCell[index] ?? [];
+		connection.sendDiagnostics({ uri: entry.context.uri, diagnostics });
+		return {
+			diagnosticsCount: diagnostics.length,
+			success: true,
+			diagnostics,
+			...(toolVersion ? { toolVersion } : {}),
+		};
+	});
+}
+
+/**
+ * Drop diagnostics that match the baseline, then apply
+ * `tsqlrefine.diagnosticsScope` using the lines changed since the Git base.
+ */
+async function filterDiagnostics(
+	context: DocumentContext,
+	document: TextDocument,
+	parsed: Diagnostic[],
+	deps: LintOperationDeps,
+): Promise<{ diagnostics: Diagnostic[]; baselined: Diagnostic[] }> {
+	const issues = deps.baseline ? await deps.baseline(context) : [];
+	const { diagnostics, baselined } = applyBaseline(
+		parsed,
+		document.getText(),
+		issues,
+	);
+	const scope = context.effectiveSettings.diagnosticsScope ?? "all";
+	if (scope === "all" || !deps.changedLines) {
+		return { diagnostics, baselined };
+	}
+	const changed = await deps.changedLines(context, document);
+	return {
+		diagnostics: applyDiagnosticsScope(diagnostics, scope, changed),
+		baselined,
+	};
+}
+
+/**
+ * Publish a "file too large" diagnostic and return true when the document
+ * exceeds `maxFileSizeKb`.
+ */
+function skipIfTooLarge(
+	context: DocumentContext,
+	document: TextDocument,
+	deps: LintOperationDeps,
+): boolean {
+	const { connection, notificationManager } = deps;
+	const { uri, effectiveSettings } = context;
+	const maxBytes = maxFileSizeBytes(effectiveSettings.maxFileSizeKb);
+	if (maxBytes === null) {
+		return false;
+	}
+	const sizeBytes = getDocumentSizeBytes(document);
+	if (sizeBytes <= maxBytes) {
+		return false;
+	}
+	const sizeKb = Math.ceil(sizeBytes / 1024);
+	notificationManager.debug(
+		`[executeLint] Skipping lint: file is ${sizeKb}KB > maxFileSizeKb=${effectiveSettings.maxFileSizeKb}`,
+	);
+	connection.sendDiagnostics({
+		uri,
+		diagnostics: [
+			createFileTooLargeDiagnostic(sizeKb, effectiveSettings.maxFileSizeKb),
+		],
+	});
+	return true;
 }
 
 function maxFileSizeBytes(maxFileSizeKb: number): number | null {
@@ -184,7 +991,7 @@ async function handleLintError(
 		notificationManager.notifyRunFailure(error);
 		connection.sendDiagnostics({ uri, diagnostics: [] });
 	}
-	return { diagnosticsCount: -1, success: false };
+	return { diagnosticsCount: -1, success: false, diagnostics: [] };
 }
 
 function createMissingTsqlRefineDiagnostic(message: string): Diagnostic {
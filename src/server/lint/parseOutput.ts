@@ -2,9 +2,12 @@ import * as path from "node:path";
 import {
 	type Diagnostic,
 	DiagnosticSeverity,
+	DiagnosticTag,
 } from "vscode-languageserver/node";
 import { URI } from "vscode-uri";
+import type { TsqlRefineSettings } from "../config/settings";
 import { normalizeForCompare } from "../shared/normalize";
+import { applyRuleOverrides, findRuleOverride } from "./ruleOverrides";
 
 /** CLI JSON output: top-level structure */
 type CliJsonOutput = {
@@ -36,9 +39,23 @@ type CliDiagnostic = {
 		category?: string;
 		fixable?: boolean;
 		codeDescriptionHref?: string;
+		/** Longer rule description (markdown), when the CLI provides one. */
+		description?: string;
 	};
 };
 
+/**
+ * Extension-specific data attached to each published diagnostic.
+ * Code actions read this back from `CodeActionParams.context.diagnostics`.
+ */
+export type TsqlRefineDiagnosticData = {
+	fixable: boolean;
+	ruleId?: string;
+	category?: string;
+	codeDescriptionHref?: string;
+	description?: string;
+};
+
 /**
  * Debug logger that accepts either a string or a lazily-evaluated message
  * factory. The factory form avoids the cost of building expensive log
@@ -54,6 +71,10 @@ export type ParseOutputOptions = {
 	cwd: string | null;
 	targetPaths?: string[];
 	logger?: LazyDebugLogger;
+	/** `tsqlrefine.ruleOverrides`, applied to the parsed diagnostics. */
+	ruleOverrides?: TsqlRefineSettings["ruleOverrides"];
+	/** `tsqlrefine.diagnosticTags`, for diagnostics the CLI reports without tags. */
+	diagnosticTags?: TsqlRefineSettings["diagnosticTags"];
 };
 
 function mapSeverity(severity: number | undefined): DiagnosticSeverity {
@@ -69,25 +90,79 @@ function mapSeverity(severity: number | undefined): DiagnosticSeverity {
 	}
 }
 
-// Special stdin marker that should not be path-resolved
-const STDIN_MARKER = "<stdin>";
+const TAG_BY_NAME: Record<"unnecessary" | "deprecated", DiagnosticTag> = {
+	unnecessary: DiagnosticTag.Unnecessary,
+	deprecated: DiagnosticTag.Deprecated,
+};
 
-export function parseOutput(options: ParseOutputOptions): Diagnostic[] {
-	if (!options.stdout.trim()) {
-		return [];
+/**
+ * Tags of a diagnostic: the ones the CLI reports (which use the LSP values),
+ * otherwise the `diagnosticTags` entry matching its rule ID or category.
+ */
+function mapTags(
+	diag: CliDiagnostic,
+	diagnosticTags: TsqlRefineSettings["diagnosticTags"],
+): DiagnosticTag[] {
+	const tags = Array.isArray(diag.tags)
+		? diag.tags.filter(
+				(tag): tag is DiagnosticTag =>
+					tag === DiagnosticTag.Unnecessary || tag === DiagnosticTag.Deprecated,
+			)
+		: [];
+	if (tags.length > 0 || !diagnosticTags) {
+		return [...new Set(tags)];
 	}
+	const name = findRuleOverride(
+		diagnosticTags,
+		diag.data?.ruleId ?? diag.code,
+		diag.data?.category,
+	);
+	return name ? [TAG_BY_NAME[name]] : [];
+}
 
-	let parsed: CliJsonOutput;
-	try {
-		parsed = JSON.parse(options.stdout) as CliJsonOutput;
-	} catch {
-		options.logger?.debug(`[parseOutput] Failed to parse JSON output`);
-		return [];
+function createDiagnosticData(diag: CliDiagnostic): TsqlRefineDiagnosticData {
+	const data: TsqlRefineDiagnosticData = {
+		fixable: diag.data?.fixable ?? false,
+	};
+	if (typeof diag.data?.ruleId === "string" && diag.data.ruleId) {
+		data.ruleId = diag.data.ruleId;
+	}
+	if (typeof diag.data?.category === "string" && diag.data.category) {
+		data.category = diag.data.category;
+	}
+	if (
+		typeof diag.data?.codeDescriptionHref === "string" &&
+		diag.data.codeDescriptionHref
+	) {
+		data.codeDescriptionHref = diag.data.codeDescriptionHref;
 	}
+	if (typeof diag.data?.description === "string" && diag.data.description) {
+		data.description = diag.data.description;
+	}
+	return data;
+}
 
-	if (!Array.isArray(parsed.files)) {
-		options.logger?.debug(`[parseOutput] No files array in JSON output`);
-		return [];
+// Special stdin marker that should not be path-resolved
+const STDIN_MARKER = "<stdin>";
+
+/** Diagnostics of a lint run and the CLI version reported with them. */
+export type ParsedLintOutput = {
+	diagnostics: Diagnostic[];
+	toolVersion: string | null;
+};
+
+export function parseOutput(options: ParseOutputOptions): Diagnostic[] {
+	return parseLintOutput(options).diagnostics;
+}
+
+/**
+ * Parse the JSON output of a single-document lint run, together with the CLI
+ * version it reports, from one parse of stdout.
+ */
+export function parseLintOutput(options: ParseOutputOptions): ParsedLintOutput {
+	const parsed = parseCliJson(options.stdout, options.logger);
+	if (!parsed) {
+		return { diagnostics: [], toolVersion: null };
 	}
 
 	const targetPath = normalizeForCompare(URI.parse(options.uri).fsPath);
@@ -121,51 +196,175 @@ export function parseOutput(options: ParseOutputOptions): Diagnostic[] {
 			continue;
 		}
 
-		if (!Array.isArray(file.diagnostics)) {
+		diagnostics.push(
+			...convertDiagnostics(file, options.logger, options.diagnosticTags),
+		);
+	}
+
+	return {
+		diagnostics: applyRuleOverrides(diagnostics, options.ruleOverrides),
+		toolVersion: readToolVersion(parsed),
+	};
+}
+
+export type ParseBatchOutputOptions = {
+	stdout: string;
+	cwd: string;
+	/** File paths passed to the CLI. */
+	filePaths: string[];
+	logger?: LazyDebugLogger;
+	/** `tsqlrefine.ruleOverrides`, applied to the parsed diagnostics. */
+	ruleOverrides?: TsqlRefineSettings["ruleOverrides"];
+	/** `tsqlrefine.diagnosticTags`, for diagnostics the CLI reports without tags. */
+	diagnosticTags?: TsqlRefineSettings["diagnosticTags"];
+};
+
+/**
+ * Parse the JSON output of a multi-file lint run.
+ * Returns diagnostics keyed by normalized file path (see `normalizeForCompare`);
+ * every requested path has an entry, empty when the CLI reported nothing for it.
+ */
+export function parseBatchOutput(
+	options: ParseBatchOutputOptions,
+): Map<string, Diagnostic[]> {
+	return parseBatchLintOutput(options).diagnosticsByPath;
+}
+
+/**
+ * Parse the JSON output of a multi-file lint run like `parseBatchOutput`,
+ * together with the CLI version it reports.
+ */
+export function parseBatchLintOutput(options: ParseBatchOutputOptions): {
+	diagnosticsByPath: Map<string, Diagnostic[]>;
+	toolVersion: string | null;
+} {
+	const results = new Map<string, Diagnostic[]>(
+		options.filePaths.map((filePath) => [normalizeForCompare(filePath), []]),
+	);
+	const parsed = parseCliJson(options.stdout, options.logger);
+	if (!parsed) {
+		return { diagnosticsByPath: results, toolVersion: null };
+	}
+
+	for (const file of parsed.files) {
+		if (typeof file.filePath !== "string" || file.filePath === STDIN_MARKER) {
+			continue;
+		}
+		const resolvedPath = normalizeForCompare(
+			path.resolve(options.cwd, file.filePath),
+		);
+		const diagnostics = results.get(resolvedPath);
+		if (!diagnostics) {
+			options.logger?.debug(
+				() =>
+					`[parseBatchOutput] Path not requested, skipping: ${file.filePath}`,
+			);
 			continue;
 		}
+		diagnostics.push(
+			...applyRuleOverrides(
+				convertDiagnostics(file, options.logger, options.diagnosticTags),
+				options.ruleOverrides,
+			),
+		);
+	}
 
-		for (const diag of file.diagnostics) {
-			if (
-				typeof diag.message !== "string" ||
-				typeof diag.range?.start?.line !== "number" ||
-				typeof diag.range?.start?.character !== "number" ||
-				typeof diag.range?.end?.line !== "number" ||
-				typeof diag.range?.end?.character !== "number"
-			) {
-				options.logger?.debug(
-					() =>
-						`[parseOutput] Skipping malformed diagnostic: ${JSON.stringify(diag)}`,
-				);
-				continue;
-			}
-			const diagnostic: Diagnostic = {
-				message: diag.message,
-				severity: mapSeverity(diag.severity),
-				range: {
-					start: {
-						line: diag.range.start.line,
-						character: diag.range.start.character,
-					},
-					end: {
-						line: diag.range.end.line,
-						character: diag.range.end.character,
-					},
+	return { diagnosticsByPath: results, toolVersion: readToolVersion(parsed) };
+}
+
+/**
+ * Read the CLI version from JSON lint output: `tool.version` when `tool` is
+ * an object, otherwise the top-level `version`. Returns null when the output
+ * carries no version.
+ */
+function readToolVersion(parsed: CliJsonOutput): string | null {
+	const { tool, version: topLevelVersion } = parsed as {
+		tool?: unknown;
+		version?: unknown;
+	};
+	const version =
+		typeof tool === "object" && tool !== null && "version" in tool
+			? tool.version
+			: topLevelVersion;
+	return typeof version === "string" && version.trim() ? version.trim() : null;
+}
+
+function parseCliJson(
+	stdout: string,
+	logger: LazyDebugLogger | undefined,
+): CliJsonOutput | null {
+	if (!stdout.trim()) {
+		return null;
+	}
+
+	let parsed: CliJsonOutput;
+	try {
+		parsed = JSON.parse(stdout) as CliJsonOutput;
+	} catch {
+		logger?.debug(`[parseOutput] Failed to parse JSON output`);
+		return null;
+	}
+
+	if (!Array.isArray(parsed.files)) {
+		logger?.debug(`[parseOutput] No files array in JSON output`);
+		return null;
+	}
+	return parsed;
+}
+
+function convertDiagnostics(
+	file: CliFileResult,
+	logger: LazyDebugLogger | undefined,
+	diagnosticTags: TsqlRefineSettings["diagnosticTags"],
+): Diagnostic[] {
+	if (!Array.isArray(file.diagnostics)) {
+		return [];
+	}
+
+	const diagnostics: Diagnostic[] = [];
+	for (const diag of file.diagnostics) {
+		if (
+			typeof diag.message !== "string" ||
+			typeof diag.range?.start?.line !== "number" ||
+			typeof diag.range?.start?.character !== "number" ||
+			typeof diag.range?.end?.line !== "number" ||
+			typeof diag.range?.end?.character !== "number"
+		) {
+			logger?.debug(
+				() =>
+					`[parseOutput] Skipping malformed diagnostic: ${JSON.stringify(diag)}`,
+			);
+			continue;
+		}
+		const diagnostic: Diagnostic = {
+			message: diag.message,
+			severity: mapSeverity(diag.severity),
+			range: {
+				start: {
+					line: diag.range.start.line,
+					character: diag.range.start.character,
+				},
+				end: {
+					line: diag.range.end.line,
+					character: diag.range.end.character,
 				},
-				source: "tsqlrefine",
-				data: { fixable: diag.data?.fixable ?? false },
-			};
-			if (diag.code != null) {
-				diagnostic.code = diag.code;
-				if (diag.data?.codeDescriptionHref) {
-					diagnostic.codeDescription = {
-						href: diag.data.codeDescriptionHref,
-					};
-				}
+			},
+			source: "tsqlrefine",
+			data: createDiagnosticData(diag),
+		};
+		if (diag.code != null) {
+			diagnostic.code = diag.code;
+			if (diag.data?.codeDescriptionHref) {
+				diagnostic.codeDescription = {
+					href: diag.data.codeDescriptionHref,
+				};
 			}
-			diagnostics.push(diagnostic);
 		}
+		const tags = mapTags(diag, diagnosticTags);
+		if (tags.length > 0) {
+			diagnostic.tags = tags;
+		}
+		diagnostics.push(diagnostic);
 	}
-
 	return diagnostics;
 }
@@ -0,0 +1,89 @@
+import {
+	type Diagnostic,
+	DiagnosticSeverity,
+} from "vscode-languageserver/node";
+import type { TsqlRefineSettings } from "../config/settings";
+import type { RuleSeverity } from "../rules/ruleCatalog";
+import type { TsqlRefineDiagnosticData } from "./parseOutput";
+
+const SEVERITY_BY_OVERRIDE: Record<
+	Exclude<RuleSeverity, "off">,
+	DiagnosticSeverity
+> = {
+	error: DiagnosticSeverity.Error,
+	warning: DiagnosticSeverity.Warning,
+	info: DiagnosticSeverity.Information,
+	hint: DiagnosticSeverity.Hint,
+};
+
+/**
+ * Find the value set for a rule in a map keyed by rule ID or category glob,
+ * such as `tsqlrefine.ruleOverrides`. An exact rule ID wins over a glob
+ * matching the rule ID, which wins over a match on the category; among globs
+ * the longest (most specific) pattern wins. Matching is case-insensitive,
+ * and `*` and `?` are the only wildcards.
+ */
+export function findRuleOverride<T>(
+	overrides: Readonly<Record<string, T>>,
+	ruleId: string | undefined,
+	category: string | undefined,
+): T | undefined {
+	const patterns = Object.keys(overrides).sort((a, b) => b.length - a.length);
+	const lookup = (pattern: string | undefined) =>
+		pattern === undefined ? undefined : overrides[pattern];
+	if (ruleId) {
+		const exact = patterns.find(
+			(pattern) => pattern.toLowerCase() === ruleId.toLowerCase(),
+		);
+		const glob = patterns.find((pattern) => matchesGlob(pattern, ruleId));
+		const override = lookup(exact ?? glob);
+		if (override !== undefined) {
+			return override;
+		}
+	}
+	if (category) {
+		return lookup(patterns.find((pattern) => matchesGlob(pattern, category)));
+	}
+	return undefined;
+}
+
+/**
+ * Apply `tsqlrefine.ruleOverrides` to parsed diagnostics: change their
+ * severity, or drop them for "off".
+ */
+export function applyRuleOverrides(
+	diagnostics: Diagnostic[],
+	overrides: TsqlRefineSettings["ruleOverrides"],
+): Diagnostic[] {
+	if (!overrides || Object.keys(overrides).length === 0) {
+		return diagnostics;
+	}
+	return diagnostics.flatMap((diagnostic) => {
+		const data = diagnostic.data as TsqlRefineDiagnosticData | undefined;
+		const ruleId =
+			data?.ruleId ??
+			(diagnostic.code !== undefined ? String(diagnostic.code) : undefined);
+		const override = findRuleOverride(overrides, ruleId, data?.category);
+		if (override === undefined) {
+			return [diagnostic];
+		}
+		if (override === "off") {
+			return [];
+		}
+		return [{ ...diagnostic, severity: SEVERITY_BY_OVERRIDE[override] }];
+	});
+}
+
+function matchesGlob(pattern: string, value: string): boolean {
+	const source = pattern
+		.split("")
+		.map((char) =>
+			char === "*"
+				? ".*"
+				: char === "?"
+					? "."
+					: char.replace(/[.+^${}()|[\]\\/]/g, "\\$&"),
+		)
+		.join("");
+	return new RegExp(`^${source}$`, "i").test(value);
+}
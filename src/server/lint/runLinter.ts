@@ -41,3 +41,43 @@ export async function runLinter(
 		stdin: options.stdin,
 	});
 }
+
+export type RunBatchLinterOptions = {
+	cwd: string;
+	settings: TsqlRefineSettings;
+	signal: AbortSignal;
+	/** Saved files to lint in a single CLI invocation. */
+	filePaths: string[];
+};
+
+/**
+ * Build command-line arguments for a multi-file tsqlrefine lint operation.
+ */
+export function buildBatchArgs(options: RunBatchLinterOptions): string[] {
+	return buildCliArgs(options.settings, {
+		operation: "lint",
+		includeSeverity: true,
+		outputJson: true,
+		filePaths: options.filePaths,
+	});
+}
+
+/**
+ * Run tsqlrefine lint on several saved files with one process.
+ * The timeout scales with the number of files.
+ */
+export async function runBatchLinter(
+	options: RunBatchLinterOptions,
+): Promise<ProcessRunResult> {
+	const args = buildBatchArgs(options);
+
+	return runCliOperation({
+		settings: options.settings,
+		args,
+		cwd: options.cwd,
+		timeoutMs:
+			options.settings.timeoutMs * Math.max(1, options.filePaths.length),
+		signal: options.signal,
+		stdin: null,
+	});
+}
@@ -1,72 +1,113 @@
-export type LintReason = "save" | "type" | "manual" | "open";
+import { type Release, Semaphore } from "../shared/semaphore";
+import { AdaptiveConcurrency } from "./adaptiveConcurrency";
+
+export type LintReason =
+	| "save"
+	| "type"
+	| "manual"
+	| "open"
+	| "workspace"
+	| "config";
 export type PendingLint = {
 	reason: LintReason;
 	version: number | null;
 };
 
+/**
+ * Where a document is shown. Queued lints of the active editor run first,
+ * then those of other visible editors, then background documents.
+ */
+export type LintPriority = "active" | "visible" | "background";
+
+const PRIORITY_ORDER: Record<LintPriority, number> = {
+	active: 0,
+	visible: 1,
+	background: 2,
+};
+
 type SchedulerOptions = {
+	/** Upper bound of concurrent runs; the scheduler adapts below it. */
 	maxConcurrentRuns: number;
 	getDocumentVersion: (uri: string) => number | null;
 	runLint: (uri: string, pending: PendingLint) => Promise<number>;
+	/** Read when a queued lint is picked, so focus changes reorder the queue. */
+	getPriority?: (uri: string) => LintPriority;
 };
 
-type Release = () => void;
-
-class Semaphore {
-	private available: number;
-	private waiters: Array<(release: Release) => void> = [];
-
-	constructor(maxConcurrentRuns: number) {
-		this.available = Math.max(1, maxConcurrentRuns);
-	}
-
-	tryAcquire(): Release | null {
-		if (this.available <= 0) {
-			return null;
-		}
-		this.available -= 1;
-		return this.createRelease();
-	}
-
-	acquire(): Promise<Release> {
-		const release = this.tryAcquire();
-		if (release) {
-			return Promise.resolve(release);
-		}
-		return new Promise((resolve) => {
-			this.waiters.push(resolve);
-		});
-	}
-
-	private createRelease(): Release {
-		let released = false;
-		return () => {
-			if (released) {
-				return;
-			}
-			released = true;
-			this.available += 1;
-			const next = this.waiters.shift();
-			if (next) {
-				this.available -= 1;
-				next(this.createRelease());
-			}
-		};
-	}
-}
+/**
+ * Scheduler state for the "Show Scheduler State" debug dump.
+ */
+export type SchedulerDebugState = {
+	concurrency: ReturnType<AdaptiveConcurrency["getState"]>;
+	running: Array<{ uri: string; reason: LintReason; elapsedMs: number }>;
+	/** In the order they will run. */
+	queued: Array<{
+		uri: string;
+		reason: LintReason | null;
+		priority: LintPriority;
+	}>;
+	debouncing: string[];
+};
 
 export class LintScheduler {
 	private readonly options: SchedulerOptions;
 	private readonly semaphore: Semaphore;
+	private readonly concurrency: AdaptiveConcurrency;
 	private readonly pendingByUri = new Map<string, PendingLint>();
 	private readonly debounceTimerByUri = new Map<string, NodeJS.Timeout>();
 	private readonly queuedUris: string[] = [];
 	private readonly queuedUriSet = new Set<string>();
+	private readonly running = new Map<
+		symbol,
+		{ uri: string; reason: LintReason; startedAt: number }
+	>();
 	private draining = false;
 
 	constructor(options: SchedulerOptions) {
 		this.options = options;
 		this.semaphore = new Semaphore(options.maxConcurrentRuns);
+		this.concurrency = new AdaptiveConcurrency(options.maxConcurrentRuns);
+	}
+
+	/**
+	 * Change the upper bound of concurrent runs (`tsqlrefine.maxConcurrentRuns`).
+	 */
+	setMaxConcurrentRuns(maxConcurrentRuns: number): void {
+		if (maxConcurrentRuns === this.concurrency.max) {
+			return;
+		}
+		this.concurrency.setMax(maxConcurrentRuns);
+		this.semaphore.setMaxConcurrentRuns(this.concurrency.limit);
+		this.drainQueue();
+	}
+
+	getDebugState(): SchedulerDebugState {
+		const now = Date.now();
+		return {
+			concurrency: this.concurrency.getState(),
+			running: [...this.running.values()].map((run) => ({
+				uri: run.uri,
+				reason: run.reason,
+				elapsedMs: now - run.startedAt,
+			})),
+			queued: this.orderQueue().map((uri) => ({
+				uri,
+				reason: this.pendingByUri.get(uri)?.reason ?? null,
+				priority: this.getPriority(uri),
+			})),
+			debouncing: [...this.debounceTimerByUri.keys()],
+		};
+	}
+
+	/**
+	 * Whether no lint is running, queued or waiting for its debounce.
+	 */
+	isIdle(): boolean {
+		return (
+			this.running.size === 0 &&
+			this.queuedUris.length === 0 &&
+			this.debounceTimerByUri.size === 0
+		);
 	}
 
 	clear(uri: string): void {
@@ -169,13 +210,53 @@ export class LintScheduler {
 				pending.version = currentVersion;
 			}
 
-			return await this.options.runLint(uri, pending);
+			return await this.runMeasured(uri, pending);
 		} finally {
 			release();
 			void this.drainQueue();
 		}
 	}
 
+	/**
+	 * Run a lint and feed its latency to the adaptive concurrency limit.
+	 */
+	private async runMeasured(
+		uri: string,
+		pending: PendingLint,
+	): Promise<number> {
+		const key = Symbol(uri);
+		const startedAt = Date.now();
+		this.running.set(key, { uri, reason: pending.reason, startedAt });
+		try {
+			return await this.options.runLint(uri, pending);
+		} finally {
+			this.running.delete(key);
+			const limit = this.concurrency.record(
+				Date.now() - startedAt,
+				this.queuedUris.length > 0,
+			);
+			this.semaphore.setMaxConcurrentRuns(limit);
+		}
+	}
+
+	private getPriority(uri: string): LintPriority {
+		return this.options.getPriority?.(uri) ?? "background";
+	}
+
+	/**
+	 * Queued URIs by priority, first queued first within a priority.
+	 */
+	private orderQueue(): string[] {
+		return this.queuedUris
+			.map((uri, index) => ({
+				uri,
+				index,
+				rank: PRIORITY_ORDER[this.getPriority(uri)],
+			}))
+			.sort((a, b) => a.rank - b.rank || a.index - b.index)
+			.map((entry) => entry.uri);
+	}
+
 	private queueUri(uri: string): void {
 		if (!this.queuedUriSet.has(uri)) {
 			this.queuedUriSet.add(uri);
@@ -205,12 +286,12 @@ export class LintScheduler {
 				if (!release) {
 					return;
 				}
-				const nextUri = this.queuedUris.shift();
+				const nextUri = this.orderQueue()[0];
 				if (!nextUri) {
 					release();
 					continue;
 				}
-				this.queuedUriSet.delete(nextUri);
+				this.removeFromQueue(nextUri);
 				if (!this.pendingByUri.has(nextUri)) {
 					release();
 					continue;
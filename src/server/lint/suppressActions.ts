@@ -0,0 +1,159 @@
+import {
+	type CodeAction,
+	CodeActionKind,
+	type Diagnostic,
+	type TextEdit,
+} from "vscode-languageserver/node";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { findBatchForLine } from "../shared/sqlBatches";
+import type { TsqlRefineDiagnosticData } from "./parseOutput";
+
+/** Inline directive prefixes understood by tsqlrefine. */
+export const SUPPRESS_DIRECTIVES = {
+	nextLine: "tsqlrefine-disable-next-line",
+	disable: "tsqlrefine-disable",
+	enable: "tsqlrefine-enable",
+} as const;
+
+/**
+ * Build code actions that suppress a tsqlrefine rule with inline directive
+ * comments: for the diagnostic's line, for its `GO` batch, or for the file.
+ * Each action re-lints the document through `tsqlrefine.run` once applied.
+ */
+export function createSuppressCodeActions(
+	document: TextDocument,
+	diagnostics: readonly Diagnostic[],
+): CodeAction[] {
+	const lines = document.getText().split(/\r?\n/);
+	const eol = document.getText().includes("\r\n") ? "\r\n" : "\n";
+	// Keyed by scope, rule and line, so diagnostics of one rule on the same
+	// line (or in the same batch, or file) share a single action.
+	const actions = new Map<string, CodeAction>();
+	const addAction = (
+		key: string,
+		title: string,
+		diagnostic: Diagnostic,
+		createEdits: () => TextEdit[],
+	) => {
+		const existing = actions.get(key);
+		if (existing) {
+			existing.diagnostics?.push(diagnostic);
+			return;
+		}
+		actions.set(
+			key,
+			createAction(document.uri, title, diagnostic, createEdits()),
+		);
+	};
+
+	for (const diag of diagnostics) {
+		if (diag.source !== "tsqlrefine") {
+			continue;
+		}
+		const ruleId = (diag.data as TsqlRefineDiagnosticData | undefined)?.ruleId;
+		if (!ruleId) {
+			continue;
+		}
+		const line = diag.range.start.line;
+		const batch = findBatchForLine(lines, line);
+
+		addAction(
+			`line:${ruleId}:${line}`,
+			`Disable ${ruleId} for this line`,
+			diag,
+			() => [
+				insertCommentLine(
+					lines,
+					line,
+					`${SUPPRESS_DIRECTIVES.nextLine} ${ruleId}`,
+					eol,
+				),
+			],
+		);
+		addAction(
+			`batch:${ruleId}:${batch.startLine}`,
+			`Disable ${ruleId} for this statement/batch`,
+			diag,
+			() => [
+				insertCommentLine(
+					lines,
+					batch.startLine,
+					`${SUPPRESS_DIRECTIVES.disable} ${ruleId}`,
+					eol,
+				),
+				insertCommentLine(
+					lines,
+					batch.endLine,
+					`${SUPPRESS_DIRECTIVES.enable} ${ruleId}`,
+					eol,
+					batch.startLine,
+				),
+			],
+		);
+		addAction(`file:${ruleId}`, `Disable ${ruleId} for this file`, diag, () => [
+			insertCommentLine(
+				lines,
+				0,
+				`${SUPPRESS_DIRECTIVES.disable} ${ruleId}`,
+				eol,
+			),
+		]);
+	}
+
+	return [...actions.values()];
+}
+
+function createAction(
+	uri: string,
+	title: string,
+	diagnostic: Diagnostic,
+	edits: TextEdit[],
+): CodeAction {
+	return {
+		title,
+		kind: CodeActionKind.QuickFix,
+		diagnostics: [diagnostic],
+		edit: { changes: { [uri]: edits } },
+		command: {
+			title: "Lint document",
+			command: "tsqlrefine.run",
+			arguments: [uri],
+		},
+	};
+}
+
+/**
+ * Insert a `-- <directive>` line before `line`, indented like that line
+ * (or like `indentLine` when given). A `line` past the end of the document
+ * appends the comment as the final line.
+ */
+function insertCommentLine(
+	lines: readonly string[],
+	line: number,
+	directive: string,
+	eol: string,
+	indentLine: number = line,
+): TextEdit {
+	const indent = /^\s*/.exec(lines[indentLine] ?? "")?.[0] ?? "";
+	const comment = `${indent}-- ${directive}`;
+	let insertLine = line;
+	if (line >= lines.length) {
+		const lastLine = Math.max(0, lines.length - 1);
+		const lastText = lines[lastLine] ?? "";
+		if (lastText !== "" || lastLine === 0) {
+			// No trailing newline: start a new final line.
+			const position = { line: lastLine, character: lastText.length };
+			return {
+				range: { start: position, end: position },
+				newText: `${eol}${comment}`,
+			};
+		}
+		// Text ends with a newline: insert before the empty final line.
+		insertLine = lastLine;
+	}
+	const position = { line: insertLine, character: 0 };
+	return {
+		range: { start: position, end: position },
+		newText: `${comment}${eol}`,
+	};
+}
@@ -0,0 +1,122 @@
+import { Semaphore } from "../shared/semaphore";
+
+export type WorkspaceLintOptions = {
+	uris: readonly string[];
+	maxConcurrentRuns: number;
+	/** Checked before each run starts; cancellation stops new runs. */
+	token: { readonly isCancellationRequested: boolean };
+	/** Lint one file and return its diagnostics count (negative on failure). */
+	lintFile: (uri: string) => Promise<number>;
+	/**
+	 * Lint several files with one CLI invocation and return one diagnostics
+	 * count per file. Only files accepted by `canBatch` are passed.
+	 */
+	lintBatch?: (uris: string[]) => Promise<number[]>;
+	canBatch?: (uri: string) => boolean;
+	/** Maximum number of files per batch. */
+	batchSize?: number;
+	onProgress?: (completed: number, total: number) => void;
+};
+
+export type WorkspaceLintResult = {
+	linted: number;
+	failed: number;
+	issues: number;
+	cancelled: boolean;
+};
+
+/** Default maximum number of files per batched CLI invocation. */
+export const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Lint a list of files through a bounded queue.
+ * At most `maxConcurrentRuns` CLI runs (single files or batches) are active
+ * at the same time.
+ */
+export async function lintWorkspaceFiles(
+	options: WorkspaceLintOptions,
+): Promise<WorkspaceLintResult> {
+	const semaphore = new Semaphore(options.maxConcurrentRuns);
+	const total = options.uris.length;
+	const result: WorkspaceLintResult = {
+		linted: 0,
+		failed: 0,
+		issues: 0,
+		cancelled: false,
+	};
+	let completed = 0;
+
+	const recordCount = (issues: number) => {
+		if (issues < 0) {
+			result.failed++;
+		} else {
+			result.linted++;
+			result.issues += issues;
+		}
+	};
+
+	await Promise.all(
+		createWorkUnits(options).map(async (unit) => {
+			const release = await semaphore.acquire();
+			try {
+				if (options.token.isCancellationRequested) {
+					result.cancelled = true;
+					return;
+				}
+				const counts = await runWorkUnit(options, unit);
+				counts.forEach(recordCount);
+			} finally {
+				release();
+				completed += unit.uris.length;
+				options.onProgress?.(completed, total);
+			}
+		}),
+	);
+
+	return result;
+}
+
+type WorkUnit = {
+	uris: string[];
+	batched: boolean;
+};
+
+/**
+ * Group batchable files into chunks; every other file is its own unit.
+ */
+function createWorkUnits(options: WorkspaceLintOptions): WorkUnit[] {
+	const { lintBatch, canBatch } = options;
+	if (!lintBatch || !canBatch) {
+		return options.uris.map((uri) => ({ uris: [uri], batched: false }));
+	}
+	const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+	const units: WorkUnit[] = [];
+	const batchable: string[] = [];
+	for (const uri of options.uris) {
+		if (canBatch(uri)) {
+			batchable.push(uri);
+		} else {
+			units.push({ uris: [uri], batched: false });
+		}
+	}
+	for (let index = 0; index < batchable.length; index += batchSize) {
+		units.push({
+			uris: batchable.slice(index, index + batchSize),
+			batched: true,
+		});
+	}
+	return units;
+}
+
+async function runWorkUnit(
+	options: WorkspaceLintOptions,
+	unit: WorkUnit,
+): Promise<number[]> {
+	if (unit.batched && options.lintBatch) {
+		const counts = await options.lintBatch(unit.uris).catch(() => []);
+		return unit.uris.map((_, index) => counts[index] ?? -1);
+	}
+	return await Promise.all(
+		unit.uris.map((uri) => options.lintFile(uri).catch(() => -1)),
+	);
+}
@@ -0,0 +1,287 @@
+import * as fs from "node:fs/promises";
+import {
+	type FormattingOptions,
+	type JSONPath,
+	modify,
+	type ParseError,
+	parse,
+} from "jsonc-parser";
+import type { TextEdit } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { parseJsonc } from "../config/jsonc";
+import type { TsqlRefineSettings } from "../config/settings";
+
+/** Severity of a single rule; `off` disables the rule. */
+export type RuleSeverity = TsqlRefineSettings["minSeverity"] | "off";
+
+export const RULE_SEVERITIES: readonly RuleSeverity[] = [
+	"error",
+	"warning",
+	"info",
+	"hint",
+	"off",
+];
+
+/** A rule as reported by `tsqlrefine list-rules --output json`. */
+export type CliRule = {
+	id: string;
+	category: string;
+	description?: string;
+	docsUrl?: string;
+	fixable: boolean;
+	defaultSeverity: RuleSeverity;
+};
+
+/** Raw rule entry in the CLI output; every field is validated. */
+type CliRuleJson = {
+	id?: unknown;
+	ruleId?: unknown;
+	category?: unknown;
+	description?: unknown;
+	docsUrl?: unknown;
+	codeDescriptionHref?: unknown;
+	fixable?: unknown;
+	defaultSeverity?: unknown;
+	severity?: unknown;
+};
+
+/** The parts of a config file this module reads and writes. */
+type ConfigFile = {
+	rules?: unknown;
+	[key: string]: unknown;
+};
+
+/** A rule with its effective severity from the resolved config file. */
+export type RuleCatalogEntry = CliRule & {
+	severity: RuleSeverity;
+	/** Whether the severity comes from the config file. */
+	configured: boolean;
+};
+
+/** Category used for rules the CLI does not categorize. */
+export const UNCATEGORIZED = "Uncategorized";
+
+/** Severity names accepted in config files, mapped to the rule severity. */
+export const SEVERITY_ALIASES: Readonly<Record<string, RuleSeverity>> = {
+	error: "error",
+	warning: "warning",
+	warn: "warning",
+	info: "info",
+	information: "info",
+	hint: "hint",
+	off: "off",
+	none: "off",
+	disabled: "off",
+};
+
+/** LSP-style numeric severities used by the CLI JSON output. */
+const NUMERIC_SEVERITIES: Record<number, RuleSeverity> = {
+	1: "error",
+	2: "warning",
+	3: "info",
+	4: "hint",
+};
+
+/**
+ * Normalize a severity from the CLI or a config file.
+ * Returns null for unknown values.
+ */
+export function normalizeRuleSeverity(value: unknown): RuleSeverity | null {
+	if (typeof value === "number") {
+		return NUMERIC_SEVERITIES[value] ?? null;
+	}
+	if (typeof value === "string") {
+		return SEVERITY_ALIASES[value.trim().toLowerCase()] ?? null;
+	}
+	return null;
+}
+
+/**
+ * Parse the rule list printed by the CLI. Accepts `{ "rules": [...] }` or a
+ * bare array; malformed entries are skipped. Returns null for invalid JSON.
+ */
+export function parseRuleList(stdout: string): CliRule[] | null {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(stdout);
+	} catch {
+		return null;
+	}
+	const entries = Array.isArray(parsed)
+		? parsed
+		: (parsed as { rules?: unknown } | null)?.rules;
+	if (!Array.isArray(entries)) {
+		return null;
+	}
+
+	const rules: CliRule[] = [];
+	for (const entry of entries as (CliRuleJson | null)[]) {
+		const id = entry?.id ?? entry?.ruleId;
+		if (!entry || typeof id !== "string" || !id) {
+			continue;
+		}
+		const rule: CliRule = {
+			id,
+			category:
+				typeof entry.category === "string" && entry.category
+					? entry.category
+					: UNCATEGORIZED,
+			fixable: entry.fixable === true,
+			defaultSeverity:
+				normalizeRuleSeverity(entry.defaultSeverity ?? entry.severity) ??
+				"warning",
+		};
+		if (typeof entry.description === "string") {
+			rule.description = entry.description;
+		}
+		const docsUrl = entry.docsUrl ?? entry.codeDescriptionHref;
+		if (typeof docsUrl === "string" && docsUrl) {
+			rule.docsUrl = docsUrl;
+		}
+		rules.push(rule);
+	}
+	return rules;
+}
+
+/**
+ * Combine the CLI rule list with the severities set in the config file.
+ * Entries are sorted by category, then rule ID.
+ */
+export function buildRuleCatalog(
+	rules: readonly CliRule[],
+	configured: Readonly<Record<string, RuleSeverity>>,
+): RuleCatalogEntry[] {
+	return rules
+		.map((rule) => {
+			const severity = configured[rule.id];
+			return {
+				...rule,
+				severity: severity ?? rule.defaultSeverity,
+				configured: severity !== undefined,
+			};
+		})
+		.sort(
+			(a, b) =>
+				a.category.localeCompare(b.category) || a.id.localeCompare(b.id),
+		);
+}
+
+/**
+ * Read the rule severities from a config file's `rules` object.
+ * A rule may be set to a severity string or to `{ "severity": ... }`.
+ * A missing file has no configured rules.
+ */
+export async function readRuleSeverities(
+	configPath: string,
+): Promise<Record<string, RuleSeverity>> {
+	const { rules } = await readConfigFile(configPath);
+	const severities: Record<string, RuleSeverity> = {};
+	if (!isPlainObject(rules)) {
+		return severities;
+	}
+	for (const [ruleId, value] of Object.entries(rules)) {
+		const severity = normalizeRuleSeverity(
+			isPlainObject(value) ? (value as { severity?: unknown }).severity : value,
+		);
+		if (severity) {
+			severities[ruleId] = severity;
+		}
+	}
+	return severities;
+}
+
+/**
+ * Compute the edits that set (or with `null`, remove) a rule's severity in a
+ * config file's text. Comments, trailing commas and other settings are kept;
+ * empty text gets a new config object. Text that is not a JSON object is an
+ * error so the file is never rewritten around something it cannot parse.
+ */
+export function createRuleSeverityEdits(
+	configPath: string,
+	text: string,
+	ruleId: string,
+	severity: RuleSeverity | null,
+): TextEdit[] {
+	const errors: ParseError[] = [];
+	const config: unknown = text.trim()
+		? parse(text, errors, { allowTrailingComma: true })
+		: {};
+	if (errors.length > 0 || !isPlainObject(config)) {
+		throw new Error(
+			`${configPath} is not a valid JSON object; edit it manually`,
+		);
+	}
+	const { rules } = config;
+	const current = isPlainObject(rules) ? rules[ruleId] : undefined;
+	if (severity === null && current === undefined) {
+		return [];
+	}
+	let jsonPath: JSONPath = ["rules", ruleId];
+	let value: unknown = severity ?? undefined;
+	if (rules !== undefined && !isPlainObject(rules)) {
+		// A malformed `rules` value is replaced rather than edited inside.
+		jsonPath = ["rules"];
+		value = { [ruleId]: severity };
+	} else if (severity !== null && isPlainObject(current)) {
+		jsonPath = ["rules", ruleId, "severity"];
+	}
+	const document = TextDocument.create("", "json", 0, text);
+	return modify(text, jsonPath, value, {
+		formattingOptions: detectFormatting(text),
+	}).map((edit) => ({
+		range: {
+			start: document.positionAt(edit.offset),
+			end: document.positionAt(edit.offset + edit.length),
+		},
+		newText: edit.content,
+	}));
+}
+
+/**
+ * Read a config file's text without a byte order mark, or null when the
+ * file does not exist.
+ */
+export async function readConfigText(
+	configPath: string,
+): Promise<string | null> {
+	try {
+		const text = await fs.readFile(configPath, "utf8");
+		return text.replace(/^\uFEFF/, "");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return null;
+		}
+		throw error;
+	}
+}
+
+/** Indent inserted properties like the existing file does. */
+function detectFormatting(text: string): FormattingOptions {
+	const indent = /^[ \t]+(?=\S)/m.exec(text)?.[0];
+	const tabs = indent?.startsWith("\t") ?? false;
+	return {
+		insertSpaces: !tabs,
+		tabSize: indent && !tabs ? indent.length : 2,
+		eol: text.includes("\r\n") ? "\r\n" : "\n",
+	};
+}
+
+/**
+ * Read a config file as a JSON object. A missing file reads as `{}`;
+ * a file that is not a JSON object is an error.
+ */
+async function readConfigFile(configPath: string): Promise<ConfigFile> {
+	const text = await readConfigText(configPath);
+	if (!text?.trim()) {
+		return {};
+	}
+	const parsed: unknown = parseJsonc(text);
+	if (!isPlainObject(parsed)) {
+		throw new Error(`${configPath} does not contain a JSON object`);
+	}
+	return parsed;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,42 @@
+import type { TsqlRefineSettings } from "../config/settings";
+import { runCliOperation } from "../shared/cliRunner";
+import { normalizeConfigPath } from "../shared/normalize";
+import type { ProcessRunResult } from "../shared/types";
+
+export type RunListRulesOptions = {
+	cwd: string;
+	settings: TsqlRefineSettings;
+	signal: AbortSignal;
+};
+
+/**
+ * Build command-line arguments for listing the rules the CLI knows.
+ * Plugins are included so their rules appear in the catalog.
+ */
+export function buildListRulesArgs(settings: TsqlRefineSettings): string[] {
+	const args = ["list-rules", "--output", "json"];
+	const configPath = normalizeConfigPath(settings.configPath);
+	if (configPath) {
+		args.push("-c", configPath);
+	}
+	if (settings.allowPlugins) {
+		args.push("--allow-plugins");
+	}
+	return args;
+}
+
+/**
+ * Run `tsqlrefine list-rules` and return its raw output.
+ */
+export async function runListRules(
+	options: RunListRulesOptions,
+): Promise<ProcessRunResult> {
+	return runCliOperation({
+		settings: options.settings,
+		args: buildListRulesArgs(options.settings),
+		cwd: options.cwd,
+		timeoutMs: options.settings.timeoutMs,
+		signal: options.signal,
+		stdin: null,
+	});
+}
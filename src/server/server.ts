@@ -1,34 +1,141 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
 import {
+	type CancellationToken,
 	type CodeAction,
 	CodeActionKind,
 	type CodeActionParams,
 	createConnection,
+	type Diagnostic,
+	type DidChangeWatchedFilesParams,
+	DidChangeTextDocumentNotification,
+	DidCloseTextDocumentNotification,
+	DidOpenTextDocumentNotification,
+	DidSaveTextDocumentNotification,
+	type Disposable,
+	DocumentFormattingRequest,
 	type DocumentFormattingParams,
+	DocumentOnTypeFormattingRequest,
+	type DocumentOnTypeFormattingParams,
+	DocumentRangeFormattingRequest,
+	type DocumentRangeFormattingParams,
+	FileChangeType,
+	type Hover,
+	type HoverParams,
 	OptionalVersionedTextDocumentIdentifier,
 	ProposedFeatures,
 	TextDocumentEdit,
 	TextDocumentSyncKind,
 	TextDocuments,
+	type Range,
 	type TextEdit,
 } from "vscode-languageserver/node";
 import { TextDocument } from "vscode-languageserver-textdocument";
 import { URI } from "vscode-uri";
-import { MAX_CONCURRENT_RUNS } from "./config/constants";
+import { ConfigDiagnostics } from "./config/configDiagnostics";
+import {
+	BASELINE_FILE_NAME,
+	DEFERRED_OPEN_LINT_IDLE_MS,
+	LINT_CACHE_FILE_NAME,
+	SQL_LANGUAGE_IDS,
+} from "./config/constants";
+import { findConfigDependents, isConfigFilePath } from "./config/configWatcher";
+import {
+	collectExtends,
+	formatEffectiveConfig,
+} from "./config/effectiveConfig";
+import {
+	type ConfigSource,
+	clearConfigPathCache,
+	DEFAULT_CONFIG_FILE_NAME,
+	EXTRACTED_CONFIG_DIR_NAME,
+	invalidateExtractedConfig,
+	removeStaleExtractedConfigs,
+	resolveConfigPath,
+	setExtractedConfigDirectory,
+	resolveConfigSource,
+} from "./config/resolveConfigPath";
+import { createFixCodeActions } from "./fix/fixActions";
 import { executeFix, type FixOperationDeps } from "./fix/fixOperations";
+import {
+	createScopedFixEdits,
+	selectOtherFixableDiagnostics,
+	selectRuleDiagnostics,
+} from "./fix/scopedFix";
 import {
 	executeFormat,
+	executeOnTypeFormat,
+	executeRangeFormat,
 	type FormatOperationDeps,
+	findOnTypeFormatSpan,
 } from "./format/formatOperations";
-import { executeLint, type LintOperationDeps } from "./lint/lintOperations";
+import {
+	EMBEDDED_SQL_LANGUAGES,
+	isEmbeddedSqlLanguage,
+} from "./embedded/embeddedSql";
+import {
+	type BaselineIssue,
+	collectBaselineIssues,
+	getBaselinePath,
+	isBaselinePath,
+	rebuildBaseline,
+	serializeBaseline,
+	toBaselineFile,
+} from "./lint/baseline";
+import { resolveMaxConcurrentRuns } from "./lint/adaptiveConcurrency";
+import { DeferredOpenLints } from "./lint/deferredOpenLint";
+import { createDiagnosticHover } from "./lint/hover";
+import {
+	type BatchLintEntry,
+	collectBaselineDiagnostics,
+	executeBatchLint,
+	executeLint,
+	executeNotebookLint,
+	type LintResult,
+	type LintOperationDeps,
+} from "./lint/lintOperations";
 import { verifyTsqlRefineInstallation } from "./lint/runLinter";
+import { createSuppressCodeActions } from "./lint/suppressActions";
+import {
+	lintWorkspaceFiles,
+	type WorkspaceLintResult,
+} from "./lint/workspaceLint";
 import {
 	type LintReason,
 	LintScheduler,
 	type PendingLint,
+	type SchedulerDebugState,
 } from "./lint/scheduler";
-import { createDocumentContext } from "./shared/documentContext";
+import {
+	buildRuleCatalog,
+	createRuleSeverityEdits,
+	parseRuleList,
+	RULE_SEVERITIES,
+	type RuleCatalogEntry,
+	type RuleSeverity,
+	readConfigText,
+	readRuleSeverities,
+} from "./rules/ruleCatalog";
+import { runListRules } from "./rules/runListRules";
+import { disposeWorkers } from "./shared/cliRunner";
+import {
+	createDocumentContext,
+	resolveDocumentLocation,
+} from "./shared/documentContext";
+import { GitChangeTracker } from "./shared/gitChanges";
+import { normalizeForCompare } from "./shared/normalize";
+import {
+	clearToolManifestCache,
+	isToolManifestPath,
+} from "./shared/toolManifest";
+import { ToolVersionMonitor } from "./shared/toolVersion";
+import { BaselineStore } from "./state/baselineStore";
 import { DocumentStateManager } from "./state/documentStateManager";
+import { LintCacheStore } from "./state/lintCacheStore";
+import { NotebookCellTracker } from "./state/notebookCells";
 import { NotificationManager } from "./state/notificationManager";
+import { RunHistory, type RunRecord } from "./state/runHistory";
 import { SettingsManager } from "./state/settingsManager";
 
 // ============================================================================
@@ -40,12 +147,77 @@ const documents = new TextDocuments(TextDocument);
 
 const settingsManager = new SettingsManager(connection);
 const notificationManager = new NotificationManager(connection);
+const configDiagnostics = new ConfigDiagnostics(connection);
+const toolVersionMonitor = new ToolVersionMonitor(connection);
 const lintStateManager = new DocumentStateManager();
 const formatStateManager = new DocumentStateManager();
 const fixStateManager = new DocumentStateManager();
+const notebookCells = new NotebookCellTracker();
+const gitChanges = new GitChangeTracker();
+const baselineStore = new BaselineStore((baselinePath) => {
+	notificationManager.warn(
+		`tsqlrefine: ignoring ${baselinePath}, which is not a valid baseline file`,
+	);
+});
+
+const lintCache = new LintCacheStore(notificationManager);
+const runHistory = new RunHistory();
 
 let workspaceFolders: string[] = [];
 
+/** Global storage of the extension, from the client's initialization options. */
+let globalStoragePath: string | null = null;
+
+/**
+ * Whether formatting providers are registered after initialization, so they
+ * can be limited to SQL documents while C#, PowerShell and Python files are
+ * still synced for embedded SQL.
+ */
+let registerFormattingDynamically = false;
+
+/** Whether the client accepts text sync registrations after initialization. */
+let registerSyncDynamically = false;
+
+/**
+ * Sync registrations of the embedded SQL host languages, held only while
+ * `embeddedSql` is on so other C#, PowerShell and Python files stay unsynced.
+ */
+let embeddedSqlSync: Promise<Disposable>[] | null = null;
+
+/** Files linted by "Lint Workspace"; their diagnostics persist while closed. */
+const workspaceLintUris = new Set<string>();
+
+/**
+ * Diagnostics from the latest successful lint, used by rule-scoped fixes,
+ * with the document version they were computed for.
+ */
+const latestDiagnosticsByUri = new Map<
+	string,
+	{ version: number; diagnostics: Diagnostic[] }
+>();
+
+/** Diagnostics of the latest lint that the baseline hides. */
+const baselinedByUri = new Map<string, Diagnostic[]>();
+
+/** Suppressed issue count last sent with `tsqlrefine/baselineStatus`. */
+let reportedBaselineCount = 0;
+
+/** Baseline files written by the baseline commands, with their content. */
+const writtenBaselines = new Map<string, string>();
+
+/** Editors reported by the client, for lint priorities. */
+let activeEditorUri: string | null = null;
+let visibleEditorUris = new Set<string>();
+
+type PendingPreview = {
+	version: number;
+	edits: TextEdit[];
+	operation: "Format" | "Fix";
+};
+
+/** Edits shown by "Preview Format/Fix", applied when the preview is accepted. */
+const pendingPreviewsByUri = new Map<string, PendingPreview>();
+
 // ============================================================================
 // Operation Dependencies
 // ============================================================================
@@ -54,18 +226,44 @@ const lintDeps: LintOperationDeps = {
 	connection,
 	notificationManager,
 	lintStateManager,
+	configDiagnostics,
+	baseline: async (context) =>
+		URI.parse(context.uri).scheme === "file" && context.workspaceRoot
+			? await baselineStore.getIssues(
+					context.workspaceRoot,
+					toBaselineFile(context.workspaceRoot, context.filePath),
+				)
+			: [],
+	changedLines: async (context, document) =>
+		URI.parse(context.uri).scheme === "file"
+			? await gitChanges.getChangedLines(
+					context.filePath,
+					document.getText(),
+					context.effectiveSettings.diagnosticsScopeBase,
+				)
+			: null,
+	batchSnapshots: new Map(),
+	resultCache: async (context) =>
+		context.effectiveSettings.lintCache === "off"
+			? null
+			: await lintCache.lookup(context),
+	recordRun,
 };
 
 const formatDeps: FormatOperationDeps = {
 	connection,
 	notificationManager,
 	stateManager: formatStateManager,
+	configDiagnostics,
+	recordRun,
 };
 
 const fixDeps: FixOperationDeps = {
 	connection,
 	notificationManager,
 	stateManager: fixStateManager,
+	configDiagnostics,
+	recordRun,
 };
 
 // ============================================================================
@@ -73,14 +271,32 @@ const fixDeps: FixOperationDeps = {
 // ============================================================================
 
 const scheduler = new LintScheduler({
-	maxConcurrentRuns: MAX_CONCURRENT_RUNS,
+	maxConcurrentRuns: getMaxConcurrentRuns(),
 	getDocumentVersion: (uri) => {
 		const document = documents.get(uri);
 		return document ? document.version : null;
 	},
 	runLint: (uri, pending) => runLintWithCancel(uri, pending),
+	getPriority: (uri) =>
+		uri === activeEditorUri
+			? "active"
+			: visibleEditorUris.has(uri)
+				? "visible"
+				: "background",
 });
 
+/** Background documents waiting for their lint on open (`runOnOpen: "visibleOnly"`). */
+const deferredOpenLints = new DeferredOpenLints({
+	idleDelayMs: DEFERRED_OPEN_LINT_IDLE_MS,
+	isIdle: () => scheduler.isIdle(),
+	lint: (uri) => void requestLint(uri, "open", null),
+});
+
+const ON_TYPE_FORMATTING_TRIGGERS = {
+	firstTriggerCharacter: ";",
+	moreTriggerCharacter: ["\n"],
+};
+
 // ============================================================================
 // LSP Lifecycle Handlers
 // ============================================================================
@@ -89,11 +305,30 @@ connection.onInitialize((params) => {
 	workspaceFolders =
 		params.workspaceFolders?.map((folder) => URI.parse(folder.uri).fsPath) ??
 		[];
+	const initializationOptions = params.initializationOptions as
+		| { globalStoragePath?: unknown }
+		| undefined;
+	globalStoragePath =
+		typeof initializationOptions?.globalStoragePath === "string"
+			? initializationOptions.globalStoragePath
+			: null;
+	setExtractedConfigDirectory(
+		globalStoragePath
+			? path.join(globalStoragePath, EXTRACTED_CONFIG_DIR_NAME)
+			: null,
+	);
 	// `trace` is "off" | "messages" | "verbose"; anything other than "off"
 	// (or absent) enables verbose debug logging on the server.
 	notificationManager.setDebugEnabled(
 		params.trace != null && params.trace !== "off",
 	);
+	const textDocumentCapabilities = params.capabilities.textDocument;
+	registerFormattingDynamically =
+		textDocumentCapabilities?.formatting?.dynamicRegistration === true &&
+		textDocumentCapabilities.rangeFormatting?.dynamicRegistration === true &&
+		textDocumentCapabilities.onTypeFormatting?.dynamicRegistration === true;
+	registerSyncDynamically =
+		textDocumentCapabilities?.synchronization?.dynamicRegistration === true;
 	return {
 		capabilities: {
 			workspace: {
@@ -107,15 +342,39 @@ connection.onInitialize((params) => {
 				change: TextDocumentSyncKind.Incremental,
 				save: { includeText: false },
 			},
-			documentFormattingProvider: true,
+			...(registerFormattingDynamically
+				? {}
+				: {
+						documentFormattingProvider: true,
+						documentRangeFormattingProvider: true,
+						documentOnTypeFormattingProvider: ON_TYPE_FORMATTING_TRIGGERS,
+					}),
+			hoverProvider: true,
 			codeActionProvider: {
 				codeActionKinds: [CodeActionKind.QuickFix],
 			},
 		},
+		// The baseline commands of the client look for this file.
+		baselineFileName: BASELINE_FILE_NAME,
 	};
 });
 
 connection.onInitialized(async () => {
+	if (registerFormattingDynamically) {
+		const documentSelector = SQL_LANGUAGE_IDS.map((language) => ({
+			language,
+		}));
+		void connection.client.register(DocumentFormattingRequest.type, {
+			documentSelector,
+		});
+		void connection.client.register(DocumentRangeFormattingRequest.type, {
+			documentSelector,
+		});
+		void connection.client.register(DocumentOnTypeFormattingRequest.type, {
+			documentSelector,
+			...ON_TYPE_FORMATTING_TRIGGERS,
+		});
+	}
 	connection.workspace.onDidChangeWorkspaceFolders((event) => {
 		const removed = new Set(
 			event.removed.map((folder) => URI.parse(folder.uri).fsPath),
@@ -127,9 +386,14 @@ connection.onInitialized(async () => {
 		];
 		// Document-scoped settings can depend on workspace folders.
 		settingsManager.invalidateAll();
+		void updateEmbeddedSqlSync();
 	});
 
 	await settingsManager.refreshSettings();
+	await updateEmbeddedSqlSync();
+	scheduler.setMaxConcurrentRuns(getMaxConcurrentRuns());
+	await updateLintCacheStorage();
+	void removeStaleExtractedConfigs();
 	await verifyInstallation();
 });
 
@@ -144,12 +408,109 @@ connection.onNotification(
 );
 
 connection.onDidChangeConfiguration(async () => {
-	const previousPath = settingsManager.getSettings().path;
+	const previous = settingsManager.getSettings();
 	await settingsManager.refreshSettings();
+	const current = settingsManager.getSettings();
+	lintCache.invalidate();
 
-	if (previousPath !== settingsManager.getSettings().path) {
+	if (
+		previous.path !== current.path ||
+		previous.useDaemon !== current.useDaemon
+	) {
+		// Workers are bound to an executable; start fresh ones on demand.
+		disposeWorkers();
+		clearToolManifestCache();
+	}
+	if (previous.path !== current.path) {
 		await verifyInstallation();
 	}
+	await updateEmbeddedSqlSync();
+	scheduler.setMaxConcurrentRuns(getMaxConcurrentRuns());
+	await updateLintCacheStorage();
+	const scopeChanged =
+		previous.diagnosticsScope !== current.diagnosticsScope ||
+		previous.diagnosticsScopeBase !== current.diagnosticsScopeBase;
+	const overridesChanged =
+		JSON.stringify(previous.ruleOverrides) !==
+			JSON.stringify(current.ruleOverrides) ||
+		JSON.stringify(previous.diagnosticTags) !==
+			JSON.stringify(current.diagnosticTags);
+	if (scopeChanged) {
+		gitChanges.clear();
+	}
+	if (scopeChanged || overridesChanged) {
+		for (const uri of documents.keys()) {
+			const docSettings = await settingsManager.getSettingsForDocument(uri);
+			if (docSettings.enableLint) {
+				void requestLint(uri, "config", null);
+			}
+		}
+	}
+});
+
+/**
+ * Register or unregister the sync of C#, PowerShell and Python documents
+ * when `embeddedSql` is turned on or off in any workspace folder. The client
+ * opens already open host documents on registration and closes them on
+ * unregistration, which clears their diagnostics.
+ */
+async function updateEmbeddedSqlSync(): Promise<void> {
+	if (!registerSyncDynamically) {
+		return;
+	}
+	const enabled = await isEmbeddedSqlEnabled();
+	if (enabled === (embeddedSqlSync !== null)) {
+		return;
+	}
+	if (!enabled) {
+		const registrations = embeddedSqlSync ?? [];
+		embeddedSqlSync = null;
+		for (const registration of registrations) {
+			void registration.then((disposable) => disposable.dispose());
+		}
+		return;
+	}
+	const documentSelector = EMBEDDED_SQL_LANGUAGES.flatMap((language) => [
+		{ scheme: "file", language },
+		{ scheme: "untitled", language },
+	]);
+	embeddedSqlSync = [
+		connection.client.register(DidOpenTextDocumentNotification.type, {
+			documentSelector,
+		}),
+		connection.client.register(DidChangeTextDocumentNotification.type, {
+			documentSelector,
+			syncKind: TextDocumentSyncKind.Incremental,
+		}),
+		connection.client.register(DidSaveTextDocumentNotification.type, {
+			documentSelector,
+			includeText: false,
+		}),
+		connection.client.register(DidCloseTextDocumentNotification.type, {
+			documentSelector,
+		}),
+	];
+}
+
+async function isEmbeddedSqlEnabled(): Promise<boolean> {
+	if (settingsManager.getSettings().embeddedSql) {
+		return true;
+	}
+	for (const folder of workspaceFolders) {
+		const folderSettings = await settingsManager.getSettingsForDocument(
+			URI.file(folder).toString(),
+		);
+		if (folderSettings.embeddedSql) {
+			return true;
+		}
+	}
+	return false;
+}
+
+connection.onShutdown(async () => {
+	deferredOpenLints.dispose();
+	disposeWorkers();
+	await lintCache.flush();
 });
 
 // ============================================================================
@@ -172,10 +533,70 @@ documents.onDidClose((change) => {
 	const uri = change.document.uri;
 	scheduler.clear(uri);
 	lintStateManager.clearAll(uri);
+	latestDiagnosticsByUri.delete(uri);
+	lintDeps.batchSnapshots?.delete(uri);
+	deferredOpenLints.delete(uri);
+	setBaselinedDiagnostics(uri, []);
+	pendingPreviewsByUri.delete(uri);
 	settingsManager.invalidateDocument(uri);
+	if (workspaceLintUris.has(uri)) {
+		// Replace diagnostics for unsaved edits with the on-disk state.
+		void lintClosedFile(uri);
+		return;
+	}
 	connection.sendDiagnostics({ uri, diagnostics: [] });
 });
 
+connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+	const changedUris = new Set<string>();
+	const changedConfigPaths: string[] = [];
+	const changedBaselinePaths: string[] = [];
+	for (const change of params.changes) {
+		const changedPath = URI.parse(change.uri).fsPath;
+		if (isToolManifestPath(changedPath)) {
+			// The pinned tool may have changed; resolve the command again.
+			clearToolManifestCache();
+			disposeWorkers();
+			lintCache.invalidate();
+			continue;
+		}
+		if (isBaselinePath(changedPath)) {
+			changedBaselinePaths.push(changedPath);
+			continue;
+		}
+		if (isConfigFilePath(changedPath)) {
+			changedConfigPaths.push(changedPath);
+			invalidateExtractedConfig(changedPath);
+			lintCache.invalidate();
+			if (change.type === FileChangeType.Deleted) {
+				configDiagnostics.clear(changedPath);
+			}
+			continue;
+		}
+		if (!workspaceLintUris.has(change.uri) || documents.get(change.uri)) {
+			continue;
+		}
+		if (change.type === FileChangeType.Deleted) {
+			workspaceLintUris.delete(change.uri);
+			latestDiagnosticsByUri.delete(change.uri);
+			setBaselinedDiagnostics(change.uri, []);
+			changedUris.delete(change.uri);
+			connection.sendDiagnostics({ uri: change.uri, diagnostics: [] });
+			continue;
+		}
+		changedUris.add(change.uri);
+	}
+	if (changedUris.size > 0) {
+		void lintSavedFiles([...changedUris]);
+	}
+	if (changedConfigPaths.length > 0) {
+		void relintConfigDependents(changedConfigPaths);
+	}
+	if (changedBaselinePaths.length > 0) {
+		void reloadBaselines(changedBaselinePaths);
+	}
+});
+
 // ============================================================================
 // LSP Request/Notification Handlers
 // ============================================================================
@@ -192,19 +613,149 @@ connection.onNotification(
 	"tsqlrefine/clearDiagnostics",
 	(params: { uris: string[] }) => {
 		for (const uri of params.uris) {
+			workspaceLintUris.delete(uri);
 			scheduler.clear(uri);
 			lintStateManager.clearAll(uri);
+			latestDiagnosticsByUri.delete(uri);
+			setBaselinedDiagnostics(uri, []);
 			connection.sendDiagnostics({ uri, diagnostics: [] });
 		}
 	},
 );
 
+connection.onNotification(
+	"tsqlrefine/notebookCells",
+	(params: { notebook: string; cells: string[] | null }) => {
+		if (params.cells) {
+			notebookCells.update(params.notebook, params.cells);
+		} else {
+			notebookCells.remove(params.notebook);
+		}
+	},
+);
+
+connection.onNotification(
+	"tsqlrefine/editorFocus",
+	(params: { active: string | null; visible: string[] }) => {
+		activeEditorUri = params.active;
+		visibleEditorUris = new Set(params.visible);
+		if (params.active) {
+			toolVersionMonitor.setActive(
+				resolveDocumentLocation(params.active, workspaceFolders).cwd,
+			);
+		}
+		deferredOpenLints.lintVisible([
+			...(params.active ? [params.active] : []),
+			...params.visible,
+		]);
+	},
+);
+
+connection.onRequest(
+	"tsqlrefine/schedulerState",
+	(): SchedulerDebugState => scheduler.getDebugState(),
+);
+
+connection.onRequest("tsqlrefine/runHistory", (): RunRecord[] =>
+	runHistory.getRecords(),
+);
+
+/**
+ * Add a run to the history and let the client refresh the run history view.
+ */
+function recordRun(run: RunRecord): void {
+	runHistory.record(run);
+	connection.sendNotification("tsqlrefine/runHistoryChanged");
+}
+
+connection.onNotification("tsqlrefine/clearRunHistory", () => {
+	runHistory.clear();
+});
+
+connection.onRequest(
+	"tsqlrefine/lintWorkspace",
+	async (
+		params: { uris: string[] },
+		token: CancellationToken,
+	): Promise<WorkspaceLintResult> => {
+		return await lintWorkspaceUris(params.uris, token);
+	},
+);
+
+connection.onRequest(
+	"tsqlrefine/writeBaseline",
+	async (
+		params: { folder: string; uris: string[]; mode: "create" | "update" },
+		token: CancellationToken,
+	): Promise<BaselineWriteResult> => {
+		const result = await lintWorkspaceUris(params.uris, token);
+		if (result.cancelled) {
+			return { cancelled: true, path: "", issues: 0, files: 0 };
+		}
+		return await writeBaseline(
+			URI.parse(params.folder).fsPath,
+			params.uris,
+			params.mode,
+			token,
+		);
+	},
+);
+
 connection.onDocumentFormatting(
 	async (params: DocumentFormattingParams): Promise<TextEdit[] | null> => {
 		return await formatDocument(params.textDocument.uri);
 	},
 );
 
+connection.onDocumentRangeFormatting(
+	async (params: DocumentRangeFormattingParams): Promise<TextEdit[] | null> => {
+		const uri = params.textDocument.uri;
+		formatStateManager.cancelInFlight(uri);
+		return await withDocumentOperation(
+			uri,
+			"Format",
+			(context, document) =>
+				executeRangeFormat(context, document, params.range, formatDeps),
+			null,
+		);
+	},
+);
+
+connection.onDocumentOnTypeFormatting(
+	async (
+		params: DocumentOnTypeFormattingParams,
+	): Promise<TextEdit[] | null> => {
+		const uri = params.textDocument.uri;
+		const openDocument = documents.get(uri);
+		// Most line breaks complete nothing; typing them must not cancel a
+		// running format or flash the status bar.
+		if (
+			!openDocument ||
+			!findOnTypeFormatSpan(
+				openDocument.getText(),
+				openDocument.offsetAt(params.position),
+				params.ch,
+			)
+		) {
+			return null;
+		}
+		formatStateManager.cancelInFlight(uri);
+		return await withDocumentOperation(
+			uri,
+			"Format",
+			(context, document) =>
+				executeOnTypeFormat(
+					context,
+					document,
+					params.position,
+					params.ch,
+					formatDeps,
+				),
+			null,
+		);
+	},
+);
+
 connection.onRequest(
 	"tsqlrefine/formatDocument",
 	async (params: { uri: string }): Promise<{ ok: boolean; error?: string }> => {
@@ -250,37 +801,338 @@ connection.onRequest(
 	},
 );
 
+connection.onRequest(
+	"tsqlrefine/previewEdit",
+	async (params: {
+		uri: string;
+		operation: "format" | "fix";
+	}): Promise<{ ok: boolean; error?: string; text?: string }> => {
+		const document = documents.get(params.uri);
+		if (!document) {
+			return { ok: false, error: "Document not found" };
+		}
+		// Snapshot the text: the document may change while the CLI runs.
+		const snapshot = TextDocument.create(
+			document.uri,
+			document.languageId,
+			document.version,
+			document.getText(),
+		);
+		const operation = params.operation === "fix" ? "Fix" : "Format";
+		const edits =
+			operation === "Fix"
+				? await fixDocument(params.uri)
+				: await formatDocument(params.uri);
+		if (edits === null) {
+			return { ok: false, error: `${operation} failed` };
+		}
+		pendingPreviewsByUri.set(params.uri, {
+			version: snapshot.version,
+			edits,
+			operation,
+		});
+		return { ok: true, text: TextDocument.applyEdits(snapshot, edits) };
+	},
+);
+
+connection.onRequest(
+	"tsqlrefine/applyPreview",
+	async (params: { uri: string }): Promise<{ ok: boolean; error?: string }> => {
+		const preview = pendingPreviewsByUri.get(params.uri);
+		pendingPreviewsByUri.delete(params.uri);
+		if (!preview) {
+			return { ok: false, error: "No pending preview" };
+		}
+		if (documents.get(params.uri)?.version !== preview.version) {
+			return {
+				ok: false,
+				error: "The document changed after the preview was created",
+			};
+		}
+		const result = await applyEditsWithVersionGuard(
+			params.uri,
+			preview.version,
+			preview.edits,
+			preview.operation,
+		);
+		if (result.ok && preview.operation === "Fix" && preview.edits.length > 0) {
+			await requestLint(params.uri, "manual", null);
+		}
+		return result;
+	},
+);
+
+connection.onRequest(
+	"tsqlrefine/discardPreview",
+	(params: { uri: string }): { ok: boolean } => {
+		pendingPreviewsByUri.delete(params.uri);
+		return { ok: true };
+	},
+);
+
+// ============================================================================
+// Rule Catalog Handlers
+// ============================================================================
+
+connection.onRequest(
+	"tsqlrefine/listRules",
+	async (params: {
+		uri?: string;
+	}): Promise<{
+		ok: boolean;
+		error?: string;
+		configPath?: string;
+		rules?: RuleCatalogEntry[];
+	}> => {
+		try {
+			const target = await resolveRuleConfigTarget(params.uri);
+			const result = await runListRules({
+				cwd: target.cwd,
+				settings: target.settings,
+				signal: new AbortController().signal,
+			});
+			if (result.timedOut) {
+				return { ok: false, error: "tsqlrefine list-rules timed out" };
+			}
+			configDiagnostics.update(
+				target.configPath,
+				result.exitCode,
+				result.stderr,
+			);
+			const rules = parseRuleList(result.stdout);
+			if (!rules) {
+				const detail = result.stderr.trim() || `exit code ${result.exitCode}`;
+				return { ok: false, error: `tsqlrefine list-rules failed (${detail})` };
+			}
+			return {
+				ok: true,
+				configPath: target.configPath,
+				rules: buildRuleCatalog(
+					rules,
+					await readRuleSeverities(target.configPath),
+				),
+			};
+		} catch (error) {
+			return { ok: false, error: String(error) };
+		}
+	},
+);
+
+connection.onRequest(
+	"tsqlrefine/setRuleSeverity",
+	async (params: {
+		uri?: string;
+		ruleId: string;
+		severity: RuleSeverity | null;
+		/** Files with unsaved changes in the editor. */
+		unsavedFiles?: string[];
+	}): Promise<{ ok: boolean; error?: string; configPath?: string }> => {
+		if (
+			params.severity !== null &&
+			!RULE_SEVERITIES.includes(params.severity)
+		) {
+			return { ok: false, error: `Unknown severity: ${params.severity}` };
+		}
+		try {
+			const target = await resolveRuleConfigTarget(params.uri);
+			if (target.readOnlyReason) {
+				return { ok: false, error: target.readOnlyReason };
+			}
+			const configKey = normalizeForCompare(target.configPath);
+			if (
+				params.unsavedFiles?.some(
+					(file) => normalizeForCompare(file) === configKey,
+				)
+			) {
+				return {
+					ok: false,
+					error: `Save ${target.configPath} before changing rule severities.`,
+				};
+			}
+			const text = await readConfigText(target.configPath);
+			const edits = createRuleSeverityEdits(
+				target.configPath,
+				text ?? "",
+				params.ruleId,
+				params.severity,
+			);
+			if (edits.length === 0) {
+				return { ok: true, configPath: target.configPath };
+			}
+			if (text === null) {
+				// No editor can hold a file that does not exist yet.
+				const created = TextDocument.create("", "json", 0, "");
+				await fs.writeFile(
+					target.configPath,
+					`${TextDocument.applyEdits(created, edits)}\n`,
+					{ encoding: "utf8", flag: "wx" },
+				);
+			} else {
+				// Edit through the client so an open editor for the config is
+				// updated in place instead of being overwritten on disk.
+				const result = await connection.workspace.applyEdit({
+					label: `Set ${params.ruleId} severity`,
+					documentChanges: [
+						TextDocumentEdit.create(
+							OptionalVersionedTextDocumentIdentifier.create(
+								URI.file(target.configPath).toString(),
+								null,
+							),
+							edits,
+						),
+					],
+				});
+				if (!result.applied) {
+					return {
+						ok: false,
+						error: result.failureReason ?? "Failed to apply edits",
+					};
+				}
+			}
+			lintCache.invalidate();
+			// Only documents that use the written (or newly created) config change.
+			await relintConfigDependents([target.configPath]);
+			return { ok: true, configPath: target.configPath };
+		} catch (error) {
+			return { ok: false, error: String(error) };
+		}
+	},
+);
+
+// ============================================================================
+// Config Handlers
+// ============================================================================
+
+connection.onRequest(
+	"tsqlrefine/showEffectiveConfig",
+	async (params: {
+		uri: string;
+	}): Promise<{ ok: boolean; error?: string; text?: string }> => {
+		const document = documents.get(params.uri);
+		if (!document) {
+			return { ok: false, error: "The document is not open." };
+		}
+		try {
+			const { context, source } = await resolveDocumentConfig(document);
+			const extendsEntries =
+				source.kind === "none" ? [] : await collectExtends(source.path);
+			return {
+				ok: true,
+				text: formatEffectiveConfig(context.filePath, source, extendsEntries),
+			};
+		} catch (error) {
+			return { ok: false, error: String(error) };
+		}
+	},
+);
+
+// ============================================================================
+// Hover Handler
+// ============================================================================
+
+connection.onHover((params: HoverParams): Hover | null => {
+	return createDiagnosticHover(
+		latestDiagnosticsByUri.get(params.textDocument.uri)?.diagnostics ?? [],
+		params.position,
+	);
+});
+
 // ============================================================================
 // Code Action Handler
 // ============================================================================
 
-connection.onCodeAction(
-	async (params: CodeActionParams): Promise<CodeAction[] | null> => {
-		// Check if any fixable diagnostic from tsqlrefine exists
-		const fixableDiagnostics = params.context.diagnostics.filter(
-			(diag) =>
-				diag.source === "tsqlrefine" &&
-				(diag.data as { fixable?: boolean } | undefined)?.fixable === true,
+connection.onRequest(
+	"tsqlrefine/fixRule",
+	async (params: {
+		uri: string;
+		ruleId: string;
+		range?: Range;
+	}): Promise<{ ok: boolean; error?: string }> => {
+		const document = documents.get(params.uri);
+		if (!document) {
+			return { ok: false, error: "Document not found" };
+		}
+		if (latestDiagnosticsByUri.get(params.uri)?.version !== document.version) {
+			// The ranges must match the text; lint the current version first.
+			await requestLint(params.uri, "manual", null);
+		}
+		const latest = latestDiagnosticsByUri.get(params.uri);
+		if (latest?.version !== document.version) {
+			return {
+				ok: false,
+				error: "The document changed while it was linted; try the fix again",
+			};
+		}
+		const { version, diagnostics } = latest;
+		// `document` is updated in place; keep the text the ranges refer to.
+		const snapshot = TextDocument.create(
+			document.uri,
+			document.languageId,
+			version,
+			document.getText(),
+		);
+		const targetRanges = selectRuleDiagnostics(
+			diagnostics,
+			params.ruleId,
+			params.range,
+		).map((diag) => diag.range);
+		if (targetRanges.length === 0) {
+			return { ok: true };
+		}
+		const edits = await fixDocument(params.uri);
+		const scoped =
+			edits === null
+				? null
+				: createScopedFixEdits(
+						snapshot,
+						TextDocument.applyEdits(snapshot, edits),
+						targetRanges,
+						selectOtherFixableDiagnostics(diagnostics, params.ruleId).map(
+							(diag) => diag.range,
+						),
+					);
+		if (scoped && scoped.skipped > 0) {
+			const message = `The fix for ${params.ruleId} could not be separated from fixes of other rules on the same lines`;
+			if (scoped.edits.length === 0) {
+				return { ok: false, error: message };
+			}
+			void connection.window.showWarningMessage(
+				`TSQLRefine: ${message}; ${scoped.skipped} of its changes were not applied.`,
+			);
+		}
+		const scopedEdits = scoped?.edits ?? null;
+		const applyResult = await applyEditsWithVersionGuard(
+			params.uri,
+			version,
+			scopedEdits,
+			"Fix",
 		);
+		if (!applyResult.ok || scopedEdits?.length === 0) {
+			return applyResult;
+		}
+		await requestLint(params.uri, "manual", null);
+		return { ok: true };
+	},
+);
 
-		if (fixableDiagnostics.length === 0) {
+connection.onCodeAction(
+	async (params: CodeActionParams): Promise<CodeAction[] | null> => {
+		const document = documents.get(params.textDocument.uri);
+		if (document && isEmbeddedSqlLanguage(document.languageId)) {
+			// Fixes and suppressions would edit the host file as SQL.
 			return null;
 		}
-
-		// Create the Code Action without executing fix yet.
-		// The fix will be executed when the user selects the action.
-		const codeAction: CodeAction = {
-			title: "Fix all tsqlrefine issues",
-			kind: CodeActionKind.QuickFix,
-			diagnostics: fixableDiagnostics,
-			command: {
-				title: "Fix all tsqlrefine issues",
-				command: "tsqlrefine.fix",
-				arguments: [params.textDocument.uri],
-			},
-		};
-
-		return [codeAction];
+		// Commands are executed only when the user selects an action.
+		const actions = createFixCodeActions(
+			params.textDocument.uri,
+			params.context.diagnostics,
+		);
+		if (document) {
+			actions.push(
+				...createSuppressCodeActions(document, params.context.diagnostics),
+			);
+		}
+		return actions.length > 0 ? actions : null;
 	},
 );
 
@@ -359,9 +1211,19 @@ async function handleDidOpen(document: TextDocument): Promise<void> {
 		}
 
 		const docSettings = await settingsManager.getSettingsForDocument(uri);
-		if (docSettings.runOnOpen && docSettings.enableLint) {
-			void requestLint(uri, "open", document.version);
+		if (!docSettings.runOnOpen || !docSettings.enableLint) {
+			return;
 		}
+		if (
+			docSettings.runOnOpen === "visibleOnly" &&
+			uri !== activeEditorUri &&
+			!visibleEditorUris.has(uri)
+		) {
+			// Restored tabs are opened in the background; lint them once shown.
+			deferredOpenLints.defer(uri);
+			return;
+		}
+		void requestLint(uri, "open", document.version);
 	} catch (error) {
 		notificationManager.error(
 			`tsqlrefine: failed to react to open (${String(error)})`,
@@ -383,10 +1245,277 @@ async function requestLint(
 	if (!document) {
 		return 0;
 	}
+	if (deferredOpenLints.has(uri)) {
+		if (reason === "config") {
+			// Its deferred lint on open will use the new config.
+			return 0;
+		}
+		deferredOpenLints.delete(uri);
+	}
 	const finalVersion = version ?? document.version;
 	return await scheduler.requestLint(uri, reason, finalVersion, debounceMs);
 }
 
+/**
+ * Re-lint the open documents whose effective config file was created,
+ * changed or deleted. Documents that use a different config are skipped.
+ */
+async function relintConfigDependents(configPaths: string[]): Promise<void> {
+	try {
+		const uris = await findConfigDependents({
+			uris: documents.keys(),
+			configPaths,
+			resolveConfigPath: async (uri) => {
+				const document = documents.get(uri);
+				if (!document) {
+					return undefined;
+				}
+				const { source } = await resolveDocumentConfig(document);
+				return source.kind === "none" ? undefined : source.path;
+			},
+			invalidate: clearConfigPathCache,
+		});
+		for (const uri of uris) {
+			const docSettings = await settingsManager.getSettingsForDocument(uri);
+			if (docSettings.enableLint) {
+				void requestLint(uri, "config", null);
+			}
+		}
+	} catch (error) {
+		notificationManager.error(
+			`tsqlrefine: failed to react to config change (${String(error)})`,
+		);
+	}
+}
+
+/**
+ * Lint files for "Lint Workspace" and baseline commands, reporting progress
+ * to the client.
+ */
+async function lintWorkspaceUris(
+	uris: string[],
+	token: CancellationToken,
+): Promise<WorkspaceLintResult> {
+	return await lintWorkspaceFiles({
+		uris,
+		maxConcurrentRuns: getMaxConcurrentRuns(),
+		token,
+		lintFile: (uri) => {
+			workspaceLintUris.add(uri);
+			return documents.get(uri)
+				? requestLint(uri, "manual", null)
+				: lintClosedFile(uri);
+		},
+		// Closed and saved files are read from disk by a single CLI process.
+		canBatch: (uri) => {
+			const document = documents.get(uri);
+			return document
+				? isSaved(document) && !isEmbeddedSqlLanguage(document.languageId)
+				: URI.parse(uri).scheme === "file";
+		},
+		lintBatch: (uris) => {
+			for (const uri of uris) {
+				workspaceLintUris.add(uri);
+			}
+			return lintSavedFiles(uris);
+		},
+		onProgress: (completed, total) => {
+			connection.sendNotification("tsqlrefine/workspaceLintProgress", {
+				completed,
+				total,
+			});
+		},
+	});
+}
+
+/**
+ * Reload baselines after their files changed and re-lint, unless the change
+ * is a file the baseline commands just wrote.
+ */
+async function reloadBaselines(baselinePaths: string[]): Promise<void> {
+	try {
+		baselineStore.invalidate();
+		let external = false;
+		for (const baselinePath of baselinePaths) {
+			const text = await fs.readFile(baselinePath, "utf8").catch(() => null);
+			const key = normalizeForCompare(baselinePath);
+			if (text === null || text !== writtenBaselines.get(key)) {
+				external = true;
+			}
+			writtenBaselines.delete(key);
+		}
+		if (external) {
+			await relintAll();
+		}
+	} catch (error) {
+		notificationManager.error(
+			`tsqlrefine: failed to react to baseline change (${String(error)})`,
+		);
+	}
+}
+
+/**
+ * Re-lint open documents and workspace-linted files.
+ */
+async function relintAll(): Promise<void> {
+	for (const uri of documents.keys()) {
+		const docSettings = await settingsManager.getSettingsForDocument(uri);
+		if (docSettings.enableLint) {
+			void requestLint(uri, "config", null);
+		}
+	}
+	const closed = [...workspaceLintUris].filter((uri) => !documents.get(uri));
+	if (closed.length > 0) {
+		await lintSavedFiles(closed);
+	}
+}
+
+type BaselineWriteResult = {
+	cancelled: boolean;
+	/** Path of the written baseline file. */
+	path: string;
+	/** Number of baselined issues. */
+	issues: number;
+	/** Number of files with baselined issues. */
+	files: number;
+};
+
+/**
+ * Write the baseline of a workspace folder from the latest lint of `uris`.
+ * "create" records every current issue; "update" only drops issues of the
+ * existing baseline that no longer occur.
+ */
+async function writeBaseline(
+	workspaceRoot: string,
+	uris: string[],
+	mode: "create" | "update",
+	token: CancellationToken,
+): Promise<BaselineWriteResult> {
+	const files = new Map<string, string>();
+	for (const uri of uris) {
+		const file = toBaselineFile(workspaceRoot, URI.parse(uri).fsPath);
+		if (!file.startsWith("../") && !path.isAbsolute(file)) {
+			files.set(uri, file);
+		}
+	}
+	const linted = await collectUnfilteredDiagnostics([...files.keys()], token);
+	if (token.isCancellationRequested) {
+		return { cancelled: true, path: "", issues: 0, files: 0 };
+	}
+
+	const current: BaselineIssue[] = [];
+	const recorded: string[] = [];
+	const unlintedFiles = new Set<string>();
+	for (const [uri, file] of files) {
+		const result = linted.get(uri);
+		if (!result) {
+			// Keep the recorded issues of files that could not be linted now.
+			unlintedFiles.add(file);
+			continue;
+		}
+		if (result.diagnostics.length > 0) {
+			current.push(
+				...collectBaselineIssues(file, result.text, result.diagnostics),
+			);
+			recorded.push(uri);
+		}
+	}
+
+	const issues = rebuildBaseline(
+		mode,
+		await baselineStore.getAllIssues(workspaceRoot),
+		current,
+		unlintedFiles,
+	);
+	const baselinePath = getBaselinePath(workspaceRoot);
+	const text = serializeBaseline(issues);
+	await fs.writeFile(baselinePath, text, "utf8");
+	writtenBaselines.set(normalizeForCompare(baselinePath), text);
+	baselineStore.invalidate();
+
+	if (mode === "create") {
+		// Every current issue is now baselined; clear them without re-linting.
+		for (const uri of recorded) {
+			const latest = latestDiagnosticsByUri.get(uri);
+			setBaselinedDiagnostics(uri, [
+				...(baselinedByUri.get(uri) ?? []),
+				...(latest?.diagnostics ?? []),
+			]);
+			if (latest) {
+				latestDiagnosticsByUri.set(uri, { ...latest, diagnostics: [] });
+			}
+			connection.sendDiagnostics({ uri, diagnostics: [] });
+		}
+	}
+	return {
+		cancelled: false,
+		path: baselinePath,
+		issues: issues.reduce((total, issue) => total + issue.count, 0),
+		files: new Set(issues.map((issue) => issue.file)).size,
+	};
+}
+
+/**
+ * Lint files for a baseline, without the local settings that filter
+ * diagnostics (see `collectBaselineDiagnostics`). Nothing is published.
+ *
+ * @returns Diagnostics and linted text by URI; files whose lint failed or
+ * is disabled are missing
+ */
+async function collectUnfilteredDiagnostics(
+	uris: string[],
+	token: CancellationToken,
+): Promise<Map<string, { diagnostics: Diagnostic[]; text: string }>> {
+	const groups = new Map<string, BatchLintEntry[]>();
+	for (const uri of uris) {
+		const document =
+			documents.get(uri) ??
+			(await fs
+				.readFile(URI.parse(uri).fsPath, "utf8")
+				.then((text) => TextDocument.create(uri, "sql", 0, text))
+				.catch(() => null));
+		const documentSettings = await settingsManager.getSettingsForDocument(uri);
+		if (!document || !documentSettings.enableLint) {
+			continue;
+		}
+		const context = await createDocumentContext({
+			document,
+			documentSettings,
+			workspaceFolders,
+			isSavedFn: (doc) => !documents.get(doc.uri) || isSaved(doc),
+		});
+		const key = JSON.stringify([context.cwd, context.effectiveSettings]);
+		const group = groups.get(key) ?? [];
+		group.push({ context, document });
+		groups.set(key, group);
+	}
+
+	const controller = new AbortController();
+	const subscription = token.onCancellationRequested(() => controller.abort());
+	const linted = new Map<string, { diagnostics: Diagnostic[]; text: string }>();
+	try {
+		for (const entries of groups.values()) {
+			const results = await collectBaselineDiagnostics(
+				entries,
+				controller.signal,
+				lintDeps,
+			);
+			entries.forEach((entry, index) => {
+				const diagnostics = results[index];
+				if (diagnostics) {
+					linted.set(entry.context.uri, {
+						diagnostics,
+						text: entry.document.getText(),
+					});
+				}
+			});
+		}
+	} finally {
+		subscription.dispose();
+	}
+	return linted;
+}
+
 async function runLintWithCancel(
 	uri: string,
 	pending: PendingLint,
@@ -395,18 +1524,238 @@ async function runLintWithCancel(
 	return await runLintNow(uri, pending.reason);
 }
 
+/**
+ * Persist the lint cache in global storage while `tsqlrefine.lintCache` is
+ * "persistent".
+ */
+async function updateLintCacheStorage(): Promise<void> {
+	await lintCache.setStoragePath(
+		settingsManager.getSettings().lintCache === "persistent" &&
+			globalStoragePath
+			? path.join(globalStoragePath, LINT_CACHE_FILE_NAME)
+			: null,
+	);
+}
+
+/**
+ * Upper bound of concurrent lints from `tsqlrefine.maxConcurrentRuns`.
+ */
+function getMaxConcurrentRuns(): number {
+	return resolveMaxConcurrentRuns(
+		settingsManager.getSettings().maxConcurrentRuns,
+		os.availableParallelism(),
+	);
+}
+
 async function runLintNow(uri: string, reason: LintReason): Promise<number> {
-	return await withDocumentOperation(
-		uri,
+	return await withDocumentOperation(uri, "Lint", lintDocument(reason), 0);
+}
+
+/**
+ * Lint a file that is not open in the editor, reading its content from disk.
+ */
+async function lintClosedFile(uri: string): Promise<number> {
+	let text: string;
+	try {
+		text = await fs.readFile(URI.parse(uri).fsPath, "utf8");
+	} catch (error) {
+		notificationManager.warn(
+			`tsqlrefine: failed to read ${uri} (${String(error)})`,
+		);
+		return -1;
+	}
+	const document = TextDocument.create(uri, "sql", 0, text);
+	return await runDocumentOperation(
+		document,
 		"Lint",
-		async (context, document) => {
-			const result = await executeLint(context, document, reason, lintDeps);
-			return result.diagnosticsCount;
-		},
+		lintDocument("workspace"),
 		0,
+		() => true,
 	);
 }
 
+/**
+ * Lint saved files in as few CLI invocations as possible. Files are grouped
+ * by working directory and effective settings, since each group needs its own
+ * command line.
+ *
+ * @returns One diagnostics count per URI (negative on failure)
+ */
+async function lintSavedFiles(uris: string[]): Promise<number[]> {
+	const counts = new Map<string, number>();
+	const groups = new Map<string, BatchLintEntry[]>();
+
+	for (const uri of uris) {
+		let document = documents.get(uri);
+		if (!document) {
+			try {
+				const text = await fs.readFile(URI.parse(uri).fsPath, "utf8");
+				document = TextDocument.create(uri, "sql", 0, text);
+			} catch (error) {
+				notificationManager.warn(
+					`tsqlrefine: failed to read ${uri} (${String(error)})`,
+				);
+				counts.set(uri, -1);
+				continue;
+			}
+		}
+		const documentSettings = await settingsManager.getSettingsForDocument(uri);
+		if (!documentSettings.enableLint) {
+			counts.set(uri, 0);
+			continue;
+		}
+		const context = await createDocumentContext({
+			document,
+			documentSettings,
+			workspaceFolders,
+			isSavedFn: () => true,
+		});
+		const key = JSON.stringify([context.cwd, context.effectiveSettings]);
+		const group = groups.get(key) ?? [];
+		group.push({ context, document });
+		groups.set(key, group);
+	}
+
+	connection.sendNotification("tsqlrefine/operationState", {
+		state: "started",
+	});
+	try {
+		for (const entries of groups.values()) {
+			const versions = entries.map((entry) => entry.document.version);
+			const results = await executeBatchLint(entries, "workspace", lintDeps);
+			entries.forEach((entry, index) => {
+				const result = results[index];
+				if (result) {
+					recordLintResult(result, entry.context, versions[index] ?? -1);
+				}
+				counts.set(entry.context.uri, result?.diagnosticsCount ?? -1);
+			});
+		}
+	} finally {
+		connection.sendNotification("tsqlrefine/operationState", {
+			state: "completed",
+		});
+	}
+
+	return uris.map((uri) => counts.get(uri) ?? -1);
+}
+
+function lintDocument(
+	reason: LintReason,
+): (
+	context: Awaited<ReturnType<typeof createDocumentContext>>,
+	document: TextDocument,
+) => Promise<number> {
+	return async (context, document) => {
+		const cells = notebookCells.getCells(document.uri);
+		if (
+			context.effectiveSettings.notebookLintMode === "notebook" &&
+			cells &&
+			cells.length > 1
+		) {
+			return await lintNotebookCells(cells, document.uri);
+		}
+		const version = document.version;
+		const result = await executeLint(context, document, reason, lintDeps);
+		recordLintResult(result, context, version);
+		return result.diagnosticsCount;
+	};
+}
+
+/**
+ * Lint the SQL cells of a notebook together and return the diagnostics
+ * count of one of them.
+ */
+async function lintNotebookCells(
+	cellUris: readonly string[],
+	uri: string,
+): Promise<number> {
+	const entries: BatchLintEntry[] = [];
+	for (const cellUri of cellUris) {
+		const document = documents.get(cellUri);
+		if (!document) {
+			continue;
+		}
+		const documentSettings =
+			await settingsManager.getSettingsForDocument(cellUri);
+		entries.push({
+			context: await createDocumentContext({
+				document,
+				documentSettings,
+				workspaceFolders,
+				isSavedFn: () => false,
+			}),
+			document,
+		});
+	}
+	const versions = entries.map((entry) => entry.document.version);
+	const results = await executeNotebookLint(entries, lintDeps);
+	let count = -1;
+	entries.forEach((entry, index) => {
+		const result = results[index];
+		if (result) {
+			recordLintResult(result, entry.context, versions[index] ?? -1);
+		}
+		if (entry.context.uri === uri) {
+			count = result?.diagnosticsCount ?? -1;
+		}
+	});
+	return count;
+}
+
+/**
+ * Keep the diagnostics of a successful lint of document `version` for code
+ * actions and the baseline, and check the CLI version it reported.
+ */
+function recordLintResult(
+	result: LintResult,
+	context: Awaited<ReturnType<typeof createDocumentContext>>,
+	version: number,
+): void {
+	if (!result.success) {
+		return;
+	}
+	latestDiagnosticsByUri.set(context.uri, {
+		version,
+		diagnostics: result.diagnostics,
+	});
+	setBaselinedDiagnostics(context.uri, result.baselined ?? []);
+	recordToolVersion(result, context);
+}
+
+/**
+ * Track the diagnostics hidden by the baseline and report their total to
+ * the status bar.
+ */
+function setBaselinedDiagnostics(uri: string, diagnostics: Diagnostic[]): void {
+	if (diagnostics.length > 0) {
+		baselinedByUri.set(uri, diagnostics);
+	} else {
+		baselinedByUri.delete(uri);
+	}
+	let suppressed = 0;
+	for (const baselined of baselinedByUri.values()) {
+		suppressed += baselined.length;
+	}
+	if (suppressed !== reportedBaselineCount) {
+		reportedBaselineCount = suppressed;
+		connection.sendNotification("tsqlrefine/baselineStatus", { suppressed });
+	}
+}
+
+function recordToolVersion(
+	result: LintResult,
+	context: Awaited<ReturnType<typeof createDocumentContext>>,
+): void {
+	if (result.toolVersion) {
+		toolVersionMonitor.record(
+			context.cwd,
+			result.toolVersion,
+			context.effectiveSettings.requiredVersion,
+		);
+	}
+}
+
 // ============================================================================
 // Format Operations
 // ============================================================================
@@ -425,6 +1774,90 @@ async function formatDocument(uri: string): Promise<TextEdit[] | null> {
 // Utility Functions
 // ============================================================================
 
+/**
+ * Resolve where rule settings for a document (or, without one, the first
+ * workspace folder) are read from and written to: the effective config file,
+ * or a new `tsqlrefine.json` at the workspace root.
+ */
+async function resolveRuleConfigTarget(uri: string | undefined): Promise<{
+	cwd: string;
+	settings: Awaited<
+		ReturnType<typeof createDocumentContext>
+	>["effectiveSettings"];
+	configPath: string;
+	/** Set when the config cannot be written, e.g. a package.json key. */
+	readOnlyReason?: string;
+}> {
+	const document = uri ? documents.get(uri) : undefined;
+	if (document) {
+		const { context, source } = await resolveDocumentConfig(document);
+		return {
+			cwd: context.cwd,
+			settings: context.effectiveSettings,
+			...(source.kind === "packageJson"
+				? {
+						readOnlyReason: `Rule settings in ${source.path} must be edited by hand`,
+					}
+				: {}),
+			configPath: path.resolve(
+				context.cwd,
+				context.effectiveConfigPath ??
+					path.join(
+						context.workspaceRoot ?? context.cwd,
+						DEFAULT_CONFIG_FILE_NAME,
+					),
+			),
+		};
+	}
+	const settings = settingsManager.getSettings();
+	const cwd = workspaceFolders[0] ?? process.cwd();
+	const configPath = await resolveConfigPath({
+		configuredConfigPath: settings.configPath,
+		filePath: null,
+		workspaceRoot: cwd,
+	});
+	return {
+		cwd,
+		settings: configPath ? { ...settings, configPath } : settings,
+		configPath: path.resolve(
+			cwd,
+			configPath ?? path.join(cwd, DEFAULT_CONFIG_FILE_NAME),
+		),
+	};
+}
+
+/**
+ * Create the context for a document together with where its config comes
+ * from. A config path from the setting is resolved against the context cwd.
+ */
+async function resolveDocumentConfig(document: TextDocument): Promise<{
+	context: Awaited<ReturnType<typeof createDocumentContext>>;
+	source: ConfigSource;
+}> {
+	const documentSettings = await settingsManager.getSettingsForDocument(
+		document.uri,
+	);
+	const context = await createDocumentContext({
+		document,
+		documentSettings,
+		workspaceFolders,
+		isSavedFn: (doc) => isSaved(doc),
+	});
+	const source = await resolveConfigSource({
+		configuredConfigPath: documentSettings.configPath,
+		filePath: context.filePath || null,
+		workspaceRoot: context.workspaceRoot,
+		searchOrder: documentSettings.configSearchOrder,
+	});
+	return {
+		context,
+		source:
+			source.kind === "none"
+				? source
+				: { ...source, path: path.resolve(context.cwd, source.path) },
+	};
+}
+
 function isSaved(document: TextDocument): boolean {
 	if (URI.parse(document.uri).scheme !== "file") {
 		return false;
@@ -465,16 +1898,43 @@ async function withDocumentOperation<T>(
 	if (!document) {
 		return notFoundResult;
 	}
-	const documentSettings = await settingsManager.getSettingsForDocument(uri);
+	return await runDocumentOperation(
+		document,
+		operation,
+		run,
+		notFoundResult,
+		(doc) => isSaved(doc),
+	);
+}
+
+async function runDocumentOperation<T>(
+	document: TextDocument,
+	operation: "Lint" | "Format" | "Fix",
+	run: (
+		context: Awaited<ReturnType<typeof createDocumentContext>>,
+		document: TextDocument,
+	) => Promise<T>,
+	disabledResult: T,
+	isSavedFn: (document: TextDocument) => boolean,
+): Promise<T> {
+	const documentSettings = await settingsManager.getSettingsForDocument(
+		document.uri,
+	);
 	const enableSetting = ENABLE_SETTING_BY_OPERATION[operation];
 	if (!documentSettings[enableSetting]) {
-		return notFoundResult;
+		return disabledResult;
+	}
+	if (
+		isEmbeddedSqlLanguage(document.languageId) &&
+		(!documentSettings.embeddedSql || operation === "Fix")
+	) {
+		return disabledResult;
 	}
 	const context = await createDocumentContext({
 		document,
 		documentSettings,
 		workspaceFolders,
-		isSavedFn: (doc) => isSaved(doc),
+		isSavedFn,
 	});
 	connection.sendNotification("tsqlrefine/operationState", {
 		state: "started",
@@ -1,10 +1,17 @@
 import type { Connection, TextEdit } from "vscode-languageserver/node";
 import type { TextDocument } from "vscode-languageserver-textdocument";
 import { detectEndOfLine, normalizeLineEndings } from "../lint/decodeOutput";
+import type { ConfigDiagnostics } from "../config/configDiagnostics";
 import type { DocumentStateManager } from "../state/documentStateManager";
 import type { NotificationManager } from "../state/notificationManager";
+import {
+	createFailedRunRecord,
+	createRunRecord,
+	type RunRecord,
+} from "../state/runHistory";
 import type { DocumentContext } from "./documentContext";
-import { createFullDocumentEdit } from "./documentEdit";
+import { createMinimalEdits } from "./documentEdit";
+import type { TextSpan } from "./sqlStatements";
 import { handleOperationError } from "./errorHandling";
 import { logOperationContext } from "./logging";
 import {
@@ -18,6 +25,9 @@ export type CliEditOperationDeps = {
 	connection: Connection;
 	notificationManager: NotificationManager;
 	stateManager: DocumentStateManager;
+	configDiagnostics?: ConfigDiagnostics;
+	/** Receives every CLI run, for "Show Run History". */
+	recordRun?: (run: RunRecord) => void;
 };
 
 type CliEditOperationOptions = {
@@ -28,6 +38,11 @@ type CliEditOperationOptions = {
 		signal: AbortSignal;
 		stdin: string;
 	}) => Promise<ProcessRunResult>;
+	/**
+	 * Only run the operation on this part of the document. The span should
+	 * cover whole lines; the returned edits stay inside it.
+	 */
+	range?: TextSpan;
 };
 
 export async function executeCliEditOperation(
@@ -46,6 +61,10 @@ export async function executeCliEditOperation(
 		documentText,
 	} = context;
 	const operation = options.operationName;
+	const range = options.range;
+	const inputText = range
+		? documentText.slice(range.start, range.end)
+		: documentText;
 
 	logOperationContext(notificationManager, {
 		operation: operation === "format" ? "Format" : "Fix",
@@ -56,21 +75,41 @@ export async function executeCliEditOperation(
 	});
 
 	let execution: InFlightExecution<ProcessRunResult>;
+	const startedAt = Date.now();
 	try {
 		execution = await runWithInFlight(stateManager, uri, async (controller) =>
 			options.runner({
 				cwd,
 				settings: effectiveSettings,
 				signal: controller.signal,
-				stdin: documentText,
+				stdin: inputText,
 			}),
 		);
 	} catch (error) {
+		deps.recordRun?.(
+			createFailedRunRecord({
+				operation,
+				uri,
+				startedAt,
+				bytes: Buffer.byteLength(inputText, "utf8"),
+				error,
+			}),
+		);
 		await handleOperationError(error, deps, operation);
 		return null;
 	}
 
 	const { controller, result } = execution;
+	deps.recordRun?.(
+		createRunRecord({
+			operation,
+			uri,
+			startedAt,
+			bytes: Buffer.byteLength(inputText, "utf8"),
+			result,
+			cancelled: controller.signal.aborted,
+		}),
+	);
 	if (
 		reportCliFailure({
 			result,
@@ -78,24 +117,47 @@ export async function executeCliEditOperation(
 			deps,
 			successExitCodes: [0],
 			cancelled: controller.signal.aborted,
+			configPath: effectiveConfigPath,
 		})
 	) {
 		return null;
 	}
 
-	if (documentText.length > 0 && result.stdout.length === 0) {
+	if (inputText.length > 0 && result.stdout.length === 0) {
 		const message = `tsqlrefine: ${operation} failed - empty output for a non-empty document`;
 		void connection.window.showWarningMessage(message);
 		notificationManager.warn(message);
 		return null;
 	}
 
-	const outputText = normalizeLineEndings(
+	const normalizedOutput = normalizeLineEndings(
 		result.stdout,
 		detectEndOfLine(documentText),
 	);
-	if (outputText === documentText) {
-		return [];
+	if (!range) {
+		return createMinimalEdits(document, documentText, normalizedOutput);
+	}
+	return createMinimalEdits(
+		document,
+		inputText,
+		fitOutputToRange(inputText, normalizedOutput),
+		range.start,
+	);
+}
+
+/**
+ * Make CLI output for a document fragment fit back into the fragment: keep
+ * the fragment's base indentation and do not add a trailing line break the
+ * fragment did not have.
+ */
+function fitOutputToRange(inputText: string, outputText: string): string {
+	let fitted = outputText;
+	if (!/\n$/.test(inputText)) {
+		fitted = fitted.replace(/(?:\r?\n)+$/, "");
+	}
+	const indent = /^[ \t]*/.exec(inputText)?.[0] ?? "";
+	if (indent && !fitted.startsWith(indent)) {
+		fitted = fitted.replace(/^(?=[^\r\n])/gm, indent);
 	}
-	return [createFullDocumentEdit(document, outputText)];
+	return fitted;
 }
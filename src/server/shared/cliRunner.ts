@@ -1,16 +1,30 @@
+import { WORKER_ARGS, WORKER_STARTUP_TIMEOUT_MS } from "../config/constants";
 import type { TsqlRefineSettings } from "../config/settings";
+import { CliWorker } from "./cliWorker";
 import { normalizeConfigPath } from "./normalize";
-import { resolveCommand, runProcess } from "./processRunner";
+import {
+	type ResolvedCliCommand,
+	resolveCliCommand,
+	runProcess,
+} from "./processRunner";
 import { type ProcessRunResult, createCancelledResult } from "./types";
 
 export type CliOperation = "lint" | "format" | "fix";
 
+/**
+ * Long-lived workers keyed by resolved command, arguments and start
+ * directory (only used with `useDaemon`).
+ */
+const workersByCommand = new Map<string, CliWorker>();
+
 export function buildCliArgs(
 	settings: TsqlRefineSettings,
 	options: {
 		operation: CliOperation;
 		includeSeverity?: boolean;
 		outputJson?: boolean;
+		/** Saved files to read from disk instead of stdin. */
+		filePaths?: readonly string[];
 	},
 ): string[] {
 	const args = [options.operation, "-q", "--utf8"];
@@ -27,7 +41,11 @@ export function buildCliArgs(
 	if (options.outputJson) {
 		args.push("--output", "json");
 	}
-	args.push("--stdin");
+	if (options.filePaths && options.filePaths.length > 0) {
+		args.push(...options.filePaths);
+	} else {
+		args.push("--stdin");
+	}
 	return args;
 }
 
@@ -35,20 +53,64 @@ export async function runCliOperation(options: {
 	cwd: string;
 	settings: TsqlRefineSettings;
 	signal: AbortSignal;
-	stdin: string;
+	stdin: string | null;
 	args: string[];
 	timeoutMs: number;
 }): Promise<ProcessRunResult> {
 	if (options.signal.aborted) {
 		return createCancelledResult();
 	}
-	const command = await resolveCommand(options.settings, options.cwd);
-	return runProcess({
-		command,
-		args: options.args,
+	const resolved = await resolveCliCommand(options.settings, options.cwd);
+	const args = [...resolved.prefixArgs, ...options.args];
+	if (options.settings.useDaemon) {
+		const workerResult = await getWorker(resolved).run({
+			args: options.args,
+			cwd: options.cwd,
+			timeoutMs: options.timeoutMs,
+			signal: options.signal,
+			stdin: options.stdin,
+		});
+		if (workerResult) {
+			return { ...workerResult, commandLine: [resolved.command, ...args] };
+		}
+	}
+	const result = await runProcess({
+		command: resolved.command,
+		args,
 		cwd: options.cwd,
 		timeoutMs: options.timeoutMs,
 		signal: options.signal,
 		stdin: options.stdin,
 	});
+	return { ...result, commandLine: [resolved.command, ...args] };
+}
+
+function getWorker(resolved: ResolvedCliCommand): CliWorker {
+	const key = JSON.stringify([
+		resolved.command,
+		resolved.prefixArgs,
+		resolved.cwd ?? null,
+	]);
+	let worker = workersByCommand.get(key);
+	if (!worker) {
+		worker = new CliWorker({
+			command: resolved.command,
+			args: [...resolved.prefixArgs, ...WORKER_ARGS],
+			startupTimeoutMs: WORKER_STARTUP_TIMEOUT_MS,
+			...(resolved.cwd ? { cwd: resolved.cwd } : {}),
+		});
+		workersByCommand.set(key, worker);
+	}
+	return worker;
+}
+
+/**
+ * Stop all long-lived workers (e.g. on server shutdown or when the worker
+ * mode is turned off).
+ */
+export function disposeWorkers(): void {
+	for (const worker of workersByCommand.values()) {
+		worker.dispose();
+	}
+	workersByCommand.clear();
 }
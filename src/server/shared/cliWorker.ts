@@ -0,0 +1,351 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { StringDecoder } from "node:string_decoder";
+import {
+	MAX_OUTPUT_BYTES,
+	MAX_WORKER_RESTARTS,
+	WORKER_MAX_RETRY_DELAY_MS,
+	WORKER_RESTART_WINDOW_MS,
+	WORKER_RETRY_DELAY_MS,
+} from "../config/constants";
+import { createCancelledResult, type ProcessRunResult } from "./types";
+
+/**
+ * Worker protocol (newline-delimited JSON over stdio):
+ *
+ * - Worker -> extension on startup: `{"ready":true}`
+ * - Request:  `{"id":1,"args":["lint",...],"cwd":"/ws","stdin":"SELECT 1;"}`
+ * - Response: `{"id":1,"exitCode":0,"stdout":"...","stderr":""}`
+ * - Cancel:   `{"id":1,"cancel":true}` (no response expected)
+ *
+ * `args` are the same arguments a spawned CLI would receive. A response
+ * that exceeds the output limit is matched to its request by the `id` at
+ * its start.
+ */
+type WorkerMessage = {
+	ready?: boolean;
+	id?: number;
+	exitCode?: number | null;
+	stdout?: string;
+	stderr?: string;
+};
+
+export type CliWorkerOptions = {
+	command: string;
+	/** Arguments that start the worker (e.g. `["daemon"]`). */
+	args: string[];
+	/** How long to wait for the `ready` message before giving up. */
+	startupTimeoutMs: number;
+	/** Directory to start the worker in (defaults to the server's). */
+	cwd?: string;
+};
+
+export type CliWorkerRequest = {
+	args: string[];
+	cwd: string;
+	stdin?: string | null | undefined;
+	timeoutMs: number;
+	signal: AbortSignal;
+};
+
+type PendingRequest = {
+	/** Settle the request; null hands it back to the caller to spawn. */
+	finish: (result: ProcessRunResult | null) => void;
+};
+
+/**
+ * A long-lived tsqlrefine process that serves many CLI operations.
+ *
+ * The worker is started lazily and restarted after it crashes or a request
+ * times out. When the CLI does not support the worker protocol, or keeps
+ * crashing, `run` returns null and callers fall back to spawn-per-run until
+ * the worker is tried again, after a delay that doubles with each failure.
+ */
+export class CliWorker {
+	private child: ChildProcess | null = null;
+	private starting: Promise<boolean> | null = null;
+	private disposed = false;
+	private failures = 0;
+	private retryAt = 0;
+	private nextId = 1;
+	private readonly pending = new Map<number, PendingRequest>();
+	private readonly restartTimes: number[] = [];
+	private onReady: ((ready: boolean) => void) | null = null;
+
+	constructor(private readonly options: CliWorkerOptions) {}
+
+	/**
+	 * Whether the worker is disabled for now and callers should spawn instead.
+	 */
+	isUnsupported(): boolean {
+		return this.disposed || Date.now() < this.retryAt;
+	}
+
+	/**
+	 * Run a CLI operation in the worker.
+	 * Returns null when the worker is unavailable.
+	 */
+	async run(request: CliWorkerRequest): Promise<ProcessRunResult | null> {
+		if (request.signal.aborted) {
+			return createCancelledResult();
+		}
+		if (this.isUnsupported() || !(await this.ensureStarted())) {
+			return null;
+		}
+		const child = this.child;
+		if (!child?.stdin || request.signal.aborted) {
+			return request.signal.aborted ? createCancelledResult() : null;
+		}
+
+		const id = this.nextId++;
+		return await new Promise<ProcessRunResult | null>((resolve) => {
+			let settled = false;
+			const finish = (result: ProcessRunResult | null) => {
+				if (settled) {
+					return;
+				}
+				settled = true;
+				clearTimeout(timer);
+				request.signal.removeEventListener("abort", onAbort);
+				this.pending.delete(id);
+				resolve(result);
+			};
+			const onAbort = () => {
+				this.send({ id, cancel: true });
+				finish(createCancelledResult());
+			};
+			const timer = setTimeout(() => {
+				finish({
+					stdout: "",
+					stderr: "",
+					exitCode: null,
+					timedOut: true,
+					cancelled: false,
+				});
+				// A worker that misses a deadline may be hung: start a fresh one.
+				// The other requests in flight are spawned instead.
+				this.restart();
+			}, request.timeoutMs);
+
+			request.signal.addEventListener("abort", onAbort, { once: true });
+			this.pending.set(id, { finish });
+			this.send({
+				id,
+				args: request.args,
+				cwd: request.cwd,
+				stdin: request.stdin ?? null,
+			});
+		});
+	}
+
+	/**
+	 * Stop the worker process and fail any pending requests.
+	 */
+	dispose(): void {
+		this.disposed = true;
+		this.stop();
+	}
+
+	private async ensureStarted(): Promise<boolean> {
+		if (this.child && !this.starting) {
+			return true;
+		}
+		this.starting ??= this.start();
+		const ready = await this.starting;
+		this.starting = null;
+		if (!ready) {
+			this.stop();
+			this.backOff();
+		}
+		return ready;
+	}
+
+	private start(): Promise<boolean> {
+		return new Promise<boolean>((resolve) => {
+			let child: ChildProcess;
+			try {
+				child = spawn(this.options.command, this.options.args, {
+					cwd: this.options.cwd,
+					stdio: ["pipe", "pipe", "pipe"],
+				});
+			} catch {
+				resolve(false);
+				return;
+			}
+			this.child = child;
+
+			const timer = setTimeout(
+				() => this.onReady?.(false),
+				this.options.startupTimeoutMs,
+			);
+			this.onReady = (ready) => {
+				clearTimeout(timer);
+				this.onReady = null;
+				resolve(ready);
+			};
+
+			// Writes after the worker exits must not crash the server.
+			child.stdin?.on("error", () => {});
+			child.stderr?.resume();
+			this.readLines(child);
+			child.on("error", () => this.handleExit(child));
+			child.on("close", () => this.handleExit(child));
+		});
+	}
+
+	private readLines(child: ChildProcess): void {
+		const decoder = new StringDecoder("utf8");
+		let buffered = "";
+		child.stdout?.on("data", (data: Buffer) => {
+			buffered += decoder.write(data);
+			let newline = buffered.indexOf("\n");
+			while (newline >= 0) {
+				const line = buffered.slice(0, newline).replace(/^\uFEFF/, "");
+				buffered = buffered.slice(newline + 1);
+				this.handleLine(line);
+				newline = buffered.indexOf("\n");
+			}
+			if (Buffer.byteLength(buffered, "utf8") > MAX_OUTPUT_BYTES) {
+				const id = /^\s*\{\s*"id"\s*:\s*(\d+)/.exec(buffered)?.[1];
+				buffered = "";
+				if (id !== undefined) {
+					this.pending.get(Number(id))?.finish({
+						stdout: "",
+						stderr: `Output exceeded ${MAX_OUTPUT_BYTES} bytes limit`,
+						exitCode: null,
+						timedOut: false,
+						cancelled: false,
+					});
+				}
+				// Requests the oversized output cannot be blamed on are spawned
+				// instead, where the limit applies to each run on its own.
+				this.restart();
+			}
+		});
+	}
+
+	private handleLine(line: string): void {
+		if (!line.trim()) {
+			return;
+		}
+		let message: WorkerMessage;
+		try {
+			message = JSON.parse(line) as WorkerMessage;
+		} catch {
+			return;
+		}
+		if (message.ready === true) {
+			this.onReady?.(true);
+			return;
+		}
+		if (typeof message.id !== "number") {
+			return;
+		}
+		const pending = this.pending.get(message.id);
+		if (!pending) {
+			// Late response for a cancelled or timed-out request.
+			return;
+		}
+		this.failures = 0;
+		pending.finish({
+			stdout: message.stdout ?? "",
+			stderr: message.stderr ?? "",
+			exitCode: typeof message.exitCode === "number" ? message.exitCode : null,
+			timedOut: false,
+			cancelled: false,
+		});
+	}
+
+	private handleExit(child: ChildProcess): void {
+		if (this.child !== child) {
+			return;
+		}
+		this.child = null;
+		if (this.onReady) {
+			this.onReady(false);
+			return;
+		}
+		// The requests in flight are run in their own process instead.
+		this.handBackPending();
+		this.recordRestart();
+	}
+
+	/**
+	 * Replace a worker that a request found broken. The other pending
+	 * requests did nothing wrong, so they are handed back to be spawned.
+	 */
+	private restart(): void {
+		const child = this.child;
+		if (!child) {
+			return;
+		}
+		this.child = null;
+		child.kill();
+		this.handBackPending();
+		this.recordRestart();
+	}
+
+	private stop(): void {
+		const child = this.child;
+		this.child = null;
+		child?.kill();
+		this.failPending("tsqlrefine worker stopped");
+	}
+
+	/**
+	 * Pause the worker when it keeps dying, so every run does not pay for
+	 * a failed start plus a fallback spawn.
+	 */
+	private recordRestart(): void {
+		const now = Date.now();
+		this.restartTimes.push(now);
+		while (
+			this.restartTimes.length > 0 &&
+			now - (this.restartTimes[0] ?? now) > WORKER_RESTART_WINDOW_MS
+		) {
+			this.restartTimes.shift();
+		}
+		if (this.restartTimes.length > MAX_WORKER_RESTARTS) {
+			this.restartTimes.length = 0;
+			this.backOff();
+		}
+	}
+
+	/**
+	 * Spawn instead of using the worker for a while after it failed to start
+	 * or kept dying, so a transient failure does not disable it for good.
+	 */
+	private backOff(): void {
+		const delay = Math.min(
+			WORKER_RETRY_DELAY_MS * 2 ** this.failures,
+			WORKER_MAX_RETRY_DELAY_MS,
+		);
+		this.failures++;
+		this.retryAt = Date.now() + delay;
+	}
+
+	/**
+	 * Finish the pending requests without a result, so the caller spawns
+	 * one process for each.
+	 */
+	private handBackPending(): void {
+		for (const pending of [...this.pending.values()]) {
+			pending.finish(null);
+		}
+	}
+
+	private failPending(reason: string): void {
+		for (const pending of [...this.pending.values()]) {
+			pending.finish({
+				stdout: "",
+				stderr: reason,
+				exitCode: null,
+				timedOut: false,
+				cancelled: false,
+			});
+		}
+	}
+
+	private send(message: object): void {
+		this.child?.stdin?.write(`${JSON.stringify(message)}\n`);
+	}
+}
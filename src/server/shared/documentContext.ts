@@ -3,8 +3,18 @@ import { URI } from "vscode-uri";
 import type { TextDocument } from "vscode-languageserver-textdocument";
 import { resolveConfigPath } from "../config/resolveConfigPath";
 import type { TsqlRefineSettings } from "../config/settings";
+import {
+	compileMarkers,
+	createEmbeddedSqlDocument,
+	type EmbeddedSqlDocument,
+	findEmbeddedSqlRegions,
+	isEmbeddedSqlLanguage,
+} from "../embedded/embeddedSql";
 import { normalizeForCompare } from "./normalize";
 
+/** URI scheme of notebook cell documents. */
+export const NOTEBOOK_CELL_SCHEME = "vscode-notebook-cell";
+
 export type DocumentContext = {
 	uri: string;
 	filePath: string;
@@ -12,8 +22,11 @@ export type DocumentContext = {
 	cwd: string;
 	effectiveSettings: TsqlRefineSettings;
 	effectiveConfigPath: string | undefined;
+	/** Text sent to the CLI; the embedded SQL script for host files. */
 	documentText: string;
 	isSavedFile: boolean;
+	/** Set for C#, PowerShell and Python files with embedded SQL. */
+	embedded?: EmbeddedSqlDocument;
 };
 
 export type DocumentContextOptions = {
@@ -28,19 +41,16 @@ export async function createDocumentContext(
 ): Promise<DocumentContext> {
 	const { document, documentSettings, workspaceFolders, isSavedFn } = options;
 	const uri = document.uri;
-	const parsedUri = URI.parse(uri);
-	const filePath = parsedUri.scheme === "file" ? parsedUri.fsPath : "";
-	const workspaceRoot = resolveWorkspaceRoot(
-		filePath || undefined,
+	const { filePath, workspaceRoot, cwd } = resolveDocumentLocation(
+		uri,
 		workspaceFolders,
 	);
-	const cwd =
-		workspaceRoot ?? (filePath ? path.dirname(filePath) : process.cwd());
 
 	const effectiveConfigPath = await resolveConfigPath({
 		configuredConfigPath: documentSettings.configPath,
 		filePath: filePath || null,
 		workspaceRoot,
+		searchOrder: documentSettings.configSearchOrder,
 	});
 
 	const effectiveSettings: TsqlRefineSettings =
@@ -48,7 +58,18 @@ export async function createDocumentContext(
 			? { ...documentSettings, configPath: effectiveConfigPath }
 			: documentSettings;
 
-	const documentText = document.getText();
+	// Host files are only scanned for string literals while embedded SQL is on.
+	const embedded =
+		documentSettings.embeddedSql && isEmbeddedSqlLanguage(document.languageId)
+			? createEmbeddedSqlDocument(
+					findEmbeddedSqlRegions(
+						document.getText(),
+						document.languageId,
+						compileMarkers(documentSettings.embeddedSqlMarkers ?? []),
+					),
+				)
+			: undefined;
+	const documentText = embedded ? embedded.text : document.getText();
 	const isSavedFile = isSavedFn(document);
 
 	return {
@@ -60,9 +81,31 @@ export async function createDocumentContext(
 		effectiveConfigPath,
 		documentText,
 		isSavedFile,
+		...(embedded ? { embedded } : {}),
 	};
 }
 
+/** File path, workspace folder and CLI working directory of a document. */
+export function resolveDocumentLocation(
+	uri: string,
+	workspaceFolders: string[],
+): Pick<DocumentContext, "filePath" | "workspaceRoot" | "cwd"> {
+	const parsedUri = URI.parse(uri);
+	// Notebook cells share the notebook file's path, so config discovery and
+	// the working directory follow the notebook.
+	const filePath =
+		parsedUri.scheme === "file" || parsedUri.scheme === NOTEBOOK_CELL_SCHEME
+			? parsedUri.fsPath
+			: "";
+	const workspaceRoot = resolveWorkspaceRoot(
+		filePath || undefined,
+		workspaceFolders,
+	);
+	const cwd =
+		workspaceRoot ?? (filePath ? path.dirname(filePath) : process.cwd());
+	return { filePath, workspaceRoot, cwd };
+}
+
 function resolveWorkspaceRoot(
 	filePath: string | undefined,
 	workspaceFolders: string[],
@@ -1,24 +1,23 @@
 import type { TextEdit } from "vscode-languageserver/node";
 import type { TextDocument } from "vscode-languageserver-textdocument";
+import { computeTextChanges } from "./textDiff";
 
 /**
- * Create a TextEdit that replaces the entire document content.
+ * Create the minimal TextEdits that turn `oldText` into `newText`.
+ * `oldText` is the document text starting at `baseOffset` (the whole
+ * document by default), so edits can be confined to part of a document.
  */
-export function createFullDocumentEdit(
+export function createMinimalEdits(
 	document: TextDocument,
+	oldText: string,
 	newText: string,
-): TextEdit {
-	const lastLineIndex = document.lineCount - 1;
-	const lastLine = document.getText({
-		start: { line: lastLineIndex, character: 0 },
-		end: { line: lastLineIndex, character: Number.MAX_SAFE_INTEGER },
-	});
-
-	return {
+	baseOffset = 0,
+): TextEdit[] {
+	return computeTextChanges(oldText, newText).map((change) => ({
 		range: {
-			start: { line: 0, character: 0 },
-			end: { line: lastLineIndex, character: lastLine.length },
+			start: document.positionAt(baseOffset + change.oldStartOffset),
+			end: document.positionAt(baseOffset + change.oldEndOffset),
 		},
-		newText,
-	};
+		newText: change.newText,
+	}));
 }
@@ -0,0 +1,187 @@
+import * as path from "node:path";
+import {
+	GIT_BASE_CACHE_TTL_MS,
+	GIT_BASE_TEXT_CACHE_MAX_SIZE,
+	GIT_TIMEOUT_MS,
+} from "../config/constants";
+import { runProcess } from "./processRunner";
+import { computeLineHunks, splitLinesWithTerminators } from "./textDiff";
+
+/**
+ * Zero-based lines of a document changed since the Git base, or "all" for a
+ * file that did not exist at the base.
+ */
+export type ChangedLines = ReadonlySet<number> | "all";
+
+/** Runs git in a directory and returns its stdout, or null when it fails. */
+export type GitRunner = (
+	args: readonly string[],
+	cwd: string,
+) => Promise<string | null>;
+
+/**
+ * Lines of `text` that differ from `baseText`. Line endings and a leading BOM
+ * are ignored. A deletion marks the line that now follows the removed lines.
+ */
+export function computeChangedLines(
+	baseText: string,
+	text: string,
+): Set<number> {
+	const changed = new Set<number>();
+	let delta = 0;
+	for (const hunk of computeLineHunks(
+		normalizeText(baseText),
+		normalizeText(text),
+	)) {
+		const start = hunk.oldStartLine + delta;
+		const count = splitLinesWithTerminators(hunk.newText).length;
+		for (let line = start; line < start + Math.max(count, 1); line++) {
+			changed.add(line);
+		}
+		delta += count - (hunk.oldEndLine - hunk.oldStartLine);
+	}
+	return changed;
+}
+
+/**
+ * Finds the lines of a document changed since the Git base: the merge-base
+ * of HEAD with `tsqlrefine.diagnosticsScopeBase` or, when it is empty, with
+ * the remote default branch (`origin/HEAD`). Without either, HEAD is the
+ * base, so only uncommitted changes count.
+ *
+ * The document text is compared with the file at the base, so unsaved edits
+ * count too. Base commits are cached briefly per directory and file versions
+ * per commit.
+ */
+export class GitChangeTracker {
+	private readonly bases = new Map<
+		string,
+		{ value: Promise<string | null | undefined>; checkedAt: number }
+	>();
+	private readonly baseTexts = new Map<string, Promise<string | null>>();
+
+	constructor(private readonly runGit: GitRunner = runGitCommand) {}
+
+	/**
+	 * Returns null when the file is not in a Git work tree (or git is not
+	 * available), so callers can leave diagnostics unfiltered.
+	 */
+	async getChangedLines(
+		filePath: string,
+		text: string,
+		baseRef?: string,
+	): Promise<ChangedLines | null> {
+		const dir = path.dirname(filePath);
+		const base = await this.getBase(dir, baseRef);
+		if (base === undefined) {
+			return null;
+		}
+		if (base === null) {
+			return "all";
+		}
+		const baseText = await this.getBaseText(base, filePath);
+		return baseText === null ? "all" : computeChangedLines(baseText, text);
+	}
+
+	/**
+	 * Forget cached base commits and file versions.
+	 */
+	clear(): void {
+		this.bases.clear();
+		this.baseTexts.clear();
+	}
+
+	private getBase(
+		dir: string,
+		baseRef: string | undefined,
+	): Promise<string | null | undefined> {
+		const key = JSON.stringify([dir, baseRef ?? ""]);
+		const cached = this.bases.get(key);
+		if (cached && Date.now() - cached.checkedAt < GIT_BASE_CACHE_TTL_MS) {
+			return cached.value;
+		}
+		const value = this.resolveBase(dir, baseRef);
+		this.bases.set(key, { value, checkedAt: Date.now() });
+		return value;
+	}
+
+	/**
+	 * The base commit of a directory: undefined outside a Git work tree, null
+	 * in a repository without commits.
+	 */
+	private async resolveBase(
+		dir: string,
+		baseRef: string | undefined,
+	): Promise<string | null | undefined> {
+		const inside = await this.runGit(
+			["rev-parse", "--is-inside-work-tree"],
+			dir,
+		);
+		if (inside?.trim() !== "true") {
+			return undefined;
+		}
+		const ref =
+			baseRef ??
+			(
+				await this.runGit(
+					["symbolic-ref", "--quiet", "--short", "refs/remotes/origin/HEAD"],
+					dir,
+				)
+			)?.trim();
+		// A workspace can set the base; never let it pass an option to git.
+		if (ref && !ref.startsWith("-")) {
+			const mergeBase = (
+				await this.runGit(["merge-base", "HEAD", ref], dir)
+			)?.trim();
+			if (mergeBase) {
+				return mergeBase;
+			}
+		}
+		const head = (
+			await this.runGit(["rev-parse", "--verify", "--quiet", "HEAD"], dir)
+		)?.trim();
+		return head || null;
+	}
+
+	private getBaseText(base: string, filePath: string): Promise<string | null> {
+		const key = `${base}\0${filePath}`;
+		const cached = this.baseTexts.get(key);
+		if (cached) {
+			return cached;
+		}
+		const value = this.runGit(
+			["show", `${base}:./${path.basename(filePath)}`],
+			path.dirname(filePath),
+		);
+		this.baseTexts.set(key, value);
+		if (this.baseTexts.size > GIT_BASE_TEXT_CACHE_MAX_SIZE) {
+			const oldest = this.baseTexts.keys().next().value;
+			if (oldest !== undefined) {
+				this.baseTexts.delete(oldest);
+			}
+		}
+		return value;
+	}
+}
+
+async function runGitCommand(
+	args: readonly string[],
+	cwd: string,
+): Promise<string | null> {
+	try {
+		const result = await runProcess({
+			command: "git",
+			args: [...args],
+			cwd,
+			timeoutMs: GIT_TIMEOUT_MS,
+			signal: new AbortController().signal,
+		});
+		return result.exitCode === 0 ? result.stdout : null;
+	} catch {
+		return null;
+	}
+}
+
+function normalizeText(text: string): string {
+	return text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
@@ -1,4 +1,5 @@
 import type { Connection } from "vscode-languageserver/node";
+import type { ConfigDiagnostics } from "../config/configDiagnostics";
 import { CLI_EXIT_CODE_DESCRIPTIONS } from "../config/constants";
 import type { DocumentStateManager } from "../state/documentStateManager";
 import type { NotificationManager } from "../state/notificationManager";
@@ -10,6 +11,7 @@ export type CliOperationName = "lint" | "format" | "fix";
 type CliFailureDeps = {
 	connection: Connection;
 	notificationManager: NotificationManager;
+	configDiagnostics?: ConfigDiagnostics;
 };
 
 type ReportCliFailureOptions = {
@@ -18,6 +20,8 @@ type ReportCliFailureOptions = {
 	deps: CliFailureDeps;
 	successExitCodes: readonly number[];
 	cancelled?: boolean;
+	/** Config file used by the run; config errors are reported on it. */
+	configPath?: string | undefined;
 };
 
 export type InFlightExecution<T> = {
@@ -45,6 +49,30 @@ export async function runWithInFlight<T>(
 	}
 }
 
+/**
+ * Run one operation on behalf of several documents, tracking a shared
+ * AbortController for each of them. Cancelling any document aborts the run.
+ */
+export async function runWithInFlightForUris<T>(
+	stateManager: DocumentStateManager,
+	uris: readonly string[],
+	run: (controller: AbortController) => Promise<T>,
+): Promise<InFlightExecution<T>> {
+	const controller = new AbortController();
+	for (const uri of uris) {
+		stateManager.setInFlight(uri, controller);
+	}
+	try {
+		return { controller, result: await run(controller) };
+	} finally {
+		for (const uri of uris) {
+			if (stateManager.isCurrentInFlight(uri, controller)) {
+				stateManager.clearInFlight(uri);
+			}
+		}
+	}
+}
+
 /**
  * Report timeout and unsuccessful exit results consistently.
  * Returns true when the caller should stop processing the result.
@@ -53,9 +81,10 @@ export function reportCliFailure(options: ReportCliFailureOptions): boolean {
 	const {
 		result,
 		operation,
-		deps: { connection, notificationManager },
+		deps: { connection, notificationManager, configDiagnostics },
 		successExitCodes,
 		cancelled = false,
+		configPath,
 	} = options;
 
 	if (result.timedOut) {
@@ -68,6 +97,10 @@ export function reportCliFailure(options: ReportCliFailureOptions): boolean {
 		return true;
 	}
 
+	if (configPath) {
+		configDiagnostics?.update(configPath, result.exitCode, result.stderr);
+	}
+
 	const stderr = result.stderr.trim();
 	if (stderr) {
 		if (operation === "lint") {
@@ -10,6 +10,7 @@ import type { TsqlRefineSettings } from "../config/settings";
 import { decodeCliOutput } from "../lint/decodeOutput";
 import { MissingTsqlRefineError } from "./errors";
 import { normalizeExecutablePath } from "./normalize";
+import { findToolManifest } from "./toolManifest";
 import {
 	type BaseProcessOptions,
 	createCancelledResult,
@@ -125,6 +126,48 @@ export async function resolveCommand(
 	return command;
 }
 
+/** How to start tsqlrefine for a folder. */
+export type ResolvedCliCommand = {
+	command: string;
+	/** Arguments placed before the operation's own arguments. */
+	prefixArgs: string[];
+	source: "setting" | "toolManifest" | "path";
+	/** Manifest that provides the tool, for `toolManifest`. */
+	manifestPath?: string;
+	/** Directory to start long-lived processes in, for `toolManifest`. */
+	cwd?: string;
+};
+
+/**
+ * Resolve how to start tsqlrefine for a folder.
+ * An explicit `tsqlrefine.path` wins; otherwise a local dotnet tool manifest
+ * in `basePath` or a parent directory runs the pinned tool through
+ * `dotnet tool run`, and the global command in PATH is the last resort.
+ */
+export async function resolveCliCommand(
+	settings: TsqlRefineSettings,
+	basePath: string = process.cwd(),
+): Promise<ResolvedCliCommand> {
+	if (!normalizeExecutablePath(settings.path, basePath)) {
+		const manifest = await findToolManifest(basePath);
+		if (manifest) {
+			return {
+				command: "dotnet",
+				prefixArgs: ["tool", "run", manifest.command, "--"],
+				source: "toolManifest",
+				manifestPath: manifest.manifestPath,
+				cwd: manifest.rootDir,
+			};
+		}
+	}
+	const command = await resolveCommand(settings, basePath);
+	return {
+		command,
+		prefixArgs: [],
+		source: settings.path ? "setting" : "path",
+	};
+}
+
 /**
  * Verify tsqlrefine installation (lightweight startup check).
  *
@@ -136,7 +179,7 @@ export async function verifyInstallation(
 	basePath: string = process.cwd(),
 ): Promise<{ available: boolean; message?: string }> {
 	try {
-		await resolveCommand(settings, basePath);
+		await resolveCliCommand(settings, basePath);
 		return { available: true };
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,76 @@
+export type Release = () => void;
+
+/**
+ * Counting semaphore that bounds the number of concurrent CLI runs.
+ * Waiters are served in FIFO order.
+ */
+export class Semaphore {
+	private maxConcurrentRuns: number;
+	private available: number;
+	private waiters: Array<(release: Release) => void> = [];
+
+	constructor(maxConcurrentRuns: number) {
+		this.maxConcurrentRuns = Math.max(1, maxConcurrentRuns);
+		this.available = this.maxConcurrentRuns;
+	}
+
+	/** Number of slots currently held. */
+	get acquired(): number {
+		return this.maxConcurrentRuns - this.available;
+	}
+
+	/**
+	 * Change the number of slots. Lowering it lets running holders finish;
+	 * no new slot is handed out until fewer than the new limit are held.
+	 */
+	setMaxConcurrentRuns(maxConcurrentRuns: number): void {
+		const next = Math.max(1, maxConcurrentRuns);
+		this.available += next - this.maxConcurrentRuns;
+		this.maxConcurrentRuns = next;
+		while (this.available > 0) {
+			const waiter = this.waiters.shift();
+			if (!waiter) {
+				break;
+			}
+			this.available -= 1;
+			waiter(this.createRelease());
+		}
+	}
+
+	tryAcquire(): Release | null {
+		if (this.available <= 0) {
+			return null;
+		}
+		this.available -= 1;
+		return this.createRelease();
+	}
+
+	acquire(): Promise<Release> {
+		const release = this.tryAcquire();
+		if (release) {
+			return Promise.resolve(release);
+		}
+		return new Promise((resolve) => {
+			this.waiters.push(resolve);
+		});
+	}
+
+	private createRelease(): Release {
+		let released = false;
+		return () => {
+			if (released) {
+				return;
+			}
+			released = true;
+			this.available += 1;
+			if (this.available <= 0) {
+				return;
+			}
+			const next = this.waiters.shift();
+			if (next) {
+				this.available -= 1;
+				next(this.createRelease());
+			}
+		};
+	}
+}
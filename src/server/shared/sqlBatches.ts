@@ -0,0 +1,88 @@
+/**
+ * Matches a `GO` batch separator line, optionally followed by a repeat count
+ * and a trailing line comment.
+ */
+const BATCH_SEPARATOR_PATTERN = /^\s*GO(?:\s+\d+)?\s*(?:--.*)?$/i;
+
+/**
+ * A batch of T-SQL lines between `GO` separators.
+ * Line indexes are zero-based; `endLine` is exclusive and never includes the separator.
+ */
+export type SqlBatch = {
+	startLine: number;
+	endLine: number;
+};
+
+/**
+ * Whether a line is a `GO` batch separator.
+ */
+export function isBatchSeparator(line: string): boolean {
+	return BATCH_SEPARATOR_PATTERN.test(line);
+}
+
+/**
+ * Split a script into batches on `GO` separator lines.
+ * A script without separators is a single batch covering every line.
+ */
+export function splitBatches(lines: readonly string[]): SqlBatch[] {
+	const batches: SqlBatch[] = [];
+	let startLine = 0;
+	lines.forEach((line, index) => {
+		if (isBatchSeparator(line)) {
+			batches.push({ startLine, endLine: index });
+			startLine = index + 1;
+		}
+	});
+	batches.push({ startLine, endLine: lines.length });
+	return batches;
+}
+
+/**
+ * Find the batch that contains a line. Separator lines belong to the batch they close.
+ */
+export function findBatchForLine(
+	lines: readonly string[],
+	line: number,
+): SqlBatch {
+	const batches = splitBatches(lines);
+	return (
+		batches.find((batch) => line <= batch.endLine) ??
+		batches[batches.length - 1] ?? { startLine: 0, endLine: 0 }
+	);
+}
+
+/**
+ * Separate scripts joined into one, each as its own batch.
+ */
+export type JoinedBatches = {
+	text: string;
+	/** Where each script sits in `text`. */
+	spans: Array<{ start: number; end: number }>;
+};
+
+/**
+ * Join scripts into one, separated by `GO` lines, so they can be linted in
+ * a single CLI run.
+ */
+export function joinBatches(scripts: readonly string[]): JoinedBatches {
+	let text = "";
+	const spans: JoinedBatches["spans"] = [];
+	for (const script of scripts) {
+		if (spans.length > 0) {
+			text += `${text.endsWith("\n") ? "" : "\n"}GO\n`;
+		}
+		spans.push({ start: text.length, end: text.length + script.length });
+		text += script;
+	}
+	return { text, spans };
+}
+
+/**
+ * Index of the joined script that contains an offset, or -1 for offsets on
+ * the separator lines between scripts.
+ */
+export function findJoinedBatch(joined: JoinedBatches, offset: number): number {
+	return joined.spans.findIndex(
+		(span) => offset >= span.start && offset <= span.end,
+	);
+}
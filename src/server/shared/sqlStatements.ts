@@ -0,0 +1,197 @@
+import { isBatchSeparator } from "./sqlBatches";
+
+/**
+ * A half-open span of text offsets (`end` is exclusive).
+ */
+export type TextSpan = {
+	start: number;
+	end: number;
+};
+
+/**
+ * A statement span. `terminated` is true when it ends with a `;` outside any
+ * block.
+ */
+export type SqlStatement = TextSpan & {
+	terminated: boolean;
+};
+
+/** Words after `BEGIN` that start a statement rather than a block. */
+const NON_BLOCK_BEGIN_WORDS = new Set([
+	"TRAN",
+	"TRANSACTION",
+	"DISTRIBUTED",
+	"DIALOG",
+	"CONVERSATION",
+]);
+
+/**
+ * Find the statements in a T-SQL script.
+ *
+ * A statement runs from its first non-whitespace character (leading comments
+ * included) to its `;` terminator, or to the end of its `GO` batch when it is
+ * not terminated. `BEGIN ... END` and `CASE ... END` blocks are kept whole, and
+ * terminators inside strings, quoted identifiers and comments are ignored.
+ */
+export function findStatementSpans(text: string): SqlStatement[] {
+	const spans: SqlStatement[] = [];
+	let start = -1;
+	let contentEnd = 0;
+	let depth = 0;
+	let pendingBegin = false;
+
+	const closeStatement = (end: number, terminated: boolean) => {
+		if (start >= 0) {
+			spans.push({ start, end, terminated });
+		}
+		start = -1;
+		depth = 0;
+		pendingBegin = false;
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		if (i === 0 || text[i - 1] === "\n") {
+			const lineEnd = findLineEnd(text, i);
+			if (isBatchSeparator(text.slice(i, lineEnd))) {
+				closeStatement(contentEnd, false);
+				i = lineEnd;
+				continue;
+			}
+		}
+
+		const char = text[i] ?? "";
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+		if (start < 0) {
+			start = i;
+		}
+
+		let next = i + 1;
+		if (char === "'" || char === '"') {
+			next = skipQuoted(text, i + 1, char);
+		} else if (char === "[") {
+			next = skipQuoted(text, i + 1, "]");
+		} else if (char === "-" && text[i + 1] === "-") {
+			next = findLineEnd(text, i);
+		} else if (char === "/" && text[i + 1] === "*") {
+			next = skipBlockComment(text, i + 2);
+		} else if (/[A-Za-z_@#]/.test(char)) {
+			next = skipWord(text, i);
+			const word = text.slice(i, next).toUpperCase();
+			if (pendingBegin) {
+				pendingBegin = false;
+				if (!NON_BLOCK_BEGIN_WORDS.has(word)) {
+					depth++;
+				}
+			}
+			if (word === "BEGIN") {
+				pendingBegin = true;
+			} else if (word === "CASE") {
+				depth++;
+			} else if (word === "END" && depth > 0) {
+				depth--;
+			}
+		} else if (char === ";" && depth === 0) {
+			contentEnd = next;
+			closeStatement(next, true);
+			i = next;
+			continue;
+		}
+		contentEnd = next;
+		i = next;
+	}
+	closeStatement(contentEnd, false);
+	return spans;
+}
+
+/**
+ * Grow a span to whole lines covering every statement it touches.
+ * An empty span grows to the statement containing it.
+ * Returns null when the span touches no statement.
+ */
+export function expandToStatements(
+	text: string,
+	span: TextSpan,
+): TextSpan | null {
+	const statements = findStatementSpans(text);
+	let current = span;
+	for (;;) {
+		const { start, end } = current;
+		const touched = statements.filter((statement) =>
+			start === end
+				? statement.start <= start && start <= statement.end
+				: statement.start < end && start < statement.end,
+		);
+		const first = touched[0];
+		const last = touched[touched.length - 1];
+		if (!first || !last) {
+			return null;
+		}
+		const expanded = {
+			start: text.lastIndexOf("\n", first.start - 1) + 1,
+			end: findLineContentEnd(text, last.end),
+		};
+		if (expanded.start === start && expanded.end === end) {
+			return expanded;
+		}
+		current = expanded;
+	}
+}
+
+function findLineEnd(text: string, offset: number): number {
+	const index = text.indexOf("\n", offset);
+	return index < 0 ? text.length : index;
+}
+
+/** End of the line containing `offset`, excluding its line terminator. */
+function findLineContentEnd(text: string, offset: number): number {
+	const lineEnd = findLineEnd(text, offset);
+	return text[lineEnd - 1] === "\r" && lineEnd - 1 >= offset
+		? lineEnd - 1
+		: lineEnd;
+}
+
+/** Skip to just after the closing quote; doubled quotes are escapes. */
+function skipQuoted(text: string, offset: number, quote: string): number {
+	let i = offset;
+	while (i < text.length) {
+		if (text[i] === quote) {
+			if (text[i + 1] === quote) {
+				i += 2;
+				continue;
+			}
+			return i + 1;
+		}
+		i++;
+	}
+	return text.length;
+}
+
+/** Skip a block comment; T-SQL block comments nest. */
+function skipBlockComment(text: string, offset: number): number {
+	let nesting = 1;
+	let i = offset;
+	while (i < text.length && nesting > 0) {
+		if (text[i] === "/" && text[i + 1] === "*") {
+			nesting++;
+			i += 2;
+		} else if (text[i] === "*" && text[i + 1] === "/") {
+			nesting--;
+			i += 2;
+		} else {
+			i++;
+		}
+	}
+	return i;
+}
+
+function skipWord(text: string, offset: number): number {
+	let i = offset;
+	while (i < text.length && /[\w@#$]/.test(text[i] ?? "")) {
+		i++;
+	}
+	return i;
+}
@@ -0,0 +1,293 @@
+/**
+ * Maximum number of cells in the line LCS table. Larger changed regions are
+ * reported as a single hunk instead of being diffed line by line.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Maximum number of cells in the character LCS table for one changed line
+ * block. Larger blocks are reduced to a single change by trimming their
+ * common prefix and suffix.
+ */
+const MAX_CHAR_LCS_CELLS = 1_000_000;
+
+/**
+ * A contiguous block of changed lines.
+ * Line indexes are zero-based and end-exclusive; offsets index into the old text.
+ */
+export type LineHunk = {
+	oldStartLine: number;
+	oldEndLine: number;
+	oldStartOffset: number;
+	oldEndOffset: number;
+	newText: string;
+};
+
+/**
+ * A replacement of `oldText.slice(oldStartOffset, oldEndOffset)` with `newText`.
+ */
+export type TextChange = {
+	oldStartOffset: number;
+	oldEndOffset: number;
+	newText: string;
+};
+
+/**
+ * Split text into lines, keeping each line's terminator attached.
+ */
+export function splitLinesWithTerminators(text: string): string[] {
+	return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Compute the changed line blocks needed to turn `oldText` into `newText`.
+ * Returns an empty array when the texts are identical.
+ */
+export function computeLineHunks(oldText: string, newText: string): LineHunk[] {
+	if (oldText === newText) {
+		return [];
+	}
+	const oldLines = splitLinesWithTerminators(oldText);
+	const newLines = splitLinesWithTerminators(newText);
+	const oldOffsets = lineStartOffsets(oldLines);
+	const newOffsets = lineStartOffsets(newLines);
+
+	let prefix = 0;
+	while (
+		prefix < oldLines.length &&
+		prefix < newLines.length &&
+		oldLines[prefix] === newLines[prefix]
+	) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < oldLines.length - prefix &&
+		suffix < newLines.length - prefix &&
+		oldLines[oldLines.length - 1 - suffix] ===
+			newLines[newLines.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const oldEnd = oldLines.length - suffix;
+	const newEnd = newLines.length - suffix;
+	const ranges = diffRanges(
+		oldLines.slice(prefix, oldEnd),
+		newLines.slice(prefix, newEnd),
+		MAX_LCS_CELLS,
+	);
+
+	return ranges.map((range) => {
+		const oldStartLine = prefix + range.oldStart;
+		const oldEndLine = prefix + range.oldEnd;
+		const newStartLine = prefix + range.newStart;
+		const newEndLine = prefix + range.newEnd;
+		return {
+			oldStartLine,
+			oldEndLine,
+			oldStartOffset: oldOffsets[oldStartLine] ?? oldText.length,
+			oldEndOffset: oldOffsets[oldEndLine] ?? oldText.length,
+			newText: newText.slice(
+				newOffsets[newStartLine] ?? newText.length,
+				newOffsets[newEndLine] ?? newText.length,
+			),
+		};
+	});
+}
+
+/**
+ * Compute the smallest set of changes that turns `oldText` into `newText`:
+ * a line diff first, then a character diff inside each changed line block.
+ * Changes are ordered and never overlap. CRLF pairs and surrogate pairs are
+ * never split.
+ */
+export function computeTextChanges(
+	oldText: string,
+	newText: string,
+): TextChange[] {
+	return computeLineHunks(oldText, newText).flatMap((hunk) =>
+		diffCharacters(
+			oldText.slice(hunk.oldStartOffset, hunk.oldEndOffset),
+			hunk.newText,
+		).map((change) => ({
+			oldStartOffset: hunk.oldStartOffset + change.oldStartOffset,
+			oldEndOffset: hunk.oldStartOffset + change.oldEndOffset,
+			newText: change.newText,
+		})),
+	);
+}
+
+/**
+ * Diff two texts character by character. Falls back to a single change
+ * without the common prefix and suffix when the texts are too large.
+ */
+function diffCharacters(oldText: string, newText: string): TextChange[] {
+	const { prefix, suffix } = commonAffixLengths(oldText, newText);
+	const oldEnd = oldText.length - suffix;
+	const newEnd = newText.length - suffix;
+	if ((oldEnd - prefix + 1) * (newEnd - prefix + 1) > MAX_CHAR_LCS_CELLS) {
+		return [
+			{
+				oldStartOffset: prefix,
+				oldEndOffset: oldEnd,
+				newText: newText.slice(prefix, newEnd),
+			},
+		];
+	}
+
+	const oldChars = splitCharacters(oldText.slice(prefix, oldEnd));
+	const newChars = splitCharacters(newText.slice(prefix, newEnd));
+	const oldOffsets = lineStartOffsets(oldChars);
+	const newOffsets = lineStartOffsets(newChars);
+	return diffRanges(oldChars, newChars, MAX_CHAR_LCS_CELLS).map((range) => ({
+		oldStartOffset: prefix + (oldOffsets[range.oldStart] ?? 0),
+		oldEndOffset: prefix + (oldOffsets[range.oldEnd] ?? 0),
+		newText: newText.slice(
+			prefix + (newOffsets[range.newStart] ?? 0),
+			prefix + (newOffsets[range.newEnd] ?? 0),
+		),
+	}));
+}
+
+/**
+ * Length of the common prefix and suffix of two texts, shortened so that
+ * neither splits a CRLF pair or a surrogate pair.
+ */
+function commonAffixLengths(
+	oldText: string,
+	newText: string,
+): { prefix: number; suffix: number } {
+	const maxLength = Math.min(oldText.length, newText.length);
+	let prefix = 0;
+	while (prefix < maxLength && oldText[prefix] === newText[prefix]) {
+		prefix++;
+	}
+	if (
+		prefix > 0 &&
+		(isPairStart(oldText, prefix - 1) || isPairStart(newText, prefix - 1))
+	) {
+		prefix--;
+	}
+
+	let suffix = 0;
+	while (
+		suffix < maxLength - prefix &&
+		oldText[oldText.length - 1 - suffix] ===
+			newText[newText.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+	if (
+		suffix > 0 &&
+		(isPairStart(oldText, oldText.length - suffix - 1) ||
+			isPairStart(newText, newText.length - suffix - 1))
+	) {
+		suffix--;
+	}
+	return { prefix, suffix };
+}
+
+/**
+ * Whether the character at `index` starts a CRLF or surrogate pair.
+ */
+function isPairStart(text: string, index: number): boolean {
+	const code = text.charCodeAt(index);
+	if (code === 0x0d) {
+		return text[index + 1] === "\n";
+	}
+	return code >= 0xd800 && code <= 0xdbff;
+}
+
+/**
+ * Split text into characters, keeping CRLF and surrogate pairs together.
+ */
+function splitCharacters(text: string): string[] {
+	return text.match(/\r\n|[\uD800-\uDBFF][\uDC00-\uDFFF]|[\s\S]/g) ?? [];
+}
+
+type LineRange = {
+	oldStart: number;
+	oldEnd: number;
+	newStart: number;
+	newEnd: number;
+};
+
+/**
+ * Start offset of every part, plus the total length as a final entry.
+ */
+function lineStartOffsets(lines: string[]): number[] {
+	const offsets = [0];
+	let offset = 0;
+	for (const line of lines) {
+		offset += line.length;
+		offsets.push(offset);
+	}
+	return offsets;
+}
+
+/**
+ * Diff two arrays with a longest-common-subsequence table and return the
+ * changed ranges. Falls back to a single range when the table would have
+ * more than `maxCells` cells.
+ */
+function diffRanges(
+	oldLines: string[],
+	newLines: string[],
+	maxCells: number,
+): LineRange[] {
+	const n = oldLines.length;
+	const m = newLines.length;
+	if (n === 0 && m === 0) {
+		return [];
+	}
+	if (n === 0 || m === 0 || (n + 1) * (m + 1) > maxCells) {
+		return [{ oldStart: 0, oldEnd: n, newStart: 0, newEnd: m }];
+	}
+
+	const width = m + 1;
+	const table = new Uint32Array((n + 1) * width);
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			table[i * width + j] =
+				oldLines[i] === newLines[j]
+					? (table[(i + 1) * width + j + 1] ?? 0) + 1
+					: Math.max(
+							table[(i + 1) * width + j] ?? 0,
+							table[i * width + j + 1] ?? 0,
+						);
+		}
+	}
+
+	const ranges: LineRange[] = [];
+	let current: LineRange | null = null;
+	let i = 0;
+	let j = 0;
+	while (i < n || j < m) {
+		if (i < n && j < m && oldLines[i] === newLines[j]) {
+			if (current) {
+				ranges.push(current);
+				current = null;
+			}
+			i++;
+			j++;
+			continue;
+		}
+		current ??= { oldStart: i, oldEnd: i, newStart: j, newEnd: j };
+		if (
+			j < m &&
+			(i >= n ||
+				(table[i * width + j + 1] ?? 0) >= (table[(i + 1) * width + j] ?? 0))
+		) {
+			j++;
+			current.newEnd = j;
+		} else {
+			i++;
+			current.oldEnd = i;
+		}
+	}
+	if (current) {
+		ranges.push(current);
+	}
+	return ranges;
+}
@@ -0,0 +1,133 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+	COMMAND_CACHE_TTL_MS,
+	DEFAULT_COMMAND_NAME,
+} from "../config/constants";
+
+/** A tsqlrefine entry in a local dotnet tool manifest. */
+export type ToolManifestEntry = {
+	/** Path of the `dotnet-tools.json` file. */
+	manifestPath: string;
+	/** Directory the manifest applies to (the parent of `.config`). */
+	rootDir: string;
+	packageId: string;
+	version: string | null;
+	/** Command name passed to `dotnet tool run`. */
+	command: string;
+};
+
+/** Raw manifest shape; every field is validated. */
+type ToolManifestJson = {
+	isRoot?: unknown;
+	tools?: Record<string, { version?: unknown; commands?: unknown } | null>;
+};
+
+/** Manifest locations `dotnet tool run` checks in each directory. */
+const MANIFEST_LOCATIONS = [
+	path.join(".config", "dotnet-tools.json"),
+	"dotnet-tools.json",
+];
+
+const manifestCache = new Map<
+	string,
+	{ value: ToolManifestEntry | null; checkedAt: number }
+>();
+
+/**
+ * Find the nearest local dotnet tool manifest that provides tsqlrefine,
+ * searching from `startDir` upward the way `dotnet tool run` does.
+ * Lookups are cached briefly per start directory.
+ */
+export async function findToolManifest(
+	startDir: string,
+): Promise<ToolManifestEntry | null> {
+	const key = path.resolve(startDir);
+	const cached = manifestCache.get(key);
+	if (cached && Date.now() - cached.checkedAt < COMMAND_CACHE_TTL_MS) {
+		return cached.value;
+	}
+	const value = await findToolManifestUncached(key);
+	manifestCache.set(key, { value, checkedAt: Date.now() });
+	return value;
+}
+
+/**
+ * Whether a watched file is a local dotnet tool manifest.
+ */
+export function isToolManifestPath(filePath: string): boolean {
+	return path.basename(filePath) === "dotnet-tools.json";
+}
+
+/**
+ * Forget cached manifest lookups (e.g. after settings change).
+ */
+export function clearToolManifestCache(): void {
+	manifestCache.clear();
+}
+
+/**
+ * Find the tsqlrefine tool in a manifest's JSON text. `entry` is null when
+ * the manifest does not provide tsqlrefine, and `isRoot` tells whether the
+ * search must stop at this manifest. Invalid JSON is treated as a root so a
+ * broken manifest is not silently skipped.
+ */
+export function parseToolManifest(
+	text: string,
+	manifestPath: string,
+): { entry: ToolManifestEntry | null; isRoot: boolean } {
+	let parsed: ToolManifestJson | null;
+	try {
+		parsed = JSON.parse(text.replace(/^\uFEFF/, "")) as ToolManifestJson | null;
+	} catch {
+		return { entry: null, isRoot: true };
+	}
+	const isRoot = parsed?.isRoot === true;
+	for (const [packageId, tool] of Object.entries(parsed?.tools ?? {})) {
+		const commands = Array.isArray(tool?.commands) ? tool.commands : [];
+		if (!commands.includes(DEFAULT_COMMAND_NAME)) {
+			continue;
+		}
+		const manifestDir = path.dirname(manifestPath);
+		return {
+			entry: {
+				manifestPath,
+				rootDir:
+					path.basename(manifestDir) === ".config"
+						? path.dirname(manifestDir)
+						: manifestDir,
+				packageId,
+				version: typeof tool?.version === "string" ? tool.version : null,
+				command: DEFAULT_COMMAND_NAME,
+			},
+			isRoot,
+		};
+	}
+	return { entry: null, isRoot };
+}
+
+async function findToolManifestUncached(
+	startDir: string,
+): Promise<ToolManifestEntry | null> {
+	let current = startDir;
+	while (true) {
+		for (const location of MANIFEST_LOCATIONS) {
+			const manifestPath = path.join(current, location);
+			const text = await fs.readFile(manifestPath, "utf8").catch(() => null);
+			if (text === null) {
+				continue;
+			}
+			// Like `dotnet tool run`, keep searching parent directories for a
+			// manifest that provides the tool unless this one is marked as root.
+			const { entry, isRoot } = parseToolManifest(text, manifestPath);
+			if (entry || isRoot) {
+				return entry;
+			}
+		}
+		const parent = path.dirname(current);
+		if (parent === current) {
+			return null;
+		}
+		current = parent;
+	}
+}
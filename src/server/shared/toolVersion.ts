@@ -0,0 +1,89 @@
+import type { Connection } from "vscode-languageserver/node";
+
+/** Payload of the `tsqlrefine/toolVersion` notification. */
+export type ToolVersionInfo = {
+	version: string;
+	requiredVersion: string | null;
+	matches: boolean;
+};
+
+/**
+ * Whether a CLI version satisfies `tsqlrefine.requiredVersion`.
+ * A required version matches itself and any version it is a prefix of at a
+ * dot boundary, so "1.4" accepts "1.4.2" but not "1.40.0". A leading "v" is
+ * ignored on both sides.
+ */
+export function versionMatches(actual: string, required: string): boolean {
+	const normalize = (value: string) => value.trim().replace(/^v/i, "");
+	const actualVersion = normalize(actual);
+	const requiredVersion = normalize(required);
+	if (!requiredVersion) {
+		return true;
+	}
+	return (
+		actualVersion === requiredVersion ||
+		actualVersion.startsWith(`${requiredVersion}.`) ||
+		actualVersion.startsWith(`${requiredVersion}-`)
+	);
+}
+
+/**
+ * Tracks the CLI version reported by lint runs, per working directory, so
+ * folders of a multi-root workspace that resolve different executables do not
+ * overwrite each other. Sends `tsqlrefine/toolVersion` to the client when the
+ * version of the active folder changes, and warns once per mismatching pair.
+ */
+export class ToolVersionMonitor {
+	private readonly versions = new Map<string, ToolVersionInfo>();
+	private activeKey: string | null = null;
+	private lastSent: string | null = null;
+	private readonly warned = new Set<string>();
+
+	constructor(private readonly connection: Connection) {}
+
+	record(
+		key: string,
+		version: string,
+		requiredVersion: string | undefined,
+	): void {
+		const info: ToolVersionInfo = {
+			version,
+			requiredVersion: requiredVersion ?? null,
+			matches: requiredVersion
+				? versionMatches(version, requiredVersion)
+				: true,
+		};
+		this.versions.set(key, info);
+		this.activeKey ??= key;
+		if (key === this.activeKey) {
+			this.notify(info);
+		}
+		const pair = JSON.stringify([info.version, info.requiredVersion]);
+		if (!info.matches && !this.warned.has(pair)) {
+			this.warned.add(pair);
+			void this.connection.window.showWarningMessage(
+				`tsqlrefine: version ${version} is in use, but tsqlrefine.requiredVersion is ${requiredVersion}.`,
+			);
+		}
+	}
+
+	/**
+	 * Switches the reported version to the folder of the active editor.
+	 * Keeps the current report until a lint in that folder records a version.
+	 */
+	setActive(key: string): void {
+		this.activeKey = key;
+		const info = this.versions.get(key);
+		if (info) {
+			this.notify(info);
+		}
+	}
+
+	private notify(info: ToolVersionInfo): void {
+		const sent = JSON.stringify([info.version, info.requiredVersion]);
+		if (sent !== this.lastSent) {
+			this.lastSent = sent;
+			this.connection.sendNotification("tsqlrefine/toolVersion", info);
+		}
+	}
+}
@@ -8,6 +8,8 @@ export type ProcessRunResult = {
 	exitCode: number | null;
 	timedOut: boolean;
 	cancelled: boolean;
+	/** Command and arguments run, for the run history. */
+	commandLine?: string[];
 };
 
 /**
@@ -0,0 +1,86 @@
+import * as fs from "node:fs/promises";
+import {
+	type BaselineIssue,
+	getBaselinePath,
+	parseBaseline,
+} from "../lint/baseline";
+import { normalizeForCompare } from "../shared/normalize";
+
+type LoadedBaseline = {
+	issuesByFile: Map<string, BaselineIssue[]>;
+	/** All issues, as read from the file. */
+	issues: BaselineIssue[];
+};
+
+/**
+ * Loads `.tsqlrefine-baseline.json` of each workspace folder on first use
+ * and keeps it until the file changes. A missing file is an empty baseline;
+ * an invalid one is reported through `onInvalid` and ignored.
+ */
+export class BaselineStore {
+	private readonly baselines = new Map<string, Promise<LoadedBaseline>>();
+
+	constructor(
+		private readonly onInvalid: (baselinePath: string) => void = () => {},
+		private readonly readFile: (filePath: string) => Promise<string> = (
+			filePath,
+		) => fs.readFile(filePath, "utf8"),
+	) {}
+
+	/**
+	 * Baseline issues recorded for a file of a workspace folder.
+	 */
+	async getIssues(
+		workspaceRoot: string,
+		file: string,
+	): Promise<readonly BaselineIssue[]> {
+		const baseline = await this.load(workspaceRoot);
+		return baseline.issuesByFile.get(file) ?? [];
+	}
+
+	/**
+	 * Every issue in the baseline of a workspace folder.
+	 */
+	async getAllIssues(workspaceRoot: string): Promise<readonly BaselineIssue[]> {
+		return (await this.load(workspaceRoot)).issues;
+	}
+
+	/**
+	 * Forget the loaded baselines so they are read again on next use.
+	 */
+	invalidate(): void {
+		this.baselines.clear();
+	}
+
+	private load(workspaceRoot: string): Promise<LoadedBaseline> {
+		const key = normalizeForCompare(workspaceRoot);
+		const cached = this.baselines.get(key);
+		if (cached) {
+			return cached;
+		}
+		const loaded = this.read(getBaselinePath(workspaceRoot));
+		this.baselines.set(key, loaded);
+		return loaded;
+	}
+
+	private async read(baselinePath: string): Promise<LoadedBaseline> {
+		let text: string;
+		try {
+			text = await this.readFile(baselinePath);
+		} catch {
+			return { issuesByFile: new Map(), issues: [] };
+		}
+		const issues = parseBaseline(text);
+		if (!issues) {
+			this.onInvalid(baselinePath);
+			return { issuesByFile: new Map(), issues: [] };
+		}
+		const issuesByFile = new Map<string, BaselineIssue[]>();
+		for (const issue of issues) {
+			const fileIssues = issuesByFile.get(issue.file) ?? [];
+			fileIssues.push(issue);
+			issuesByFile.set(issue.file, fileIssues);
+		}
+		return { issuesByFile, issues };
+	}
+}
@@ -0,0 +1,301 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+	DEFAULT_COMMAND_NAME,
+	LINT_CACHE_IDENTITY_TTL_MS,
+	LINT_CACHE_MAX_ENTRIES,
+	LINT_CACHE_SAVE_DELAY_MS,
+} from "../config/constants";
+import { collectExtends } from "../config/effectiveConfig";
+import type { TsqlRefineSettings } from "../config/settings";
+import {
+	computeLintCacheKey,
+	hashText,
+	type LintCacheLookup,
+	LintResultCache,
+	parseLintCache,
+	serializeLintCache,
+} from "../lint/lintCache";
+import type { DocumentContext } from "../shared/documentContext";
+import { normalizeExecutablePath } from "../shared/normalize";
+import { findToolManifest } from "../shared/toolManifest";
+
+type Memo = {
+	value: Promise<string | null>;
+	expiresAt: number;
+};
+
+/**
+ * Keeps lint results keyed by the document text, the content of the
+ * effective config, the executable and its version, and the settings that
+ * shape the diagnostics, so text linted before does not start the CLI again.
+ *
+ * The CLI version of an executable is learnt from its first run; until then
+ * lookups miss. An executable is identified by the path, size and mtime of
+ * its file (or of the dotnet tool manifest that pins it), so replacing it
+ * invalidates its results. Identities and config hashes are remembered
+ * until `invalidate` or `LINT_CACHE_IDENTITY_TTL_MS`, so a lookup does not
+ * search PATH or read the config each time. With a storage path the cache is
+ * also saved to disk and loaded in the next session.
+ */
+export class LintCacheStore {
+	private readonly cache: LintResultCache;
+	/** CLI version by executable identity. */
+	private readonly toolVersions = new Map<string, string>();
+	/** Executable identity by cwd and `tsqlrefine.path`. */
+	private readonly executables = new Map<string, Memo>();
+	/** Config hash by config path. */
+	private readonly configHashes = new Map<string, Memo>();
+	private storagePath: string | null = null;
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(
+		private readonly logger: { debug(message: string): void },
+		maxEntries: number = LINT_CACHE_MAX_ENTRIES,
+	) {
+		this.cache = new LintResultCache(maxEntries);
+	}
+
+	get size(): number {
+		return this.cache.size;
+	}
+
+	/**
+	 * Look up the results for a document context. Returns null when its
+	 * config or executable cannot be read, so the result must not be cached.
+	 */
+	async lookup(context: DocumentContext): Promise<LintCacheLookup | null> {
+		const { cwd, effectiveSettings, effectiveConfigPath, documentText } =
+			context;
+		const [executable, configHash] = await Promise.all([
+			memoize(
+				this.executables,
+				JSON.stringify([cwd, effectiveSettings.path ?? ""]),
+				() => identifyExecutable(effectiveSettings, cwd),
+			),
+			memoize(this.configHashes, effectiveConfigPath ?? "", () =>
+				hashConfig(effectiveConfigPath),
+			),
+		]);
+		if (executable === null || configHash === null) {
+			return null;
+		}
+		const keyFor = (toolVersion: string) =>
+			computeLintCacheKey({
+				text: documentText,
+				cwd,
+				configPath: effectiveConfigPath,
+				configHash,
+				executable,
+				toolVersion,
+				settings: effectiveSettings,
+			});
+		const knownVersion = this.toolVersions.get(executable);
+		const entry =
+			knownVersion === undefined
+				? undefined
+				: this.cache.get(keyFor(knownVersion));
+		return {
+			diagnostics: entry?.diagnostics ?? null,
+			store: (diagnostics, toolVersion) => {
+				this.toolVersions.set(executable, toolVersion);
+				this.cache.set(keyFor(toolVersion), { diagnostics });
+				this.scheduleSave();
+			},
+		};
+	}
+
+	/**
+	 * Identify executables and hash configs again on the next lookups, after
+	 * a config file, tool manifest or setting changed.
+	 */
+	invalidate(): void {
+		this.executables.clear();
+		this.configHashes.clear();
+	}
+
+	/**
+	 * Drop every result and forget the known CLI versions.
+	 */
+	clear(): void {
+		this.cache.clear();
+		this.toolVersions.clear();
+		this.invalidate();
+		this.scheduleSave();
+	}
+
+	/**
+	 * Persist the cache to a file, loading what an earlier session saved
+	 * there, or stop persisting (null) and delete the previous file.
+	 */
+	async setStoragePath(filePath: string | null): Promise<void> {
+		const previous = this.storagePath;
+		if (filePath === previous) {
+			return;
+		}
+		this.storagePath = filePath;
+		if (filePath) {
+			await this.load(filePath);
+			return;
+		}
+		this.cancelSave();
+		if (previous) {
+			await fs.rm(previous, { force: true }).catch(() => {});
+		}
+	}
+
+	/**
+	 * Write pending changes to the storage path now.
+	 */
+	async flush(): Promise<void> {
+		if (this.saveTimer === null) {
+			return;
+		}
+		this.cancelSave();
+		const filePath = this.storagePath;
+		if (!filePath) {
+			return;
+		}
+		try {
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			await fs.writeFile(
+				filePath,
+				serializeLintCache({
+					toolVersions: Object.fromEntries(this.toolVersions),
+					entries: this.cache.toEntries(),
+				}),
+				"utf8",
+			);
+		} catch (error) {
+			this.logger.debug(
+				`[lintCache] Failed to save ${filePath}: ${String(error)}`,
+			);
+		}
+	}
+
+	private async load(filePath: string): Promise<void> {
+		let text: string;
+		try {
+			text = await fs.readFile(filePath, "utf8");
+		} catch {
+			return;
+		}
+		const persisted = parseLintCache(text);
+		if (!persisted) {
+			this.logger.debug(`[lintCache] Ignoring invalid cache ${filePath}`);
+			return;
+		}
+		// Results of this session stay the most recently used.
+		const current = this.cache.toEntries();
+		for (const [key, entry] of [...persisted.entries, ...current]) {
+			this.cache.set(key, entry);
+		}
+		for (const [executable, version] of Object.entries(
+			persisted.toolVersions,
+		)) {
+			if (!this.toolVersions.has(executable)) {
+				this.toolVersions.set(executable, version);
+			}
+		}
+		if (current.length > 0) {
+			this.scheduleSave();
+		}
+	}
+
+	private scheduleSave(): void {
+		if (!this.storagePath || this.saveTimer !== null) {
+			return;
+		}
+		this.saveTimer = setTimeout(() => {
+			void this.flush();
+		}, LINT_CACHE_SAVE_DELAY_MS);
+		this.saveTimer.unref?.();
+	}
+
+	private cancelSave(): void {
+		if (this.saveTimer !== null) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+	}
+}
+
+function memoize(
+	memos: Map<string, Memo>,
+	key: string,
+	compute: () => Promise<string | null>,
+): Promise<string | null> {
+	const now = Date.now();
+	const memo = memos.get(key);
+	if (memo && memo.expiresAt > now) {
+		return memo.value;
+	}
+	const value = compute();
+	memos.set(key, { value, expiresAt: now + LINT_CACHE_IDENTITY_TTL_MS });
+	return value;
+}
+
+/**
+ * Identify the executable a lint would run: the file of `tsqlrefine.path`,
+ * the dotnet tool manifest pinning the tool, or the command found in PATH,
+ * with its size and mtime. Returns null when no such file exists.
+ */
+async function identifyExecutable(
+	settings: TsqlRefineSettings,
+	cwd: string,
+): Promise<string | null> {
+	const filePath =
+		normalizeExecutablePath(settings.path, cwd) ??
+		(await findToolManifest(cwd))?.manifestPath ??
+		(await findOnPath(DEFAULT_COMMAND_NAME));
+	if (!filePath) {
+		return null;
+	}
+	try {
+		const stat = await fs.stat(filePath);
+		return `${filePath}|${stat.size}|${stat.mtimeMs}`;
+	} catch {
+		return null;
+	}
+}
+
+async function findOnPath(command: string): Promise<string | null> {
+	const { PATH = "", PATHEXT = ".EXE;.CMD;.BAT" } = process.env;
+	const extensions = process.platform === "win32" ? PATHEXT.split(";") : [""];
+	for (const dir of PATH.split(path.delimiter)) {
+		if (!dir) {
+			continue;
+		}
+		for (const extension of extensions) {
+			const candidate = path.join(dir, `${command}${extension}`);
+			const stat = await fs.stat(candidate).catch(() => null);
+			if (stat?.isFile()) {
+				return candidate;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Hash the effective config file and the files it extends. Returns null when
+ * the config cannot be read.
+ */
+async function hashConfig(
+	configPath: string | undefined,
+): Promise<string | null> {
+	if (!configPath) {
+		return "";
+	}
+	try {
+		const contents = [await fs.readFile(configPath, "utf8")];
+		for (const entry of await collectExtends(configPath)) {
+			if (entry.status === "ok" && entry.path) {
+				contents.push(entry.path, await fs.readFile(entry.path, "utf8"));
+			}
+		}
+		return hashText(contents.join("\0"));
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * Tracks the SQL cells of open notebooks in notebook order, as reported by
+ * the client with `tsqlrefine/notebookCells`.
+ */
+export class NotebookCellTracker {
+	private readonly cellsByNotebook = new Map<string, readonly string[]>();
+	private readonly notebookByCell = new Map<string, string>();
+
+	/**
+	 * Replace the SQL cells of a notebook.
+	 */
+	update(notebookUri: string, cellUris: readonly string[]): void {
+		this.remove(notebookUri);
+		this.cellsByNotebook.set(notebookUri, [...cellUris]);
+		for (const cellUri of cellUris) {
+			this.notebookByCell.set(cellUri, notebookUri);
+		}
+	}
+
+	/**
+	 * Forget a closed notebook.
+	 */
+	remove(notebookUri: string): void {
+		for (const cellUri of this.cellsByNotebook.get(notebookUri) ?? []) {
+			this.notebookByCell.delete(cellUri);
+		}
+		this.cellsByNotebook.delete(notebookUri);
+	}
+
+	/**
+	 * The SQL cells of the notebook that contains a cell, in notebook order.
+	 * Returns undefined for documents that are not a known notebook cell.
+	 */
+	getCells(cellUri: string): readonly string[] | undefined {
+		const notebookUri = this.notebookByCell.get(cellUri);
+		return notebookUri ? this.cellsByNotebook.get(notebookUri) : undefined;
+	}
+}
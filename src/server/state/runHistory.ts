@@ -0,0 +1,134 @@
+import {
+	RUN_HISTORY_MAX_ENTRIES,
+	RUN_HISTORY_MAX_STDERR_LENGTH,
+} from "../config/constants";
+import type { LintReason } from "../lint/scheduler";
+import type { CliOperationName } from "../shared/operationExecution";
+import type { ProcessRunResult } from "../shared/types";
+
+/**
+ * One CLI run of a lint, format or fix, for "Show Run History".
+ */
+export type RunRecord = {
+	operation: CliOperationName;
+	/** Document of the run; the first one for batch runs. */
+	uri: string;
+	/** Documents handled by the run, more than one for batch lints. */
+	files: number;
+	/** Why a lint ran; null for format, fix and notebook lints. */
+	reason: LintReason | null;
+	/** Command and arguments run; empty when no process or worker ran. */
+	args: string[];
+	exitCode: number | null;
+	/** Start time in milliseconds since the epoch. */
+	startedAt: number;
+	durationMs: number;
+	/** UTF-8 size of the text sent to the CLI or of the files it read. */
+	bytes: number;
+	/** Diagnostics in the lint output; null for other runs and failures. */
+	diagnostics: number | null;
+	timedOut: boolean;
+	cancelled: boolean;
+	/** Standard error, truncated to `RUN_HISTORY_MAX_STDERR_LENGTH`. */
+	stderr: string;
+};
+
+type RunRecordOptions = {
+	operation: CliOperationName;
+	uri: string;
+	files?: number;
+	reason?: LintReason | null;
+	startedAt: number;
+	bytes: number;
+	result: ProcessRunResult;
+	/** The run was aborted by the caller. */
+	cancelled?: boolean;
+};
+
+/**
+ * Describe a finished CLI run. Call it right after the run so the duration
+ * does not include parsing the output.
+ */
+export function createRunRecord(options: RunRecordOptions): RunRecord {
+	const { result } = options;
+	return {
+		operation: options.operation,
+		uri: options.uri,
+		files: options.files ?? 1,
+		reason: options.reason ?? null,
+		args: result.commandLine ?? [],
+		exitCode: result.exitCode,
+		startedAt: options.startedAt,
+		durationMs: Date.now() - options.startedAt,
+		bytes: options.bytes,
+		diagnostics: null,
+		timedOut: result.timedOut,
+		cancelled: result.cancelled || options.cancelled === true,
+		stderr: result.stderr.slice(0, RUN_HISTORY_MAX_STDERR_LENGTH),
+	};
+}
+
+/**
+ * Describe a run that threw instead of producing a result, e.g. because the
+ * executable is missing. The error message is recorded as its stderr.
+ */
+export function createFailedRunRecord(
+	options: Omit<RunRecordOptions, "result" | "cancelled"> & { error: unknown },
+): RunRecord {
+	const { error, ...rest } = options;
+	return createRunRecord({
+		...rest,
+		result: {
+			stdout: "",
+			stderr: error instanceof Error ? error.message : String(error),
+			exitCode: null,
+			timedOut: false,
+			cancelled: false,
+		},
+	});
+}
+
+/**
+ * The latest CLI runs in a fixed-size ring buffer; once it is full each new
+ * run replaces the oldest one.
+ */
+export class RunHistory {
+	private readonly records: Array<RunRecord | undefined>;
+	private next = 0;
+	private count = 0;
+
+	constructor(private readonly capacity: number = RUN_HISTORY_MAX_ENTRIES) {
+		this.records = new Array(capacity);
+	}
+
+	get size(): number {
+		return this.count;
+	}
+
+	record(run: RunRecord): void {
+		this.records[this.next] = run;
+		this.next = (this.next + 1) % this.capacity;
+		this.count = Math.min(this.count + 1, this.capacity);
+	}
+
+	/**
+	 * Recorded runs, oldest first.
+	 */
+	getRecords(): RunRecord[] {
+		const start = (this.next - this.count + this.capacity) % this.capacity;
+		const records: RunRecord[] = [];
+		for (let offset = 0; offset < this.count; offset++) {
+			const run = this.records[(start + offset) % this.capacity];
+			if (run) {
+				records.push(run);
+			}
+		}
+		return records;
+	}
+
+	clear(): void {
+		this.records.fill(undefined);
+		this.next = 0;
+		this.count = 0;
+	}
+}
@@ -1,9 +1,12 @@
 import type { Connection } from "vscode-languageserver/node";
 import {
+	DEFAULT_CONFIG_SEARCH_ORDER,
+	DEFAULT_EMBEDDED_SQL_MARKERS,
 	DOCUMENT_SETTINGS_CACHE_MAX_SIZE,
 	DOCUMENT_SETTINGS_CACHE_TTL_MS,
 } from "../config/constants";
 import { defaultSettings, type TsqlRefineSettings } from "../config/settings";
+import { RULE_SEVERITIES } from "../rules/ruleCatalog";
 
 type DocumentSettingsCacheEntry = {
 	settings: TsqlRefineSettings;
@@ -152,9 +155,124 @@ export class SettingsManager {
 		) {
 			normalized.minSeverity = "info";
 		}
+		if (
+			typeof normalized.runOnOpen !== "boolean" &&
+			normalized.runOnOpen !== "visibleOnly"
+		) {
+			normalized.runOnOpen = defaultSettings.runOnOpen;
+		}
 		if (typeof normalized.allowPlugins !== "boolean") {
 			normalized.allowPlugins = false;
 		}
+		if (typeof normalized.useDaemon !== "boolean") {
+			normalized.useDaemon = false;
+		}
+		if (typeof normalized.embeddedSql !== "boolean") {
+			normalized.embeddedSql = false;
+		}
+		if (typeof normalized.incrementalLint !== "boolean") {
+			normalized.incrementalLint = false;
+		}
+		if (
+			typeof normalized.maxConcurrentRuns !== "number" ||
+			!Number.isFinite(normalized.maxConcurrentRuns) ||
+			normalized.maxConcurrentRuns < 0
+		) {
+			normalized.maxConcurrentRuns = 0;
+		}
+		if (!["off", "memory", "persistent"].includes(normalized.lintCache ?? "")) {
+			normalized.lintCache = "memory";
+		}
+		normalized.embeddedSqlMarkers = Array.isArray(normalized.embeddedSqlMarkers)
+			? normalized.embeddedSqlMarkers.filter(
+					(marker): marker is string =>
+						typeof marker === "string" && marker.length > 0,
+				)
+			: [...DEFAULT_EMBEDDED_SQL_MARKERS];
+		if (
+			normalized.notebookLintMode !== "cell" &&
+			normalized.notebookLintMode !== "notebook"
+		) {
+			normalized.notebookLintMode = "cell";
+		}
+		if (
+			!["all", "changedLines", "changedFiles"].includes(
+				normalized.diagnosticsScope ?? "",
+			)
+		) {
+			normalized.diagnosticsScope = "all";
+		}
+		if (typeof normalized.diagnosticsScopeBase === "string") {
+			normalized.diagnosticsScopeBase = normalized.diagnosticsScopeBase.trim();
+		}
+		if (!normalized.diagnosticsScopeBase) {
+			delete normalized.diagnosticsScopeBase;
+		}
+		normalized.ruleOverrides = normalizeRuleOverrides(normalized.ruleOverrides);
+		normalized.diagnosticTags = normalizeDiagnosticTags(
+			normalized.diagnosticTags,
+		);
+		if (typeof normalized.requiredVersion === "string") {
+			normalized.requiredVersion = normalized.requiredVersion.trim();
+		}
+		if (!normalized.requiredVersion) {
+			delete normalized.requiredVersion;
+		}
+		normalized.configSearchOrder = normalizeSearchOrder(
+			normalized.configSearchOrder,
+		);
 		return normalized;
 	}
 }
+
+/**
+ * Keep rule overrides with a non-empty pattern and a known severity.
+ */
+function normalizeRuleOverrides(
+	value: unknown,
+): NonNullable<TsqlRefineSettings["ruleOverrides"]> {
+	const overrides: NonNullable<TsqlRefineSettings["ruleOverrides"]> = {};
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return overrides;
+	}
+	for (const [pattern, severity] of Object.entries(value)) {
+		if (pattern.trim() && RULE_SEVERITIES.includes(severity)) {
+			overrides[pattern.trim()] = severity;
+		}
+	}
+	return overrides;
+}
+
+/**
+ * Keep tag mappings with a non-empty pattern and a known tag name.
+ */
+function normalizeDiagnosticTags(
+	value: unknown,
+): NonNullable<TsqlRefineSettings["diagnosticTags"]> {
+	const tags: NonNullable<TsqlRefineSettings["diagnosticTags"]> = {};
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return tags;
+	}
+	for (const [pattern, tag] of Object.entries(value)) {
+		if (pattern.trim() && ["unnecessary", "deprecated"].includes(tag)) {
+			tags[pattern.trim()] = tag;
+		}
+	}
+	return tags;
+}
+
+/**
+ * Keep known config file names, in order and without duplicates.
+ * Falls back to the default order when no known name is left.
+ */
+function normalizeSearchOrder(value: unknown): string[] {
+	const names = Array.isArray(value)
+		? value.filter(
+				(name): name is string =>
+					typeof name === "string" &&
+					DEFAULT_CONFIG_SEARCH_ORDER.includes(name),
+			)
+		: [];
+	const unique = [...new Set(names)];
+	return unique.length > 0 ? unique : [...DEFAULT_CONFIG_SEARCH_ORDER];
+}
@@ -2,11 +2,13 @@ import * as assert from "node:assert";
 import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
+import { TextDocument } from "vscode-languageserver-textdocument";
 import { URI } from "vscode-uri";
 import { defaultSettings } from "../../server/config/settings";
 import { runFormatter } from "../../server/format/runFormatter";
 import { parseOutput } from "../../server/lint/parseOutput";
 import { runLinter } from "../../server/lint/runLinter";
+import { createSuppressCodeActions } from "../../server/lint/suppressActions";
 import { locateTsqlrefine } from "../helpers/testFixtures";
 
 suite("E2E (local): real tsqlrefine binary", () => {
@@ -153,4 +155,64 @@ suite("E2E (local): real tsqlrefine binary", () => {
 			`Formatted output should not contain replacement characters: ${result.stdout}`,
 		);
 	});
+
+	test("honors the directive comments of the suppress actions", async function () {
+		this.timeout(120000);
+		assert.ok(tsqlrefinePath, "tsqlrefine not found");
+		const cliPath = tsqlrefinePath;
+
+		const filePath = path.join(tempDir, "suppress.sql");
+		const uri = URI.file(filePath).toString();
+		const lint = async (text: string) => {
+			const result = await runLinter({
+				cwd: tempDir,
+				settings: {
+					...defaultSettings,
+					path: cliPath,
+					minSeverity: "hint",
+					timeoutMs: 20000,
+				},
+				signal: new AbortController().signal,
+				stdin: text,
+			});
+			return parseOutput({
+				stdout: result.stdout,
+				uri,
+				cwd: tempDir,
+				targetPaths: [filePath, "<stdin>"],
+			});
+		};
+
+		const document = TextDocument.create(
+			uri,
+			"sql",
+			1,
+			"select * from users\nGO\n",
+		);
+		const actions = createSuppressCodeActions(
+			document,
+			await lint(document.getText()),
+		);
+		const [lineAction] = actions;
+		if (!lineAction) {
+			this.skip();
+		}
+		const ruleId = lineAction.title.split(" ")[1];
+
+		for (const action of actions.filter((candidate) =>
+			candidate.title.startsWith(`Disable ${ruleId} `),
+		)) {
+			const suppressed = TextDocument.applyEdits(
+				document,
+				action.edit?.changes?.[uri] ?? [],
+			);
+			const diagnostics = await lint(suppressed);
+			assert.ok(
+				diagnostics.every(
+					(diag) => (diag.data as { ruleId?: string })?.ruleId !== ruleId,
+				),
+				`"${action.title}" left ${ruleId} reported in:\n${suppressed}`,
+			);
+		}
+	});
 });
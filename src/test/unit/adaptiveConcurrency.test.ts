@@ -0,0 +1,82 @@
+import * as assert from "node:assert";
+import {
+	AdaptiveConcurrency,
+	resolveMaxConcurrentRuns,
+} from "../../server/lint/adaptiveConcurrency";
+
+function recordAll(
+	concurrency: AdaptiveConcurrency,
+	durations: number[],
+	hasBacklog = true,
+): number[] {
+	return durations.map((duration) => concurrency.record(duration, hasBacklog));
+}
+
+suite("adaptiveConcurrency", () => {
+	suite("resolveMaxConcurrentRuns", () => {
+		test("uses the setting when it is at least 1", () => {
+			assert.strictEqual(resolveMaxConcurrentRuns(6.7, 2), 6);
+		});
+
+		test("picks one less than the CPU count, between 1 and 4, for 0", () => {
+			assert.strictEqual(resolveMaxConcurrentRuns(0, 1), 1);
+			assert.strictEqual(resolveMaxConcurrentRuns(0, 3), 2);
+			assert.strictEqual(resolveMaxConcurrentRuns(undefined, 16), 4);
+		});
+	});
+
+	suite("AdaptiveConcurrency", () => {
+		test("starts at the maximum and keeps it while latency is stable", () => {
+			const concurrency = new AdaptiveConcurrency(4);
+
+			assert.deepStrictEqual(
+				recordAll(concurrency, [500, 520, 480, 510, 490]),
+				[4, 4, 4, 4, 4],
+			);
+		});
+
+		test("lowers the limit step by step while runs slow each other down", () => {
+			const concurrency = new AdaptiveConcurrency(4);
+			recordAll(concurrency, [500, 500, 500]);
+
+			const limits = recordAll(
+				concurrency,
+				[3000, 3000, 3000, 3000, 3000, 3000],
+			);
+
+			assert.deepStrictEqual(limits, [3, 3, 3, 2, 2, 2]);
+		});
+
+		test("ignores slowdowns of runs shorter than the minimum latency", () => {
+			const concurrency = new AdaptiveConcurrency(4);
+			recordAll(concurrency, [10, 10, 10]);
+
+			assert.deepStrictEqual(
+				recordAll(concurrency, [150, 150, 150]),
+				[4, 4, 4],
+			);
+		});
+
+		test("raises the limit again when latency recovers and lints wait", () => {
+			const concurrency = new AdaptiveConcurrency(2);
+			recordAll(concurrency, [500, 500, 500, 3000, 3000, 3000]);
+			assert.strictEqual(concurrency.limit, 1);
+
+			recordAll(concurrency, [500, 500, 500, 500, 500, 500], false);
+			assert.strictEqual(concurrency.limit, 1);
+
+			recordAll(concurrency, [500, 500, 500]);
+			assert.strictEqual(concurrency.limit, 2);
+		});
+
+		test("setMax resets the limit to the new maximum", () => {
+			const concurrency = new AdaptiveConcurrency(4);
+			recordAll(concurrency, [500, 500, 500, 3000, 3000, 3000]);
+
+			concurrency.setMax(6);
+
+			assert.strictEqual(concurrency.limit, 6);
+			assert.strictEqual(concurrency.getState().max, 6);
+		});
+	});
+});
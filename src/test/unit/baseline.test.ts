@@ -0,0 +1,137 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import type { Diagnostic } from "vscode-languageserver/node";
+import {
+	applyBaseline,
+	type BaselineIssue,
+	collectBaselineIssues,
+	computeFingerprint,
+	parseBaseline,
+	pruneBaseline,
+	rebuildBaseline,
+	serializeBaseline,
+	toBaselineFile,
+} from "../../server/lint/baseline";
+
+function diagnostic(line: number, code = "avoid-select-star"): Diagnostic {
+	return {
+		message: "Avoid SELECT *",
+		code,
+		range: {
+			start: { line, character: 0 },
+			end: { line, character: 8 },
+		},
+	};
+}
+
+suite("baseline", () => {
+	test("records paths relative to the workspace folder with slashes", () => {
+		const root = path.resolve("workspace");
+
+		assert.strictEqual(
+			toBaselineFile(root, path.join(root, "sql", "a.sql")),
+			"sql/a.sql",
+		);
+	});
+
+	test("fingerprints ignore line numbers and indentation", () => {
+		const before = computeFingerprint(["SELECT * FROM t;"], diagnostic(0));
+		const after = computeFingerprint(
+			["-- moved", "", "    SELECT *   FROM t;"],
+			diagnostic(2),
+		);
+
+		assert.strictEqual(before, after);
+		assert.notStrictEqual(
+			before,
+			computeFingerprint(["SELECT * FROM u;"], diagnostic(0)),
+		);
+		assert.notStrictEqual(
+			before,
+			computeFingerprint(["SELECT * FROM t;"], diagnostic(0, "other-rule")),
+		);
+	});
+
+	test("counts repeated issues and matches at most that many", () => {
+		const text = "SELECT * FROM t;\nSELECT * FROM t;";
+		const issues = collectBaselineIssues("a.sql", text, [diagnostic(0)]);
+
+		assert.deepStrictEqual(
+			issues.map((issue) => issue.count),
+			[1],
+		);
+		const result = applyBaseline([diagnostic(0), diagnostic(1)], text, issues);
+		assert.strictEqual(result.baselined.length, 1);
+		assert.strictEqual(result.diagnostics.length, 1);
+	});
+
+	test("keeps baselined issues hidden after lines move", () => {
+		const issues = collectBaselineIssues("a.sql", "SELECT * FROM t;", [
+			diagnostic(0),
+		]);
+
+		const result = applyBaseline(
+			[diagnostic(2)],
+			"SET NOCOUNT ON;\n\nSELECT * FROM t;",
+			issues,
+		);
+
+		assert.deepStrictEqual(result.diagnostics, []);
+	});
+
+	test("prunes fixed issues and never raises counts", () => {
+		const existing: BaselineIssue[] = [
+			{ file: "a.sql", rule: "r1", fingerprint: "f1", count: 2 },
+			{ file: "a.sql", rule: "r2", fingerprint: "f2", count: 1 },
+		];
+		const current: BaselineIssue[] = [
+			{ file: "a.sql", rule: "r1", fingerprint: "f1", count: 1 },
+			{ file: "b.sql", rule: "r3", fingerprint: "f3", count: 4 },
+		];
+
+		assert.deepStrictEqual(pruneBaseline(existing, current), [
+			{ file: "a.sql", rule: "r1", fingerprint: "f1", count: 1 },
+		]);
+	});
+
+	test("keeps the issues of files that could not be linted", () => {
+		const existing: BaselineIssue[] = [
+			{ file: "a.sql", rule: "r1", fingerprint: "f1", count: 1 },
+			{ file: "b.sql", rule: "r2", fingerprint: "f2", count: 2 },
+		];
+		const current: BaselineIssue[] = [
+			{ file: "c.sql", rule: "r3", fingerprint: "f3", count: 1 },
+		];
+		const unlinted = new Set(["b.sql"]);
+
+		assert.deepStrictEqual(
+			rebuildBaseline("create", existing, current, unlinted),
+			[current[0], existing[1]],
+		);
+		assert.deepStrictEqual(
+			rebuildBaseline("update", existing, current, unlinted),
+			[existing[1]],
+		);
+	});
+
+	test("round-trips through the file format in a stable order", () => {
+		const issues: BaselineIssue[] = [
+			{ file: "b.sql", rule: "r1", fingerprint: "f1", count: 1 },
+			{ file: "a.sql", rule: "r2", fingerprint: "f2", count: 3 },
+		];
+
+		const text = serializeBaseline(issues);
+
+		assert.deepStrictEqual(parseBaseline(text), [issues[1], issues[0]]);
+		assert.ok(text.endsWith("\n"));
+	});
+
+	test("rejects files that are not a baseline", () => {
+		assert.strictEqual(parseBaseline("{"), null);
+		assert.strictEqual(parseBaseline('{"version":2,"issues":[]}'), null);
+		assert.deepStrictEqual(
+			parseBaseline('{"version":1,"issues":[{"file":"a.sql"}]}'),
+			[],
+		);
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import { serializeBaseline } from "../../server/lint/baseline";
+import { BaselineStore } from "../../server/state/baselineStore";
+
+suite("BaselineStore", () => {
+	const root = path.resolve("workspace");
+
+	test("returns the issues of one file and reads the baseline once", async () => {
+		const reads: string[] = [];
+		const store = new BaselineStore(undefined, async (filePath) => {
+			reads.push(filePath);
+			return serializeBaseline([
+				{ file: "a.sql", rule: "r1", fingerprint: "f1", count: 1 },
+				{ file: "b.sql", rule: "r2", fingerprint: "f2", count: 2 },
+			]);
+		});
+
+		const issues = await store.getIssues(root, "b.sql");
+		await store.getIssues(root, "a.sql");
+
+		assert.deepStrictEqual(
+			issues.map((issue) => issue.rule),
+			["r2"],
+		);
+		assert.deepStrictEqual(reads, [
+			path.join(root, ".tsqlrefine-baseline.json"),
+		]);
+	});
+
+	test("treats a missing baseline as empty", async () => {
+		const store = new BaselineStore(undefined, async () => {
+			throw new Error("ENOENT");
+		});
+
+		assert.deepStrictEqual(await store.getIssues(root, "a.sql"), []);
+	});
+
+	test("reports an invalid baseline and reads it again after invalidate", async () => {
+		const invalid: string[] = [];
+		let text = "not json";
+		const store = new BaselineStore(
+			(baselinePath) => invalid.push(baselinePath),
+			async () => text,
+		);
+
+		assert.deepStrictEqual(await store.getAllIssues(root), []);
+		assert.strictEqual(invalid.length, 1);
+
+		text = serializeBaseline([
+			{ file: "a.sql", rule: "r1", fingerprint: "f1", count: 1 },
+		]);
+		store.invalidate();
+		assert.strictEqual((await store.getAllIssues(root)).length, 1);
+	});
+});
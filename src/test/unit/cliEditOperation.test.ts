@@ -87,4 +87,86 @@ suite("executeCliEditOperation", () => {
 
 		assert.deepStrictEqual(result, []);
 	});
+
+	suite("range", () => {
+		async function formatRange(
+			text: string,
+			range: { start: number; end: number },
+			stdout: string,
+		) {
+			const harness = createHarness(text);
+			const stdinValues: string[] = [];
+			const edits = await executeCliEditOperation(
+				harness.context,
+				harness.document,
+				{
+					connection: harness.connection,
+					notificationManager: new NotificationManager(harness.connection),
+					stateManager: new DocumentStateManager(),
+				},
+				{
+					operationName: "format",
+					runner: async (options) => {
+						stdinValues.push(options.stdin);
+						return {
+							stdout,
+							stderr: "",
+							exitCode: 0,
+							timedOut: false,
+							cancelled: false,
+						};
+					},
+					range,
+				},
+			);
+			return { harness, edits, stdinValues };
+		}
+
+		test("formats only the range and returns edits inside it", async () => {
+			const text = "select 1;\nselect   2;\nselect 3;\n";
+			const { harness, edits, stdinValues } = await formatRange(
+				text,
+				{ start: 10, end: 21 },
+				"SELECT 2;\n",
+			);
+
+			assert.deepStrictEqual(stdinValues, ["select   2;"]);
+			assert.ok(edits);
+			assert.strictEqual(
+				TextDocument.applyEdits(harness.document, edits),
+				"select 1;\nSELECT 2;\nselect 3;\n",
+			);
+			for (const edit of edits) {
+				assert.strictEqual(edit.range.start.line, 1);
+				assert.strictEqual(edit.range.end.line, 1);
+			}
+		});
+
+		test("keeps the range's base indentation and CRLF line endings", async () => {
+			const text = "BEGIN\r\n    select a,\r\n    b;\r\nEND;";
+			const start = text.indexOf("    select");
+			const end = text.indexOf("b;") + 2;
+			const { harness, edits } = await formatRange(
+				text,
+				{ start, end },
+				"SELECT\n    a,\n    b;\n",
+			);
+
+			assert.ok(edits);
+			assert.strictEqual(
+				TextDocument.applyEdits(harness.document, edits),
+				"BEGIN\r\n    SELECT\r\n        a,\r\n        b;\r\nEND;",
+			);
+		});
+
+		test("returns no edits when the range is already formatted", async () => {
+			const { edits } = await formatRange(
+				"SELECT 1;\nSELECT 2;",
+				{ start: 10, end: 19 },
+				"SELECT 2;\n",
+			);
+
+			assert.deepStrictEqual(edits, []);
+		});
+	});
 });
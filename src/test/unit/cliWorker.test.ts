@@ -0,0 +1,139 @@
+import * as assert from "node:assert";
+import { install as installFakeTimers } from "@sinonjs/fake-timers";
+import { WORKER_RETRY_DELAY_MS } from "../../server/config/constants";
+import { CliWorker } from "../../server/shared/cliWorker";
+
+/** A worker that answers every request with its args and stdin. */
+const ECHO_WORKER = `
+const readline = require("node:readline");
+process.stdout.write(JSON.stringify({ ready: true }) + "\\n");
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+	const req = JSON.parse(line);
+	if (req.cancel) return;
+	if (req.args[0] === "hang") return;
+	if (req.args[0] === "crash") process.exit(1);
+	process.stdout.write(JSON.stringify({
+		id: req.id,
+		exitCode: 0,
+		stdout: req.args.join(" ") + ":" + (req.stdin ?? ""),
+		stderr: "",
+	}) + "\\n");
+});
+`;
+
+function createWorker(script: string, startupTimeoutMs = 5000): CliWorker {
+	return new CliWorker({
+		command: process.execPath,
+		args: ["-e", script],
+		startupTimeoutMs,
+	});
+}
+
+function request(args: string[], signal = new AbortController().signal) {
+	return {
+		args,
+		cwd: process.cwd(),
+		stdin: "SELECT 1;",
+		timeoutMs: 5000,
+		signal,
+	};
+}
+
+suite("CliWorker", () => {
+	let worker: CliWorker | undefined;
+
+	teardown(() => {
+		worker?.dispose();
+		worker = undefined;
+	});
+
+	test("runs requests in one long-lived process", async () => {
+		worker = createWorker(ECHO_WORKER);
+
+		const first = await worker.run(request(["lint", "--stdin"]));
+		const second = await worker.run(request(["format", "--stdin"]));
+
+		assert.deepStrictEqual(first, {
+			stdout: "lint --stdin:SELECT 1;",
+			stderr: "",
+			exitCode: 0,
+			timedOut: false,
+			cancelled: false,
+		});
+		assert.strictEqual(second?.stdout, "format --stdin:SELECT 1;");
+	});
+
+	test("returns null when the CLI exits without the ready handshake", async () => {
+		worker = createWorker("process.exit(2)");
+
+		const result = await worker.run(request(["lint"]));
+
+		assert.strictEqual(result, null);
+		assert.strictEqual(worker.isUnsupported(), true);
+	});
+
+	test("tries to start again after a delay", async () => {
+		const clock = installFakeTimers({ toFake: ["Date"] });
+		try {
+			worker = createWorker("process.exit(2)");
+			await worker.run(request(["lint"]));
+
+			clock.tick(WORKER_RETRY_DELAY_MS - 1);
+			assert.strictEqual(worker.isUnsupported(), true);
+			clock.tick(1);
+			assert.strictEqual(worker.isUnsupported(), false);
+		} finally {
+			clock.uninstall();
+		}
+	});
+
+	test("returns null when the ready handshake times out", async () => {
+		worker = createWorker("setTimeout(() => {}, 10000)", 100);
+
+		const result = await worker.run(request(["lint"]));
+
+		assert.strictEqual(result, null);
+	});
+
+	test("reports a timeout and serves later requests from a new process", async () => {
+		worker = createWorker(ECHO_WORKER);
+
+		const timedOut = await worker.run({ ...request(["hang"]), timeoutMs: 100 });
+		const next = await worker.run(request(["lint"]));
+
+		assert.strictEqual(timedOut?.timedOut, true);
+		assert.strictEqual(next?.stdout, "lint:SELECT 1;");
+	});
+
+	test("hands other requests back when one times out", async () => {
+		worker = createWorker(ECHO_WORKER);
+
+		const [timedOut, other] = await Promise.all([
+			worker.run({ ...request(["hang"]), timeoutMs: 100 }),
+			worker.run({ ...request(["hang"]), timeoutMs: 5000 }),
+		]);
+
+		assert.strictEqual(timedOut?.timedOut, true);
+		assert.strictEqual(other, null);
+		assert.strictEqual(worker.isUnsupported(), false);
+	});
+
+	test("returns a cancelled result when the request is aborted", async () => {
+		worker = createWorker(ECHO_WORKER);
+		const controller = new AbortController();
+
+		const pending = worker.run(request(["hang"], controller.signal));
+		setTimeout(() => controller.abort(), 50);
+		const result = await pending;
+
+		assert.strictEqual(result?.cancelled, true);
+	});
+
+	test("hands pending requests back when the worker crashes", async () => {
+		worker = createWorker(ECHO_WORKER);
+
+		const result = await worker.run(request(["crash"]));
+
+		assert.strictEqual(result, null);
+	});
+});
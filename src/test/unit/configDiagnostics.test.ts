@@ -0,0 +1,111 @@
+import * as assert from "node:assert";
+import type {
+	Connection,
+	PublishDiagnosticsParams,
+} from "vscode-languageserver/node";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { URI } from "vscode-uri";
+import {
+	ConfigDiagnostics,
+	createConfigErrorDiagnostic,
+} from "../../server/config/configDiagnostics";
+
+function createHarness() {
+	const published: PublishDiagnosticsParams[] = [];
+	const connection = {
+		sendDiagnostics: async (params: PublishDiagnosticsParams) => {
+			published.push(params);
+		},
+	} as unknown as Connection;
+	return { configDiagnostics: new ConfigDiagnostics(connection), published };
+}
+
+suite("configDiagnostics", () => {
+	suite("createConfigErrorDiagnostic", () => {
+		test("uses the System.Text.Json location (0-based)", () => {
+			const diagnostic = createConfigErrorDiagnostic(
+				"Invalid config: ',' is invalid after a value. Path: $.rules | LineNumber: 3 | BytePositionInLine: 12.\n   at Tsqlrefine.Config",
+			);
+
+			assert.deepStrictEqual(diagnostic.range, {
+				start: { line: 3, character: 12 },
+				end: { line: 3, character: 13 },
+			});
+			assert.strictEqual(diagnostic.severity, DiagnosticSeverity.Error);
+			assert.strictEqual(diagnostic.source, "tsqlrefine");
+			assert.strictEqual(
+				diagnostic.message,
+				"Invalid config: ',' is invalid after a value. Path: $.rules | LineNumber: 3 | BytePositionInLine: 12.",
+			);
+		});
+
+		test("uses a 1-based line and column location", () => {
+			const diagnostic = createConfigErrorDiagnostic(
+				"Unknown rule 'foo' at line 5, column 7",
+			);
+
+			assert.deepStrictEqual(diagnostic.range.start, {
+				line: 4,
+				character: 6,
+			});
+		});
+
+		test("falls back to the start of the file", () => {
+			const diagnostic = createConfigErrorDiagnostic("");
+
+			assert.deepStrictEqual(diagnostic.range.start, {
+				line: 0,
+				character: 0,
+			});
+			assert.strictEqual(
+				diagnostic.message,
+				"Invalid tsqlrefine configuration",
+			);
+		});
+	});
+
+	suite("ConfigDiagnostics", () => {
+		const configPath = "/ws/tsqlrefine.json";
+		const configUri = URI.file(configPath).toString();
+
+		test("publishes config errors on the config file", () => {
+			const { configDiagnostics, published } = createHarness();
+
+			configDiagnostics.update(configPath, 3, "bad config");
+
+			assert.strictEqual(published.length, 1);
+			assert.strictEqual(published[0]?.uri, configUri);
+			assert.strictEqual(published[0]?.diagnostics[0]?.message, "bad config");
+		});
+
+		test("clears the error after a successful run", () => {
+			const { configDiagnostics, published } = createHarness();
+
+			configDiagnostics.update(configPath, 3, "bad config");
+			configDiagnostics.update(configPath, 1, "");
+
+			assert.deepStrictEqual(published[1], {
+				uri: configUri,
+				diagnostics: [],
+			});
+		});
+
+		test("does not publish for runs without a config error", () => {
+			const { configDiagnostics, published } = createHarness();
+
+			configDiagnostics.update(configPath, 0, "");
+			configDiagnostics.update(configPath, 2, "parse error");
+
+			assert.strictEqual(published.length, 0);
+		});
+
+		test("keeps the error when the run fails for another reason", () => {
+			const { configDiagnostics, published } = createHarness();
+
+			configDiagnostics.update(configPath, 3, "bad config");
+			configDiagnostics.update(configPath, 4, "crash");
+
+			assert.strictEqual(published.length, 1);
+		});
+	});
+});
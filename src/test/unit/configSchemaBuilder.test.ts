@@ -0,0 +1,98 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import {
+	buildConfigSchema,
+	type ConfigSchema,
+} from "../../client/configSchemaBuilder";
+import {
+	normalizeRuleSeverity,
+	SEVERITY_ALIASES,
+} from "../../server/rules/ruleCatalog";
+
+function loadBundledSchema(): ConfigSchema {
+	const schemaPath = path.resolve(
+		__dirname,
+		"../../../schemas/tsqlrefine.schema.json",
+	);
+	return JSON.parse(fs.readFileSync(schemaPath, "utf8")) as ConfigSchema;
+}
+
+suite("configSchemaBuilder", () => {
+	test("bundled schema allows the severities the config reader accepts", () => {
+		const schema = loadBundledSchema() as ConfigSchema & {
+			definitions: { severity: { enum: string[] } };
+		};
+		const severities = schema.definitions.severity.enum;
+
+		assert.deepStrictEqual(
+			[...severities].sort(),
+			Object.keys(SEVERITY_ALIASES).sort(),
+		);
+		for (const severity of severities) {
+			assert.notStrictEqual(normalizeRuleSeverity(severity), null, severity);
+		}
+	});
+
+	test("bundled schema allows extends as a path or a list of paths", () => {
+		const { extends: extendsSchema } = loadBundledSchema().properties ?? {};
+
+		assert.deepStrictEqual(extendsSchema, {
+			description:
+				"Config files this config builds on, applied in order before its own settings. Relative paths are resolved against this file.",
+			oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+		});
+	});
+
+	test("returns the bundled schema when no rules are known", () => {
+		const baseSchema = loadBundledSchema();
+
+		assert.strictEqual(buildConfigSchema(baseSchema, []), baseSchema);
+	});
+
+	test("adds rule IDs with descriptions to the rules object", () => {
+		const baseSchema = loadBundledSchema();
+
+		const schema = buildConfigSchema(baseSchema, [
+			{
+				id: "avoid-select-star",
+				category: "Performance",
+				description: "Avoid SELECT *",
+				docsUrl: "https://example.com/avoid-select-star",
+				fixable: false,
+				defaultSeverity: "warning",
+			},
+			{
+				id: "keyword-casing",
+				category: "Style",
+				fixable: true,
+				defaultSeverity: "info",
+			},
+		]);
+
+		const rules = schema.properties?.rules;
+		assert.deepStrictEqual(rules?.propertyNames, {
+			enum: ["avoid-select-star", "keyword-casing"],
+			errorMessage: "Unknown tsqlrefine rule.",
+		});
+		assert.deepStrictEqual(rules?.properties?.["avoid-select-star"], {
+			allOf: [{ $ref: "#/definitions/ruleSetting" }],
+			markdownDescription:
+				"Avoid SELECT *\n\nCategory: Performance · Default: warning · Fixable: no\n\n[Documentation](https://example.com/avoid-select-star)",
+		});
+		assert.deepStrictEqual(
+			{ ...rules, properties: undefined, propertyNames: undefined },
+			{
+				...baseSchema.properties?.rules,
+				properties: undefined,
+				propertyNames: undefined,
+			},
+			"keeps the rest of the rules schema",
+		);
+		assert.strictEqual(
+			baseSchema.properties?.rules?.propertyNames,
+			undefined,
+			"does not modify the bundled schema",
+		);
+	});
+});
@@ -0,0 +1,94 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import {
+	findConfigDependents,
+	isConfigFilePath,
+} from "../../server/config/configWatcher";
+
+const root = path.resolve("/ws");
+const rootConfig = path.join(root, "tsqlrefine.json");
+const nestedConfig = path.join(root, "nested", "tsqlrefine.json");
+
+suite("configWatcher", () => {
+	suite("isConfigFilePath", () => {
+		test("matches config file names only", () => {
+			assert.strictEqual(isConfigFilePath(rootConfig), true);
+			assert.strictEqual(
+				isConfigFilePath(path.join(root, ".tsqlrefinerc")),
+				true,
+			);
+			assert.strictEqual(
+				isConfigFilePath(path.join(root, "settings.json")),
+				false,
+			);
+			assert.strictEqual(
+				isConfigFilePath(path.join(root, "tsqlrefine.json.bak")),
+				false,
+			);
+		});
+	});
+
+	suite("findConfigDependents", () => {
+		function createResolver(
+			before: Record<string, string | undefined>,
+			after: Record<string, string | undefined>,
+		) {
+			let invalidated = false;
+			return {
+				resolveConfigPath: async (uri: string) =>
+					invalidated ? after[uri] : before[uri],
+				invalidate: () => {
+					invalidated = true;
+				},
+			};
+		}
+
+		test("includes documents that use the changed config", async () => {
+			const config = { a: rootConfig, b: nestedConfig, c: undefined };
+
+			const uris = await findConfigDependents({
+				uris: ["a", "b", "c"],
+				configPaths: [rootConfig],
+				...createResolver(config, config),
+			});
+
+			assert.deepStrictEqual(uris, ["a"]);
+		});
+
+		test("includes documents that switch to a created config", async () => {
+			const uris = await findConfigDependents({
+				uris: ["a", "b"],
+				configPaths: [nestedConfig],
+				...createResolver(
+					{ a: rootConfig, b: rootConfig },
+					{ a: rootConfig, b: nestedConfig },
+				),
+			});
+
+			assert.deepStrictEqual(uris, ["b"]);
+		});
+
+		test("includes documents whose config was deleted", async () => {
+			const uris = await findConfigDependents({
+				uris: ["a", "b"],
+				configPaths: [nestedConfig],
+				...createResolver(
+					{ a: rootConfig, b: nestedConfig },
+					{ a: rootConfig, b: rootConfig },
+				),
+			});
+
+			assert.deepStrictEqual(uris, ["b"]);
+		});
+
+		test("compares normalized paths", async () => {
+			const uris = await findConfigDependents({
+				uris: ["a"],
+				configPaths: [path.join(root, "nested", "..", "tsqlrefine.json")],
+				...createResolver({ a: rootConfig }, { a: rootConfig }),
+			});
+
+			assert.deepStrictEqual(uris, ["a"]);
+		});
+	});
+});
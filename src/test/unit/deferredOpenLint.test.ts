@@ -0,0 +1,74 @@
+import * as assert from "node:assert";
+import { install as installFakeTimers, type Clock } from "@sinonjs/fake-timers";
+import { DeferredOpenLints } from "../../server/lint/deferredOpenLint";
+
+suite("DeferredOpenLints", () => {
+	let clock: Clock;
+
+	setup(() => {
+		clock = installFakeTimers();
+	});
+
+	teardown(() => {
+		clock.uninstall();
+	});
+
+	function createDeferred(idle: { value: boolean }) {
+		const linted: string[] = [];
+		const deferred = new DeferredOpenLints({
+			idleDelayMs: 1000,
+			isIdle: () => idle.value,
+			lint: (uri) => linted.push(uri),
+		});
+		return { deferred, linted };
+	}
+
+	test("lints deferred documents once they are visible", () => {
+		const { deferred, linted } = createDeferred({ value: false });
+		deferred.defer("a.sql");
+		deferred.defer("b.sql");
+
+		deferred.lintVisible(["b.sql", "c.sql"]);
+
+		assert.deepStrictEqual(linted, ["b.sql"]);
+		assert.strictEqual(deferred.has("b.sql"), false);
+		assert.strictEqual(deferred.size, 1);
+	});
+
+	test("lints one document per idle check, oldest first", async () => {
+		const { deferred, linted } = createDeferred({ value: true });
+		deferred.defer("a.sql");
+		deferred.defer("b.sql");
+
+		await clock.tickAsync(999);
+		assert.deepStrictEqual(linted, []);
+		await clock.tickAsync(1);
+		assert.deepStrictEqual(linted, ["a.sql"]);
+		await clock.tickAsync(1000);
+		assert.deepStrictEqual(linted, ["a.sql", "b.sql"]);
+		assert.strictEqual(clock.countTimers(), 0);
+	});
+
+	test("waits while the scheduler is busy", async () => {
+		const idle = { value: false };
+		const { deferred, linted } = createDeferred(idle);
+		deferred.defer("a.sql");
+
+		await clock.tickAsync(5000);
+		assert.deepStrictEqual(linted, []);
+
+		idle.value = true;
+		await clock.tickAsync(1000);
+		assert.deepStrictEqual(linted, ["a.sql"]);
+	});
+
+	test("stops checking when the last document is removed", async () => {
+		const { deferred, linted } = createDeferred({ value: true });
+		deferred.defer("a.sql");
+		deferred.delete("a.sql");
+
+		assert.strictEqual(clock.countTimers(), 0);
+		await clock.tickAsync(1000);
+		assert.deepStrictEqual(linted, []);
+	});
+});
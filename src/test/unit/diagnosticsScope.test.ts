@@ -0,0 +1,80 @@
+import * as assert from "node:assert";
+import type { Diagnostic } from "vscode-languageserver/node";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { applyDiagnosticsScope } from "../../server/lint/diagnosticsScope";
+
+function diagnostic(
+	startLine: number,
+	endLine = startLine,
+	endCharacter = 5,
+): Diagnostic {
+	return {
+		message: `line ${startLine}`,
+		severity: DiagnosticSeverity.Warning,
+		range: {
+			start: { line: startLine, character: 0 },
+			end: { line: endLine, character: endCharacter },
+		},
+	};
+}
+
+suite("applyDiagnosticsScope", () => {
+	test("keeps diagnostics on changed lines and demotes the others to hints", () => {
+		const result = applyDiagnosticsScope(
+			[diagnostic(0), diagnostic(2), diagnostic(3, 5)],
+			"changedLines",
+			new Set([2, 4]),
+		);
+
+		assert.deepStrictEqual(
+			result.map((item) => item.severity),
+			[
+				DiagnosticSeverity.Hint,
+				DiagnosticSeverity.Warning,
+				DiagnosticSeverity.Warning,
+			],
+		);
+	});
+
+	test("does not count a line the range only ends at", () => {
+		const result = applyDiagnosticsScope(
+			[diagnostic(1, 2, 0)],
+			"changedLines",
+			new Set([2]),
+		);
+
+		assert.strictEqual(result[0]?.severity, DiagnosticSeverity.Hint);
+	});
+
+	test("keeps every diagnostic of a changed file for changedFiles", () => {
+		const diagnostics = [diagnostic(0), diagnostic(7)];
+
+		assert.deepStrictEqual(
+			applyDiagnosticsScope(diagnostics, "changedFiles", new Set([3])),
+			diagnostics,
+		);
+		assert.deepStrictEqual(
+			applyDiagnosticsScope(diagnostics, "changedFiles", new Set()).map(
+				(item) => item.severity,
+			),
+			[DiagnosticSeverity.Hint, DiagnosticSeverity.Hint],
+		);
+	});
+
+	test("leaves diagnostics unchanged for new files and files outside Git", () => {
+		const diagnostics = [diagnostic(0)];
+
+		assert.strictEqual(
+			applyDiagnosticsScope(diagnostics, "changedLines", "all"),
+			diagnostics,
+		);
+		assert.strictEqual(
+			applyDiagnosticsScope(diagnostics, "changedLines", null),
+			diagnostics,
+		);
+		assert.strictEqual(
+			applyDiagnosticsScope(diagnostics, "all", new Set()),
+			diagnostics,
+		);
+	});
+});
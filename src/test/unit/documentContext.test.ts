@@ -92,6 +92,31 @@ suite("createDocumentContext", () => {
 		assert.strictEqual(context.isSavedFile, false);
 	});
 
+	test("uses the notebook path for a notebook cell", async () => {
+		const notebookPath = path.resolve("workspace", "queries.ipynb");
+		const uri = URI.file(notebookPath)
+			.with({ scheme: "vscode-notebook-cell", fragment: "W0sZmlsZQ==" })
+			.toString();
+		const document = TextDocument.create(uri, "sql", 1, "SELECT 4;");
+
+		const context = await createDocumentContext({
+			document,
+			documentSettings: createTestSettings(),
+			workspaceFolders: [],
+			isSavedFn: () => false,
+		});
+
+		assert.strictEqual(context.uri, uri);
+		assert.strictEqual(
+			normalizeForCompare(context.filePath),
+			normalizeForCompare(notebookPath),
+		);
+		assert.strictEqual(
+			normalizeForCompare(context.cwd),
+			normalizeForCompare(path.dirname(notebookPath)),
+		);
+	});
+
 	test("creates context for untitled document", async () => {
 		const uri = "untitled:Untitled-1";
 		const document = TextDocument.create(uri, "sql", 1, "SELECT 3;");
@@ -260,4 +285,47 @@ suite("createDocumentContext", () => {
 
 		assert.ok(context.effectiveSettings);
 	});
+
+	test("sends the embedded SQL of host files", async () => {
+		const document = TextDocument.create(
+			URI.file(path.resolve("Query.cs")).toString(),
+			"csharp",
+			1,
+			'var sql = /* tsql */ @"SELECT 1";\nvar other = @"text";',
+		);
+
+		const context = await createDocumentContext({
+			document,
+			documentSettings: createTestSettings({
+				embeddedSql: true,
+				embeddedSqlMarkers: ["/\\*\\s*tsql\\s*\\*/"],
+			}),
+			workspaceFolders: [],
+			isSavedFn: () => true,
+		});
+
+		assert.strictEqual(context.documentText, "SELECT 1");
+		assert.strictEqual(context.embedded?.regions.length, 1);
+	});
+
+	test("does not scan host files while embedded SQL is off", async () => {
+		const document = TextDocument.create(
+			URI.file(path.resolve("Query.cs")).toString(),
+			"csharp",
+			1,
+			'var sql = /* tsql */ @"SELECT 1";',
+		);
+
+		const context = await createDocumentContext({
+			document,
+			documentSettings: createTestSettings({
+				embeddedSql: false,
+				embeddedSqlMarkers: ["/\\*\\s*tsql\\s*\\*/"],
+			}),
+			workspaceFolders: [],
+			isSavedFn: () => true,
+		});
+
+		assert.strictEqual(context.embedded, undefined);
+	});
 });
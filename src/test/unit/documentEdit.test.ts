@@ -1,136 +1,63 @@
 import * as assert from "node:assert";
-import type { TextDocument } from "vscode-languageserver-textdocument";
-import { createFullDocumentEdit } from "../../server/shared/documentEdit";
-
-/**
- * Creates a mock TextDocument for testing.
- */
-function createMockTextDocument(text: string, lineCount: number): TextDocument {
-	const lines = text.split("\n");
-
-	return {
-		uri: "file:///test.sql",
-		languageId: "sql",
-		version: 1,
-		getText: (range?: {
-			start: { line: number; character: number };
-			end: { line: number; character: number };
-		}) => {
-			if (!range) return text;
-			// Return the specified line
-			const line = lines[range.start.line];
-			if (line === undefined) return "";
-			return line;
-		},
-		lineCount,
-		positionAt: (offset: number) => ({ line: 0, character: offset }),
-		offsetAt: (position: { line: number; character: number }) =>
-			position.character,
-	} as TextDocument;
-}
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { normalizeLineEndings } from "../../server/lint/decodeOutput";
+import { createMinimalEdits } from "../../server/shared/documentEdit";
 
 suite("documentEdit", () => {
-	suite("createFullDocumentEdit", () => {
-		test("creates edit for single line document", () => {
-			const document = createMockTextDocument("SELECT 1;", 1);
-			const newText = "SELECT 2;";
-
-			const edit = createFullDocumentEdit(document, newText);
-
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.line, 0);
-			assert.strictEqual(edit.range.end.character, 9); // "SELECT 1;".length
-			assert.strictEqual(edit.newText, newText);
-		});
-
-		test("creates edit for multiline document", () => {
-			const text = "SELECT 1;\nSELECT 2;\nSELECT 3;";
-			const document = createMockTextDocument(text, 3);
-			const newText = "SELECT A;\nSELECT B;";
-
-			const edit = createFullDocumentEdit(document, newText);
-
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.line, 2);
-			assert.strictEqual(edit.range.end.character, 9); // "SELECT 3;".length
-			assert.strictEqual(edit.newText, newText);
+	suite("createMinimalEdits", () => {
+		function applyMinimalEdits(text: string, newText: string) {
+			const document = TextDocument.create("file:///test.sql", "sql", 1, text);
+			const edits = createMinimalEdits(document, text, newText);
+			return { edits, result: TextDocument.applyEdits(document, edits) };
+		}
+
+		test("returns no edits for unchanged text", () => {
+			assert.deepStrictEqual(
+				applyMinimalEdits("SELECT 1;", "SELECT 1;").edits,
+				[],
+			);
 		});
 
-		test("creates edit for empty document", () => {
-			const document = createMockTextDocument("", 1);
-			const newText = "SELECT 1;";
+		test("only touches changed lines", () => {
+			const text = "SELECT 1;\nselect a from t;\nSELECT 3;\n";
+			const newText = "SELECT 1;\nSELECT a FROM t;\nSELECT 3;\n";
+			const { edits, result } = applyMinimalEdits(text, newText);
 
-			const edit = createFullDocumentEdit(document, newText);
-
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.line, 0);
-			assert.strictEqual(edit.range.end.character, 0);
-			assert.strictEqual(edit.newText, newText);
-		});
-
-		test("creates edit with empty newText", () => {
-			const document = createMockTextDocument("SELECT 1;", 1);
-			const newText = "";
-
-			const edit = createFullDocumentEdit(document, newText);
-
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.character, 9);
-			assert.strictEqual(edit.newText, "");
+			assert.strictEqual(result, newText);
+			for (const edit of edits) {
+				assert.strictEqual(edit.range.start.line, 1);
+				assert.strictEqual(edit.range.end.line, 1);
+			}
 		});
 
-		test("handles document with trailing newline", () => {
-			const text = "SELECT 1;\n";
-			const document = createMockTextDocument(text, 2);
-			const newText = "SELECT 2;";
-
-			const edit = createFullDocumentEdit(document, newText);
+		test("reproduces CLI output normalized to CRLF", () => {
+			const text = "select a,\r\n  b\r\nfrom t;\r\n";
+			const cliOutput = "SELECT\n    a,\n    b\nFROM t;\n";
+			const newText = normalizeLineEndings(cliOutput, "CRLF");
+			const { result } = applyMinimalEdits(text, newText);
 
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.line, 1);
-			// Last line is empty after the newline
-			assert.strictEqual(edit.range.end.character, 0);
+			assert.strictEqual(result, "SELECT\r\n    a,\r\n    b\r\nFROM t;\r\n");
 		});
 
-		test("handles document with CRLF line endings", () => {
-			const text = "SELECT 1;\r\nSELECT 2;";
-			const lines = text.split("\n");
-			const document = {
-				uri: "file:///test.sql",
-				languageId: "sql",
-				version: 1,
-				getText: (range?: {
-					start: { line: number; character: number };
-					end: { line: number; character: number };
-				}) => {
-					if (!range) return text;
-					const line = lines[range.start.line];
-					return line ?? "";
-				},
-				lineCount: 2,
-				positionAt: (offset: number) => ({ line: 0, character: offset }),
-				offsetAt: (position: { line: number; character: number }) =>
-					position.character,
-			} as TextDocument;
+		test("applies edits relative to a base offset", () => {
+			const text = "SELECT 1;\nselect 2;\n";
+			const document = TextDocument.create("file:///test.sql", "sql", 1, text);
+			const edits = createMinimalEdits(document, "select 2;", "SELECT 2;", 10);
 
-			const newText = "SELECT A;\r\nSELECT B;";
-			const edit = createFullDocumentEdit(document, newText);
-
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.line, 1);
-			assert.strictEqual(edit.newText, newText);
+			assert.strictEqual(
+				TextDocument.applyEdits(document, edits),
+				"SELECT 1;\nSELECT 2;\n",
+			);
 		});
 
-		test("handles document with unicode characters", () => {
-			const text = "SELECT '日本語';";
-			const document = createMockTextDocument(text, 1);
-			const newText = "SELECT '한국어';";
-
-			const edit = createFullDocumentEdit(document, newText);
+		test("reproduces the new text for large documents", () => {
+			const text = "select a from t;\r\n".repeat(5000);
+			const newText = normalizeLineEndings(
+				"SELECT a FROM t;\n".repeat(5000),
+				"CRLF",
+			);
 
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.character, text.length);
-			assert.strictEqual(edit.newText, newText);
+			assert.strictEqual(applyMinimalEdits(text, newText).result, newText);
 		});
 	});
 });
@@ -0,0 +1,148 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	collectExtends,
+	formatEffectiveConfig,
+} from "../../server/config/effectiveConfig";
+import { rmWithRetry } from "../helpers/cleanup";
+
+suite("effectiveConfig", () => {
+	suite("collectExtends", () => {
+		let tempDir: string;
+
+		setup(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsqlrefine-test-"));
+		});
+
+		teardown(async () => {
+			await rmWithRetry(tempDir);
+		});
+
+		test("follows extends references depth first", async () => {
+			const configPath = path.join(tempDir, "tsqlrefine.json");
+			const basePath = path.join(tempDir, "base.jsonc");
+			await fs.writeFile(
+				configPath,
+				JSON.stringify({
+					extends: ["./base.jsonc", "recommended", "./missing.json"],
+				}),
+			);
+			await fs.writeFile(
+				basePath,
+				'{\n  // shared settings\n  "extends": "./tsqlrefine.json",\n}',
+			);
+
+			const entries = await collectExtends(configPath);
+
+			assert.deepStrictEqual(entries, [
+				{ reference: "./base.jsonc", depth: 1, path: basePath, status: "ok" },
+				{
+					reference: "./tsqlrefine.json",
+					depth: 2,
+					path: configPath,
+					status: "cycle",
+				},
+				{ reference: "recommended", depth: 1, status: "preset" },
+				{
+					reference: "./missing.json",
+					depth: 1,
+					path: path.join(tempDir, "missing.json"),
+					status: "missing",
+				},
+			]);
+		});
+
+		test("returns nothing for a config without extends", async () => {
+			const configPath = path.join(tempDir, "tsqlrefine.json");
+			await fs.writeFile(configPath, "{}");
+
+			assert.deepStrictEqual(await collectExtends(configPath), []);
+		});
+	});
+
+	suite("formatEffectiveConfig", () => {
+		test("describes a config file found by search", () => {
+			const text = formatEffectiveConfig(
+				"/ws/src/a.sql",
+				{
+					kind: "file",
+					path: "/ws/tsqlrefine.json",
+					startDir: "/ws/src",
+					stopDir: "/ws",
+					searchOrder: ["tsqlrefine.json", ".tsqlrefinerc"],
+				},
+				[
+					{
+						reference: "./base.json",
+						depth: 1,
+						path: "/ws/base.json",
+						status: "ok",
+					},
+					{
+						reference: "../shared.json",
+						depth: 2,
+						path: "/shared.json",
+						status: "missing",
+					},
+				],
+			);
+
+			assert.strictEqual(
+				text,
+				[
+					"File: /ws/src/a.sql",
+					"Config: /ws/tsqlrefine.json",
+					"Reason: nearest config file, searching from /ws/src up to /ws",
+					"Search order: tsqlrefine.json, .tsqlrefinerc",
+					"Extends:",
+					"  ./base.json -> /ws/base.json",
+					"    ../shared.json -> /shared.json (not found)",
+				].join("\n"),
+			);
+		});
+
+		test("describes the configPath setting", () => {
+			const text = formatEffectiveConfig(
+				"/ws/a.sql",
+				{
+					kind: "setting",
+					path: "/ws/cfg/lint.json",
+					configuredValue: "cfg/lint.json",
+				},
+				[],
+			);
+
+			assert.ok(
+				text.includes(
+					'Reason: set by the tsqlrefine.configPath setting ("cfg/lint.json")',
+				),
+			);
+			assert.ok(text.endsWith("Extends: (nothing)"));
+		});
+
+		test("describes a file without config", () => {
+			const text = formatEffectiveConfig(
+				"",
+				{
+					kind: "none",
+					startDir: null,
+					stopDir: null,
+					searchOrder: ["tsqlrefine.json"],
+				},
+				[],
+			);
+
+			assert.strictEqual(
+				text,
+				[
+					"File: (untitled)",
+					"Config: none (tsqlrefine built-in defaults)",
+					"Reason: the file is not saved in a folder, so no config file is searched",
+					"Search order: tsqlrefine.json",
+				].join("\n"),
+			);
+		});
+	});
+});
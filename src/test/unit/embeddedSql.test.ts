@@ -0,0 +1,201 @@
+import * as assert from "node:assert";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { DEFAULT_EMBEDDED_SQL_MARKERS } from "../../server/config/constants";
+import {
+	compileMarkers,
+	createEmbeddedSqlDocument,
+	findEmbeddedSqlRegions,
+	isEmbeddedSqlLanguage,
+	mapEmbeddedDiagnostics,
+} from "../../server/embedded/embeddedSql";
+
+const markers = compileMarkers(DEFAULT_EMBEDDED_SQL_MARKERS);
+
+function sqlOf(text: string, languageId: string): string[] {
+	return findEmbeddedSqlRegions(text, languageId, markers).map(
+		(region) => region.text,
+	);
+}
+
+suite("embeddedSql", () => {
+	suite("isEmbeddedSqlLanguage", () => {
+		test("accepts host languages only", () => {
+			assert.strictEqual(isEmbeddedSqlLanguage("csharp"), true);
+			assert.strictEqual(isEmbeddedSqlLanguage("powershell"), true);
+			assert.strictEqual(isEmbeddedSqlLanguage("python"), true);
+			assert.strictEqual(isEmbeddedSqlLanguage("sql"), false);
+		});
+	});
+
+	suite("compileMarkers", () => {
+		test("skips invalid patterns", () => {
+			const compiled = compileMarkers(["(", "tsql"]);
+			assert.deepStrictEqual(
+				compiled.map((marker) => marker.source),
+				["tsql"],
+			);
+			assert.strictEqual(compiled[0]?.flags, "i");
+		});
+	});
+
+	suite("C#", () => {
+		test("finds marked verbatim, regular and raw literals", () => {
+			const text = [
+				'var a = /* tsql */ @"SELECT ""x"" FROM t";',
+				"// tsql",
+				'var b = "SELECT 1\\nGO";',
+				'var c = /* tsql */ """',
+				"    SELECT 2",
+				'    """;',
+			].join("\n");
+
+			assert.deepStrictEqual(sqlOf(text, "csharp"), [
+				'SELECT "x" FROM t',
+				"SELECT 1\nGO",
+				"    SELECT 2",
+			]);
+		});
+
+		test("ignores unmarked, interpolated and commented-out literals", () => {
+			const text = [
+				'var a = @"SELECT 1";',
+				'var b = /* tsql */ $@"SELECT {id}";',
+				'// tsql "SELECT 2"',
+				"var c = 'x';",
+				'var d = "SELECT 3";',
+			].join("\n");
+
+			assert.deepStrictEqual(sqlOf(text, "csharp"), []);
+		});
+
+		test("only the literal after a marker on the same line is SQL", () => {
+			const text = 'Run(/* tsql */ @"SELECT 1", @"not sql");';
+
+			assert.deepStrictEqual(sqlOf(text, "csharp"), ["SELECT 1"]);
+		});
+
+		test("marks literals that can be rewritten in place", () => {
+			const text = [
+				'var a = /* tsql */ @"SELECT 1";',
+				'var b = /* tsql */ @"SELECT ""x""";',
+				'var c = /* tsql */ "SELECT 2";',
+			].join("\n");
+
+			assert.deepStrictEqual(
+				findEmbeddedSqlRegions(text, "csharp", markers).map(
+					(region) => region.terminator,
+				),
+				['"', null, null],
+			);
+		});
+	});
+
+	suite("PowerShell", () => {
+		test("finds marked here-strings and single-quoted strings", () => {
+			const text = [
+				"# tsql",
+				'$query = @"',
+				"SELECT *",
+				"FROM t",
+				'"@',
+				"Invoke-Sqlcmd -Query <# tsql #> 'SELECT ''a'''",
+			].join("\r\n");
+
+			assert.deepStrictEqual(sqlOf(text, "powershell"), [
+				"SELECT *\r\nFROM t",
+				"SELECT 'a'",
+			]);
+		});
+
+		test("ignores double-quoted strings that expand variables", () => {
+			const text = [
+				"# tsql",
+				'$a = "SELECT * FROM $table"',
+				"# tsql",
+				'$b = "SELECT $(Get-Id)"',
+				"# tsql",
+				'$c = "SELECT `$1"',
+				"# tsql",
+				'$d = @"',
+				"SELECT $column",
+				'"@',
+			].join("\n");
+
+			assert.deepStrictEqual(sqlOf(text, "powershell"), ["SELECT `$1"]);
+		});
+
+		test("supports custom markers such as Invoke-Sqlcmd", () => {
+			const text = "Invoke-Sqlcmd -ServerInstance . -Query 'SELECT 1'";
+
+			assert.deepStrictEqual(
+				findEmbeddedSqlRegions(
+					text,
+					"powershell",
+					compileMarkers(["invoke-sqlcmd\\b.*-query\\s*$"]),
+				).map((region) => region.text),
+				["SELECT 1"],
+			);
+		});
+	});
+
+	suite("Python", () => {
+		test("finds marked triple-quoted and raw strings", () => {
+			const text = [
+				"# tsql",
+				'QUERY = """SELECT 1',
+				'FROM t"""',
+				"other = r'SELECT \\n'  # tsql",
+				"# tsql",
+				"raw = r'SELECT \\n'",
+				"# tsql",
+				"skipped = f'SELECT {x}'",
+			].join("\n");
+
+			assert.deepStrictEqual(sqlOf(text, "python"), [
+				"SELECT 1\nFROM t",
+				"SELECT \\n",
+			]);
+		});
+	});
+
+	suite("mapEmbeddedDiagnostics", () => {
+		test("maps script positions through escapes to the host file", () => {
+			const text = [
+				'var a = /* tsql */ @"SELECT ""x"" FROM t";',
+				'var b = /* tsql */ @"SELECT 2";',
+			].join("\n");
+			const host = TextDocument.create("file:///a.cs", "csharp", 1, text);
+			const embedded = createEmbeddedSqlDocument(
+				findEmbeddedSqlRegions(text, "csharp", markers),
+			);
+			const diagnostic = (line: number, start: number, end: number) => ({
+				range: {
+					start: { line, character: start },
+					end: { line, character: end },
+				},
+				message: "m",
+				severity: DiagnosticSeverity.Warning,
+			});
+
+			assert.strictEqual(embedded.text, 'SELECT "x" FROM t\nGO\nSELECT 2');
+			assert.deepStrictEqual(
+				mapEmbeddedDiagnostics(embedded, host, [
+					diagnostic(0, 11, 15),
+					diagnostic(1, 0, 2),
+					diagnostic(2, 7, 8),
+				]).map((mapped) => mapped.range),
+				[
+					{
+						start: { line: 0, character: 34 },
+						end: { line: 0, character: 38 },
+					},
+					{
+						start: { line: 1, character: 28 },
+						end: { line: 1, character: 29 },
+					},
+				],
+			);
+		});
+	});
+});
@@ -0,0 +1,80 @@
+import * as assert from "node:assert";
+import { CodeActionKind, type Diagnostic } from "vscode-languageserver/node";
+import { createFixCodeActions } from "../../server/fix/fixActions";
+
+const uri = "file:///test.sql";
+
+function createDiagnostic(
+	line: number,
+	data: { fixable: boolean; ruleId?: string },
+): Diagnostic {
+	return {
+		message: "message",
+		range: {
+			start: { line, character: 0 },
+			end: { line, character: 6 },
+		},
+		source: "tsqlrefine",
+		data,
+	};
+}
+
+suite("fixActions", () => {
+	test("returns no actions when nothing is fixable", () => {
+		const actions = createFixCodeActions(uri, [
+			createDiagnostic(0, { fixable: false, ruleId: "rule-a" }),
+		]);
+
+		assert.deepStrictEqual(actions, []);
+	});
+
+	test("creates a fix per diagnostic, per rule, and for the document", () => {
+		const first = createDiagnostic(0, { fixable: true, ruleId: "rule-a" });
+		const second = createDiagnostic(2, { fixable: true, ruleId: "rule-a" });
+
+		const actions = createFixCodeActions(uri, [first, second]);
+
+		assert.deepStrictEqual(
+			actions.map((action) => action.title),
+			[
+				"Fix rule-a",
+				"Fix rule-a",
+				"Fix all occurrences of rule-a in this file",
+				"Fix all tsqlrefine issues",
+			],
+		);
+		assert.ok(
+			actions.every((action) => action.kind === CodeActionKind.QuickFix),
+		);
+		assert.deepStrictEqual(actions[0]?.command?.arguments, [
+			uri,
+			"rule-a",
+			first.range,
+		]);
+		assert.deepStrictEqual(actions[2]?.command?.arguments, [uri, "rule-a"]);
+		assert.deepStrictEqual(actions[2]?.diagnostics, [first, second]);
+		assert.strictEqual(actions[3]?.command?.command, "tsqlrefine.fix");
+	});
+
+	test("falls back to the document fix when diagnostics lack a rule ID", () => {
+		const actions = createFixCodeActions(uri, [
+			createDiagnostic(0, { fixable: true }),
+		]);
+
+		assert.deepStrictEqual(
+			actions.map((action) => action.title),
+			["Fix all tsqlrefine issues"],
+		);
+	});
+
+	test("ignores diagnostics from other sources", () => {
+		const actions = createFixCodeActions(uri, [
+			{
+				...createDiagnostic(0, { fixable: true, ruleId: "rule-a" }),
+				source: "other",
+			},
+		]);
+
+		assert.deepStrictEqual(actions, []);
+	});
+});
@@ -1,6 +1,5 @@
 import * as assert from "node:assert";
 import type { Connection, TextEdit } from "vscode-languageserver/node";
-import type { TextDocument } from "vscode-languageserver-textdocument";
 import type { TsqlRefineSettings } from "../../server/config/settings";
 import type { DocumentContext } from "../../server/shared/documentContext";
 import { DocumentStateManager } from "../../server/state/documentStateManager";
@@ -50,39 +49,6 @@ function createMockDocumentContext(
 	};
 }
 
-/**
- * Creates a mock TextDocument for testing.
- */
-function createMockTextDocument(
-	overrides: Partial<{
-		uri: string;
-		text: string;
-		lineCount: number;
-	}> = {},
-): TextDocument {
-	const text = overrides.text ?? "SELECT 1;";
-	const lineCount = overrides.lineCount ?? 1;
-
-	return {
-		uri: overrides.uri ?? "file:///test.sql",
-		languageId: "sql",
-		version: 1,
-		getText: (range?: { start: { line: number }; end: { line: number } }) => {
-			if (!range) return text;
-			// For getting the last line
-			const lines = text.split("\n");
-			if (range.start.line === lineCount - 1) {
-				return lines[range.start.line] ?? "";
-			}
-			return text;
-		},
-		lineCount,
-		positionAt: (offset: number) => ({ line: 0, character: offset }),
-		offsetAt: (position: { line: number; character: number }) =>
-			position.character,
-	} as TextDocument;
-}
-
 /**
  * Interface for tracking mock connection calls.
  */
@@ -228,60 +194,6 @@ suite("fixOperations", () => {
 		});
 	});
 
-	suite("TextEdit creation", () => {
-		test("createFullDocumentEdit creates correct range for single line", () => {
-			const document = createMockTextDocument({
-				text: "SELECT 1;",
-				lineCount: 1,
-			});
-
-			// Simulate what createFullDocumentEdit does
-			const lastLineIndex = document.lineCount - 1;
-			const lastLine = document.getText({
-				start: { line: lastLineIndex, character: 0 },
-				end: { line: lastLineIndex, character: Number.MAX_SAFE_INTEGER },
-			});
-
-			const edit: TextEdit = {
-				range: {
-					start: { line: 0, character: 0 },
-					end: { line: lastLineIndex, character: lastLine.length },
-				},
-				newText: "SELECT 1;",
-			};
-
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.line, 0);
-			assert.strictEqual(edit.range.end.character, 9); // "SELECT 1;".length
-		});
-
-		test("createFullDocumentEdit creates correct range for multiline", () => {
-			const text = "SELECT 1;\nSELECT 2;";
-			const document = createMockTextDocument({
-				text,
-				lineCount: 2,
-			});
-
-			const lastLineIndex = document.lineCount - 1;
-			const lastLine = document.getText({
-				start: { line: lastLineIndex, character: 0 },
-				end: { line: lastLineIndex, character: Number.MAX_SAFE_INTEGER },
-			});
-
-			const edit: TextEdit = {
-				range: {
-					start: { line: 0, character: 0 },
-					end: { line: lastLineIndex, character: lastLine.length },
-				},
-				newText: text,
-			};
-
-			assert.deepStrictEqual(edit.range.start, { line: 0, character: 0 });
-			assert.strictEqual(edit.range.end.line, 1);
-			assert.strictEqual(edit.range.end.character, 9); // "SELECT 2;".length
-		});
-	});
-
 	suite("DocumentContext creation", () => {
 		test("mock context has all required properties", () => {
 			const context = createMockDocumentContext();
@@ -1,6 +1,7 @@
 import * as assert from "node:assert";
 import type { Connection } from "vscode-languageserver/node";
 import type { TsqlRefineSettings } from "../../server/config/settings";
+import { findOnTypeFormatSpan } from "../../server/format/formatOperations";
 import type { DocumentContext } from "../../server/shared/documentContext";
 import { DocumentStateManager } from "../../server/state/documentStateManager";
 
@@ -277,4 +278,36 @@ suite("formatOperations", () => {
 			assert.strictEqual(hasChanges, false);
 		});
 	});
+
+	suite("findOnTypeFormatSpan", () => {
+		test("returns the statement completed by a semicolon", () => {
+			const text = "SELECT 1;\nselect   2;";
+			const span = findOnTypeFormatSpan(text, text.length, ";");
+
+			assert.deepStrictEqual(span, { start: 10, end: text.length });
+		});
+
+		test("ignores a semicolon inside an unfinished block", () => {
+			const text = "BEGIN\n  SELECT 1;";
+
+			assert.strictEqual(findOnTypeFormatSpan(text, text.length, ";"), null);
+		});
+
+		test("returns the batch closed by a GO line", () => {
+			const text = "SELECT 0\nGO\nselect 1;\nselect 2\nGO\n";
+			const span = findOnTypeFormatSpan(text, text.length, "\n");
+
+			assert.ok(span);
+			assert.strictEqual(
+				text.slice(span.start, span.end),
+				"select 1;\nselect 2",
+			);
+		});
+
+		test("ignores line breaks after other lines", () => {
+			const text = "SELECT 1;\n";
+
+			assert.strictEqual(findOnTypeFormatSpan(text, text.length, "\n"), null);
+		});
+	});
 });
@@ -0,0 +1,154 @@
+import * as assert from "node:assert";
+import * as path from "node:path";
+import {
+	computeChangedLines,
+	GitChangeTracker,
+	type GitRunner,
+} from "../../server/shared/gitChanges";
+
+suite("gitChanges", () => {
+	suite("computeChangedLines", () => {
+		test("returns no lines for identical texts", () => {
+			assert.deepStrictEqual(
+				[...computeChangedLines("SELECT 1;\n", "SELECT 1;\n")],
+				[],
+			);
+		});
+
+		test("returns edited and inserted lines in the new text", () => {
+			const base = "SELECT 1;\nSELECT 2;\nSELECT 3;\n";
+			const text = "SELECT 1;\nSELECT 20;\nSELECT 3;\nSELECT 4;\n";
+
+			assert.deepStrictEqual([...computeChangedLines(base, text)], [1, 3]);
+		});
+
+		test("shifts lines after insertions and marks the line after a deletion", () => {
+			const base = "A\nB\nC\nD\nE\n";
+			const text = "X\nA\nB\nD\nE\n";
+
+			assert.deepStrictEqual([...computeChangedLines(base, text)], [0, 3]);
+		});
+
+		test("ignores line endings and a BOM", () => {
+			assert.deepStrictEqual(
+				[...computeChangedLines("\uFEFFA\r\nB\r\n", "A\nB\n")],
+				[],
+			);
+		});
+	});
+
+	suite("GitChangeTracker", () => {
+		const filePath = path.resolve("repo", "sql", "query.sql");
+
+		function createRunner(responses: Record<string, string | null>): {
+			runGit: GitRunner;
+			calls: string[];
+		} {
+			const calls: string[] = [];
+			const runGit: GitRunner = async (args) => {
+				const key = args.join(" ");
+				calls.push(key);
+				return responses[key] ?? null;
+			};
+			return { runGit, calls };
+		}
+
+		test("returns null outside a Git work tree", async () => {
+			const { runGit } = createRunner({});
+			const tracker = new GitChangeTracker(runGit);
+
+			assert.strictEqual(
+				await tracker.getChangedLines(filePath, "SELECT 1;"),
+				null,
+			);
+		});
+
+		test("compares with the merge-base of the remote default branch", async () => {
+			const { runGit, calls } = createRunner({
+				"rev-parse --is-inside-work-tree": "true\n",
+				"symbolic-ref --quiet --short refs/remotes/origin/HEAD":
+					"origin/main\n",
+				"merge-base HEAD origin/main": "abc123\n",
+				"show abc123:./query.sql": "SELECT 1;\nSELECT 2;\n",
+			});
+			const tracker = new GitChangeTracker(runGit);
+
+			const changed = await tracker.getChangedLines(
+				filePath,
+				"SELECT 1;\nSELECT 3;\n",
+			);
+
+			assert.deepStrictEqual(changed, new Set([1]));
+			assert.ok(!calls.includes("rev-parse --verify --quiet HEAD"));
+		});
+
+		test("uses the configured base and falls back to HEAD", async () => {
+			const { runGit, calls } = createRunner({
+				"rev-parse --is-inside-work-tree": "true\n",
+				"rev-parse --verify --quiet HEAD": "def456\n",
+				"show def456:./query.sql": "SELECT 1;\n",
+			});
+			const tracker = new GitChangeTracker(runGit);
+
+			const changed = await tracker.getChangedLines(
+				filePath,
+				"SELECT 1;\n",
+				"develop",
+			);
+
+			assert.deepStrictEqual(changed, new Set());
+			assert.ok(calls.includes("merge-base HEAD develop"));
+			assert.ok(
+				!calls.includes(
+					"symbolic-ref --quiet --short refs/remotes/origin/HEAD",
+				),
+			);
+		});
+
+		test("does not pass a configured base that looks like an option", async () => {
+			const { runGit, calls } = createRunner({
+				"rev-parse --is-inside-work-tree": "true\n",
+				"rev-parse --verify --quiet HEAD": "def456\n",
+				"show def456:./query.sql": "SELECT 1;\n",
+			});
+			const tracker = new GitChangeTracker(runGit);
+
+			await tracker.getChangedLines(
+				filePath,
+				"SELECT 1;\n",
+				"--output=/tmp/owned",
+			);
+
+			assert.ok(calls.every((call) => !call.includes("--output")));
+			assert.ok(calls.includes("rev-parse --verify --quiet HEAD"));
+		});
+
+		test("treats files missing at the base as entirely changed", async () => {
+			const { runGit } = createRunner({
+				"rev-parse --is-inside-work-tree": "true\n",
+				"rev-parse --verify --quiet HEAD": "def456\n",
+			});
+			const tracker = new GitChangeTracker(runGit);
+
+			assert.strictEqual(
+				await tracker.getChangedLines(filePath, "SELECT 1;"),
+				"all",
+			);
+		});
+
+		test("caches the base commit and file version", async () => {
+			const { runGit, calls } = createRunner({
+				"rev-parse --is-inside-work-tree": "true\n",
+				"rev-parse --verify --quiet HEAD": "def456\n",
+				"show def456:./query.sql": "SELECT 1;\n",
+			});
+			const tracker = new GitChangeTracker(runGit);
+
+			await tracker.getChangedLines(filePath, "SELECT 1;\n");
+			const count = calls.length;
+			await tracker.getChangedLines(filePath, "SELECT 2;\n");
+
+			assert.strictEqual(calls.length, count);
+		});
+	});
+});
@@ -0,0 +1,100 @@
+import * as assert from "node:assert";
+import {
+	type Diagnostic,
+	DiagnosticSeverity,
+	type MarkupContent,
+} from "vscode-languageserver/node";
+import { createDiagnosticHover } from "../../server/lint/hover";
+
+function createDiagnostic(overrides: Partial<Diagnostic> = {}): Diagnostic {
+	return {
+		range: {
+			start: { line: 1, character: 4 },
+			end: { line: 1, character: 10 },
+		},
+		severity: DiagnosticSeverity.Warning,
+		source: "tsqlrefine",
+		code: "avoid-select-star",
+		message: "Avoid SELECT *",
+		data: {
+			fixable: true,
+			ruleId: "avoid-select-star",
+			category: "Performance",
+			codeDescriptionHref: "https://example.com/rules/avoid-select-star",
+		},
+		...overrides,
+	};
+}
+
+function hoverText(
+	diagnostics: Diagnostic[],
+	line: number,
+	character: number,
+): string | null {
+	const hover = createDiagnosticHover(diagnostics, { line, character });
+	return hover ? (hover.contents as MarkupContent).value : null;
+}
+
+suite("createDiagnosticHover", () => {
+	test("shows rule metadata and a documentation link", () => {
+		const text = hoverText([createDiagnostic()], 1, 6);
+
+		assert.ok(text);
+		assert.ok(text.includes("`avoid-select-star`"));
+		assert.ok(text.includes("Avoid SELECT \\*"));
+		assert.ok(text.includes("Category: Performance"));
+		assert.ok(text.includes("Severity: Warning"));
+		assert.ok(text.includes("Fixable: Yes"));
+		assert.ok(
+			text.includes(
+				"[Documentation](https://example.com/rules/avoid-select-star)",
+			),
+		);
+	});
+
+	test("renders the rule description as markdown", () => {
+		const text = hoverText(
+			[
+				createDiagnostic({
+					data: {
+						fixable: false,
+						ruleId: "avoid-select-star",
+						description: "List the **columns** explicitly.",
+					},
+				}),
+			],
+			1,
+			4,
+		);
+
+		assert.ok(text?.includes("List the **columns** explicitly."));
+		assert.ok(text?.includes("Fixable: No"));
+	});
+
+	test("combines every diagnostic at the position", () => {
+		const text = hoverText(
+			[
+				createDiagnostic(),
+				createDiagnostic({
+					code: "keyword-casing",
+					message: "Use uppercase",
+					data: { fixable: true, ruleId: "keyword-casing" },
+				}),
+			],
+			1,
+			10,
+		);
+
+		assert.ok(text?.includes("`avoid-select-star`"));
+		assert.ok(text?.includes("`keyword-casing`"));
+	});
+
+	test("returns null outside diagnostics and for other sources", () => {
+		assert.strictEqual(hoverText([createDiagnostic()], 1, 11), null);
+		assert.strictEqual(hoverText([createDiagnostic()], 0, 6), null);
+		assert.strictEqual(
+			hoverText([createDiagnostic({ source: "other" })], 1, 6),
+			null,
+		);
+	});
+});
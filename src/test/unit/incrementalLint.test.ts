@@ -0,0 +1,114 @@
+import * as assert from "node:assert";
+import type { Diagnostic } from "vscode-languageserver/node";
+import {
+	createBatchSnapshot,
+	planIncrementalLint,
+	shiftDiagnostic,
+	splitSegments,
+} from "../../server/lint/incrementalLint";
+
+function diagnostic(line: number): Diagnostic {
+	return {
+		message: `line ${line}`,
+		range: {
+			start: { line, character: 0 },
+			end: { line, character: 4 },
+		},
+	};
+}
+
+const startLines = (diagnostics: readonly Diagnostic[]) =>
+	diagnostics.map((item) => item.range.start.line);
+
+suite("incrementalLint", () => {
+	suite("splitSegments", () => {
+		test("keeps each GO line with the batch it closes", () => {
+			assert.deepStrictEqual(
+				splitSegments("SELECT 1;\r\ngo 2 -- twice\r\nSELECT 2;\nGO\nSELECT 3;"),
+				[
+					{ text: "SELECT 1;\r\ngo 2 -- twice\r\n", startLine: 0 },
+					{ text: "SELECT 2;\nGO\n", startLine: 2 },
+					{ text: "SELECT 3;", startLine: 4 },
+				],
+			);
+		});
+
+		test("returns one empty segment for an empty script", () => {
+			assert.deepStrictEqual(splitSegments(""), [{ text: "", startLine: 0 }]);
+		});
+
+		test("does not add an empty segment after a final GO line", () => {
+			assert.deepStrictEqual(splitSegments("SELECT 1;\nGO\n"), [
+				{ text: "SELECT 1;\nGO\n", startLine: 0 },
+			]);
+		});
+	});
+
+	suite("createBatchSnapshot", () => {
+		test("stores diagnostics relative to their segment", () => {
+			const segments = splitSegments("A\nGO\nB\nC\nGO\nD");
+
+			const snapshot = createBatchSnapshot("key", segments, [
+				diagnostic(0),
+				diagnostic(3),
+				diagnostic(5),
+				diagnostic(9),
+			]);
+
+			assert.deepStrictEqual(
+				snapshot.segments.map((segment) => startLines(segment.diagnostics)),
+				[[0], [1], [0, 4]],
+			);
+		});
+	});
+
+	suite("planIncrementalLint", () => {
+		const snapshot = createBatchSnapshot(
+			"key",
+			splitSegments("A\nGO\nB\nGO\nC\n"),
+			[diagnostic(0), diagnostic(2), diagnostic(4)],
+		);
+
+		test("re-lints the changed segments and shifts the cached ones", () => {
+			const plan = planIncrementalLint(
+				snapshot,
+				splitSegments("A\nGO\nB\nB2\nGO\nC\n"),
+			);
+
+			assert.strictEqual(plan?.start, 1);
+			assert.strictEqual(plan?.end, 2);
+			assert.strictEqual(plan?.startLine, 2);
+			assert.strictEqual(plan?.text, "B\nB2\nGO\n");
+			assert.deepStrictEqual(startLines(plan?.reused ?? []), [0, 5]);
+		});
+
+		test("has nothing to lint when a segment was only removed", () => {
+			const plan = planIncrementalLint(snapshot, splitSegments("A\nGO\nC\n"));
+
+			assert.strictEqual(plan?.text, "");
+			assert.deepStrictEqual(startLines(plan?.reused ?? []), [0, 2]);
+		});
+
+		test("returns null when no segment is unchanged", () => {
+			assert.strictEqual(
+				planIncrementalLint(snapshot, splitSegments("X\nGO\nY\n")),
+				null,
+			);
+		});
+	});
+
+	test("shiftDiagnostic moves both ends of the range", () => {
+		const shifted = shiftDiagnostic(
+			{
+				...diagnostic(1),
+				range: { ...diagnostic(1).range, end: { line: 3, character: 2 } },
+			},
+			4,
+		);
+
+		assert.deepStrictEqual(shifted.range, {
+			start: { line: 5, character: 0 },
+			end: { line: 7, character: 2 },
+		});
+	});
+});
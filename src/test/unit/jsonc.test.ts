@@ -0,0 +1,42 @@
+import * as assert from "node:assert";
+import { parseJsonc } from "../../server/config/jsonc";
+
+suite("parseJsonc", () => {
+	test("parses plain JSON", () => {
+		assert.deepStrictEqual(parseJsonc('{"a": [1, 2]}'), { a: [1, 2] });
+	});
+
+	test("ignores line and block comments", () => {
+		const text = `{
+	// line comment
+	"a": 1, /* block
+	comment */ "b": 2
+}`;
+
+		assert.deepStrictEqual(parseJsonc(text), { a: 1, b: 2 });
+	});
+
+	test("keeps comment markers and commas inside strings", () => {
+		assert.deepStrictEqual(
+			parseJsonc(
+				'{"url": "https://example.com/*x*/", "s": "a,}", "q": "\\"//"}',
+			),
+			{ url: "https://example.com/*x*/", s: "a,}", q: '"//' },
+		);
+	});
+
+	test("allows trailing commas", () => {
+		assert.deepStrictEqual(parseJsonc('{"a": [1, 2,], "b": 3, // end\n}'), {
+			a: [1, 2],
+			b: 3,
+		});
+	});
+
+	test("ignores a byte order mark", () => {
+		assert.deepStrictEqual(parseJsonc('\uFEFF{"a": 1}'), { a: 1 });
+	});
+
+	test("throws for invalid JSON", () => {
+		assert.throws(() => parseJsonc("{ broken"), SyntaxError);
+	});
+});
@@ -0,0 +1,146 @@
+import * as assert from "node:assert";
+import type { Diagnostic } from "vscode-languageserver/node";
+import { defaultSettings } from "../../server/config/settings";
+import {
+	computeLintCacheKey,
+	type LintCacheKeyParts,
+	LintResultCache,
+	parseLintCache,
+	serializeLintCache,
+} from "../../server/lint/lintCache";
+
+function diagnostic(message: string): Diagnostic {
+	return {
+		range: {
+			start: { line: 0, character: 0 },
+			end: { line: 0, character: 1 },
+		},
+		message,
+	};
+}
+
+suite("lintCache", () => {
+	suite("computeLintCacheKey", () => {
+		const parts: LintCacheKeyParts = {
+			text: "SELECT 1;",
+			cwd: "/workspace",
+			configPath: "/workspace/tsqlrefine.json",
+			configHash: "config",
+			executable: "/bin/tsqlrefine|100|1",
+			toolVersion: "1.0.0",
+			settings: { ...defaultSettings },
+		};
+
+		test("is stable for the same inputs", () => {
+			assert.strictEqual(
+				computeLintCacheKey(parts),
+				computeLintCacheKey({ ...parts, settings: { ...defaultSettings } }),
+			);
+		});
+
+		test("changes with the text, config, executable and version", () => {
+			const key = computeLintCacheKey(parts);
+			for (const changed of [
+				{ text: "SELECT 2;" },
+				{ configHash: "other" },
+				{ configPath: undefined },
+				{ executable: "/bin/tsqlrefine|100|2" },
+				{ toolVersion: "1.0.1" },
+			]) {
+				assert.notStrictEqual(
+					computeLintCacheKey({ ...parts, ...changed }),
+					key,
+					JSON.stringify(changed),
+				);
+			}
+		});
+
+		test("changes only with settings that shape the diagnostics", () => {
+			const key = computeLintCacheKey(parts);
+			const withSettings = (settings: Partial<typeof defaultSettings>) =>
+				computeLintCacheKey({
+					...parts,
+					settings: { ...defaultSettings, ...settings },
+				});
+
+			assert.notStrictEqual(withSettings({ minSeverity: "error" }), key);
+			assert.notStrictEqual(withSettings({ allowPlugins: true }), key);
+			assert.notStrictEqual(
+				withSettings({ ruleOverrides: { "avoid-*": "off" } }),
+				key,
+			);
+			assert.notStrictEqual(
+				withSettings({ diagnosticTags: { Style: "unnecessary" } }),
+				key,
+			);
+			assert.strictEqual(withSettings({ debounceMs: 100 }), key);
+			assert.strictEqual(withSettings({ runOnType: true }), key);
+		});
+	});
+
+	suite("LintResultCache", () => {
+		test("drops the least recently used entry", () => {
+			const cache = new LintResultCache(2);
+			cache.set("a", { diagnostics: [diagnostic("a")] });
+			cache.set("b", { diagnostics: [diagnostic("b")] });
+			cache.get("a");
+			cache.set("c", { diagnostics: [diagnostic("c")] });
+
+			assert.strictEqual(cache.size, 2);
+			assert.strictEqual(cache.get("b"), undefined);
+			assert.deepStrictEqual(
+				cache.toEntries().map(([key]) => key),
+				["a", "c"],
+			);
+		});
+
+		test("replaces an entry set again", () => {
+			const cache = new LintResultCache(2);
+			cache.set("a", { diagnostics: [] });
+			cache.set("a", { diagnostics: [diagnostic("new")] });
+
+			assert.strictEqual(cache.size, 1);
+			assert.strictEqual(cache.get("a")?.diagnostics[0]?.message, "new");
+		});
+	});
+
+	suite("persistence", () => {
+		test("round-trips entries and tool versions", () => {
+			const persisted = {
+				toolVersions: { "/bin/tsqlrefine|100|1": "1.0.0" },
+				entries: [
+					["key", { diagnostics: [diagnostic("a")] }] as [
+						string,
+						{ diagnostics: Diagnostic[] },
+					],
+				],
+			};
+
+			assert.deepStrictEqual(
+				parseLintCache(serializeLintCache(persisted)),
+				persisted,
+			);
+		});
+
+		test("rejects other files and skips malformed entries", () => {
+			assert.strictEqual(parseLintCache("not json"), null);
+			assert.strictEqual(
+				parseLintCache(JSON.stringify({ version: 99, toolVersions: {} })),
+				null,
+			);
+			assert.deepStrictEqual(
+				parseLintCache(
+					JSON.stringify({
+						version: 1,
+						toolVersions: { a: "1.0.0", b: 2 },
+						entries: [["ok", { diagnostics: [] }], ["bad", {}], "bad"],
+					}),
+				),
+				{
+					toolVersions: { a: "1.0.0" },
+					entries: [["ok", { diagnostics: [] }]],
+				},
+			);
+		});
+	});
+});
@@ -0,0 +1,153 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Diagnostic } from "vscode-languageserver/node";
+import { defaultSettings } from "../../server/config/settings";
+import type { DocumentContext } from "../../server/shared/documentContext";
+import { LintCacheStore } from "../../server/state/lintCacheStore";
+import { rmWithRetry } from "../helpers/cleanup";
+
+const logger = { debug: () => {} };
+
+const DIAGNOSTICS: Diagnostic[] = [
+	{
+		range: {
+			start: { line: 0, character: 0 },
+			end: { line: 0, character: 8 },
+		},
+		message: "avoid select *",
+	},
+];
+
+suite("LintCacheStore", () => {
+	let tempDir: string;
+	let executablePath: string;
+	let configPath: string;
+
+	setup(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsqlrefine-test-"));
+		executablePath = path.join(tempDir, "tsqlrefine");
+		configPath = path.join(tempDir, "tsqlrefine.json");
+		await fs.writeFile(executablePath, "v1");
+		await fs.writeFile(configPath, JSON.stringify({ extends: "./base.json" }));
+		await fs.writeFile(path.join(tempDir, "base.json"), "{}");
+	});
+
+	teardown(async () => {
+		await rmWithRetry(tempDir);
+	});
+
+	function createContext(text = "SELECT * FROM t;"): DocumentContext {
+		return {
+			uri: "file:///test.sql",
+			filePath: path.join(tempDir, "test.sql"),
+			workspaceRoot: tempDir,
+			cwd: tempDir,
+			effectiveSettings: { ...defaultSettings, path: executablePath },
+			effectiveConfigPath: configPath,
+			documentText: text,
+			isSavedFile: true,
+		};
+	}
+
+	async function storeResults(store: LintCacheStore): Promise<void> {
+		const lookup = await store.lookup(createContext());
+		lookup?.store(DIAGNOSTICS, "1.0.0");
+	}
+
+	test("returns stored results for the same text", async () => {
+		const store = new LintCacheStore(logger);
+		assert.strictEqual(
+			(await store.lookup(createContext()))?.diagnostics,
+			null,
+		);
+
+		await storeResults(store);
+
+		assert.deepStrictEqual(
+			(await store.lookup(createContext()))?.diagnostics,
+			DIAGNOSTICS,
+		);
+		assert.strictEqual(
+			(await store.lookup(createContext("SELECT 1;")))?.diagnostics,
+			null,
+		);
+	});
+
+	test("misses after the config or a file it extends changes", async () => {
+		const store = new LintCacheStore(logger);
+		await storeResults(store);
+
+		await fs.writeFile(path.join(tempDir, "base.json"), '{"rules":{}}');
+		store.invalidate();
+
+		assert.strictEqual(
+			(await store.lookup(createContext()))?.diagnostics,
+			null,
+		);
+	});
+
+	test("misses after the executable changes", async () => {
+		const store = new LintCacheStore(logger);
+		await storeResults(store);
+
+		await fs.writeFile(executablePath, "v2 build");
+		store.invalidate();
+
+		assert.strictEqual(
+			(await store.lookup(createContext()))?.diagnostics,
+			null,
+		);
+	});
+
+	test("reads the config and executable once until invalidated", async () => {
+		const store = new LintCacheStore(logger);
+		await storeResults(store);
+
+		await fs.rm(configPath);
+		await fs.rm(executablePath);
+
+		assert.deepStrictEqual(
+			(await store.lookup(createContext()))?.diagnostics,
+			DIAGNOSTICS,
+		);
+		store.invalidate();
+		assert.strictEqual(await store.lookup(createContext()), null);
+	});
+
+	test("does not cache when the executable is missing", async () => {
+		const store = new LintCacheStore(logger);
+		await fs.rm(executablePath);
+
+		assert.strictEqual(await store.lookup(createContext()), null);
+	});
+
+	test("loads results persisted by an earlier session", async () => {
+		const storagePath = path.join(tempDir, "storage", "lint-cache.json");
+		const first = new LintCacheStore(logger);
+		await first.setStoragePath(storagePath);
+		await storeResults(first);
+		await first.flush();
+
+		const second = new LintCacheStore(logger);
+		await second.setStoragePath(storagePath);
+
+		assert.deepStrictEqual(
+			(await second.lookup(createContext()))?.diagnostics,
+			DIAGNOSTICS,
+		);
+	});
+
+	test("deletes the persisted file when persistence is turned off", async () => {
+		const storagePath = path.join(tempDir, "lint-cache.json");
+		const store = new LintCacheStore(logger);
+		await store.setStoragePath(storagePath);
+		await storeResults(store);
+		await store.flush();
+
+		await store.setStoragePath(null);
+
+		await assert.rejects(fs.stat(storagePath));
+	});
+});
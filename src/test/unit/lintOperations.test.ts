@@ -1,14 +1,30 @@
 import * as assert from "node:assert";
-import type { Connection } from "vscode-languageserver/node";
+import * as path from "node:path";
+import type { Connection, Diagnostic } from "vscode-languageserver/node";
 import { DiagnosticSeverity } from "vscode-languageserver/node";
 import type { TextDocument } from "vscode-languageserver-textdocument";
 import { TextDocument as TextDocumentImpl } from "vscode-languageserver-textdocument";
 import type { TsqlRefineSettings } from "../../server/config/settings";
-import { executeLint } from "../../server/lint/lintOperations";
+import { collectBaselineIssues } from "../../server/lint/baseline";
+import type { BatchSnapshot } from "../../server/lint/incrementalLint";
+import {
+	compileMarkers,
+	createEmbeddedSqlDocument,
+	findEmbeddedSqlRegions,
+} from "../../server/embedded/embeddedSql";
+import {
+	type BatchLintEntry,
+	collectBaselineDiagnostics,
+	executeBatchLint,
+	executeLint,
+	executeNotebookLint,
+} from "../../server/lint/lintOperations";
+import type { RunLinterOptions } from "../../server/lint/runLinter";
 import type { DocumentContext } from "../../server/shared/documentContext";
 import { MissingTsqlRefineError } from "../../server/shared/errors";
 import { DocumentStateManager } from "../../server/state/documentStateManager";
 import { NotificationManager } from "../../server/state/notificationManager";
+import type { RunRecord } from "../../server/state/runHistory";
 
 /**
  * Creates default test settings.
@@ -372,4 +388,979 @@ suite("lintOperations", () => {
 			),
 		);
 	});
+
+	test("maps embedded SQL diagnostics back to the host file", async () => {
+		const { connection, calls } = createMockConnection();
+		const text =
+			'var a = /* tsql */ @"SELECT 1";\nvar b = /* tsql */ @"SELECT * FROM t";\n';
+		const document = TextDocumentImpl.create(
+			"file:///test.cs",
+			"csharp",
+			1,
+			text,
+		);
+		const embedded = createEmbeddedSqlDocument(
+			findEmbeddedSqlRegions(text, "csharp", compileMarkers(["/\\*\\s*tsql"])),
+		);
+		const context = createMockDocumentContext({
+			uri: document.uri,
+			filePath: "/test.cs",
+			documentText: embedded.text,
+			embedded,
+		});
+		const stdinRuns: string[] = [];
+
+		const result = await executeLint(context, document, "manual", {
+			connection,
+			notificationManager: new NotificationManager(connection),
+			lintStateManager: new DocumentStateManager(),
+			runner: async (options) => {
+				stdinRuns.push(options.stdin);
+				return {
+					stdout: JSON.stringify({
+						tool: "tsqlrefine",
+						version: "1.0.0",
+						command: "lint",
+						files: [
+							{
+								filePath: "<stdin>",
+								diagnostics: [
+									{
+										range: {
+											start: { line: 2, character: 7 },
+											end: { line: 2, character: 8 },
+										},
+										message: "avoid select *",
+									},
+								],
+							},
+						],
+					}),
+					stderr: "",
+					exitCode: 1,
+					timedOut: false,
+					cancelled: false,
+				};
+			},
+		});
+
+		assert.deepStrictEqual(stdinRuns, ["SELECT 1\nGO\nSELECT * FROM t"]);
+		assert.strictEqual(result.diagnosticsCount, 1);
+		const published = calls.sendDiagnostics[0]?.diagnostics[0] as
+			| Diagnostic
+			| undefined;
+		assert.strictEqual(published?.message, "avoid select *");
+		assert.deepStrictEqual(published?.range, {
+			start: { line: 1, character: 28 },
+			end: { line: 1, character: 29 },
+		});
+	});
+
+	test("demotes diagnostics outside changed lines with diagnosticsScope", async () => {
+		const { connection, calls } = createMockConnection();
+		const document = createMockTextDocument(
+			"file:///test.sql",
+			"SELECT 1;\nSELECT 2;",
+		);
+		const context = createMockDocumentContext({
+			uri: document.uri,
+			documentText: document.getText(),
+			effectiveSettings: createTestSettings({
+				diagnosticsScope: "changedLines",
+			}),
+		});
+		const diagnostic = (line: number) => ({
+			range: {
+				start: { line, character: 0 },
+				end: { line, character: 6 },
+			},
+			message: `line ${line}`,
+			severity: 2,
+		});
+
+		const result = await executeLint(context, document, "manual", {
+			connection,
+			notificationManager: new NotificationManager(connection),
+			lintStateManager: new DocumentStateManager(),
+			changedLines: async () => new Set([1]),
+			runner: async () => ({
+				stdout: JSON.stringify({
+					tool: "tsqlrefine",
+					version: "1.0.0",
+					command: "lint",
+					files: [
+						{
+							filePath: "<stdin>",
+							diagnostics: [diagnostic(0), diagnostic(1)],
+						},
+					],
+				}),
+				stderr: "",
+				exitCode: 1,
+				timedOut: false,
+				cancelled: false,
+			}),
+		});
+
+		assert.strictEqual(result.diagnosticsCount, 2);
+		assert.deepStrictEqual(
+			calls.sendDiagnostics[0]?.diagnostics.map((diag) => diag.severity),
+			[DiagnosticSeverity.Hint, DiagnosticSeverity.Warning],
+		);
+	});
+
+	test("drops diagnostics that match the baseline", async () => {
+		const { connection, calls } = createMockConnection();
+		const document = createMockTextDocument(
+			"file:///test.sql",
+			"SELECT * FROM t;\nSELECT * FROM u;",
+		);
+		const context = createMockDocumentContext({
+			uri: document.uri,
+			documentText: document.getText(),
+		});
+		const diagnostic = (line: number) => ({
+			range: {
+				start: { line, character: 0 },
+				end: { line, character: 8 },
+			},
+			message: "avoid select *",
+			code: "avoid-select-star",
+		});
+		const issues = collectBaselineIssues("test.sql", document.getText(), [
+			diagnostic(0),
+		]);
+
+		const result = await executeLint(context, document, "manual", {
+			connection,
+			notificationManager: new NotificationManager(connection),
+			lintStateManager: new DocumentStateManager(),
+			baseline: async () => issues,
+			runner: async () => ({
+				stdout: JSON.stringify({
+					tool: "tsqlrefine",
+					version: "1.0.0",
+					command: "lint",
+					files: [
+						{
+							filePath: "<stdin>",
+							diagnostics: [diagnostic(0), diagnostic(1)],
+						},
+					],
+				}),
+				stderr: "",
+				exitCode: 1,
+				timedOut: false,
+				cancelled: false,
+			}),
+		});
+
+		assert.strictEqual(result.diagnosticsCount, 1);
+		assert.strictEqual(result.baselined?.length, 1);
+		assert.deepStrictEqual(
+			((calls.sendDiagnostics[0]?.diagnostics ?? []) as Diagnostic[]).map(
+				(diag) => diag.range.start.line,
+			),
+			[1],
+		);
+	});
+
+	test("skips the CLI for host files without embedded SQL", async () => {
+		const { connection, calls } = createMockConnection();
+		const document = TextDocumentImpl.create(
+			"file:///test.cs",
+			"csharp",
+			1,
+			'var a = "SELECT 1";',
+		);
+		const context = createMockDocumentContext({
+			uri: document.uri,
+			documentText: "",
+			embedded: createEmbeddedSqlDocument([]),
+		});
+
+		const result = await executeLint(context, document, "manual", {
+			connection,
+			notificationManager: new NotificationManager(connection),
+			lintStateManager: new DocumentStateManager(),
+			runner: async () => {
+				throw new Error("runner should not be used");
+			},
+		});
+
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(calls.sendDiagnostics, [
+			{ uri: document.uri, diagnostics: [] },
+		]);
+	});
+
+	suite("incrementalLint", () => {
+		/** Lints like the CLI would, reporting every line with `*`. */
+		function createRecordingRunner(stdins: string[]) {
+			return async (options: RunLinterOptions) => {
+				const stdin = options.stdin ?? "";
+				stdins.push(stdin);
+				const diagnostics = stdin.split("\n").flatMap((line, index) =>
+					line.includes("*")
+						? [
+								{
+									range: {
+										start: { line: index, character: 0 },
+										end: { line: index, character: line.length },
+									},
+									message: "avoid select *",
+									code: "avoid-select-star",
+									severity: 2,
+								},
+							]
+						: [],
+				);
+				return {
+					stdout: JSON.stringify({
+						tool: "tsqlrefine",
+						version: "1.0.0",
+						command: "lint",
+						files: [{ filePath: "<stdin>", diagnostics }],
+					}),
+					stderr: "",
+					exitCode: diagnostics.length > 0 ? 1 : 0,
+					timedOut: false,
+					cancelled: false,
+				};
+			};
+		}
+
+		async function lint(
+			text: string,
+			reason: "type" | "manual",
+			deps: {
+				stdins: string[];
+				batchSnapshots: Map<string, BatchSnapshot>;
+				settings?: Partial<TsqlRefineSettings>;
+			},
+		): Promise<number[]> {
+			const { connection, calls } = createMockConnection();
+			const document = createMockTextDocument("file:///test.sql", text);
+			const context = createMockDocumentContext({
+				uri: document.uri,
+				documentText: text,
+				effectiveSettings: createTestSettings({
+					incrementalLint: true,
+					...deps.settings,
+				}),
+			});
+			await executeLint(context, document, reason, {
+				connection,
+				notificationManager: new NotificationManager(connection),
+				lintStateManager: new DocumentStateManager(),
+				runner: createRecordingRunner(deps.stdins),
+				batchSnapshots: deps.batchSnapshots,
+			});
+			return (
+				(calls.sendDiagnostics[0]?.diagnostics ?? []) as Diagnostic[]
+			).map((diag) => diag.range.start.line);
+		}
+
+		const original = "SELECT * FROM a;\nGO\nSELECT 1;\nGO\nSELECT * FROM c;\n";
+
+		test("re-lints only the changed batch while typing", async () => {
+			const stdins: string[] = [];
+			const batchSnapshots = new Map<string, BatchSnapshot>();
+			await lint(original, "type", { stdins, batchSnapshots });
+
+			const lines = await lint(
+				"SELECT * FROM a;\nGO\n\nSELECT * FROM b;\nGO\nSELECT * FROM c;\n",
+				"type",
+				{ stdins, batchSnapshots },
+			);
+
+			assert.deepStrictEqual(stdins, [original, "\nSELECT * FROM b;\nGO\n"]);
+			assert.deepStrictEqual(lines, [0, 3, 5]);
+		});
+
+		test("reuses cached diagnostics without running the CLI when batches are removed", async () => {
+			const stdins: string[] = [];
+			const batchSnapshots = new Map<string, BatchSnapshot>();
+			await lint(original, "type", { stdins, batchSnapshots });
+
+			const lines = await lint(
+				"SELECT * FROM a;\nGO\nSELECT * FROM c;\n",
+				"type",
+				{
+					stdins,
+					batchSnapshots,
+				},
+			);
+
+			assert.strictEqual(stdins.length, 1);
+			assert.deepStrictEqual(lines, [0, 2]);
+		});
+
+		test("lints the whole file on a manual run", async () => {
+			const stdins: string[] = [];
+			const batchSnapshots = new Map<string, BatchSnapshot>();
+			await lint(original, "type", { stdins, batchSnapshots });
+
+			const edited = original.replace("SELECT 1;", "SELECT 2;");
+			await lint(edited, "manual", { stdins, batchSnapshots });
+
+			assert.deepStrictEqual(stdins, [original, edited]);
+		});
+
+		test("lints the whole file after the settings change", async () => {
+			const stdins: string[] = [];
+			const batchSnapshots = new Map<string, BatchSnapshot>();
+			await lint(original, "type", { stdins, batchSnapshots });
+
+			const edited = original.replace("SELECT 1;", "SELECT 2;");
+			await lint(edited, "type", {
+				stdins,
+				batchSnapshots,
+				settings: { minSeverity: "warning" },
+			});
+
+			assert.deepStrictEqual(stdins, [original, edited]);
+		});
+	});
+
+	suite("resultCache", () => {
+		const text = "SELECT * FROM t;";
+		const cachedDiagnostic: Diagnostic = {
+			range: {
+				start: { line: 0, character: 7 },
+				end: { line: 0, character: 8 },
+			},
+			message: "cached",
+			severity: DiagnosticSeverity.Warning,
+		};
+
+		/** Cache keyed by text alone, recording what was stored. */
+		function createResultCache(
+			entries: Map<string, Diagnostic[]>,
+			stored: Array<{ diagnostics: Diagnostic[]; toolVersion: string }>,
+		) {
+			return async (context: DocumentContext) => ({
+				diagnostics: entries.get(context.documentText) ?? null,
+				store: (diagnostics: Diagnostic[], toolVersion: string) => {
+					stored.push({ diagnostics, toolVersion });
+				},
+			});
+		}
+
+		test("publishes cached diagnostics without running the CLI", async () => {
+			const { connection, calls } = createMockConnection();
+			const document = createMockTextDocument("file:///test.sql", text);
+			let runs = 0;
+
+			const result = await executeLint(
+				createMockDocumentContext({ documentText: text }),
+				document,
+				"open",
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					runner: async () => {
+						runs++;
+						throw new Error("should not run");
+					},
+					resultCache: createResultCache(
+						new Map([[text, [cachedDiagnostic]]]),
+						[],
+					),
+				},
+			);
+
+			assert.strictEqual(runs, 0);
+			assert.strictEqual(result.success, true);
+			assert.strictEqual(result.toolVersion, undefined);
+			assert.deepStrictEqual(
+				calls.sendDiagnostics[0]?.diagnostics.map((diag) => diag.message),
+				["cached"],
+			);
+		});
+
+		test("stores the results of a run with the CLI version", async () => {
+			const { connection } = createMockConnection();
+			const document = createMockTextDocument("file:///test.sql", text);
+			const stored: Array<{ diagnostics: Diagnostic[]; toolVersion: string }> =
+				[];
+
+			await executeLint(
+				createMockDocumentContext({ documentText: text }),
+				document,
+				"open",
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					runner: async () => ({
+						stdout: JSON.stringify({
+							tool: "tsqlrefine",
+							version: "1.2.3",
+							command: "lint",
+							files: [
+								{
+									filePath: "<stdin>",
+									diagnostics: [
+										{
+											range: cachedDiagnostic.range,
+											message: "from cli",
+											severity: 2,
+										},
+									],
+								},
+							],
+						}),
+						stderr: "",
+						exitCode: 1,
+						timedOut: false,
+						cancelled: false,
+					}),
+					resultCache: createResultCache(new Map(), stored),
+				},
+			);
+
+			assert.deepStrictEqual(
+				stored.map((entry) => [
+					entry.toolVersion,
+					entry.diagnostics.map((diag) => diag.message),
+				]),
+				[["1.2.3", ["from cli"]]],
+			);
+		});
+
+		test("does not look up documents over maxFileSizeKb", async () => {
+			const { connection } = createMockConnection();
+			const largeText = "x".repeat(2048);
+			const document = createMockTextDocument("file:///test.sql", largeText);
+			let lookups = 0;
+
+			await executeLint(
+				createMockDocumentContext({
+					documentText: largeText,
+					effectiveSettings: createTestSettings({ maxFileSizeKb: 1 }),
+				}),
+				document,
+				"open",
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					resultCache: async () => {
+						lookups++;
+						return null;
+					},
+				},
+			);
+
+			assert.strictEqual(lookups, 0);
+		});
+	});
+
+	suite("recordRun", () => {
+		test("records the reason, size, command line and diagnostic count", async () => {
+			const { connection } = createMockConnection();
+			const text = "SELECT * FROM t;";
+			const runs: RunRecord[] = [];
+
+			await executeLint(
+				createMockDocumentContext({ documentText: text }),
+				createMockTextDocument("file:///test.sql", text),
+				"save",
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					runner: async () => ({
+						stdout: JSON.stringify({
+							tool: "tsqlrefine",
+							version: "1.2.3",
+							command: "lint",
+							files: [
+								{
+									filePath: "<stdin>",
+									diagnostics: [
+										{
+											range: {
+												start: { line: 0, character: 7 },
+												end: { line: 0, character: 8 },
+											},
+											message: "avoid select star",
+											severity: 2,
+										},
+									],
+								},
+							],
+						}),
+						stderr: "warning: slow",
+						exitCode: 1,
+						timedOut: false,
+						cancelled: false,
+						commandLine: ["tsqlrefine", "lint", "--stdin"],
+					}),
+					recordRun: (run) => runs.push(run),
+				},
+			);
+
+			assert.strictEqual(runs.length, 1);
+			const [run] = runs;
+			assert.strictEqual(run?.operation, "lint");
+			assert.strictEqual(run?.uri, "file:///test.sql");
+			assert.strictEqual(run?.reason, "save");
+			assert.strictEqual(run?.bytes, Buffer.byteLength(text));
+			assert.strictEqual(run?.exitCode, 1);
+			assert.strictEqual(run?.diagnostics, 1);
+			assert.strictEqual(run?.stderr, "warning: slow");
+			assert.deepStrictEqual(run?.args, ["tsqlrefine", "lint", "--stdin"]);
+		});
+
+		test("records a failed run without a diagnostic count", async () => {
+			const { connection } = createMockConnection();
+			const runs: RunRecord[] = [];
+
+			await executeLint(
+				createMockDocumentContext(),
+				createMockTextDocument(),
+				"manual",
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					runner: async () => ({
+						stdout: "",
+						stderr: "",
+						exitCode: null,
+						timedOut: true,
+						cancelled: false,
+					}),
+					recordRun: (run) => runs.push(run),
+				},
+			);
+
+			assert.strictEqual(runs.length, 1);
+			assert.strictEqual(runs[0]?.timedOut, true);
+			assert.strictEqual(runs[0]?.diagnostics, null);
+			assert.deepStrictEqual(runs[0]?.args, []);
+		});
+
+		test("records a run that threw with the error as stderr", async () => {
+			const { connection } = createMockConnection();
+			const runs: RunRecord[] = [];
+
+			await executeLint(
+				createMockDocumentContext(),
+				createMockTextDocument(),
+				"save",
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					runner: async () => {
+						throw new MissingTsqlRefineError(
+							"tsqlrefine executable is unavailable",
+						);
+					},
+					recordRun: (run) => runs.push(run),
+				},
+			);
+
+			assert.strictEqual(runs.length, 1);
+			assert.strictEqual(runs[0]?.reason, "save");
+			assert.strictEqual(runs[0]?.exitCode, null);
+			assert.strictEqual(runs[0]?.diagnostics, null);
+			assert.strictEqual(
+				runs[0]?.stderr,
+				"tsqlrefine executable is unavailable",
+			);
+		});
+	});
+
+	suite("executeBatchLint", () => {
+		const cwd = path.resolve("workspace");
+
+		function createEntry(name: string, text = "SELECT 1;"): BatchLintEntry {
+			const filePath = path.join(cwd, name);
+			const uri = `file://${filePath}`;
+			return {
+				context: createMockDocumentContext({
+					uri,
+					filePath,
+					cwd,
+					documentText: text,
+				}),
+				document: TextDocumentImpl.create(uri, "sql", 1, text),
+			};
+		}
+
+		function batchOutput(
+			files: Array<{ filePath: string; messages: string[] }>,
+		): string {
+			return JSON.stringify({
+				tool: "tsqlrefine",
+				version: "1.0.0",
+				command: "lint",
+				files: files.map((file) => ({
+					filePath: file.filePath,
+					diagnostics: file.messages.map((message) => ({
+						range: {
+							start: { line: 0, character: 0 },
+							end: { line: 0, character: 1 },
+						},
+						message,
+					})),
+				})),
+			});
+		}
+
+		test("runs one process and routes diagnostics to each document", async () => {
+			const { connection, calls } = createMockConnection();
+			const entries = [createEntry("a.sql"), createEntry("b.sql")];
+			const runs: string[][] = [];
+
+			const results = await executeBatchLint(entries, "workspace", {
+				connection,
+				notificationManager: new NotificationManager(connection),
+				lintStateManager: new DocumentStateManager(),
+				runner: async () => {
+					throw new Error("stdin runner should not be used");
+				},
+				batchRunner: async (options) => {
+					runs.push(options.filePaths);
+					return {
+						stdout: batchOutput([
+							{ filePath: "a.sql", messages: ["first", "second"] },
+							{ filePath: "b.sql", messages: [] },
+						]),
+						stderr: "",
+						exitCode: 1,
+						timedOut: false,
+						cancelled: false,
+					};
+				},
+			});
+
+			assert.deepStrictEqual(runs, [
+				[path.join(cwd, "a.sql"), path.join(cwd, "b.sql")],
+			]);
+			assert.deepStrictEqual(
+				results.map((result) => result.diagnosticsCount),
+				[2, 0],
+			);
+			assert.deepStrictEqual(
+				calls.sendDiagnostics.map((call) => [
+					call.uri,
+					call.diagnostics.map((diag) => diag.message),
+				]),
+				[
+					[entries[0]?.context.uri, ["first", "second"]],
+					[entries[1]?.context.uri, []],
+				],
+			);
+		});
+
+		test("falls back to per-file stdin lint when the batch fails", async () => {
+			const { connection } = createMockConnection();
+			const entries = [createEntry("a.sql"), createEntry("b.sql")];
+			const stdinRuns: string[] = [];
+
+			const results = await executeBatchLint(entries, "workspace", {
+				connection,
+				notificationManager: new NotificationManager(connection),
+				lintStateManager: new DocumentStateManager(),
+				runner: async (options) => {
+					stdinRuns.push(options.stdin);
+					return {
+						stdout: "",
+						stderr: "",
+						exitCode: 0,
+						timedOut: false,
+						cancelled: false,
+					};
+				},
+				batchRunner: async () => ({
+					stdout: "",
+					stderr: "runtime exception",
+					exitCode: 4,
+					timedOut: false,
+					cancelled: false,
+				}),
+			});
+
+			assert.strictEqual(stdinRuns.length, 2);
+			assert.ok(results.every((result) => result.success));
+		});
+
+		test("skips files over maxFileSizeKb without running them", async () => {
+			const { connection, calls } = createMockConnection();
+			const large = createEntry("large.sql", "SELECT 1;\n".repeat(500));
+			large.context.effectiveSettings = createTestSettings({
+				maxFileSizeKb: 1,
+			});
+			let ran = false;
+
+			const results = await executeBatchLint([large], "workspace", {
+				connection,
+				notificationManager: new NotificationManager(connection),
+				lintStateManager: new DocumentStateManager(),
+				batchRunner: async () => {
+					ran = true;
+					throw new Error("should not run");
+				},
+			});
+
+			assert.strictEqual(ran, false);
+			assert.strictEqual(results[0]?.success, true);
+			assert.strictEqual(calls.sendDiagnostics.length, 1);
+		});
+
+		test("reports cancellation without publishing diagnostics", async () => {
+			const { connection, calls } = createMockConnection();
+
+			const results = await executeBatchLint(
+				[createEntry("a.sql")],
+				"workspace",
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					batchRunner: async () => ({
+						stdout: "",
+						stderr: "",
+						exitCode: null,
+						timedOut: false,
+						cancelled: true,
+					}),
+				},
+			);
+
+			assert.strictEqual(results[0]?.success, false);
+			assert.strictEqual(calls.sendDiagnostics.length, 0);
+		});
+	});
+
+	suite("executeNotebookLint", () => {
+		function createCell(index: number, text: string): BatchLintEntry {
+			const uri = `vscode-notebook-cell:/nb.ipynb#cell${index}`;
+			return {
+				context: createMockDocumentContext({
+					uri,
+					filePath: "/nb.ipynb",
+					documentText: text,
+					isSavedFile: false,
+				}),
+				document: TextDocumentImpl.create(uri, "sql", 1, text),
+			};
+		}
+
+		test("lints the cells as one script and routes diagnostics to each cell", async () => {
+			const { connection, calls } = createMockConnection();
+			const cells = [
+				createCell(0, "DECLARE @a int;"),
+				createCell(1, "SELECT 1;\nSELECT @a;"),
+			];
+			const stdinRuns: string[] = [];
+
+			const results = await executeNotebookLint(cells, {
+				connection,
+				notificationManager: new NotificationManager(connection),
+				lintStateManager: new DocumentStateManager(),
+				runner: async (options) => {
+					stdinRuns.push(options.stdin);
+					return {
+						stdout: JSON.stringify({
+							tool: "tsqlrefine",
+							version: "1.0.0",
+							command: "lint",
+							files: [
+								{
+									filePath: "<stdin>",
+									diagnostics: [
+										{
+											range: {
+												start: { line: 3, character: 7 },
+												end: { line: 3, character: 9 },
+											},
+											message: "undeclared variable",
+										},
+									],
+								},
+							],
+						}),
+						stderr: "",
+						exitCode: 1,
+						timedOut: false,
+						cancelled: false,
+					};
+				},
+			});
+
+			assert.deepStrictEqual(stdinRuns, [
+				"DECLARE @a int;\nGO\nSELECT 1;\nSELECT @a;",
+			]);
+			assert.deepStrictEqual(
+				results.map((result) => result.diagnosticsCount),
+				[0, 1],
+			);
+			assert.deepStrictEqual(
+				calls.sendDiagnostics.map((call) => [
+					call.uri,
+					call.diagnostics.map((diag) => (diag as Diagnostic).range),
+				]),
+				[
+					[cells[0]?.context.uri, []],
+					[
+						cells[1]?.context.uri,
+						[
+							{
+								start: { line: 1, character: 7 },
+								end: { line: 1, character: 9 },
+							},
+						],
+					],
+				],
+			);
+		});
+
+		test("reports a failed run for every cell", async () => {
+			const { connection, calls } = createMockConnection();
+
+			const results = await executeNotebookLint(
+				[createCell(0, "SELECT 1;"), createCell(1, "SELECT 2;")],
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					runner: async () => ({
+						stdout: "",
+						stderr: "",
+						exitCode: null,
+						timedOut: false,
+						cancelled: true,
+					}),
+				},
+			);
+
+			assert.ok(results.every((result) => !result.success));
+			assert.strictEqual(calls.sendDiagnostics.length, 0);
+		});
+	});
+
+	suite("collectBaselineDiagnostics", () => {
+		const cwd = path.resolve("workspace");
+
+		function createEntry(name: string, text = "SELECT 1;"): BatchLintEntry {
+			const filePath = path.join(cwd, name);
+			const uri = `file://${filePath}`;
+			return {
+				context: createMockDocumentContext({
+					uri,
+					filePath,
+					cwd,
+					documentText: text,
+					effectiveSettings: createTestSettings({
+						minSeverity: "error",
+						ruleOverrides: { "*": "off" },
+					}),
+				}),
+				document: TextDocumentImpl.create(uri, "sql", 1, text),
+			};
+		}
+
+		function lintOutput(filePath: string): string {
+			return JSON.stringify({
+				tool: "tsqlrefine",
+				version: "1.0.0",
+				command: "lint",
+				files: [
+					{
+						filePath,
+						diagnostics: [
+							{
+								range: {
+									start: { line: 0, character: 0 },
+									end: { line: 0, character: 1 },
+								},
+								message: "issue",
+								severity: 3,
+								data: { ruleId: "some-rule" },
+							},
+						],
+					},
+				],
+			});
+		}
+
+		test("ignores minSeverity and ruleOverrides without publishing", async () => {
+			const { connection, calls } = createMockConnection();
+			const severities: string[] = [];
+
+			const results = await collectBaselineDiagnostics(
+				[createEntry("a.sql")],
+				new AbortController().signal,
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					batchRunner: async (options) => {
+						severities.push(options.settings.minSeverity);
+						return {
+							stdout: lintOutput("a.sql"),
+							stderr: "",
+							exitCode: 1,
+							timedOut: false,
+							cancelled: false,
+						};
+					},
+				},
+			);
+
+			assert.deepStrictEqual(severities, ["hint"]);
+			assert.deepStrictEqual(
+				results.map((diagnostics) => diagnostics?.map((diag) => diag.message)),
+				[["issue"]],
+			);
+			assert.strictEqual(calls.sendDiagnostics.length, 0);
+		});
+
+		test("reports null for files whose lint failed", async () => {
+			const { connection } = createMockConnection();
+
+			const results = await collectBaselineDiagnostics(
+				[createEntry("a.sql"), createEntry("b.sql", "SELECT 2;")],
+				new AbortController().signal,
+				{
+					connection,
+					notificationManager: new NotificationManager(connection),
+					lintStateManager: new DocumentStateManager(),
+					batchRunner: async () => ({
+						stdout: "",
+						stderr: "crashed",
+						exitCode: null,
+						timedOut: false,
+						cancelled: false,
+					}),
+					runner: async (options) =>
+						options.stdin === "SELECT 1;"
+							? {
+									stdout: lintOutput("<stdin>"),
+									stderr: "",
+									exitCode: 0,
+									timedOut: false,
+									cancelled: false,
+								}
+							: {
+									stdout: "",
+									stderr: "",
+									exitCode: 2,
+									timedOut: false,
+									cancelled: false,
+								},
+				},
+			);
+
+			assert.strictEqual(results[0]?.length, 1);
+			assert.strictEqual(results[1], null);
+		});
+	});
 });
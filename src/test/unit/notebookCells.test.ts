@@ -0,0 +1,29 @@
+import * as assert from "node:assert";
+import { NotebookCellTracker } from "../../server/state/notebookCells";
+
+suite("NotebookCellTracker", () => {
+	test("returns the cells of the notebook that contains a cell", () => {
+		const tracker = new NotebookCellTracker();
+		tracker.update("nb:a", ["cell:1", "cell:2"]);
+
+		assert.deepStrictEqual(tracker.getCells("cell:2"), ["cell:1", "cell:2"]);
+		assert.strictEqual(tracker.getCells("cell:3"), undefined);
+	});
+
+	test("forgets cells removed by an update", () => {
+		const tracker = new NotebookCellTracker();
+		tracker.update("nb:a", ["cell:1", "cell:2"]);
+		tracker.update("nb:a", ["cell:2"]);
+
+		assert.strictEqual(tracker.getCells("cell:1"), undefined);
+		assert.deepStrictEqual(tracker.getCells("cell:2"), ["cell:2"]);
+	});
+
+	test("forgets a closed notebook", () => {
+		const tracker = new NotebookCellTracker();
+		tracker.update("nb:a", ["cell:1"]);
+		tracker.remove("nb:a");
+
+		assert.strictEqual(tracker.getCells("cell:1"), undefined);
+	});
+});
@@ -1,5 +1,6 @@
 import * as assert from "node:assert";
 import type { Connection } from "vscode-languageserver/node";
+import type { ConfigDiagnostics } from "../../server/config/configDiagnostics";
 import {
 	reportCliFailure,
 	runWithInFlight,
@@ -122,4 +123,29 @@ suite("reportCliFailure", () => {
 			),
 		);
 	});
+
+	test("reports configuration errors on the config file", () => {
+		const harness = createHarness();
+		const updates: [string, number | null, string][] = [];
+		const configDiagnostics = {
+			update: (configPath: string, exitCode: number | null, stderr: string) =>
+				updates.push([configPath, exitCode, stderr]),
+		} as unknown as ConfigDiagnostics;
+
+		reportCliFailure({
+			result: {
+				stdout: "",
+				stderr: "bad config",
+				exitCode: 3,
+				timedOut: false,
+				cancelled: false,
+			},
+			operation: "lint",
+			deps: { ...harness, configDiagnostics },
+			successExitCodes: [0, 1],
+			configPath: "/ws/tsqlrefine.json",
+		});
+
+		assert.deepStrictEqual(updates, [["/ws/tsqlrefine.json", 3, "bad config"]]);
+	});
 });
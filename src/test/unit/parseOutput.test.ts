@@ -1,9 +1,15 @@
 import * as assert from "node:assert";
 import * as path from "node:path";
 import * as fc from "fast-check";
-import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { DiagnosticSeverity, DiagnosticTag } from "vscode-languageserver/node";
 import { URI } from "vscode-uri";
-import { parseOutput } from "../../server/lint/parseOutput";
+import {
+	parseBatchLintOutput,
+	parseBatchOutput,
+	parseLintOutput,
+	parseOutput,
+} from "../../server/lint/parseOutput";
+import { normalizeForCompare } from "../../server/shared/normalize";
 import { cliJsonOutput } from "../helpers/arbitraries";
 
 /**
@@ -19,11 +25,13 @@ function createJsonOutput(
 		severity?: number;
 		code?: string;
 		message: string;
+		tags?: number[];
 		data?: {
 			ruleId?: string;
 			category?: string;
 			fixable?: boolean;
 			codeDescriptionHref?: string;
+			description?: string;
 		};
 	}>,
 ): string {
@@ -321,7 +329,218 @@ suite("parseOutput", () => {
 		assert.strictEqual(diagnostics.length, 1);
 		const diag = diagnostics[0];
 		assert.ok(diag);
-		assert.deepStrictEqual(diag.data, { fixable: true });
+		assert.deepStrictEqual(diag.data, {
+			fixable: true,
+			ruleId: "keyword-casing",
+		});
+	});
+
+	test("keeps rule metadata from data for hovers", () => {
+		const cwd = path.resolve("workspace");
+		const filePath = path.join(cwd, "query.sql");
+		const uri = URI.file(filePath).toString();
+		const stdout = createJsonOutput("query.sql", [
+			{
+				range: {
+					start: { line: 0, character: 0 },
+					end: { line: 0, character: 5 },
+				},
+				code: "avoid-select-star",
+				message: "Avoid SELECT *",
+				data: {
+					ruleId: "avoid-select-star",
+					category: "Performance",
+					fixable: false,
+					codeDescriptionHref: "https://example.com/rules/avoid-select-star",
+					description: "List the columns explicitly.",
+				},
+			},
+		]);
+
+		const diagnostics = parseOutput({ stdout, uri, cwd });
+
+		assert.deepStrictEqual(diagnostics[0]?.data, {
+			fixable: false,
+			ruleId: "avoid-select-star",
+			category: "Performance",
+			codeDescriptionHref: "https://example.com/rules/avoid-select-star",
+			description: "List the columns explicitly.",
+		});
+	});
+
+	test("applies rule overrides to the parsed diagnostics", () => {
+		const cwd = path.resolve("workspace");
+		const filePath = path.join(cwd, "query.sql");
+		const uri = URI.file(filePath).toString();
+		const range = {
+			start: { line: 0, character: 0 },
+			end: { line: 0, character: 5 },
+		};
+		const stdout = createJsonOutput("query.sql", [
+			{
+				range,
+				severity: 2,
+				code: "avoid-select-star",
+				message: "Avoid SELECT *",
+				data: { ruleId: "avoid-select-star", category: "Performance" },
+			},
+			{
+				range,
+				severity: 2,
+				code: "semicolon-termination",
+				message: "Missing semicolon",
+				data: { ruleId: "semicolon-termination", category: "Style" },
+			},
+		]);
+
+		const diagnostics = parseOutput({
+			stdout,
+			uri,
+			cwd,
+			ruleOverrides: { "avoid-select-star": "error", Style: "off" },
+		});
+
+		assert.deepStrictEqual(
+			diagnostics.map((item) => [item.code, item.severity]),
+			[["avoid-select-star", DiagnosticSeverity.Error]],
+		);
+	});
+
+	suite("tags", () => {
+		const cwd = path.resolve("workspace");
+		const uri = URI.file(path.join(cwd, "query.sql")).toString();
+		const range = {
+			start: { line: 0, character: 0 },
+			end: { line: 0, character: 5 },
+		};
+
+		test("passes Unnecessary and Deprecated tags through from the CLI", () => {
+			const stdout = createJsonOutput("query.sql", [
+				{ range, code: "unused-variable", message: "Unused", tags: [1] },
+				{ range, code: "old-join", message: "Deprecated join", tags: [2, 1] },
+			]);
+
+			const diagnostics = parseOutput({ stdout, uri, cwd });
+
+			assert.deepStrictEqual(diagnostics[0]?.tags, [DiagnosticTag.Unnecessary]);
+			assert.deepStrictEqual(diagnostics[1]?.tags, [
+				DiagnosticTag.Deprecated,
+				DiagnosticTag.Unnecessary,
+			]);
+		});
+
+		test("drops unknown tags and omits empty tag lists", () => {
+			const stdout = createJsonOutput("query.sql", [
+				{ range, code: "rule-a", message: "A", tags: [7] },
+				{ range, code: "rule-b", message: "B" },
+			]);
+
+			const diagnostics = parseOutput({ stdout, uri, cwd });
+
+			assert.strictEqual(diagnostics[0]?.tags, undefined);
+			assert.strictEqual(diagnostics[1]?.tags, undefined);
+		});
+
+		test("maps categories and rule IDs to tags for diagnostics without tags", () => {
+			const stdout = createJsonOutput("query.sql", [
+				{
+					range,
+					code: "text-column",
+					message: "TEXT is deprecated",
+					data: { ruleId: "text-column", category: "Deprecated" },
+				},
+				{
+					range,
+					code: "unused-alias",
+					message: "Unused alias",
+					data: { ruleId: "unused-alias", category: "Style" },
+				},
+				{
+					range,
+					code: "avoid-select-star",
+					message: "Avoid SELECT *",
+					data: { ruleId: "avoid-select-star", category: "Performance" },
+				},
+			]);
+
+			const diagnostics = parseOutput({
+				stdout,
+				uri,
+				cwd,
+				diagnosticTags: { deprecated: "deprecated", "unused-*": "unnecessary" },
+			});
+
+			assert.deepStrictEqual(
+				diagnostics.map((item) => item.tags),
+				[[DiagnosticTag.Deprecated], [DiagnosticTag.Unnecessary], undefined],
+			);
+		});
+
+		test("prefers tags reported by the CLI over the mapping", () => {
+			const stdout = createJsonOutput("query.sql", [
+				{
+					range,
+					code: "old-join",
+					message: "*= join",
+					tags: [2],
+					data: { category: "Style" },
+				},
+			]);
+
+			const diagnostics = parseOutput({
+				stdout,
+				uri,
+				cwd,
+				diagnosticTags: { Style: "unnecessary" },
+			});
+
+			assert.deepStrictEqual(diagnostics[0]?.tags, [DiagnosticTag.Deprecated]);
+		});
+
+		test("applies the mapping to batch output", () => {
+			const filePath = path.join(cwd, "query.sql");
+			const stdout = createJsonOutput("query.sql", [
+				{
+					range,
+					code: "text-column",
+					message: "TEXT is deprecated",
+					data: { category: "Deprecated" },
+				},
+			]);
+
+			const results = parseBatchOutput({
+				stdout,
+				cwd,
+				filePaths: [filePath],
+				diagnosticTags: { Deprecated: "deprecated" },
+			});
+
+			assert.deepStrictEqual(
+				results.get(normalizeForCompare(filePath))?.[0]?.tags,
+				[DiagnosticTag.Deprecated],
+			);
+		});
+	});
+
+	test("omits ruleId from data when the CLI does not provide one", () => {
+		const cwd = path.resolve("workspace");
+		const filePath = path.join(cwd, "query.sql");
+		const uri = URI.file(filePath).toString();
+		const stdout = createJsonOutput("query.sql", [
+			{
+				range: {
+					start: { line: 0, character: 0 },
+					end: { line: 0, character: 5 },
+				},
+				code: "keyword-casing",
+				message: "Use uppercase for SQL keywords",
+				data: { fixable: true },
+			},
+		]);
+
+		const diagnostics = parseOutput({ stdout, uri, cwd });
+
+		assert.deepStrictEqual(diagnostics[0]?.data, { fixable: true });
 	});
 
 	test("defaults fixable to false when data is missing", () => {
@@ -872,4 +1091,120 @@ suite("parseOutput", () => {
 			);
 		});
 	});
+
+	suite("parseBatchOutput", () => {
+		const cwd = path.resolve("workspace");
+		const diagnostic = {
+			range: {
+				start: { line: 0, character: 0 },
+				end: { line: 0, character: 1 },
+			},
+			message: "msg",
+		};
+
+		test("routes diagnostics to each requested file", () => {
+			const first = path.join(cwd, "a.sql");
+			const second = path.join(cwd, "sub", "b.sql");
+			const stdout = JSON.stringify({
+				tool: "tsqlrefine",
+				version: "1.0.0",
+				command: "lint",
+				files: [
+					{ filePath: "a.sql", diagnostics: [diagnostic, diagnostic] },
+					{ filePath: second, diagnostics: [diagnostic] },
+				],
+			});
+
+			const results = parseBatchOutput({
+				stdout,
+				cwd,
+				filePaths: [first, second],
+			});
+
+			assert.strictEqual(results.get(normalizeForCompare(first))?.length, 2);
+			assert.strictEqual(results.get(normalizeForCompare(second))?.length, 1);
+		});
+
+		test("returns empty entries for files without results", () => {
+			const first = path.join(cwd, "a.sql");
+
+			const results = parseBatchOutput({
+				stdout: "",
+				cwd,
+				filePaths: [first],
+			});
+
+			assert.deepStrictEqual([...results.values()], [[]]);
+		});
+
+		test("ignores files that were not requested and stdin results", () => {
+			const first = path.join(cwd, "a.sql");
+			const stdout = JSON.stringify({
+				tool: "tsqlrefine",
+				version: "1.0.0",
+				command: "lint",
+				files: [
+					{ filePath: "other.sql", diagnostics: [diagnostic] },
+					{ filePath: "<stdin>", diagnostics: [diagnostic] },
+				],
+			});
+
+			const results = parseBatchOutput({ stdout, cwd, filePaths: [first] });
+
+			assert.deepStrictEqual([...results.keys()], [normalizeForCompare(first)]);
+			assert.deepStrictEqual(results.get(normalizeForCompare(first)), []);
+		});
+	});
+
+	suite("toolVersion", () => {
+		const parse = (stdout: string) =>
+			parseLintOutput({ stdout, uri: "file:///work/a.sql", cwd: "/work" })
+				.toolVersion;
+
+		test("reads the top-level version", () => {
+			const stdout = JSON.stringify({
+				tool: "tsqlrefine",
+				version: "1.4.2",
+				command: "lint",
+				files: [],
+			});
+			assert.strictEqual(parse(stdout), "1.4.2");
+		});
+
+		test("reads tool.version when tool is an object", () => {
+			const stdout = JSON.stringify({
+				tool: { name: "tsqlrefine", version: "2.0.0-beta.1" },
+				command: "lint",
+				files: [],
+			});
+			assert.strictEqual(parse(stdout), "2.0.0-beta.1");
+		});
+
+		test("returns null without a version", () => {
+			assert.strictEqual(parse(""), null);
+			assert.strictEqual(parse("not json"), null);
+			assert.strictEqual(
+				parse(JSON.stringify({ tool: "tsqlrefine", files: [] })),
+				null,
+			);
+		});
+
+		test("is returned with the diagnostics of a batch run", () => {
+			const stdout = JSON.stringify({
+				tool: "tsqlrefine",
+				version: "1.4.2",
+				command: "lint",
+				files: [],
+			});
+
+			const { diagnosticsByPath, toolVersion } = parseBatchLintOutput({
+				stdout,
+				cwd: "/work",
+				filePaths: [],
+			});
+
+			assert.strictEqual(toolVersion, "1.4.2");
+			assert.strictEqual(diagnosticsByPath.size, 0);
+		});
+	});
 });
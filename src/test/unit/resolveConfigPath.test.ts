@@ -2,7 +2,16 @@ import * as assert from "node:assert";
 import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
-import { resolveConfigPath } from "../../server/config/resolveConfigPath";
+import {
+	clearConfigPathCache,
+	ensurePrivateDirectory,
+	getConfigSourcePath,
+	invalidateExtractedConfig,
+	removeStaleExtractedConfigs,
+	resolveConfigPath,
+	resolveConfigSource,
+	setExtractedConfigDirectory,
+} from "../../server/config/resolveConfigPath";
 import { rmWithRetry } from "../helpers/cleanup";
 
 suite("resolveConfigPath", () => {
@@ -67,4 +76,230 @@ suite("resolveConfigPath", () => {
 		});
 		assert.strictEqual(resolved, undefined);
 	});
+
+	suite("config file names", () => {
+		let tempDir: string;
+		let workspaceRoot: string;
+		let nestedDir: string;
+		let filePath: string;
+		let storageDir: string;
+
+		setup(async () => {
+			clearConfigPathCache();
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsqlrefine-test-"));
+			workspaceRoot = path.join(tempDir, "workspace");
+			nestedDir = path.join(workspaceRoot, "src");
+			filePath = path.join(nestedDir, "query.sql");
+			storageDir = path.join(tempDir, "storage", "extracted-configs");
+			await fs.mkdir(nestedDir, { recursive: true });
+			setExtractedConfigDirectory(storageDir);
+		});
+
+		teardown(async () => {
+			setExtractedConfigDirectory(null);
+			await rmWithRetry(tempDir);
+		});
+
+		test("tries names in search order within a folder", async () => {
+			await fs.writeFile(path.join(nestedDir, ".tsqlrefinerc"), "{}");
+			await fs.writeFile(path.join(nestedDir, "tsqlrefine.jsonc"), "{}");
+
+			const resolved = await resolveConfigPath({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+			});
+			const reordered = await resolveConfigPath({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+				searchOrder: [".tsqlrefinerc", "tsqlrefine.jsonc"],
+			});
+
+			assert.strictEqual(resolved, path.join(nestedDir, "tsqlrefine.jsonc"));
+			assert.strictEqual(reordered, path.join(nestedDir, ".tsqlrefinerc"));
+		});
+
+		test("prefers the nearest folder over search order", async () => {
+			await fs.writeFile(path.join(workspaceRoot, "tsqlrefine.json"), "{}");
+			await fs.writeFile(path.join(nestedDir, ".tsqlrefinerc"), "{}");
+
+			const source = await resolveConfigSource({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+			});
+
+			assert.strictEqual(source.kind, "file");
+			assert.strictEqual(
+				source.kind === "file" ? source.path : null,
+				path.join(nestedDir, ".tsqlrefinerc"),
+			);
+		});
+
+		test("skips names missing from the search order", async () => {
+			await fs.writeFile(path.join(nestedDir, ".tsqlrefinerc"), "{}");
+
+			const source = await resolveConfigSource({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+				searchOrder: ["tsqlrefine.json"],
+			});
+
+			assert.deepStrictEqual(source, {
+				kind: "none",
+				startDir: nestedDir,
+				stopDir: path.resolve(workspaceRoot),
+				searchOrder: ["tsqlrefine.json"],
+			});
+		});
+
+		test("uses the tsqlrefine key of the root package.json", async () => {
+			await fs.writeFile(
+				path.join(workspaceRoot, "package.json"),
+				JSON.stringify({
+					name: "db",
+					tsqlrefine: { extends: "./base.json", rules: { a: "off" } },
+				}),
+			);
+
+			const source = await resolveConfigSource({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+			});
+			const resolved = await resolveConfigPath({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+			});
+
+			assert.strictEqual(source.kind, "packageJson");
+			assert.ok(resolved);
+			assert.strictEqual(path.dirname(resolved), storageDir);
+			assert.deepStrictEqual(JSON.parse(await fs.readFile(resolved, "utf8")), {
+				extends: path.join(path.resolve(workspaceRoot), "base.json"),
+				rules: { a: "off" },
+			});
+			assert.strictEqual(
+				getConfigSourcePath(resolved),
+				path.join(path.resolve(workspaceRoot), "package.json"),
+			);
+
+			await fs.writeFile(path.join(workspaceRoot, "package.json"), "{}");
+			clearConfigPathCache();
+			invalidateExtractedConfig(path.join(workspaceRoot, "package.json"));
+			await resolveConfigPath({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+			});
+			await assert.rejects(fs.stat(resolved));
+			assert.strictEqual(getConfigSourcePath(resolved), resolved);
+		});
+
+		test("reuses the extracted config until package.json changes", async () => {
+			const packageJsonPath = path.join(workspaceRoot, "package.json");
+			const writePackageJson = async (rules: Record<string, string>) => {
+				await fs.writeFile(
+					packageJsonPath,
+					JSON.stringify({ tsqlrefine: { rules } }),
+				);
+				clearConfigPathCache();
+			};
+			const options = { configuredConfigPath: "", filePath, workspaceRoot };
+			await writePackageJson({ a: "off" });
+			const resolved = await resolveConfigPath(options);
+			assert.ok(resolved);
+
+			await writePackageJson({ a: "error" });
+			await resolveConfigPath(options);
+			assert.deepStrictEqual(
+				JSON.parse(await fs.readFile(resolved, "utf8")).rules,
+				{ a: "off" },
+				"not read again without a watcher event",
+			);
+
+			invalidateExtractedConfig(packageJsonPath);
+			await resolveConfigPath(options);
+			assert.deepStrictEqual(
+				JSON.parse(await fs.readFile(resolved, "utf8")).rules,
+				{ a: "error" },
+			);
+		});
+
+		test("writes extracted configs to a private directory", async function () {
+			if (process.platform === "win32") {
+				this.skip();
+			}
+			await fs.writeFile(
+				path.join(workspaceRoot, "package.json"),
+				JSON.stringify({ tsqlrefine: {} }),
+			);
+
+			await resolveConfigPath({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+			});
+
+			assert.strictEqual((await fs.stat(storageDir)).mode & 0o777, 0o700);
+		});
+
+		test("ignores package.json without a tsqlrefine key or below the root", async () => {
+			await fs.writeFile(path.join(workspaceRoot, "package.json"), "{}");
+			await fs.writeFile(
+				path.join(nestedDir, "package.json"),
+				JSON.stringify({ tsqlrefine: {} }),
+			);
+
+			const resolved = await resolveConfigPath({
+				configuredConfigPath: "",
+				filePath,
+				workspaceRoot,
+			});
+
+			assert.strictEqual(resolved, undefined);
+		});
+	});
+
+	test("refuses a symbolic link as the extraction directory", async function () {
+		if (process.platform === "win32") {
+			this.skip();
+		}
+		const tempDir = await fs.mkdtemp(
+			path.join(os.tmpdir(), "tsqlrefine-test-"),
+		);
+		try {
+			const target = path.join(tempDir, "elsewhere");
+			const link = path.join(tempDir, "extracted-configs");
+			await fs.mkdir(target);
+			await fs.symlink(target, link);
+
+			await assert.rejects(ensurePrivateDirectory(link), /Refusing/);
+		} finally {
+			await rmWithRetry(tempDir);
+		}
+	});
+
+	test("removes extracted configs unused for a week", async () => {
+		const tempDir = await fs.mkdtemp(
+			path.join(os.tmpdir(), "tsqlrefine-test-"),
+		);
+		try {
+			const stale = path.join(tempDir, "stale.json");
+			const fresh = path.join(tempDir, "fresh.json");
+			await fs.writeFile(stale, "{}");
+			await fs.writeFile(fresh, "{}");
+			const eightDaysAgo = new Date(Date.now() - 8 * 24 * 60 * 60 * 1000);
+			await fs.utimes(stale, eightDaysAgo, eightDaysAgo);
+
+			await removeStaleExtractedConfigs(tempDir);
+
+			assert.deepStrictEqual(await fs.readdir(tempDir), ["fresh.json"]);
+		} finally {
+			await rmWithRetry(tempDir);
+		}
+	});
 });
@@ -0,0 +1,261 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { parseJsonc } from "../../server/config/jsonc";
+import { defaultSettings } from "../../server/config/settings";
+import {
+	buildRuleCatalog,
+	createRuleSeverityEdits,
+	normalizeRuleSeverity,
+	parseRuleList,
+	type RuleSeverity,
+	readConfigText,
+	readRuleSeverities,
+	UNCATEGORIZED,
+} from "../../server/rules/ruleCatalog";
+import { buildListRulesArgs } from "../../server/rules/runListRules";
+import { rmWithRetry } from "../helpers/cleanup";
+
+async function withTempDir(run: (dir: string) => Promise<void>) {
+	const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsqlrefine-test-"));
+	try {
+		await run(tempDir);
+	} finally {
+		await rmWithRetry(tempDir);
+	}
+}
+
+function applySeverity(
+	text: string,
+	ruleId: string,
+	severity: RuleSeverity | null,
+): string {
+	const document = TextDocument.create("file:///c.json", "json", 1, text);
+	return TextDocument.applyEdits(
+		document,
+		createRuleSeverityEdits("tsqlrefine.json", text, ruleId, severity),
+	);
+}
+
+suite("ruleCatalog", () => {
+	suite("normalizeRuleSeverity", () => {
+		test("accepts names, aliases and numeric severities", () => {
+			assert.strictEqual(normalizeRuleSeverity("Error"), "error");
+			assert.strictEqual(normalizeRuleSeverity("warn"), "warning");
+			assert.strictEqual(normalizeRuleSeverity("information"), "info");
+			assert.strictEqual(normalizeRuleSeverity("none"), "off");
+			assert.strictEqual(normalizeRuleSeverity(4), "hint");
+		});
+
+		test("returns null for unknown values", () => {
+			assert.strictEqual(normalizeRuleSeverity("fatal"), null);
+			assert.strictEqual(normalizeRuleSeverity(9), null);
+			assert.strictEqual(normalizeRuleSeverity(undefined), null);
+		});
+	});
+
+	suite("parseRuleList", () => {
+		test("parses rules and skips malformed entries", () => {
+			const rules = parseRuleList(
+				JSON.stringify({
+					rules: [
+						{
+							id: "avoid-select-star",
+							category: "Performance",
+							description: "Avoid SELECT *",
+							fixable: false,
+							defaultSeverity: "warning",
+							docsUrl: "https://example.com/avoid-select-star",
+						},
+						{ ruleId: "keyword-casing", fixable: true, severity: 3 },
+						{ category: "Broken" },
+						null,
+					],
+				}),
+			);
+
+			assert.deepStrictEqual(rules, [
+				{
+					id: "avoid-select-star",
+					category: "Performance",
+					description: "Avoid SELECT *",
+					docsUrl: "https://example.com/avoid-select-star",
+					fixable: false,
+					defaultSeverity: "warning",
+				},
+				{
+					id: "keyword-casing",
+					category: UNCATEGORIZED,
+					fixable: true,
+					defaultSeverity: "info",
+				},
+			]);
+		});
+
+		test("accepts a bare array", () => {
+			assert.strictEqual(parseRuleList('[{"id":"a"}]')?.length, 1);
+		});
+
+		test("returns null for output that is not a rule list", () => {
+			assert.strictEqual(parseRuleList("not json"), null);
+			assert.strictEqual(parseRuleList('{"files":[]}'), null);
+		});
+	});
+
+	suite("buildRuleCatalog", () => {
+		test("applies configured severities and sorts by category and ID", () => {
+			const catalog = buildRuleCatalog(
+				[
+					{
+						id: "b",
+						category: "Style",
+						fixable: true,
+						defaultSeverity: "info",
+					},
+					{
+						id: "a",
+						category: "Style",
+						fixable: false,
+						defaultSeverity: "warning",
+					},
+					{
+						id: "c",
+						category: "Performance",
+						fixable: false,
+						defaultSeverity: "error",
+					},
+				],
+				{ a: "off" },
+			);
+
+			assert.deepStrictEqual(
+				catalog.map((rule) => [rule.id, rule.severity, rule.configured]),
+				[
+					["c", "error", false],
+					["a", "off", true],
+					["b", "info", false],
+				],
+			);
+		});
+	});
+
+	suite("config file", () => {
+		test("reads severity strings and severity objects", async () => {
+			await withTempDir(async (dir) => {
+				const configPath = path.join(dir, "tsqlrefine.json");
+				await fs.writeFile(
+					configPath,
+					JSON.stringify({
+						rules: { a: "error", b: { severity: "off" }, c: "bogus" },
+					}),
+				);
+
+				assert.deepStrictEqual(await readRuleSeverities(configPath), {
+					a: "error",
+					b: "off",
+				});
+			});
+		});
+
+		test("treats a missing file as having no configured rules", async () => {
+			await withTempDir(async (dir) => {
+				assert.deepStrictEqual(
+					await readRuleSeverities(path.join(dir, "tsqlrefine.json")),
+					{},
+				);
+			});
+		});
+
+		test("edits a severity and keeps other settings", () => {
+			let text = JSON.stringify({
+				compatLevel: 160,
+				rules: { a: "error", b: { severity: "info", options: { x: 1 } } },
+			});
+
+			text = applySeverity(text, "b", "off");
+			text = applySeverity(text, "a", null);
+			text = applySeverity(text, "c", "hint");
+
+			assert.deepStrictEqual(JSON.parse(text), {
+				compatLevel: 160,
+				rules: { b: { severity: "off", options: { x: 1 } }, c: "hint" },
+			});
+		});
+
+		test("keeps comments and trailing commas", () => {
+			const text = [
+				"{",
+				"\t// Rules for the billing schema",
+				'\t"rules": {',
+				'\t\t"a": "error", // keep',
+				"\t},",
+				"}",
+			].join("\r\n");
+
+			assert.strictEqual(
+				applySeverity(text, "a", "off"),
+				text.replace('"a": "error"', '"a": "off"'),
+			);
+			const inserted = applySeverity(text, "b", "hint");
+			assert.ok(inserted.includes("// Rules for the billing schema\r\n"));
+			assert.ok(inserted.includes("// keep"));
+			assert.ok(inserted.includes('\t\t"b": "hint"'));
+			assert.deepStrictEqual(parseJsonc(inserted), {
+				rules: { a: "error", b: "hint" },
+			});
+		});
+
+		test("creates the config from empty text", () => {
+			assert.deepStrictEqual(JSON.parse(applySeverity("", "a", "off")), {
+				rules: { a: "off" },
+			});
+		});
+
+		test("makes no edits when removing an unconfigured rule", () => {
+			assert.deepStrictEqual(
+				createRuleSeverityEdits("tsqlrefine.json", "{}", "a", null),
+				[],
+			);
+		});
+
+		test("refuses a file that is not valid JSON", () => {
+			assert.throws(
+				() =>
+					createRuleSeverityEdits("tsqlrefine.json", "{ broken", "a", "off"),
+				/tsqlrefine\.json is not a valid JSON object; edit it manually/,
+			);
+		});
+
+		test("reads config text without a byte order mark", async () => {
+			await withTempDir(async (dir) => {
+				const configPath = path.join(dir, "tsqlrefine.json");
+				assert.strictEqual(await readConfigText(configPath), null);
+
+				await fs.writeFile(configPath, "\uFEFF{}");
+				assert.strictEqual(await readConfigText(configPath), "{}");
+			});
+		});
+	});
+
+	suite("buildListRulesArgs", () => {
+		test("requests JSON output with config and plugins", () => {
+			assert.deepStrictEqual(
+				buildListRulesArgs({
+					...defaultSettings,
+					configPath: "/ws/tsqlrefine.json",
+					allowPlugins: true,
+				}),
+				[
+					"list-rules",
+					"--output",
+					"json",
+					"-c",
+					"/ws/tsqlrefine.json",
+					"--allow-plugins",
+				],
+			);
+		});
+	});
+});
@@ -0,0 +1,111 @@
+import * as assert from "node:assert";
+import type { Diagnostic } from "vscode-languageserver/node";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import {
+	applyRuleOverrides,
+	findRuleOverride,
+} from "../../server/lint/ruleOverrides";
+
+function diagnostic(ruleId: string, category?: string): Diagnostic {
+	return {
+		message: ruleId,
+		severity: DiagnosticSeverity.Warning,
+		range: {
+			start: { line: 0, character: 0 },
+			end: { line: 0, character: 5 },
+		},
+		code: ruleId,
+		data: { fixable: false, ruleId, ...(category ? { category } : {}) },
+	};
+}
+
+suite("findRuleOverride", () => {
+	test("prefers an exact rule ID over globs and categories", () => {
+		const override = findRuleOverride(
+			{ "avoid-*": "off", Performance: "hint", "AVOID-SELECT-STAR": "error" },
+			"avoid-select-star",
+			"Performance",
+		);
+
+		assert.strictEqual(override, "error");
+	});
+
+	test("prefers a rule ID glob over the category", () => {
+		const override = findRuleOverride(
+			{ "avoid-*": "info", Performance: "hint" },
+			"avoid-select-star",
+			"Performance",
+		);
+
+		assert.strictEqual(override, "info");
+	});
+
+	test("uses the longest matching glob", () => {
+		const override = findRuleOverride(
+			{ "*": "hint", "avoid-*": "off", "avoid-select-*": "error" },
+			"avoid-select-star",
+			undefined,
+		);
+
+		assert.strictEqual(override, "error");
+	});
+
+	test("matches categories with globs, ignoring case", () => {
+		assert.strictEqual(
+			findRuleOverride({ "perf*": "off" }, "rule-x", "Performance"),
+			"off",
+		);
+		assert.strictEqual(
+			findRuleOverride({ "perf?": "off" }, "rule-x", "Performance"),
+			undefined,
+		);
+	});
+
+	test("treats other regex characters literally", () => {
+		assert.strictEqual(
+			findRuleOverride({ "rule.a": "off" }, "rule-a", undefined),
+			undefined,
+		);
+		assert.strictEqual(
+			findRuleOverride({ "rule.a": "off" }, "rule.a", undefined),
+			"off",
+		);
+	});
+});
+
+suite("applyRuleOverrides", () => {
+	test("changes severities and drops diagnostics turned off", () => {
+		const result = applyRuleOverrides(
+			[
+				diagnostic("avoid-select-star", "Performance"),
+				diagnostic("semicolon-termination", "Style"),
+				diagnostic("unused-variable", "Correctness"),
+			],
+			{ "avoid-select-star": "error", Style: "off" },
+		);
+
+		assert.deepStrictEqual(
+			result.map((item) => [item.code, item.severity]),
+			[
+				["avoid-select-star", DiagnosticSeverity.Error],
+				["unused-variable", DiagnosticSeverity.Warning],
+			],
+		);
+	});
+
+	test("falls back to the code when data has no rule ID", () => {
+		const result = applyRuleOverrides(
+			[{ ...diagnostic("rule-a"), data: { fixable: false } }],
+			{ "rule-a": "hint" },
+		);
+
+		assert.strictEqual(result[0]?.severity, DiagnosticSeverity.Hint);
+	});
+
+	test("returns diagnostics unchanged without overrides", () => {
+		const diagnostics = [diagnostic("rule-a")];
+
+		assert.strictEqual(applyRuleOverrides(diagnostics, {}), diagnostics);
+		assert.strictEqual(applyRuleOverrides(diagnostics, undefined), diagnostics);
+	});
+});
@@ -0,0 +1,134 @@
+import * as assert from "node:assert";
+import { install as installFakeTimers, type Clock } from "@sinonjs/fake-timers";
+import { RUN_HISTORY_MAX_STDERR_LENGTH } from "../../server/config/constants";
+import {
+	createRunRecord,
+	RunHistory,
+	type RunRecord,
+} from "../../server/state/runHistory";
+import type { ProcessRunResult } from "../../server/shared/types";
+
+function createResult(
+	overrides: Partial<ProcessRunResult> = {},
+): ProcessRunResult {
+	return {
+		stdout: "",
+		stderr: "",
+		exitCode: 0,
+		timedOut: false,
+		cancelled: false,
+		...overrides,
+	};
+}
+
+function createRun(uri: string): RunRecord {
+	return createRunRecord({
+		operation: "lint",
+		uri,
+		startedAt: Date.now(),
+		bytes: 0,
+		result: createResult(),
+	});
+}
+
+suite("runHistory", () => {
+	suite("createRunRecord", () => {
+		let clock: Clock;
+
+		setup(() => {
+			clock = installFakeTimers({ now: 1000 });
+		});
+
+		teardown(() => {
+			clock.uninstall();
+		});
+
+		test("measures the duration up to the call", () => {
+			clock.tick(250);
+
+			const run = createRunRecord({
+				operation: "format",
+				uri: "file:///a.sql",
+				startedAt: 1000,
+				bytes: 12,
+				result: createResult({ commandLine: ["tsqlrefine", "format"] }),
+			});
+
+			assert.deepStrictEqual(run, {
+				operation: "format",
+				uri: "file:///a.sql",
+				files: 1,
+				reason: null,
+				args: ["tsqlrefine", "format"],
+				exitCode: 0,
+				startedAt: 1000,
+				durationMs: 250,
+				bytes: 12,
+				diagnostics: null,
+				timedOut: false,
+				cancelled: false,
+				stderr: "",
+			});
+		});
+
+		test("truncates stderr and marks caller aborts as cancelled", () => {
+			const run = createRunRecord({
+				operation: "lint",
+				uri: "file:///a.sql",
+				reason: "type",
+				startedAt: 1000,
+				bytes: 0,
+				result: createResult({
+					stderr: "x".repeat(RUN_HISTORY_MAX_STDERR_LENGTH + 10),
+				}),
+				cancelled: true,
+			});
+
+			assert.strictEqual(run.stderr.length, RUN_HISTORY_MAX_STDERR_LENGTH);
+			assert.strictEqual(run.cancelled, true);
+			assert.strictEqual(run.reason, "type");
+		});
+	});
+
+	suite("RunHistory", () => {
+		test("returns runs oldest first", () => {
+			const history = new RunHistory(3);
+			history.record(createRun("a"));
+			history.record(createRun("b"));
+
+			assert.deepStrictEqual(
+				history.getRecords().map((run) => run.uri),
+				["a", "b"],
+			);
+			assert.strictEqual(history.size, 2);
+		});
+
+		test("drops the oldest run once full", () => {
+			const history = new RunHistory(3);
+			for (const uri of ["a", "b", "c", "d", "e"]) {
+				history.record(createRun(uri));
+			}
+
+			assert.deepStrictEqual(
+				history.getRecords().map((run) => run.uri),
+				["c", "d", "e"],
+			);
+			assert.strictEqual(history.size, 3);
+		});
+
+		test("clear forgets every run", () => {
+			const history = new RunHistory(2);
+			history.record(createRun("a"));
+			history.record(createRun("b"));
+			history.record(createRun("c"));
+
+			history.clear();
+			history.record(createRun("d"));
+
+			assert.deepStrictEqual(
+				history.getRecords().map((run) => run.uri),
+				["d"],
+			);
+		});
+	});
+});
@@ -0,0 +1,133 @@
+import * as assert from "node:assert";
+import {
+	formatRunDescription,
+	formatRunHistoryExport,
+	getRunStatus,
+	type RunRecord,
+	sortRunRecords,
+} from "../../client/runHistoryFormat";
+
+function createRecord(overrides: Partial<RunRecord> = {}): RunRecord {
+	return {
+		operation: "lint",
+		uri: "file:///a.sql",
+		files: 1,
+		reason: "save",
+		args: ["tsqlrefine", "lint", "--stdin"],
+		exitCode: 0,
+		startedAt: 0,
+		durationMs: 100,
+		bytes: 10,
+		diagnostics: 0,
+		timedOut: false,
+		cancelled: false,
+		stderr: "",
+		...overrides,
+	};
+}
+
+suite("runHistoryFormat", () => {
+	suite("sortRunRecords", () => {
+		test("sorts by the column, newest first on ties", () => {
+			const records = [
+				createRecord({ uri: "a", startedAt: 1, durationMs: 50 }),
+				createRecord({ uri: "b", startedAt: 2, durationMs: 200 }),
+				createRecord({ uri: "c", startedAt: 3, durationMs: 50 }),
+			];
+
+			assert.deepStrictEqual(
+				sortRunRecords(records, "durationMs").map((run) => run.uri),
+				["b", "c", "a"],
+			);
+			assert.deepStrictEqual(
+				sortRunRecords(records, "startedAt").map((run) => run.uri),
+				["c", "b", "a"],
+			);
+			assert.deepStrictEqual(
+				records.map((run) => run.uri),
+				["a", "b", "c"],
+			);
+		});
+
+		test("puts runs without a diagnostic count last", () => {
+			const records = [
+				createRecord({ uri: "format", diagnostics: null, startedAt: 2 }),
+				createRecord({ uri: "clean", diagnostics: 0, startedAt: 1 }),
+				createRecord({ uri: "issues", diagnostics: 3, startedAt: 0 }),
+			];
+
+			assert.deepStrictEqual(
+				sortRunRecords(records, "diagnostics").map((run) => run.uri),
+				["issues", "clean", "format"],
+			);
+		});
+	});
+
+	suite("getRunStatus", () => {
+		test("treats lint exit code 1 as success", () => {
+			assert.strictEqual(getRunStatus(createRecord({ exitCode: 1 })), "ok");
+			assert.strictEqual(
+				getRunStatus(createRecord({ operation: "format", exitCode: 1 })),
+				"failed",
+			);
+			assert.strictEqual(
+				getRunStatus(createRecord({ exitCode: null })),
+				"failed",
+			);
+		});
+
+		test("reports timeouts before cancellation", () => {
+			assert.strictEqual(
+				getRunStatus(
+					createRecord({ exitCode: null, timedOut: true, cancelled: true }),
+				),
+				"timedOut",
+			);
+			assert.strictEqual(
+				getRunStatus(createRecord({ exitCode: null, cancelled: true })),
+				"cancelled",
+			);
+		});
+	});
+
+	suite("formatRunDescription", () => {
+		test("summarizes a successful lint", () => {
+			assert.strictEqual(
+				formatRunDescription(createRecord({ bytes: 2048, diagnostics: 4 })),
+				"100 ms · 2.0 KB · save · 4 diagnostics",
+			);
+		});
+
+		test("summarizes a failed batch run", () => {
+			assert.strictEqual(
+				formatRunDescription(
+					createRecord({ files: 3, reason: "manual", exitCode: 2 }),
+				),
+				"100 ms · 10 B · 3 files · manual · exit 2",
+			);
+		});
+	});
+
+	suite("formatRunHistoryExport", () => {
+		test("writes ISO timestamps", () => {
+			const exported = JSON.parse(
+				formatRunHistoryExport(
+					[createRecord({ startedAt: Date.UTC(2024, 0, 2, 3, 4, 5) })],
+					new Date(Date.UTC(2024, 0, 3)),
+				),
+			);
+
+			assert.strictEqual(exported.exportedAt, "2024-01-03T00:00:00.000Z");
+			assert.strictEqual(exported.runs.length, 1);
+			assert.strictEqual(
+				exported.runs[0].startedAt,
+				"2024-01-02T03:04:05.000Z",
+			);
+			assert.deepStrictEqual(exported.runs[0].args, [
+				"tsqlrefine",
+				"lint",
+				"--stdin",
+			]);
+		});
+	});
+});
@@ -2,6 +2,7 @@ import * as assert from "node:assert";
 import type { TsqlRefineSettings } from "../../server/config/settings";
 import {
 	buildArgs,
+	buildBatchArgs,
 	type RunLinterOptions,
 	runLinter,
 	verifyTsqlRefineInstallation,
@@ -124,6 +125,22 @@ suite("runLinter", () => {
 			assert.strictEqual(args.includes("--allow-plugins"), false);
 		});
 	});
+
+	suite("argument building (via buildBatchArgs)", () => {
+		test("passes file paths instead of --stdin", () => {
+			const args = buildBatchArgs({
+				cwd: process.cwd(),
+				settings: createTestSettings(),
+				signal: new AbortController().signal,
+				filePaths: ["/ws/a.sql", "/ws/b.sql"],
+			});
+
+			assert.strictEqual(args.includes("--stdin"), false);
+			assert.deepStrictEqual(args.slice(-2), ["/ws/a.sql", "/ws/b.sql"]);
+			const outputIndex = args.indexOf("--output");
+			assert.strictEqual(args[outputIndex + 1], "json");
+		});
+	});
 });
 
 suite("verifyTsqlRefineInstallation", () => {
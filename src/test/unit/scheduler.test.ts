@@ -1,6 +1,10 @@
 import * as assert from "node:assert";
 import { install as installFakeTimers, type Clock } from "@sinonjs/fake-timers";
-import { LintScheduler, type PendingLint } from "../../server/lint/scheduler";
+import {
+	type LintPriority,
+	LintScheduler,
+	type PendingLint,
+} from "../../server/lint/scheduler";
 
 let clock: Clock;
 
@@ -583,5 +587,133 @@ suite("scheduler", () => {
 			await advance(10);
 			assert.strictEqual(calls.length, 1);
 		});
+
+		test("runs queued lints of the active editor, then visible editors, first", async () => {
+			const versions = new Map(
+				["busy", "background", "visible", "active"].map((uri) => [uri, 1]),
+			);
+			const { runLint, calls } = createMockRunLint();
+			const priorities = new Map<string, LintPriority>([
+				["visible", "visible"],
+			]);
+			let releaseBusy: (() => void) | undefined;
+			const busy = new Promise<void>((resolve) => {
+				releaseBusy = resolve;
+			});
+
+			const scheduler = new LintScheduler({
+				maxConcurrentRuns: 1,
+				getDocumentVersion: createMockGetVersion(versions),
+				getPriority: (uri) => priorities.get(uri) ?? "background",
+				runLint: async (uri, pending) => {
+					if (uri === "busy") {
+						await busy;
+					}
+					return runLint(uri, pending);
+				},
+			});
+
+			scheduler.requestLint("busy", "open", 1);
+			scheduler.requestLint("background", "open", 1);
+			scheduler.requestLint("visible", "open", 1);
+			scheduler.requestLint("active", "open", 1);
+			// Focus moves after the lints were queued.
+			priorities.set("active", "active");
+			await advance(10);
+
+			assert.deepStrictEqual(
+				scheduler.getDebugState().queued.map((entry) => entry.uri),
+				["active", "visible", "background"],
+			);
+			releaseBusy?.();
+			await advance(10);
+
+			assert.deepStrictEqual(
+				calls.map((call) => call.uri),
+				["busy", "active", "visible", "background"],
+			);
+		});
+
+		test("getDebugState reports running, queued and debounced lints", async () => {
+			const versions = new Map([
+				["running.sql", 1],
+				["queued.sql", 1],
+				["typing.sql", 1],
+			]);
+			const scheduler = new LintScheduler({
+				maxConcurrentRuns: 1,
+				getDocumentVersion: createMockGetVersion(versions),
+				runLint: async () => {
+					await sleep(100);
+					return 0;
+				},
+			});
+
+			scheduler.requestLint("running.sql", "save", 1);
+			scheduler.requestLint("queued.sql", "open", 1);
+			scheduler.requestLint("typing.sql", "type", 1, 500);
+			await advance(40);
+
+			const state = scheduler.getDebugState();
+			assert.deepStrictEqual(state.running, [
+				{ uri: "running.sql", reason: "save", elapsedMs: 40 },
+			]);
+			assert.deepStrictEqual(state.queued, [
+				{ uri: "queued.sql", reason: "open", priority: "background" },
+			]);
+			assert.deepStrictEqual(state.debouncing, ["typing.sql"]);
+			assert.strictEqual(state.concurrency.limit, 1);
+		});
+
+		test("isIdle is false while lints run, wait or debounce", async () => {
+			const scheduler = new LintScheduler({
+				maxConcurrentRuns: 1,
+				getDocumentVersion: () => 1,
+				runLint: async () => {
+					await sleep(100);
+					return 0;
+				},
+			});
+			assert.strictEqual(scheduler.isIdle(), true);
+
+			scheduler.requestLint("typing.sql", "type", 1, 50);
+			assert.strictEqual(scheduler.isIdle(), false);
+			await advance(60);
+			assert.strictEqual(scheduler.isIdle(), false);
+			await advance(100);
+
+			assert.strictEqual(scheduler.isIdle(), true);
+		});
+
+		test("setMaxConcurrentRuns starts queued lints when the limit grows", async () => {
+			const versions = new Map([
+				["file1.sql", 1],
+				["file2.sql", 1],
+			]);
+			const { runLint, calls } = createMockRunLint();
+			const scheduler = new LintScheduler({
+				maxConcurrentRuns: 1,
+				getDocumentVersion: createMockGetVersion(versions),
+				runLint: async (uri, pending) => {
+					calls.push({ uri, pending });
+					await sleep(1000);
+					return runLint(uri, pending);
+				},
+			});
+
+			scheduler.requestLint("file1.sql", "save", 1);
+			scheduler.requestLint("file2.sql", "save", 1);
+			await advance(10);
+			assert.strictEqual(calls.length, 1);
+
+			scheduler.setMaxConcurrentRuns(2);
+			await advance(10);
+
+			assert.deepStrictEqual(
+				calls.map((call) => call.uri),
+				["file1.sql", "file2.sql"],
+			);
+			assert.strictEqual(scheduler.getDebugState().concurrency.max, 2);
+		});
 	});
 });
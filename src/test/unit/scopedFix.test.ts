@@ -0,0 +1,147 @@
+import * as assert from "node:assert";
+import type { Diagnostic } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+	createScopedFixEdits,
+	selectOtherFixableDiagnostics,
+	selectRuleDiagnostics,
+} from "../../server/fix/scopedFix";
+
+function createDiagnostic(
+	line: number,
+	ruleId: string,
+	source = "tsqlrefine",
+): Diagnostic {
+	return {
+		message: ruleId,
+		range: {
+			start: { line, character: 0 },
+			end: { line, character: 3 },
+		},
+		source,
+		data: { fixable: true, ruleId },
+	};
+}
+
+suite("scopedFix", () => {
+	suite("selectRuleDiagnostics", () => {
+		test("selects tsqlrefine diagnostics for the rule", () => {
+			const diagnostics = [
+				createDiagnostic(0, "keyword-casing"),
+				createDiagnostic(1, "semicolon"),
+				createDiagnostic(2, "keyword-casing", "other"),
+			];
+
+			const selected = selectRuleDiagnostics(diagnostics, "keyword-casing");
+
+			assert.deepStrictEqual(selected, [diagnostics[0]]);
+		});
+
+		test("restricts selection to diagnostics overlapping a range", () => {
+			const diagnostics = [
+				createDiagnostic(0, "keyword-casing"),
+				createDiagnostic(3, "keyword-casing"),
+			];
+
+			const selected = selectRuleDiagnostics(diagnostics, "keyword-casing", {
+				start: { line: 3, character: 1 },
+				end: { line: 3, character: 1 },
+			});
+
+			assert.deepStrictEqual(selected, [diagnostics[1]]);
+		});
+	});
+
+	suite("selectOtherFixableDiagnostics", () => {
+		test("selects fixable diagnostics of other rules", () => {
+			const diagnostics = [
+				createDiagnostic(0, "keyword-casing"),
+				createDiagnostic(1, "semicolon"),
+				{ ...createDiagnostic(2, "naming"), data: { ruleId: "naming" } },
+			];
+
+			assert.deepStrictEqual(
+				selectOtherFixableDiagnostics(diagnostics, "keyword-casing"),
+				[diagnostics[1]],
+			);
+		});
+	});
+
+	suite("createScopedFixEdits", () => {
+		test("keeps only changes overlapping the target ranges", () => {
+			const document = TextDocument.create(
+				"file:///test.sql",
+				"sql",
+				1,
+				"select 1\nSELECT 2\nselect 3\n",
+			);
+			const fixedText = "SELECT 1\nSELECT 2;\nSELECT 3\n";
+
+			const { edits } = createScopedFixEdits(document, fixedText, [
+				createDiagnostic(2, "keyword-casing").range,
+			]);
+
+			assert.strictEqual(
+				TextDocument.applyEdits(document, edits),
+				"select 1\nSELECT 2\nSELECT 3\n",
+			);
+		});
+
+		test("applies every change when all lines are targeted", () => {
+			const document = TextDocument.create(
+				"file:///test.sql",
+				"sql",
+				1,
+				"select 1\nselect 2",
+			);
+			const fixedText = "SELECT 1\nSELECT 2";
+
+			const { edits } = createScopedFixEdits(document, fixedText, [
+				createDiagnostic(0, "keyword-casing").range,
+				createDiagnostic(1, "keyword-casing").range,
+			]);
+
+			assert.strictEqual(TextDocument.applyEdits(document, edits), fixedText);
+		});
+
+		test("returns no edits without target ranges", () => {
+			const document = TextDocument.create(
+				"file:///test.sql",
+				"sql",
+				1,
+				"select 1",
+			);
+
+			assert.deepStrictEqual(
+				createScopedFixEdits(document, "SELECT 1", []).edits,
+				[],
+			);
+		});
+
+		test("skips changes on lines another fixable rule reports", () => {
+			const document = TextDocument.create(
+				"file:///test.sql",
+				"sql",
+				1,
+				"select 1\nselect 2\n",
+			);
+			const fixedText = "SELECT 1;\nSELECT 2\n";
+
+			const { edits, skipped } = createScopedFixEdits(
+				document,
+				fixedText,
+				[
+					createDiagnostic(0, "keyword-casing").range,
+					createDiagnostic(1, "keyword-casing").range,
+				],
+				[createDiagnostic(0, "semicolon").range],
+			);
+
+			assert.strictEqual(skipped, 1);
+			assert.strictEqual(
+				TextDocument.applyEdits(document, edits),
+				"select 1\nSELECT 2\n",
+			);
+		});
+	});
+});
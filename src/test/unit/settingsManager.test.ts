@@ -378,5 +378,188 @@ suite("SettingsManager", () => {
 			await manager.refreshSettings();
 			assert.strictEqual(manager.getSettings().debounceMs, 0);
 		});
+
+		test("keeps known configSearchOrder names in order without duplicates", async () => {
+			const { connection } = createMockConnection({
+				configSearchOrder: [
+					".tsqlrefinerc",
+					"unknown.json",
+					"tsqlrefine.json",
+					".tsqlrefinerc",
+				],
+			});
+			const manager = new SettingsManager(connection);
+
+			await manager.refreshSettings();
+			assert.deepStrictEqual(manager.getSettings().configSearchOrder, [
+				".tsqlrefinerc",
+				"tsqlrefine.json",
+			]);
+		});
+
+		test("normalizes empty or invalid configSearchOrder to default", async () => {
+			for (const configSearchOrder of [[], "tsqlrefine.json", ["x"]]) {
+				const { connection } = createMockConnection({ configSearchOrder });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.deepStrictEqual(
+					manager.getSettings().configSearchOrder,
+					defaultSettings.configSearchOrder,
+				);
+			}
+		});
+
+		test("keeps string embeddedSqlMarkers and defaults invalid values", async () => {
+			for (const [embeddedSqlMarkers, expected] of [
+				[["tsql", 1, ""], ["tsql"]],
+				["tsql", defaultSettings.embeddedSqlMarkers],
+			] as const) {
+				const { connection } = createMockConnection({ embeddedSqlMarkers });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.deepStrictEqual(
+					manager.getSettings().embeddedSqlMarkers,
+					expected,
+				);
+			}
+		});
+
+		test("defaults an unknown notebookLintMode to cell", async () => {
+			for (const [notebookLintMode, expected] of [
+				["notebook", "notebook"],
+				["cell", "cell"],
+				["all", "cell"],
+			] as const) {
+				const { connection } = createMockConnection({ notebookLintMode });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.strictEqual(manager.getSettings().notebookLintMode, expected);
+			}
+		});
+
+		test("defaults an unknown diagnosticsScope to all", async () => {
+			for (const [diagnosticsScope, expected] of [
+				["changedLines", "changedLines"],
+				["changedFiles", "changedFiles"],
+				["changed", "all"],
+			] as const) {
+				const { connection } = createMockConnection({ diagnosticsScope });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.strictEqual(manager.getSettings().diagnosticsScope, expected);
+			}
+		});
+
+		test("trims diagnosticsScopeBase and drops it when empty", async () => {
+			for (const [diagnosticsScopeBase, expected] of [
+				[" main ", "main"],
+				["  ", undefined],
+			] as const) {
+				const { connection } = createMockConnection({ diagnosticsScopeBase });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.strictEqual(
+					manager.getSettings().diagnosticsScopeBase,
+					expected,
+				);
+			}
+		});
+
+		test("keeps rule overrides with a known severity and trims their keys", async () => {
+			const { connection } = createMockConnection({
+				ruleOverrides: {
+					" avoid-select-star ": "error",
+					Performance: "off",
+					"rule-x": "critical",
+					"  ": "hint",
+				},
+			});
+			const manager = new SettingsManager(connection);
+
+			await manager.refreshSettings();
+			assert.deepStrictEqual(manager.getSettings().ruleOverrides, {
+				"avoid-select-star": "error",
+				Performance: "off",
+			});
+		});
+
+		test("keeps diagnostic tag mappings with a known tag", async () => {
+			const { connection } = createMockConnection({
+				diagnosticTags: {
+					" Deprecated ": "deprecated",
+					"unused-*": "unnecessary",
+					Style: "faded",
+				},
+			});
+			const manager = new SettingsManager(connection);
+
+			await manager.refreshSettings();
+			assert.deepStrictEqual(manager.getSettings().diagnosticTags, {
+				Deprecated: "deprecated",
+				"unused-*": "unnecessary",
+			});
+		});
+
+		test("falls back to automatic maxConcurrentRuns for invalid values", async () => {
+			for (const maxConcurrentRuns of [-1, "4", Number.NaN]) {
+				const { connection } = createMockConnection({ maxConcurrentRuns });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.strictEqual(manager.getSettings().maxConcurrentRuns, 0);
+			}
+		});
+
+		test("keeps runOnOpen visibleOnly and replaces invalid values", async () => {
+			for (const [runOnOpen, expected] of [
+				["visibleOnly", "visibleOnly"],
+				[false, false],
+				["always", true],
+			]) {
+				const { connection } = createMockConnection({ runOnOpen });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.strictEqual(manager.getSettings().runOnOpen, expected);
+			}
+		});
+
+		test("falls back to the memory lint cache for invalid values", async () => {
+			for (const lintCache of ["disk", true, undefined]) {
+				const { connection } = createMockConnection({ lintCache });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.strictEqual(manager.getSettings().lintCache, "memory");
+			}
+		});
+
+		test("replaces invalid rule overrides with an empty map", async () => {
+			const { connection } = createMockConnection({
+				ruleOverrides: ["off"],
+			});
+			const manager = new SettingsManager(connection);
+
+			await manager.refreshSettings();
+			assert.deepStrictEqual(manager.getSettings().ruleOverrides, {});
+		});
+
+		test("trims requiredVersion and drops it when empty", async () => {
+			for (const [requiredVersion, expected] of [
+				[" 1.4 ", "1.4"],
+				["  ", undefined],
+			] as const) {
+				const { connection } = createMockConnection({ requiredVersion });
+				const manager = new SettingsManager(connection);
+
+				await manager.refreshSettings();
+				assert.strictEqual(manager.getSettings().requiredVersion, expected);
+			}
+		});
 	});
 });
@@ -0,0 +1,89 @@
+import * as assert from "node:assert";
+import {
+	findBatchForLine,
+	findJoinedBatch,
+	isBatchSeparator,
+	joinBatches,
+	splitBatches,
+} from "../../server/shared/sqlBatches";
+
+suite("sqlBatches", () => {
+	suite("isBatchSeparator", () => {
+		test("matches GO in any case with surrounding whitespace", () => {
+			assert.ok(isBatchSeparator("GO"));
+			assert.ok(isBatchSeparator("  go  "));
+			assert.ok(isBatchSeparator("Go 5"));
+			assert.ok(isBatchSeparator("GO -- next batch"));
+		});
+
+		test("does not match GO inside a statement", () => {
+			assert.ok(!isBatchSeparator("GOTO label"));
+			assert.ok(!isBatchSeparator("SELECT 1 GO"));
+			assert.ok(!isBatchSeparator("-- GO"));
+		});
+	});
+
+	suite("splitBatches", () => {
+		test("returns a single batch without separators", () => {
+			assert.deepStrictEqual(splitBatches(["SELECT 1;", "SELECT 2;"]), [
+				{ startLine: 0, endLine: 2 },
+			]);
+		});
+
+		test("splits on separator lines and excludes them", () => {
+			assert.deepStrictEqual(
+				splitBatches(["SELECT 1;", "GO", "SELECT 2;", "GO", ""]),
+				[
+					{ startLine: 0, endLine: 1 },
+					{ startLine: 2, endLine: 3 },
+					{ startLine: 4, endLine: 5 },
+				],
+			);
+		});
+	});
+
+	suite("findBatchForLine", () => {
+		test("finds the batch containing a line", () => {
+			const lines = ["SELECT 1;", "GO", "SELECT 2;", "SELECT 3;"];
+
+			assert.deepStrictEqual(findBatchForLine(lines, 3), {
+				startLine: 2,
+				endLine: 4,
+			});
+		});
+
+		test("assigns a separator line to the batch it closes", () => {
+			const lines = ["SELECT 1;", "GO", "SELECT 2;"];
+
+			assert.deepStrictEqual(findBatchForLine(lines, 1), {
+				startLine: 0,
+				endLine: 1,
+			});
+		});
+	});
+
+	suite("joinBatches", () => {
+		test("joins scripts with GO lines and records their spans", () => {
+			const joined = joinBatches(["SELECT 1;", "SELECT 2;\n", "SELECT 3;"]);
+
+			assert.strictEqual(
+				joined.text,
+				"SELECT 1;\nGO\nSELECT 2;\nGO\nSELECT 3;",
+			);
+			assert.deepStrictEqual(joined.spans, [
+				{ start: 0, end: 9 },
+				{ start: 13, end: 23 },
+				{ start: 26, end: 35 },
+			]);
+		});
+
+		test("finds the script containing an offset", () => {
+			const joined = joinBatches(["SELECT 1;", "SELECT 2;"]);
+
+			assert.strictEqual(findJoinedBatch(joined, 3), 0);
+			assert.strictEqual(findJoinedBatch(joined, 9), 0);
+			assert.strictEqual(findJoinedBatch(joined, 14), 1);
+			assert.strictEqual(findJoinedBatch(joined, 11), -1);
+		});
+	});
+});
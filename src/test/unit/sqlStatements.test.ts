@@ -0,0 +1,115 @@
+import * as assert from "node:assert";
+import {
+	expandToStatements,
+	findStatementSpans,
+} from "../../server/shared/sqlStatements";
+
+function statementTexts(text: string): string[] {
+	return findStatementSpans(text).map((span) =>
+		text.slice(span.start, span.end),
+	);
+}
+
+suite("sqlStatements", () => {
+	suite("findStatementSpans", () => {
+		test("splits on semicolons", () => {
+			assert.deepStrictEqual(
+				statementTexts("SELECT 1;\n  SELECT 2; SELECT 3;"),
+				["SELECT 1;", "SELECT 2;", "SELECT 3;"],
+			);
+		});
+
+		test("ignores semicolons in strings, identifiers and comments", () => {
+			const text = [
+				"SELECT 'a;b', [c;d], \"e;f\" -- g;h",
+				"/* i; /* nested; */ j; */ FROM t;",
+			].join("\n");
+
+			assert.deepStrictEqual(statementTexts(text), [text]);
+		});
+
+		test("keeps BEGIN...END and CASE...END blocks whole", () => {
+			const block = "IF @x = 1\nBEGIN\n  SELECT 1;\n  SELECT 2;\nEND;";
+			const caseExpr = "SELECT CASE WHEN 1 = 1 THEN 'a;' END;";
+
+			assert.deepStrictEqual(statementTexts(`${block}\n${caseExpr}`), [
+				block,
+				caseExpr,
+			]);
+		});
+
+		test("does not treat BEGIN TRANSACTION as a block", () => {
+			assert.deepStrictEqual(
+				statementTexts("BEGIN TRAN;\nUPDATE t SET a = 1;\nCOMMIT;"),
+				["BEGIN TRAN;", "UPDATE t SET a = 1;", "COMMIT;"],
+			);
+		});
+
+		test("ends unterminated statements at GO separators", () => {
+			const text = "SELECT 1\nGO\nSELECT 2\r\ngo\r\n";
+
+			assert.deepStrictEqual(statementTexts(text), ["SELECT 1", "SELECT 2"]);
+			assert.deepStrictEqual(
+				findStatementSpans(text).map((span) => span.terminated),
+				[false, false],
+			);
+		});
+
+		test("marks semicolon-terminated statements", () => {
+			assert.deepStrictEqual(
+				findStatementSpans("SELECT 1;\nBEGIN\n  SELECT 2;").map(
+					(span) => span.terminated,
+				),
+				[true, false],
+			);
+		});
+	});
+
+	suite("expandToStatements", () => {
+		const text = "SELECT 1;\n  SELECT\n    2;\nSELECT 3;";
+
+		test("grows a partial selection to whole statement lines", () => {
+			const start = text.indexOf("SELECT\n") + 2;
+			const span = expandToStatements(text, { start, end: start + 1 });
+
+			assert.ok(span);
+			assert.strictEqual(text.slice(span.start, span.end), "  SELECT\n    2;");
+		});
+
+		test("includes other statements sharing a line", () => {
+			const source = "SELECT 1; SELECT\n2;\nSELECT 3;";
+			const span = expandToStatements(source, { start: 0, end: 3 });
+
+			assert.ok(span);
+			assert.strictEqual(
+				source.slice(span.start, span.end),
+				"SELECT 1; SELECT\n2;",
+			);
+		});
+
+		test("grows an empty selection to the statement containing it", () => {
+			const offset = text.indexOf("3");
+			const span = expandToStatements(text, { start: offset, end: offset });
+
+			assert.ok(span);
+			assert.strictEqual(text.slice(span.start, span.end), "SELECT 3;");
+		});
+
+		test("stops before CRLF line terminators", () => {
+			const source = "SELECT 1;\r\nSELECT 2;\r\n";
+			const span = expandToStatements(source, { start: 0, end: 2 });
+
+			assert.deepStrictEqual(span, { start: 0, end: 9 });
+		});
+
+		test("returns null for a selection without statements", () => {
+			assert.strictEqual(
+				expandToStatements("SELECT 1;\n\n\nSELECT 2;", {
+					start: 10,
+					end: 11,
+				}),
+				null,
+			);
+		});
+	});
+});
@@ -40,6 +40,17 @@ suite("statusBar", () => {
 			assert.strictEqual(text, "$(warning) TSQLRefine: 2E 1W");
 		});
 
+		test("appends the baselined issue count", () => {
+			assert.strictEqual(
+				formatStatusBarText(zeroCounts, false, false, 12),
+				"$(check) TSQLRefine (12 baselined)",
+			);
+			assert.strictEqual(
+				formatStatusBarText({ ...zeroCounts, errors: 1 }, false, false, 3),
+				"$(warning) TSQLRefine: 1E (3 baselined)",
+			);
+		});
+
 		test("shows spinner when running", () => {
 			const text = formatStatusBarText(zeroCounts, true, false);
 			assert.strictEqual(text, "$(sync~spin) TSQLRefine");
@@ -100,5 +111,33 @@ suite("statusBar", () => {
 			const tooltip = formatStatusBarTooltip(zeroCounts);
 			assert.ok(tooltip.startsWith("TSQLRefine"));
 		});
+
+		test("shows the tool version", () => {
+			const tooltip = formatStatusBarTooltip(zeroCounts, {
+				version: "1.4.2",
+				requiredVersion: "1.4",
+				matches: true,
+			});
+			assert.ok(tooltip.endsWith("\ntsqlrefine 1.4.2"));
+		});
+
+		test("shows the baselined issue count", () => {
+			const tooltip = formatStatusBarTooltip(zeroCounts, undefined, 12);
+			assert.ok(tooltip.endsWith("\nBaselined: 12"));
+		});
+
+		test("shows the number of rule overrides", () => {
+			const tooltip = formatStatusBarTooltip(zeroCounts, undefined, 0, 2);
+			assert.ok(tooltip.endsWith("\nRule overrides: 2"));
+		});
+
+		test("notes a required version mismatch", () => {
+			const tooltip = formatStatusBarTooltip(zeroCounts, {
+				version: "1.3.0",
+				requiredVersion: "1.4",
+				matches: false,
+			});
+			assert.ok(tooltip.endsWith("\ntsqlrefine 1.3.0 (required: 1.4)"));
+		});
 	});
 });
@@ -0,0 +1,164 @@
+import * as assert from "node:assert";
+import type { CodeAction, Diagnostic } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { createSuppressCodeActions } from "../../server/lint/suppressActions";
+
+const uri = "file:///test.sql";
+
+function createDiagnostic(line: number, ruleId?: string): Diagnostic {
+	return {
+		message: "message",
+		range: {
+			start: { line, character: 4 },
+			end: { line, character: 10 },
+		},
+		source: "tsqlrefine",
+		data: ruleId ? { fixable: false, ruleId } : { fixable: false },
+	};
+}
+
+function applyAction(document: TextDocument, action: CodeAction): string {
+	return TextDocument.applyEdits(document, action.edit?.changes?.[uri] ?? []);
+}
+
+function findAction(actions: CodeAction[], suffix: string): CodeAction {
+	const action = actions.find((candidate) => candidate.title.endsWith(suffix));
+	assert.ok(action, `missing action ending with "${suffix}"`);
+	return action;
+}
+
+suite("suppressActions", () => {
+	test("disables the rule for the line, keeping indentation", () => {
+		const document = TextDocument.create(
+			uri,
+			"sql",
+			1,
+			"BEGIN\n    SELECT * FROM t;\nEND\n",
+		);
+
+		const actions = createSuppressCodeActions(document, [
+			createDiagnostic(1, "avoid-select-star"),
+		]);
+
+		assert.strictEqual(
+			applyAction(document, findAction(actions, "for this line")),
+			"BEGIN\n    -- tsqlrefine-disable-next-line avoid-select-star\n    SELECT * FROM t;\nEND\n",
+		);
+	});
+
+	test("wraps the containing batch in disable/enable comments", () => {
+		const document = TextDocument.create(
+			uri,
+			"sql",
+			1,
+			"SELECT 1;\nGO\nSELECT * FROM t;\nGO\nSELECT 2;\n",
+		);
+
+		const actions = createSuppressCodeActions(document, [
+			createDiagnostic(2, "avoid-select-star"),
+		]);
+
+		assert.strictEqual(
+			applyAction(document, findAction(actions, "for this statement/batch")),
+			"SELECT 1;\nGO\n-- tsqlrefine-disable avoid-select-star\nSELECT * FROM t;\n-- tsqlrefine-enable avoid-select-star\nGO\nSELECT 2;\n",
+		);
+	});
+
+	test("closes the final batch before the trailing newline", () => {
+		const document = TextDocument.create(uri, "sql", 1, "SELECT * FROM t;\r\n");
+
+		const actions = createSuppressCodeActions(document, [
+			createDiagnostic(0, "avoid-select-star"),
+		]);
+
+		assert.strictEqual(
+			applyAction(document, findAction(actions, "for this statement/batch")),
+			"-- tsqlrefine-disable avoid-select-star\r\nSELECT * FROM t;\r\n-- tsqlrefine-enable avoid-select-star\r\n",
+		);
+	});
+
+	test("closes the final batch without a trailing newline", () => {
+		const document = TextDocument.create(uri, "sql", 1, "SELECT * FROM t;");
+
+		const actions = createSuppressCodeActions(document, [
+			createDiagnostic(0, "avoid-select-star"),
+		]);
+
+		assert.strictEqual(
+			applyAction(document, findAction(actions, "for this statement/batch")),
+			"-- tsqlrefine-disable avoid-select-star\nSELECT * FROM t;\n-- tsqlrefine-enable avoid-select-star",
+		);
+	});
+
+	test("disables the rule for the file at the first line", () => {
+		const document = TextDocument.create(uri, "sql", 1, "SELECT 1;\n");
+
+		const actions = createSuppressCodeActions(document, [
+			createDiagnostic(0, "semicolon"),
+		]);
+
+		assert.strictEqual(
+			applyAction(document, findAction(actions, "for this file")),
+			"-- tsqlrefine-disable semicolon\nSELECT 1;\n",
+		);
+	});
+
+	test("offers one file action per rule and re-lints after applying", () => {
+		const document = TextDocument.create(uri, "sql", 1, "a\nb\n");
+
+		const actions = createSuppressCodeActions(document, [
+			createDiagnostic(0, "rule-a"),
+			createDiagnostic(1, "rule-a"),
+		]);
+
+		assert.strictEqual(
+			actions.filter((action) => action.title.endsWith("for this file")).length,
+			1,
+		);
+		assert.ok(
+			actions.every(
+				(action) =>
+					action.command?.command === "tsqlrefine.run" &&
+					action.command.arguments?.[0] === uri,
+			),
+		);
+	});
+
+	test("offers one action per rule and line", () => {
+		const document = TextDocument.create(uri, "sql", 1, "SELECT a, b;\n");
+		const first = createDiagnostic(0, "rule-a");
+		const second = {
+			...createDiagnostic(0, "rule-a"),
+			range: {
+				start: { line: 0, character: 10 },
+				end: { line: 0, character: 11 },
+			},
+		};
+
+		const actions = createSuppressCodeActions(document, [first, second]);
+
+		assert.deepStrictEqual(
+			actions.map((action) => action.title),
+			[
+				"Disable rule-a for this line",
+				"Disable rule-a for this statement/batch",
+				"Disable rule-a for this file",
+			],
+		);
+		assert.deepStrictEqual(findAction(actions, "for this line").diagnostics, [
+			first,
+			second,
+		]);
+	});
+
+	test("skips diagnostics without a rule ID or from other sources", () => {
+		const document = TextDocument.create(uri, "sql", 1, "SELECT 1;");
+
+		const actions = createSuppressCodeActions(document, [
+			createDiagnostic(0),
+			{ ...createDiagnostic(0, "rule-a"), source: "other" },
+		]);
+
+		assert.deepStrictEqual(actions, []);
+	});
+});
@@ -0,0 +1,148 @@
+import * as assert from "node:assert";
+import * as fc from "fast-check";
+import {
+	computeLineHunks,
+	computeTextChanges,
+	splitLinesWithTerminators,
+	type TextChange,
+} from "../../server/shared/textDiff";
+
+/**
+ * Apply hunks or changes (in ascending order) to the old text.
+ */
+function applyHunks(oldText: string, hunks: TextChange[]): string {
+	let result = "";
+	let cursor = 0;
+	for (const hunk of hunks) {
+		result += oldText.slice(cursor, hunk.oldStartOffset) + hunk.newText;
+		cursor = hunk.oldEndOffset;
+	}
+	return result + oldText.slice(cursor);
+}
+
+suite("textDiff", () => {
+	suite("splitLinesWithTerminators", () => {
+		test("keeps line terminators attached", () => {
+			assert.deepStrictEqual(splitLinesWithTerminators("a\r\nb\nc"), [
+				"a\r\n",
+				"b\n",
+				"c",
+			]);
+		});
+
+		test("returns no lines for empty text", () => {
+			assert.deepStrictEqual(splitLinesWithTerminators(""), []);
+		});
+	});
+
+	suite("computeLineHunks", () => {
+		test("returns no hunks for identical text", () => {
+			assert.deepStrictEqual(computeLineHunks("a\nb\n", "a\nb\n"), []);
+		});
+
+		test("reports a single changed line", () => {
+			const hunks = computeLineHunks("a\nb\nc\n", "a\nB\nc\n");
+
+			assert.deepStrictEqual(hunks, [
+				{
+					oldStartLine: 1,
+					oldEndLine: 2,
+					oldStartOffset: 2,
+					oldEndOffset: 4,
+					newText: "B\n",
+				},
+			]);
+		});
+
+		test("reports separate hunks for non-adjacent changes", () => {
+			const hunks = computeLineHunks("a\nb\nc\nd\n", "A\nb\nc\nD\n");
+
+			assert.deepStrictEqual(
+				hunks.map((hunk) => [hunk.oldStartLine, hunk.oldEndLine]),
+				[
+					[0, 1],
+					[3, 4],
+				],
+			);
+		});
+
+		test("reports inserted lines as empty old ranges", () => {
+			const hunks = computeLineHunks("a\nc\n", "a\nb\nc\n");
+
+			assert.strictEqual(hunks.length, 1);
+			assert.strictEqual(hunks[0]?.oldStartLine, 1);
+			assert.strictEqual(hunks[0]?.oldEndLine, 1);
+			assert.strictEqual(hunks[0]?.newText, "b\n");
+		});
+
+		test("property: applying hunks reproduces the new text", () => {
+			const lines = fc.array(fc.constantFrom("a\n", "b\n", "c\r\n", "d"), {
+				maxLength: 12,
+			});
+			fc.assert(
+				fc.property(lines, lines, (oldLines, newLines) => {
+					const oldText = oldLines.join("");
+					const newText = newLines.join("");
+					return (
+						applyHunks(oldText, computeLineHunks(oldText, newText)) === newText
+					);
+				}),
+			);
+		});
+	});
+
+	suite("computeTextChanges", () => {
+		test("returns no changes for identical text", () => {
+			assert.deepStrictEqual(computeTextChanges("a\nb\n", "a\nb\n"), []);
+		});
+
+		test("narrows a changed line to the changed characters", () => {
+			const changes = computeTextChanges(
+				"SELECT 1;\nselect  a from t;\n",
+				"SELECT 1;\nselect a from t;\n",
+			);
+
+			assert.deepStrictEqual(changes, [
+				{ oldStartOffset: 17, oldEndOffset: 18, newText: "" },
+			]);
+		});
+
+		test("does not split CRLF pairs", () => {
+			const oldText = "a\r\nb";
+			const newText = "a\r\n\r\nb";
+			const changes = computeTextChanges(oldText, newText);
+
+			assert.strictEqual(applyHunks(oldText, changes), newText);
+			for (const change of changes) {
+				assert.notStrictEqual(oldText[change.oldStartOffset - 1], "\r");
+				assert.notStrictEqual(oldText[change.oldEndOffset - 1], "\r");
+			}
+		});
+
+		test("reduces very large changed blocks to a single change", () => {
+			const oldText = `${"select a;\n".repeat(3000)}`;
+			const newText = `${"SELECT a;\n".repeat(3000)}`;
+			const changes = computeTextChanges(oldText, newText);
+
+			assert.strictEqual(changes.length, 1);
+			assert.strictEqual(applyHunks(oldText, changes), newText);
+		});
+
+		test("property: applying changes reproduces the new text", () => {
+			const lines = fc.array(
+				fc.constantFrom("ab\n", "a b\r\n", "\u{1F600}\n", "\r\n", "b"),
+				{ maxLength: 8 },
+			);
+			fc.assert(
+				fc.property(lines, lines, (oldLines, newLines) => {
+					const oldText = oldLines.join("");
+					const newText = newLines.join("");
+					return (
+						applyHunks(oldText, computeTextChanges(oldText, newText)) ===
+						newText
+					);
+				}),
+			);
+		});
+	});
+});
@@ -0,0 +1,149 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	clearToolManifestCache,
+	findToolManifest,
+	isToolManifestPath,
+	parseToolManifest,
+} from "../../server/shared/toolManifest";
+import { rmWithRetry } from "../helpers/cleanup";
+
+function manifestText(
+	tools: Record<string, { version: string; commands: string[] }>,
+	isRoot = false,
+): string {
+	return JSON.stringify({ version: 1, isRoot, tools });
+}
+
+suite("toolManifest", () => {
+	suite("parseToolManifest", () => {
+		test("finds the tool that provides the tsqlrefine command", () => {
+			const manifestPath = path.join("/repo", ".config", "dotnet-tools.json");
+			const { entry, isRoot } = parseToolManifest(
+				manifestText(
+					{
+						"dotnet-ef": { version: "8.0.0", commands: ["dotnet-ef"] },
+						"tsqlrefine.tool": { version: "1.4.2", commands: ["tsqlrefine"] },
+					},
+					true,
+				),
+				manifestPath,
+			);
+
+			assert.deepStrictEqual(entry, {
+				manifestPath,
+				rootDir: path.join("/repo"),
+				packageId: "tsqlrefine.tool",
+				version: "1.4.2",
+				command: "tsqlrefine",
+			});
+			assert.strictEqual(isRoot, true);
+		});
+
+		test("uses the manifest directory as root outside .config", () => {
+			const manifestPath = path.join("/repo", "dotnet-tools.json");
+			const { entry } = parseToolManifest(
+				`\uFEFF${manifestText({ tsqlrefine: { version: "1.0.0", commands: ["tsqlrefine"] } })}`,
+				manifestPath,
+			);
+
+			assert.strictEqual(entry?.rootDir, path.join("/repo"));
+		});
+
+		test("returns no entry when tsqlrefine is not listed", () => {
+			const result = parseToolManifest(
+				manifestText({
+					"dotnet-ef": { version: "8.0.0", commands: ["dotnet-ef"] },
+				}),
+				"/repo/dotnet-tools.json",
+			);
+
+			assert.deepStrictEqual(result, { entry: null, isRoot: false });
+		});
+
+		test("treats invalid JSON as a root without an entry", () => {
+			assert.deepStrictEqual(
+				parseToolManifest("{", "/repo/dotnet-tools.json"),
+				{ entry: null, isRoot: true },
+			);
+		});
+	});
+
+	suite("isToolManifestPath", () => {
+		test("matches dotnet-tools.json only", () => {
+			assert.strictEqual(
+				isToolManifestPath(path.join("/repo", ".config", "dotnet-tools.json")),
+				true,
+			);
+			assert.strictEqual(
+				isToolManifestPath(path.join("/repo", "tsqlrefine.json")),
+				false,
+			);
+		});
+	});
+
+	suite("findToolManifest", () => {
+		let tempDir: string;
+
+		setup(async () => {
+			tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "tsqlrefine-test-"));
+			clearToolManifestCache();
+		});
+
+		teardown(async () => {
+			clearToolManifestCache();
+			await rmWithRetry(tempDir);
+		});
+
+		async function writeManifest(dir: string, text: string): Promise<void> {
+			await fs.mkdir(path.join(dir, ".config"), { recursive: true });
+			await fs.writeFile(path.join(dir, ".config", "dotnet-tools.json"), text);
+		}
+
+		test("finds a manifest in a parent directory", async () => {
+			const nested = path.join(tempDir, "src", "sql");
+			await fs.mkdir(nested, { recursive: true });
+			await writeManifest(
+				tempDir,
+				manifestText({
+					tsqlrefine: { version: "1.4.2", commands: ["tsqlrefine"] },
+				}),
+			);
+
+			const entry = await findToolManifest(nested);
+
+			assert.strictEqual(entry?.rootDir, tempDir);
+			assert.strictEqual(entry?.version, "1.4.2");
+		});
+
+		test("skips manifests without tsqlrefine unless they are roots", async () => {
+			const child = path.join(tempDir, "child");
+			await writeManifest(
+				tempDir,
+				manifestText({
+					tsqlrefine: { version: "1.4.2", commands: ["tsqlrefine"] },
+				}),
+			);
+			await writeManifest(
+				child,
+				manifestText({
+					"dotnet-ef": { version: "8.0.0", commands: ["dotnet-ef"] },
+				}),
+			);
+
+			assert.strictEqual((await findToolManifest(child))?.rootDir, tempDir);
+
+			clearToolManifestCache();
+			await writeManifest(
+				child,
+				manifestText(
+					{ "dotnet-ef": { version: "8.0.0", commands: ["dotnet-ef"] } },
+					true,
+				),
+			);
+			assert.strictEqual(await findToolManifest(child), null);
+		});
+	});
+});
@@ -0,0 +1,91 @@
+import * as assert from "node:assert";
+import type { Connection } from "vscode-languageserver/node";
+import {
+	ToolVersionMonitor,
+	versionMatches,
+} from "../../server/shared/toolVersion";
+
+function createHarness() {
+	const notifications: unknown[] = [];
+	const warnings: string[] = [];
+	const connection = {
+		sendNotification: (method: string, params: unknown) => {
+			assert.strictEqual(method, "tsqlrefine/toolVersion");
+			notifications.push(params);
+		},
+		window: {
+			showWarningMessage: async (message: string) => {
+				warnings.push(message);
+				return undefined;
+			},
+		},
+	} as unknown as Connection;
+	return {
+		monitor: new ToolVersionMonitor(connection),
+		notifications,
+		warnings,
+	};
+}
+
+suite("toolVersion", () => {
+	suite("versionMatches", () => {
+		test("matches exact versions and prefixes at a dot boundary", () => {
+			assert.strictEqual(versionMatches("1.4.2", "1.4.2"), true);
+			assert.strictEqual(versionMatches("1.4.2", "1.4"), true);
+			assert.strictEqual(versionMatches("1.4.2-beta.1", "1.4.2"), true);
+			assert.strictEqual(versionMatches("v1.4.2", "1"), true);
+		});
+
+		test("rejects other versions", () => {
+			assert.strictEqual(versionMatches("1.40.0", "1.4"), false);
+			assert.strictEqual(versionMatches("1.3.9", "1.4"), false);
+			assert.strictEqual(versionMatches("1.4", "1.4.2"), false);
+		});
+	});
+
+	suite("ToolVersionMonitor", () => {
+		test("notifies only when the version changes", () => {
+			const { monitor, notifications, warnings } = createHarness();
+
+			monitor.record("/ws", "1.4.2", undefined);
+			monitor.record("/ws", "1.4.2", undefined);
+			monitor.record("/ws", "1.5.0", undefined);
+
+			assert.deepStrictEqual(notifications, [
+				{ version: "1.4.2", requiredVersion: null, matches: true },
+				{ version: "1.5.0", requiredVersion: null, matches: true },
+			]);
+			assert.deepStrictEqual(warnings, []);
+		});
+
+		test("reports the version of the active folder", () => {
+			const { monitor, notifications } = createHarness();
+
+			monitor.record("/a", "1.4.2", undefined);
+			monitor.record("/b", "1.5.0", undefined);
+			monitor.record("/a", "1.4.2", undefined);
+			monitor.setActive("/b");
+			monitor.record("/a", "1.4.2", undefined);
+			monitor.setActive("/c");
+
+			assert.deepStrictEqual(notifications, [
+				{ version: "1.4.2", requiredVersion: null, matches: true },
+				{ version: "1.5.0", requiredVersion: null, matches: true },
+			]);
+		});
+
+		test("warns once per mismatching version", () => {
+			const { monitor, notifications, warnings } = createHarness();
+
+			monitor.record("/ws", "1.3.0", "1.4");
+			monitor.record("/ws", "1.4.1", "1.4");
+			monitor.record("/ws", "1.3.0", "1.4");
+			monitor.record("/ws", "1.3.0", "1.4");
+
+			assert.strictEqual(notifications.length, 3);
+			assert.deepStrictEqual(warnings, [
+				"tsqlrefine: version 1.3.0 is in use, but tsqlrefine.requiredVersion is 1.4.",
+			]);
+		});
+	});
+});
@@ -0,0 +1,166 @@
+import * as assert from "node:assert";
+import { lintWorkspaceFiles } from "../../server/lint/workspaceLint";
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+	let resolve = () => {};
+	const promise = new Promise<void>((r) => {
+		resolve = r;
+	});
+	return { promise, resolve };
+}
+
+suite("workspaceLint", () => {
+	test("lints every file and sums issues", async () => {
+		const linted: string[] = [];
+
+		const result = await lintWorkspaceFiles({
+			uris: ["a.sql", "b.sql", "c.sql"],
+			maxConcurrentRuns: 2,
+			token: { isCancellationRequested: false },
+			lintFile: async (uri) => {
+				linted.push(uri);
+				return uri === "b.sql" ? 3 : 1;
+			},
+		});
+
+		assert.deepStrictEqual(linted.sort(), ["a.sql", "b.sql", "c.sql"]);
+		assert.deepStrictEqual(result, {
+			linted: 3,
+			failed: 0,
+			issues: 5,
+			cancelled: false,
+		});
+	});
+
+	test("never runs more than maxConcurrentRuns files at once", async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const gates = [deferred(), deferred(), deferred()];
+		let started = 0;
+
+		const resultPromise = lintWorkspaceFiles({
+			uris: ["a.sql", "b.sql", "c.sql"],
+			maxConcurrentRuns: 2,
+			token: { isCancellationRequested: false },
+			lintFile: async () => {
+				const gate = gates[started++];
+				running++;
+				maxRunning = Math.max(maxRunning, running);
+				await gate?.promise;
+				running--;
+				return 0;
+			},
+		});
+
+		await Promise.resolve();
+		for (const gate of gates) {
+			gate.resolve();
+			await new Promise((resolve) => setImmediate(resolve));
+		}
+		await resultPromise;
+
+		assert.strictEqual(maxRunning, 2);
+	});
+
+	test("counts failures and rejected runs separately", async () => {
+		const result = await lintWorkspaceFiles({
+			uris: ["a.sql", "b.sql", "c.sql"],
+			maxConcurrentRuns: 1,
+			token: { isCancellationRequested: false },
+			lintFile: async (uri) => {
+				if (uri === "b.sql") {
+					throw new Error("boom");
+				}
+				return uri === "c.sql" ? -1 : 2;
+			},
+		});
+
+		assert.deepStrictEqual(result, {
+			linted: 1,
+			failed: 2,
+			issues: 2,
+			cancelled: false,
+		});
+	});
+
+	test("stops starting files after cancellation", async () => {
+		const token = { isCancellationRequested: false };
+		const linted: string[] = [];
+
+		const result = await lintWorkspaceFiles({
+			uris: ["a.sql", "b.sql", "c.sql"],
+			maxConcurrentRuns: 1,
+			token,
+			lintFile: async (uri) => {
+				linted.push(uri);
+				token.isCancellationRequested = true;
+				return 0;
+			},
+		});
+
+		assert.deepStrictEqual(linted, ["a.sql"]);
+		assert.strictEqual(result.cancelled, true);
+	});
+
+	test("reports progress for every file", async () => {
+		const progress: Array<[number, number]> = [];
+
+		await lintWorkspaceFiles({
+			uris: ["a.sql", "b.sql"],
+			maxConcurrentRuns: 4,
+			token: { isCancellationRequested: false },
+			lintFile: async () => 0,
+			onProgress: (completed, total) => progress.push([completed, total]),
+		});
+
+		assert.deepStrictEqual(progress, [
+			[1, 2],
+			[2, 2],
+		]);
+	});
+
+	test("batches files accepted by canBatch into chunks", async () => {
+		const batches: string[][] = [];
+		const singles: string[] = [];
+
+		const result = await lintWorkspaceFiles({
+			uris: ["a.sql", "dirty.sql", "b.sql", "c.sql"],
+			maxConcurrentRuns: 1,
+			token: { isCancellationRequested: false },
+			batchSize: 2,
+			canBatch: (uri) => uri !== "dirty.sql",
+			lintBatch: async (uris) => {
+				batches.push(uris);
+				return uris.map(() => 1);
+			},
+			lintFile: async (uri) => {
+				singles.push(uri);
+				return 5;
+			},
+		});
+
+		assert.deepStrictEqual(singles, ["dirty.sql"]);
+		assert.deepStrictEqual(batches, [["a.sql", "b.sql"], ["c.sql"]]);
+		assert.deepStrictEqual(result, {
+			linted: 4,
+			failed: 0,
+			issues: 8,
+			cancelled: false,
+		});
+	});
+
+	test("counts every file of a rejected batch as failed", async () => {
+		const result = await lintWorkspaceFiles({
+			uris: ["a.sql", "b.sql"],
+			maxConcurrentRuns: 1,
+			token: { isCancellationRequested: false },
+			canBatch: () => true,
+			lintBatch: async () => {
+				throw new Error("boom");
+			},
+			lintFile: async () => 0,
+		});
+
+		assert.strictEqual(result.failed, 2);
+	});
+});
@@ -0,0 +1,55 @@
+import * as assert from "node:assert";
+import {
+	buildExcludeGlob,
+	DEFAULT_WORKSPACE_LINT_INCLUDE,
+	normalizeIncludeGlob,
+} from "../../client/workspaceLintGlobs";
+
+suite("workspaceLintGlobs", () => {
+	suite("buildExcludeGlob", () => {
+		test("returns null when nothing is excluded", () => {
+			assert.strictEqual(buildExcludeGlob(undefined, undefined), null);
+			assert.strictEqual(buildExcludeGlob({}, []), null);
+		});
+
+		test("keeps only enabled files.exclude entries", () => {
+			const glob = buildExcludeGlob(
+				{
+					"**/.git": true,
+					"**/node_modules": false,
+					"**/*.js": { when: "$(basename).ts" },
+				},
+				[],
+			);
+
+			assert.strictEqual(glob, "**/.git");
+		});
+
+		test("merges and de-duplicates extension excludes", () => {
+			const glob = buildExcludeGlob({ "**/.git": true }, [
+				"**/migrations/**",
+				" **/.git ",
+				"",
+			]);
+
+			assert.strictEqual(glob, "{**/.git,**/migrations/**}");
+		});
+	});
+
+	suite("normalizeIncludeGlob", () => {
+		test("falls back to the default for empty values", () => {
+			assert.strictEqual(
+				normalizeIncludeGlob(undefined),
+				DEFAULT_WORKSPACE_LINT_INCLUDE,
+			);
+			assert.strictEqual(
+				normalizeIncludeGlob("  "),
+				DEFAULT_WORKSPACE_LINT_INCLUDE,
+			);
+		});
+
+		test("trims configured globs", () => {
+			assert.strictEqual(normalizeIncludeGlob(" db/**/*.sql "), "db/**/*.sql");
+		});
+	});
+});